@@ -1,7 +1,65 @@
-import React, { useState, useRef, useCallback } from 'react';
-import type { Room, Point, WallFeature } from './types';
+import React, { useState, useRef, useCallback, useEffect, useMemo } from 'react';
+import type { Room, RoomType, Point, Plan, PlanSettings, Level, DimensionLine, FurnitureItem, FinishSlot, Material } from './types';
 import InspectorPanel from './components/InspectorPanel';
-import { Ruler, Hand, SquarePlus, Save, FolderOpen, Undo, Redo, Lock } from 'lucide-react';
+import LevelSwitcher from './components/LevelSwitcher';
+import WallLayer from './components/WallLayer';
+import OpeningLayer from './components/OpeningLayer';
+import DimensionLayer from './components/DimensionLayer';
+import SnapGuideLayer from './components/SnapGuideLayer';
+import FurnitureLayer from './components/FurnitureLayer';
+import RoomSchedulePanel from './components/RoomSchedulePanel';
+import IssuesPanel from './components/IssuesPanel';
+import RuleReportPanel from './components/RuleReportPanel';
+import CostEstimatePanel from './components/CostEstimatePanel';
+import HistoryPanel from './components/HistoryPanel';
+import IsometricPreview from './components/IsometricPreview';
+import OutlinePanel from './components/OutlinePanel';
+import type { RoomFlags } from './components/OutlinePanel';
+import CommandPalette from './components/CommandPalette';
+import ArrayDuplicateDialog from './components/ArrayDuplicateDialog';
+import ExportMenu from './components/ExportMenu';
+import ProjectBrowser from './components/ProjectBrowser';
+import RecoveryPrompt from './components/RecoveryPrompt';
+import CollabDialog from './components/CollabDialog';
+import PresenceLayer from './components/PresenceLayer';
+import PlanTextEditor from './components/PlanTextEditor';
+import type { RemotePeer } from './components/PresenceLayer';
+import { DEFAULT_PLAN_SETTINGS, formatLength } from './utils/units';
+import type { RoomChanges } from './utils/arrange';
+import { buildWallGraph, getFeatureConnections } from './utils/walls';
+import { clampRoomFurniture, getFurnitureCenter, placeFurniture } from './utils/furniture';
+import { clampRoomFeatures } from './utils/openings';
+import { snapToRoomEdges, createExteriorDimensions, removeDimensionsForRooms } from './utils/dimensions';
+import type { SnappedPoint } from './utils/dimensions';
+import { snapToGrid, getSnapTargets, snapBounds, snapPoint } from './utils/snapping';
+import type { SnapGuide, SnapOptions } from './utils/snapping';
+import { buildRoomSchedule, scheduleToCsv } from './utils/schedule';
+import { buildCostEstimate, costEstimateToCsv } from './utils/costEstimate';
+import { DEFAULT_MATERIALS, adoptMaterials, createMaterial, getFinishSlotSpec, isMaterialNameTaken, removeFinish } from './utils/materials';
+import { validatePlan } from './utils/validation';
+import { DEFAULT_RULE_SET, parseRuleSet, serializeRuleSet, getStoredRuleSet, setStoredRuleSet } from './utils/roomRules';
+import { ROOM_TYPES, getRoomTypeDefaults, getRoomTemplateSize } from './utils/roomTypes';
+import type { PlanIssue } from './utils/validation';
+import { findCommandForEvent, isTypingTarget } from './utils/commands';
+import type { Command } from './utils/commands';
+import { expandGroups, moveInStack, groupRooms, nextGroupName } from './utils/outline';
+import { serializeClipboard, parseClipboard, copyRooms, getPasteOffset, arrayRooms } from './utils/clipboard';
+import { createHistory, previewChange, commitChange, jumpTo, applyRemoteChange, getHeadId, serializeHistory, restoreHistory } from './utils/history';
+import type { CommitOptions } from './utils/history';
+import { createDoc, createClock, mergeOps, observeOps, diffPlanOps, planToOps, docToOps, docToPlan, applyOpsToPlan, repairPlan } from './utils/crdt';
+import type { Clock, CrdtDoc, CrdtOp } from './utils/crdt';
+import { connectCollab, getCollabPrefs, setCollabPrefs, pickPeerColor } from './utils/collab';
+import type { CollabConnection, CollabPrefs, CollabStatus, Peer, ServerMessage } from './utils/collab';
+import { downloadFile } from './utils/download';
+import { exportPlanSvg } from './utils/svgExport';
+import { exportPlanDxf, importDxf } from './utils/dxf';
+import { CURRENT_PLAN_VERSION, parsePlanFile, serializePlan } from './utils/planFile';
+import { parsePlanText, printPlanText, formatPlanTextError } from './utils/planText';
+import { putProject, getAutosave, putAutosave, clearAutosave, createThumbnail, getKeepHistory, setKeepHistory } from './utils/projectStore';
+import type { AutosaveRecord, ProjectRecord } from './utils/projectStore';
+import { DEFAULT_LEVEL, sortLevels, getLevelsBelow, createLevelAbove, copyRoomsToLevel } from './utils/levels';
+import { Ruler, Hand, SquarePlus, Pentagon, RulerDimensionLine, Frame, Save, FolderOpen, Library, Undo, Redo, Lock, Table, ShieldAlert, Scan, Command as CommandIcon, CopyPlus, Grid2x2Plus, History, ListTree, Box, Users, LogOut, SquareCode, ClipboardCheck, TriangleAlert, Calculator } from 'lucide-react';
+import { isPolygonRoom, getRoomOutline, getRoomRotation, getRoomCenter, normalizeAngle, toLocalPoint, placeLocalBox, getPolygonLabelPoint, normalizePolygon, scaleRoomVertices, pointsToSvg, distance, getPolygonArea, getRoomBounds, getPointsBounds, boundsIntersect } from './utils/geometry';
 
 const ROOM_COLORS = [
     // Cool Tones
@@ -19,145 +77,196 @@ const ROOM_COLORS = [
     '#E5E7EB', '#D1D5DB', '#9CA3AF', // Gray
 ];
 
-const GRID_SIZE = 10;
-const snapToGrid = (value: number) => Math.round(value / GRID_SIZE) * GRID_SIZE;
+const MAX_LOAD_ERRORS_SHOWN = 12;
+const AUTOSAVE_DELAY = 1000; // ms after the last edit
+const UNTITLED_PLAN = 'Untitled plan';
+const MEASURE_SNAP_DISTANCE = 10; // screen px
+const SNAP_DISTANCE = 8; // screen px within which rooms snap to each other
+const ROTATION_STEP = 15; // degrees the rotate handle snaps to
+const EXTERIOR_DIMENSION_GAP = 40; // world units between the plan and its overall dimensions
+const ZOOM_TO_FIT_PADDING = 40; // screen px
+const MIN_ZOOM = 0.2;
+const MAX_ZOOM = 5;
+const PASTE_STEP = 20; // world units between a copy and the room it was copied from
+const COLLAB_SEND_INTERVAL = 50; // ms between batches of edits or presence sent to the relay
 
 
-const darkenColor = (color: string, amount = 40) => {
-  if (color.startsWith('#')) {
-    let r = parseInt(color.substring(1, 3), 16);
-    let g = parseInt(color.substring(3, 5), 16);
-    let b = parseInt(color.substring(5, 7), 16);
-    r = Math.max(0, r - amount);
-    g = Math.max(0, g - amount);
-    b = Math.max(0, b - amount);
-    const toHex = (c: number) => `0${c.toString(16)}`.slice(-2);
-    return `#${toHex(r)}${toHex(g)}${toHex(b)}`;
-  }
-  return color;
-};
-
-const useHistory = <T,>(initialState: T) => {
-    const [history, setHistory] = useState<T[]>([initialState]);
-    const [index, setIndex] = useState(0);
+const useHistory = (initialPlan: Plan) => {
+    const [history, setHistory] = useState(() => createHistory(initialPlan));
 
-    const setState = (action: React.SetStateAction<T>, overwrite = false) => {
-        const newState = typeof action === 'function' ? (action as (prevState: T) => T)(history[index]) : action;
-        if (overwrite) {
-            const newHistory = [...history];
-            newHistory[index] = newState;
-            setHistory(newHistory);
-        } else {
-            const newHistory = history.slice(0, index + 1);
-            newHistory.push(newState);
-            setHistory(newHistory);
-            setIndex(newHistory.length - 1);
-        }
+    const resolve = (action: React.SetStateAction<Plan>, prev: Plan) => typeof action === 'function' ? action(prev) : action;
+    // Records a step right away
+    const setState = (action: React.SetStateAction<Plan>, options?: CommitOptions) =>
+        setHistory(h => commitChange(previewChange(h, resolve(action, h.present)), options));
+    // Shows a change without recording it, so a drag becomes one step when it is committed
+    const preview = (action: React.SetStateAction<Plan>) => setHistory(h => previewChange(h, resolve(action, h.present)));
+    const commit = (options?: CommitOptions) => setHistory(h => commitChange(h, options));
+    const jump = (index: number) => setHistory(h => jumpTo(h, index));
+    const undo = () => setHistory(h => jumpTo(h, h.index - 1));
+    const redo = () => setHistory(h => jumpTo(h, h.index + 1));
+    // Someone else's edit in a shared session; it is not ours to undo
+    const applyRemote = (change: (plan: Plan) => Plan) => setHistory(h => applyRemoteChange(h, change));
+    // Starts a fresh history, e.g. when another project is opened; returns the new head id
+    const reset = (state: Plan, stored?: string) => {
+        const next = restoreHistory(stored, state, CURRENT_PLAN_VERSION);
+        setHistory(next);
+        return getHeadId(next);
     };
-    
-    const undo = () => index > 0 && setIndex(index - 1);
-    const redo = () => index < history.length - 1 && setIndex(index + 1);
 
     return {
-        state: history[index],
+        state: history.present,
+        history,
+        headId: getHeadId(history),
         setState,
+        preview,
+        commit,
         undo,
         redo,
-        canUndo: index > 0,
-        canRedo: index < history.length - 1,
-    };
-};
-
-const getFeatureStyle = (feature: WallFeature, room: Room): React.CSSProperties => {
-    const style: React.CSSProperties = {
-        position: 'absolute',
-        backgroundColor: feature.type === 'window' ? '#a7d8f3' : '#a36b4f',
-        border: '1px solid #333',
-        boxSizing: 'border-box'
+        jump,
+        reset,
+        applyRemote,
+        canUndo: history.index > 0,
+        canRedo: history.index < history.entries.length,
     };
-
-    const wallThickness = 2;
-    const featureDepth = 8;
-
-    switch (feature.wall) {
-        case 'top':
-            style.width = feature.width;
-            style.height = featureDepth;
-            style.left = room.width * feature.position - feature.width / 2;
-            style.top = -featureDepth / 2 + wallThickness/2;
-            break;
-        case 'bottom':
-            style.width = feature.width;
-            style.height = featureDepth;
-            style.left = room.width * feature.position - feature.width / 2;
-            style.top = room.height - featureDepth / 2 - wallThickness/2;
-            break;
-        case 'left':
-            style.width = featureDepth;
-            style.height = feature.width;
-            style.left = -featureDepth/2 + wallThickness/2;
-            style.top = room.height * feature.position - feature.width / 2;
-            break;
-        case 'right':
-            style.width = featureDepth;
-            style.height = feature.width;
-            style.left = room.width - featureDepth/2 - wallThickness/2;
-            style.top = room.height * feature.position - feature.width / 2;
-            break;
-    }
-    return style;
 };
 
 type ResizeHandle = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+type PolygonHandle = { kind: 'vertex' | 'edge'; index: number };
 
 interface RoomProps {
   room: Room;
+  settings: PlanSettings;
   isSelected: boolean;
+  ruleWarning?: string; // the room rules it fails, one per line
   onMouseDown: (e: React.MouseEvent, room: Room) => void;
   onResizeStart: (e: React.MouseEvent, room: Room, handle: ResizeHandle) => void;
+  onPolygonHandleStart: (e: React.MouseEvent, room: Room, handle: PolygonHandle) => void;
+  onRotateStart: (e: React.MouseEvent, room: Room) => void;
 }
 
-const RoomComponent: React.FC<RoomProps> = React.memo(({ room, isSelected, onMouseDown, onResizeStart }) => {
+const ROTATE_HANDLE_OFFSET = 24; // world units above the room's top edge
+
+const RoomComponent: React.FC<RoomProps> = React.memo(({ room, settings, isSelected, ruleWarning, onMouseDown, onResizeStart, onPolygonHandleStart, onRotateStart }) => {
+  const polygon = isPolygonRoom(room);
+  // Walls are drawn once for the whole plan by WallLayer; the room outline only marks selection
+  const borderColor = isSelected ? '#3B82F6' : 'transparent';
+  const cursor = room.locked ? 'not-allowed' : 'grab';
   const roomStyle: React.CSSProperties = {
     left: room.x,
     top: room.y,
     width: room.width,
     height: room.height,
-    backgroundColor: room.color,
-    borderColor: isSelected ? '#3B82F6' : darkenColor(room.color),
-    cursor: room.locked ? 'not-allowed' : 'grab',
+    backgroundColor: polygon ? 'transparent' : room.color,
+    borderColor,
+    cursor,
     zIndex: room.zIndex || 0,
+    // Polygon rooms are hit-tested on their SVG shape rather than the bounding box
+    pointerEvents: polygon ? 'none' : undefined,
+    // Turning about the box centre matches toWorldPoint, and the browser hit-tests the turned shape
+    transform: getRoomRotation(room) ? `rotate(${getRoomRotation(room)}deg)` : undefined,
   };
 
   const RESIZE_HANDLE_SIZE = 8;
   const handles: ResizeHandle[] = ['top-left', 'top-right', 'bottom-left', 'bottom-right'];
+  const labelPoint = polygon ? getPolygonLabelPoint(room.vertices!) : null;
 
   return (
     <div
       key={room.id}
-      className={`absolute select-none border-2 transition-shadow duration-150 ${
-        isSelected ? 'shadow-lg' : ''
+      className={`absolute select-none transition-shadow duration-150 ${polygon ? '' : 'border-2'} ${
+        isSelected && !polygon ? 'shadow-lg' : ''
       }`}
       style={roomStyle}
       onMouseDown={(e) => onMouseDown(e, room)}
     >
-      <div className="relative w-full h-full">
-         {room.features?.map(feature => (
-             <div key={feature.id} style={getFeatureStyle(feature, room)} />
-         ))}
-      </div>
+      {polygon && (
+        <svg className="absolute inset-0 overflow-visible" width={room.width} height={room.height}>
+          <polygon
+            points={pointsToSvg(room.vertices!)}
+            fill={room.color}
+            stroke={isSelected ? borderColor : 'none'}
+            strokeWidth={2}
+            strokeLinejoin="miter"
+            style={{ pointerEvents: 'visiblePainted', cursor, filter: isSelected ? 'drop-shadow(0 4px 6px rgba(0,0,0,0.15))' : undefined }}
+          />
+        </svg>
+      )}
        {room.locked && (
           <div className="absolute top-1 left-1 p-1 bg-black bg-opacity-20 rounded-full pointer-events-none">
               <Lock className="w-3 h-3 text-white" />
           </div>
       )}
-      <div className="absolute inset-0 flex flex-col items-center justify-center h-full text-center p-2 overflow-hidden pointer-events-none">
-        <span className="font-bold text-sm text-gray-800 truncate">{room.name}</span>
-        <span className="text-xs text-gray-600">
-          {Math.round(room.width)} x {Math.round(room.height)}
-        </span>
-      </div>
-       {isSelected && !room.locked && handles.map(handle => {
+       {ruleWarning && (
+          <div className="absolute top-1 right-1 p-1 bg-amber-500 rounded-full" title={ruleWarning}>
+              <TriangleAlert className="w-3 h-3 text-white" />
+          </div>
+      )}
+      {labelPoint ? (
+        <div
+          className="absolute flex flex-col items-center text-center whitespace-nowrap pointer-events-none"
+          style={{ left: labelPoint.x, top: labelPoint.y, transform: 'translate(-50%, -50%)' }}
+        >
+          <span className="font-bold text-sm text-gray-800">{room.name}</span>
+          <span className="text-xs text-gray-600">
+            {formatLength(room.width, settings)} x {formatLength(room.height, settings)}
+          </span>
+        </div>
+      ) : (
+        <div className="absolute inset-0 flex flex-col items-center justify-center h-full text-center p-2 overflow-hidden pointer-events-none">
+          <span className="font-bold text-sm text-gray-800 truncate">{room.name}</span>
+          <span className="text-xs text-gray-600">
+            {formatLength(room.width, settings)} x {formatLength(room.height, settings)}
+          </span>
+        </div>
+      )}
+       {isSelected && !room.locked && polygon && room.vertices!.map((vertex, index) => {
+          const next = room.vertices![(index + 1) % room.vertices!.length];
+          const handleStyle: React.CSSProperties = {
+              position: 'absolute',
+              width: RESIZE_HANDLE_SIZE,
+              height: RESIZE_HANDLE_SIZE,
+              border: '1px solid #fff',
+              zIndex: (room.zIndex || 0) + 1,
+              pointerEvents: 'auto',
+          };
+          return (
+              <React.Fragment key={index}>
+                  <div
+                      style={{ ...handleStyle, left: vertex.x - RESIZE_HANDLE_SIZE / 2, top: vertex.y - RESIZE_HANDLE_SIZE / 2, backgroundColor: '#3B82F6', borderRadius: '2px', cursor: 'move' }}
+                      onMouseDown={(e) => onPolygonHandleStart(e, room, { kind: 'vertex', index })}
+                      title="Drag vertex"
+                  />
+                  <div
+                      style={{ ...handleStyle, left: (vertex.x + next.x) / 2 - RESIZE_HANDLE_SIZE / 2, top: (vertex.y + next.y) / 2 - RESIZE_HANDLE_SIZE / 2, backgroundColor: '#93C5FD', borderRadius: '50%', cursor: 'pointer' }}
+                      onMouseDown={(e) => onPolygonHandleStart(e, room, { kind: 'edge', index })}
+                      title="Drag edge"
+                  />
+              </React.Fragment>
+          );
+      })}
+       {isSelected && !room.locked && (
+          <>
+              <div className="absolute w-px bg-blue-500 pointer-events-none" style={{ left: room.width / 2, top: -ROTATE_HANDLE_OFFSET, height: ROTATE_HANDLE_OFFSET }} />
+              <div
+                  style={{
+                      position: 'absolute',
+                      left: room.width / 2 - RESIZE_HANDLE_SIZE / 2 - 1,
+                      top: -ROTATE_HANDLE_OFFSET - RESIZE_HANDLE_SIZE / 2 - 1,
+                      width: RESIZE_HANDLE_SIZE + 2,
+                      height: RESIZE_HANDLE_SIZE + 2,
+                      backgroundColor: '#fff',
+                      border: '2px solid #3B82F6',
+                      borderRadius: '50%',
+                      cursor: 'grab',
+                      zIndex: (room.zIndex || 0) + 1,
+                      pointerEvents: 'auto',
+                  }}
+                  onMouseDown={(e) => onRotateStart(e, room)}
+                  title="Drag to rotate (snaps to 15°, hold Alt to turn freely)"
+              />
+          </>
+      )}
+       {isSelected && !room.locked && !polygon && handles.map(handle => {
           const style: React.CSSProperties = {
               position: 'absolute',
               width: RESIZE_HANDLE_SIZE,
@@ -186,44 +295,152 @@ const RoomComponent: React.FC<RoomProps> = React.memo(({ room, isSelected, onMou
   );
 });
 
-const GridBackground = ({ transform }: { transform: { scale: number, x: number, y: number }}) => {
-    const scaledGridSize = GRID_SIZE * transform.scale;
+const GridBackground = ({ transform, settings }: { transform: { scale: number, x: number, y: number }, settings: PlanSettings }) => {
+    const minor = settings.gridSize * transform.scale;
+    const major = minor * settings.majorGridEvery;
+    // Minor lines are dropped once they get too dense to read
+    const showMinor = minor >= 6;
+    const lines = (color: string) => [
+        `linear-gradient(to right, ${color} 1px, transparent 1px)`,
+        `linear-gradient(to bottom, ${color} 1px, transparent 1px)`,
+    ];
   
     return (
-      <div 
-        className="absolute inset-0 w-full h-full"
-        style={{
-          backgroundSize: `${scaledGridSize}px ${scaledGridSize}px`,
-          backgroundPosition: `${transform.x % scaledGridSize}px ${transform.y % scaledGridSize}px`,
-          backgroundImage: `radial-gradient(#e0e0e0 1px, transparent 1px)`,
-          opacity: 0.75,
-        }}
-      />
+      <>
+        <div 
+          className="absolute inset-0 w-full h-full"
+          style={{
+            backgroundSize: [major, major, ...(showMinor ? [minor, minor] : [])].map(size => `${size}px ${size}px`).join(', '),
+            backgroundPosition: [major, major, ...(showMinor ? [minor, minor] : [])].map(size => `${transform.x % size}px ${transform.y % size}px`).join(', '),
+            backgroundImage: [...lines('#d4d4d8'), ...(showMinor ? lines('#f0f0f2') : [])].join(', '),
+            opacity: 0.75,
+          }}
+        />
+        <div className="absolute bottom-2 left-2 px-2 py-1 text-xs text-gray-500 bg-white bg-opacity-80 rounded pointer-events-none" style={{ zIndex: 10001 }}>
+          Grid: {formatLength(settings.gridSize, settings)} · Hold Alt to place freely
+        </div>
+      </>
     );
   };
 
 
+const GhostUnderlay = ({ rooms }: { rooms: Room[] }) => (
+    <svg className="absolute left-0 top-0 overflow-visible pointer-events-none" width={1} height={1} style={{ opacity: 0.35 }}>
+        {rooms.map(room => (
+            <polygon
+                key={room.id}
+                points={pointsToSvg(getRoomOutline(room))}
+                fill="#E5E7EB"
+                stroke="#6B7280"
+                strokeWidth={2}
+                strokeDasharray="4 3"
+            />
+        ))}
+    </svg>
+);
+
+
 const App: React.FC = () => {
-    const initialRooms: Room[] = [
-        { id: 'living-room-1', name: 'Living Room', x: 50, y: 50, width: 300, height: 200, color: ROOM_COLORS[0], zIndex: 0, features: [], locked: false },
-        { id: 'kitchen-1', name: 'Kitchen', x: 350, y: 50, width: 150, height: 150, color: ROOM_COLORS[1], zIndex: 1, features: [], locked: false },
-    ];
+    const initialPlan: Plan = {
+        settings: DEFAULT_PLAN_SETTINGS,
+        levels: [DEFAULT_LEVEL],
+        rooms: [
+            { id: 'living-room-1', name: 'Living Room', x: 50, y: 50, width: 300, height: 200, color: ROOM_COLORS[0], zIndex: 0, features: [], locked: false, levelId: DEFAULT_LEVEL.id },
+            { id: 'kitchen-1', name: 'Kitchen', x: 350, y: 50, width: 150, height: 150, color: ROOM_COLORS[1], zIndex: 1, features: [], locked: false, levelId: DEFAULT_LEVEL.id },
+        ],
+        dimensions: [],
+        materials: DEFAULT_MATERIALS,
+    };
     
-  const { state: rooms, setState: setRooms, undo, redo, canUndo, canRedo } = useHistory(initialRooms);
+  const { state: plan, history, headId, setState: setPlan, preview: previewPlan, commit: commitPlan, undo, redo, jump: jumpToStep, reset: resetPlan, applyRemote, canUndo, canRedo } = useHistory(initialPlan);
+  const { rooms, settings, levels, dimensions } = plan;
+
+  // The library entry being edited, and the plan as it was last saved there
+  const [project, setProject] = useState<{ id: string | null; name: string }>({ id: null, name: UNTITLED_PLAN });
+  // History step that was last saved, or null for a plan that was never saved
+  const [savedHeadId, setSavedHeadId] = useState<string | null>(headId);
+  const isDirty = headId !== savedHeadId;
+  const [recovery, setRecovery] = useState<AutosaveRecord | null>(null);
+  // Autosave stays off until any earlier autosave has been recovered or discarded
+  const [autosaveReady, setAutosaveReady] = useState(false);
+  const [showProjects, setShowProjects] = useState(false);
+  const [showPalette, setShowPalette] = useState(false);
+  const [showArrayDialog, setShowArrayDialog] = useState(false);
+  const [showOutline, setShowOutline] = useState(true);
+  const [showPlanText, setShowPlanText] = useState(false);
+
+  const [activeLevelId, setActiveLevelId] = useState(DEFAULT_LEVEL.id);
+  const [showGhosts, setShowGhosts] = useState(true);
+  // Undo can remove the level being viewed, so fall back to the lowest one
+  const activeLevel = levels.find(l => l.id === activeLevelId) ?? sortLevels(levels)[0];
+  const levelRooms = useMemo(() => rooms.filter(r => r.levelId === activeLevel.id), [rooms, activeLevel.id]);
+  const wallGraph = useMemo(() => buildWallGraph(levelRooms), [levelRooms]);
+  // Hidden rooms stay in the plan but are left off the canvas, and nothing snaps to them
+  const visibleRooms = useMemo(() => levelRooms.filter(r => !r.hidden), [levelRooms]);
+  const visibleWalls = useMemo(() => visibleRooms.length === levelRooms.length ? wallGraph : buildWallGraph(visibleRooms), [visibleRooms, levelRooms, wallGraph]);
+  const featureConnections = useMemo(() => getFeatureConnections(wallGraph), [wallGraph]);
+  const belowLevelIds = new Set(getLevelsBelow(levels, activeLevel).map(l => l.id));
+  const ghostRooms = showGhosts ? rooms.filter(r => belowLevelIds.has(r.levelId)) : [];
+  const levelDimensions = useMemo(() => dimensions.filter(d => d.levelId === activeLevel.id), [dimensions, activeLevel.id]);
+
+  const setRooms = (action: React.SetStateAction<Room[]>, options?: CommitOptions) => {
+    setPlan(prev => ({
+        ...prev,
+        rooms: typeof action === 'function' ? action(prev.rooms) : action,
+    }), options);
+  };
+
+  // Room changes shown during a drag; commitPlan() turns them into one undo step on release
+  const previewRooms = (action: React.SetStateAction<Room[]>) => {
+    previewPlan(prev => ({
+        ...prev,
+        rooms: typeof action === 'function' ? action(prev.rooms) : action,
+    }));
+  };
   
-  const [selectedRoomId, setSelectedRoomId] = useState<string | null>(null);
+  const [selectedRoomIds, setSelectedRoomIds] = useState<string[]>([]);
+  // A furniture item can be selected within the single selected room
+  const [selectedItemId, setSelectedItemId] = useState<string | null>(null);
+  // The issue last clicked in the issues panel; its openings are highlighted on the canvas
+  const [activeIssueId, setActiveIssueId] = useState<string | null>(null);
+  const selectRooms = useCallback((ids: string[]) => {
+    setSelectedRoomIds(ids);
+    setSelectedItemId(null);
+    setActiveIssueId(null);
+  }, []);
+  const selectRoom = useCallback((id: string | null) => selectRooms(id ? [id] : []), [selectRooms]);
+  // Rooms with a type are checked against these rules; imported sets are kept in this browser
+  const [ruleSet, setRuleSet] = useState(getStoredRuleSet);
+  const issues = useMemo(() => validatePlan(plan, ruleSet), [plan, ruleSet]);
+  const ruleIssues = useMemo(() => issues.filter(i => i.check === 'room-rule'), [issues]);
+  const ruleWarnings = useMemo(() => {
+    const warnings = new Map<string, string>();
+    ruleIssues.forEach(issue => issue.roomIds.forEach(id => warnings.set(id, warnings.has(id) ? `${warnings.get(id)}\n${issue.message}` : issue.message)));
+    return warnings;
+  }, [ruleIssues]);
+  const highlightedFeatureIds = useMemo(() => issues.find(i => i.id === activeIssueId)?.featureIds ?? [], [issues, activeIssueId]);
   
-  const [mode, setMode] = useState<'select' | 'draw'>('select');
+  const [mode, setMode] = useState<'select' | 'draw' | 'measure'>('select');
+  const [drawShape, setDrawShape] = useState<'rect' | 'polygon'>('rect');
+  // Rooms drawn with a type are named and coloured after it; a click places one at its template size
+  const [drawType, setDrawType] = useState<RoomType | ''>('');
   
   const [actionState, setActionState] = useState<{
-    type: 'none' | 'drawing' | 'moving' | 'resizing';
+    type: 'none' | 'drawing' | 'moving' | 'resizing' | 'reshaping' | 'rotating' | 'marquee' | 'measuring' | 'movingItem';
     startPoint?: Point;
     moveOffset?: Point;
     targetId?: string;
+    originPositions?: Record<string, Point>; // every room travelling with a group move
     isDragging?: boolean;
     handle?: ResizeHandle;
+    itemId?: string;
+    polygonHandle?: PolygonHandle;
+    originalOutline?: Point[];
   }>({ type: 'none' });
 
+  const [bottomPanel, setBottomPanel] = useState<'schedule' | 'costs' | 'issues' | 'rules' | 'history' | 'preview' | null>(null);
+  const [keepHistory, setKeepHistoryState] = useState(getKeepHistory);
+
   const [viewTransform, setViewTransform] = useState({ scale: 1, x: 0, y: 0 });
   const [isPanning, setIsPanning] = useState(false);
   const panStartRef = useRef({ x: 0, y: 0 });
@@ -232,6 +449,48 @@ const App: React.FC = () => {
   const fileInputRef = useRef<HTMLInputElement>(null);
   
   const [drawingPreview, setDrawingPreview] = useState<{start: Point, end: Point} | null>(null);
+  const [marquee, setMarquee] = useState<{start: Point, end: Point} | null>(null);
+  const [polygonDraft, setPolygonDraft] = useState<{ points: Point[], cursor: Point } | null>(null);
+  const [tape, setTape] = useState<{ start: SnappedPoint, end: SnappedPoint, done: boolean } | null>(null);
+  const [snapGuides, setSnapGuides] = useState<SnapGuide[]>([]);
+
+  // Live editing. The shared doc and the plan it last matched are kept in a ref, so each local
+  // change is diffed against that plan into operations, and remote operations land in both
+  const collabRef = useRef<{ connection: CollabConnection; peer: Peer; session: string; doc: CrdtDoc; clock: Clock; synced: Plan | null; pending: CrdtOp[] } | null>(null);
+  const [collab, setCollab] = useState<{ session: string; status: CollabStatus } | null>(null);
+  const [showCollabDialog, setShowCollabDialog] = useState(false);
+  const [peers, setPeers] = useState<RemotePeer[]>([]);
+  const opsTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const presenceTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const cursorRef = useRef<Point | null>(null);
+  const presenceRef = useRef({ levelId: activeLevel.id, selection: selectedRoomIds });
+  presenceRef.current = { levelId: activeLevel.id, selection: selectedRoomIds };
+
+  // Operations and presence go out in batches, so a drag sends a few messages a second, not one per frame
+  const flushOps = useCallback(() => {
+    if (opsTimerRef.current) return;
+    opsTimerRef.current = setTimeout(() => {
+        opsTimerRef.current = null;
+        const state = collabRef.current;
+        if (!state || state.pending.length === 0) return;
+        // Whatever cannot be sent now goes out with the full doc when the connection comes back
+        state.connection.send({ type: 'ops', ops: state.pending });
+        state.pending = [];
+    }, COLLAB_SEND_INTERVAL);
+  }, []);
+
+  const sendPresence = useCallback(() => {
+    if (!collabRef.current || presenceTimerRef.current) return;
+    presenceTimerRef.current = setTimeout(() => {
+        presenceTimerRef.current = null;
+        collabRef.current?.connection.send({ type: 'presence', presence: { ...presenceRef.current, cursor: cursorRef.current } });
+    }, COLLAB_SEND_INTERVAL);
+  }, []);
+
+  const reportCursor = useCallback((cursor: Point | null) => {
+    cursorRef.current = cursor;
+    sendPresence();
+  }, [sendPresence]);
 
   const getMouseWorldPos = useCallback((e: React.MouseEvent | MouseEvent): Point => {
     if (!canvasRef.current) return { x: 0, y: 0 };
@@ -241,6 +500,73 @@ const App: React.FC = () => {
     return { x: x, y: y };
   }, [viewTransform]);
 
+  // The tape measure prefers room corners and edges, and falls back to the grid
+  const snapMeasurePoint = useCallback((pos: Point): SnappedPoint =>
+    snapToRoomEdges(pos, visibleRooms, MEASURE_SNAP_DISTANCE / viewTransform.scale)
+        ?? { point: { x: snapToGrid(pos.x, settings.gridSize), y: snapToGrid(pos.y, settings.gridSize) } },
+  [visibleRooms, viewTransform.scale, settings.gridSize]);
+
+  // Holding Alt turns snapping off so rooms can be placed freely
+  const getSnapOptions = useCallback((e: React.MouseEvent): SnapOptions => ({
+    gridSize: settings.gridSize,
+    tolerance: SNAP_DISTANCE / viewTransform.scale,
+    enabled: !e.altKey,
+  }), [settings.gridSize, viewTransform.scale]);
+
+  const levelSnapTargets = useMemo(() => getSnapTargets(visibleRooms), [visibleRooms]);
+
+  const finishPolygon = useCallback((points: Point[]) => {
+    setPolygonDraft(null);
+    setMode('select');
+    if (points.length < 3 || getPolygonArea(points) < settings.gridSize * settings.gridSize) return;
+
+    const maxZ = rooms.length > 0 ? Math.max(...rooms.map(r => r.zIndex)) : -1;
+    const newRoom: Room = {
+      id: crypto.randomUUID(),
+      name: `Room ${rooms.length + 1}`,
+      ...normalizePolygon(points),
+      shape: 'polygon',
+      levelId: activeLevel.id,
+      color: ROOM_COLORS[rooms.length % ROOM_COLORS.length],
+      zIndex: maxZ + 1,
+      features: [],
+      locked: false,
+      ...(drawType && getRoomTypeDefaults(drawType, rooms)),
+    };
+    setRooms(prev => [...prev, newRoom]);
+    selectRoom(newRoom.id);
+  }, [rooms, activeLevel.id, settings.gridSize, drawType, setRooms]);
+
+  const addPolygonPoint = useCallback((point: Point) => {
+    selectRoom(null);
+    if (!polygonDraft) {
+      setPolygonDraft({ points: [point], cursor: point });
+      return;
+    }
+    const { points } = polygonDraft;
+    const first = points[0];
+    const last = points[points.length - 1];
+    // Clicking the first vertex closes the outline; a double-click lands on the last one twice
+    if (distance(point, first) < settings.gridSize || distance(point, last) === 0) {
+      finishPolygon(points);
+      return;
+    }
+    setPolygonDraft({ points: [...points, point], cursor: point });
+  }, [polygonDraft, finishPolygon, settings.gridSize]);
+
+  useEffect(() => {
+    if (!polygonDraft) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        setPolygonDraft(null);
+        setSnapGuides([]);
+      }
+      if (e.key === 'Enter') finishPolygon(polygonDraft.points);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [polygonDraft, finishPolygon]);
+
   const handleMouseDown = useCallback((e: React.MouseEvent) => {
     if (e.button === 1) { 
         e.preventDefault();
@@ -251,39 +577,84 @@ const App: React.FC = () => {
     
     const pos = getMouseWorldPos(e);
     
-    if (mode === 'draw') {
-      const startPoint = { x: snapToGrid(pos.x), y: snapToGrid(pos.y) };
+    if (mode === 'draw' && drawShape === 'polygon') {
+      if (e.button === 0) addPolygonPoint(snapPoint(pos, levelSnapTargets, getSnapOptions(e)).point);
+    } else if (mode === 'measure') {
+      if (e.button !== 0) return;
+      const start = snapMeasurePoint(pos);
+      setActionState({ type: 'measuring' });
+      setTape({ start, end: start, done: false });
+    } else if (mode === 'draw') {
+      const startPoint = snapPoint(pos, levelSnapTargets, getSnapOptions(e)).point;
       setActionState({ type: 'drawing', startPoint });
       setDrawingPreview({ start: startPoint, end: startPoint });
-      setSelectedRoomId(null);
+      selectRoom(null);
+    } else if (e.button === 0 && e.shiftKey) {
+      // Shift-drag on empty canvas rubber-bands a selection instead of panning
+      setActionState({ type: 'marquee', startPoint: pos });
+      setMarquee({ start: pos, end: pos });
     } else {
-      setSelectedRoomId(null);
+      selectRoom(null);
       if (e.button === 0) {
         setIsPanning(true);
         panStartRef.current = { x: e.clientX, y: e.clientY };
       }
     }
-  }, [mode, getMouseWorldPos]);
+  }, [mode, drawShape, getMouseWorldPos, snapMeasurePoint, getSnapOptions, levelSnapTargets, addPolygonPoint, selectRoom]);
 
   const handleRoomMouseDown = useCallback((e: React.MouseEvent, room: Room) => {
-    if (mode === 'draw' || room.locked) return;
+    if (mode !== 'select') return;
 
     e.stopPropagation();
-    if (e.button === 0) {
-      const pos = getMouseWorldPos(e);
-      setSelectedRoomId(room.id);
-      setActionState({
-        type: 'moving',
-        targetId: room.id,
-        isDragging: false,
-        moveOffset: {
-          x: pos.x - room.x,
-          y: pos.y - room.y,
-        },
-      });
+    if (e.button !== 0) return;
+
+    // A room in a group picks up the whole group
+    const clicked = expandGroups([room.id], levelRooms);
+    if (e.shiftKey) {
+      setSelectedRoomIds(ids => ids.includes(room.id) ? ids.filter(id => !clicked.includes(id)) : [...ids, ...clicked.filter(id => !ids.includes(id))]);
+      return;
     }
-  }, [mode, getMouseWorldPos]);
+
+    // Grabbing a room that is already part of the selection drags the whole selection
+    const groupIds = selectedRoomIds.includes(room.id) ? selectedRoomIds : clicked;
+    if (!selectedRoomIds.includes(room.id)) selectRooms(clicked);
+    if (room.locked) return;
+
+    const pos = getMouseWorldPos(e);
+    const originPositions: Record<string, Point> = {};
+    rooms.forEach(r => {
+      if (groupIds.includes(r.id) && !r.locked) originPositions[r.id] = { x: r.x, y: r.y };
+    });
+    setActionState({
+      type: 'moving',
+      targetId: room.id,
+      isDragging: false,
+      originPositions,
+      moveOffset: {
+        x: pos.x - room.x,
+        y: pos.y - room.y,
+      },
+    });
+  }, [mode, rooms, levelRooms, selectedRoomIds, getMouseWorldPos, selectRooms]);
   
+  const handleItemMouseDown = useCallback((e: React.MouseEvent, room: Room, item: FurnitureItem) => {
+    if (mode !== 'select') return;
+    e.stopPropagation();
+    if (e.button !== 0) return;
+    selectRoom(room.id);
+    setSelectedItemId(item.id);
+    if (room.locked) return;
+    const pos = getMouseWorldPos(e);
+    const center = getFurnitureCenter(item, room);
+    setActionState({
+      type: 'movingItem',
+      targetId: room.id,
+      itemId: item.id,
+      isDragging: false,
+      moveOffset: { x: pos.x - center.x, y: pos.y - center.y },
+    });
+  }, [mode, getMouseWorldPos, selectRoom]);
+
   const handleResizeStart = useCallback((e: React.MouseEvent, room: Room, handle: ResizeHandle) => {
       e.stopPropagation();
       if (mode !== 'select' || e.button !== 0 || room.locked) return;
@@ -295,7 +666,31 @@ const App: React.FC = () => {
       });
   }, [mode]);
 
+  const handlePolygonHandleStart = useCallback((e: React.MouseEvent, room: Room, polygonHandle: PolygonHandle) => {
+      e.stopPropagation();
+      if (mode !== 'select' || e.button !== 0 || room.locked) return;
+      setActionState({
+          type: 'reshaping',
+          targetId: room.id,
+          isDragging: false,
+          polygonHandle,
+          startPoint: getMouseWorldPos(e),
+          originalOutline: getRoomOutline(room),
+      });
+  }, [mode, getMouseWorldPos]);
+
+  const handleRotateStart = useCallback((e: React.MouseEvent, room: Room) => {
+      e.stopPropagation();
+      if (mode !== 'select' || e.button !== 0 || room.locked) return;
+      setActionState({
+          type: 'rotating',
+          targetId: room.id,
+          isDragging: false,
+      });
+  }, [mode]);
+
   const handleMouseMove = useCallback((e: React.MouseEvent) => {
+    reportCursor(getMouseWorldPos(e));
     if (isPanning) {
         const dx = e.clientX - panStartRef.current.x;
         const dy = e.clientY - panStartRef.current.y;
@@ -304,66 +699,157 @@ const App: React.FC = () => {
         return;
     }
 
+    if (polygonDraft) {
+        const pos = getMouseWorldPos(e);
+        const snapped = snapPoint(pos, levelSnapTargets, getSnapOptions(e));
+        setSnapGuides(snapped.guides);
+        setPolygonDraft(prev => prev ? { ...prev, cursor: snapped.point } : null);
+        return;
+    }
+
     if (actionState.type === 'none') return;
     const pos = getMouseWorldPos(e);
 
-    if (actionState.type === 'moving' && actionState.targetId && actionState.moveOffset) {
+    if (actionState.type === 'measuring') {
+      const end = snapMeasurePoint(pos);
+      setTape(prev => prev ? { ...prev, end } : null);
+      return;
+    }
+
+    if (actionState.type === 'movingItem' && actionState.targetId && actionState.itemId && actionState.moveOffset) {
+      if (!actionState.isDragging) {
+         setActionState(s => ({ ...s, isDragging: true }));
+      }
+      const { targetId, itemId, moveOffset } = actionState;
+      previewRooms(prev => prev.map(r => {
+        if (r.id !== targetId) return r;
+        const center = toLocalPoint(r, { x: pos.x - moveOffset.x, y: pos.y - moveOffset.y });
+        return { ...r, furniture: r.furniture?.map(item => item.id === itemId ? placeFurniture(item, r, center, e.altKey ? 1 : settings.gridSize) : item) };
+      }));
+      return;
+    }
+
+    if (actionState.type === 'moving' && actionState.targetId && actionState.moveOffset && actionState.originPositions) {
       if (!actionState.isDragging) {
          setActionState(s => ({...s, isDragging: true }));
       }
-      setRooms(prevRooms => prevRooms.map(r => 
-        r.id === actionState.targetId 
-          ? { ...r, x: snapToGrid(pos.x - actionState.moveOffset!.x), y: snapToGrid(pos.y - actionState.moveOffset!.y) }
+      // The grabbed room snaps exactly as a lone room would; the rest of the group keeps its offset
+      const origins = actionState.originPositions;
+      const anchor = origins[actionState.targetId];
+      const target = rooms.find(r => r.id === actionState.targetId);
+      if (!target) return; // deleted by someone else mid-drag
+      const moved = { x: pos.x - actionState.moveOffset.x, y: pos.y - actionState.moveOffset.y };
+      // Snap the outline as drawn, which for a rotated room is wider than its own box
+      const bounds = getRoomBounds({ ...target, ...moved });
+      const snapped = snapBounds(bounds, getSnapTargets(visibleRooms.filter(r => !origins[r.id])), getSnapOptions(e));
+      const dx = moved.x + snapped.bounds.x - bounds.x - anchor.x;
+      const dy = moved.y + snapped.bounds.y - bounds.y - anchor.y;
+      setSnapGuides(snapped.guides);
+      previewRooms(prevRooms => prevRooms.map(r => 
+        origins[r.id]
+          ? { ...r, x: origins[r.id].x + dx, y: origins[r.id].y + dy }
           : r
-      ), true); // Overwrite history while dragging
+      )); // Recorded as one step on mouseup
+    } else if (actionState.type === 'marquee' && actionState.startPoint) {
+        setMarquee({ start: actionState.startPoint, end: pos });
     } else if (actionState.type === 'drawing') {
-        const snappedEnd = { x: snapToGrid(pos.x), y: snapToGrid(pos.y) };
-        setDrawingPreview(prev => prev ? { ...prev, end: snappedEnd } : null);
+        const snapped = snapPoint(pos, levelSnapTargets, getSnapOptions(e));
+        setSnapGuides(snapped.guides);
+        setDrawingPreview(prev => prev ? { ...prev, end: snapped.point } : null);
     } else if (actionState.type === 'resizing' && actionState.targetId && actionState.handle) {
       if (!actionState.isDragging) {
         setActionState(s => ({...s, isDragging: true }));
       }
-      const snappedPos = { x: snapToGrid(pos.x), y: snapToGrid(pos.y) };
+      // Rotated rooms resize in their own frame, where the axis-aligned snap targets do not apply
+      const target = rooms.find(r => r.id === actionState.targetId);
+      if (!target) return;
+      const rotated = getRoomRotation(target) !== 0;
+      const snapped = rotated ? { point: pos, guides: [] } : snapPoint(pos, getSnapTargets(visibleRooms.filter(r => r.id !== actionState.targetId)), getSnapOptions(e));
+      const minSize = settings.gridSize;
+      setSnapGuides(snapped.guides);
 
-      setRooms(prevRooms => prevRooms.map(r => {
+      previewRooms(prevRooms => prevRooms.map(r => {
         if (r.id !== actionState.targetId) return r;
         
-        let { x, y, width, height } = r;
-        const right = x + width;
-        const bottom = y + height;
+        const local = toLocalPoint(r, snapped.point);
+        let x = 0;
+        let y = 0;
+        let { width, height } = r;
+        const right = width;
+        const bottom = height;
 
         switch (actionState.handle) {
             case 'top-left':
-                x = Math.min(snappedPos.x, right - GRID_SIZE);
-                y = Math.min(snappedPos.y, bottom - GRID_SIZE);
+                x = Math.min(local.x, right - minSize);
+                y = Math.min(local.y, bottom - minSize);
                 width = right - x;
                 height = bottom - y;
                 break;
             case 'top-right':
-                y = Math.min(snappedPos.y, bottom - GRID_SIZE);
-                width = Math.max(GRID_SIZE, snappedPos.x - x);
+                y = Math.min(local.y, bottom - minSize);
+                width = Math.max(minSize, local.x);
                 height = bottom - y;
                 break;
             case 'bottom-left':
-                x = Math.min(snappedPos.x, right - GRID_SIZE);
-                height = Math.max(GRID_SIZE, snappedPos.y - y);
+                x = Math.min(local.x, right - minSize);
+                height = Math.max(minSize, local.y);
                 width = right - x;
                 break;
             case 'bottom-right':
-                width = Math.max(GRID_SIZE, snappedPos.x - x);
-                height = Math.max(GRID_SIZE, snappedPos.y - y);
+                width = Math.max(minSize, local.x);
+                height = Math.max(minSize, local.y);
                 break;
         }
-        return { 
-            ...r, 
-            x: Math.round(x), 
-            y: Math.round(y), 
-            width: Math.round(width), 
-            height: Math.round(height) 
-        };
-      }), true);
+        width = Math.round(width);
+        height = Math.round(height);
+        const origin = placeLocalBox(r, { x: Math.round(x), y: Math.round(y), width, height });
+        return { ...r, x: Math.round(origin.x), y: Math.round(origin.y), width, height };
+      }));
+    } else if (actionState.type === 'reshaping' && actionState.targetId && actionState.polygonHandle && actionState.originalOutline && actionState.startPoint) {
+      if (!actionState.isDragging) {
+        setActionState(s => ({...s, isDragging: true }));
+      }
+      const outline = [...actionState.originalOutline];
+      const { kind, index } = actionState.polygonHandle;
+
+      if (kind === 'vertex') {
+        const snapped = snapPoint(pos, getSnapTargets(visibleRooms.filter(r => r.id !== actionState.targetId)), getSnapOptions(e));
+        setSnapGuides(snapped.guides);
+        outline[index] = snapped.point;
+      } else {
+        // Edges are pushed along their normal so the neighbouring edges stretch to follow
+        const nextIndex = (index + 1) % outline.length;
+        const a = outline[index];
+        const b = outline[nextIndex];
+        const length = distance(a, b) || 1;
+        const normal = { x: -(b.y - a.y) / length, y: (b.x - a.x) / length };
+        const travel = (pos.x - actionState.startPoint.x) * normal.x + (pos.y - actionState.startPoint.y) * normal.y;
+        const step = e.altKey ? 1 : settings.gridSize;
+        const offset = { x: snapToGrid(normal.x * travel, step), y: snapToGrid(normal.y * travel, step) };
+        outline[index] = { x: a.x + offset.x, y: a.y + offset.y };
+        outline[nextIndex] = { x: b.x + offset.x, y: b.y + offset.y };
+      }
+
+      previewRooms(prevRooms => prevRooms.map(r => {
+        if (r.id !== actionState.targetId) return r;
+        // Vertices live in the room's own frame, so the new outline is taken back into it
+        const { vertices, ...box } = normalizePolygon(outline.map(p => toLocalPoint(r, p)));
+        return { ...r, ...placeLocalBox(r, box), width: box.width, height: box.height, vertices };
+      }));
+    } else if (actionState.type === 'rotating' && actionState.targetId) {
+      if (!actionState.isDragging) {
+        setActionState(s => ({...s, isDragging: true }));
+      }
+      const target = rooms.find(r => r.id === actionState.targetId);
+      if (!target) return;
+      const center = getRoomCenter(target);
+      // The handle sits straight above the centre, so pointing up means no rotation
+      const angle = (Math.atan2(pos.y - center.y, pos.x - center.x) * 180) / Math.PI + 90;
+      const step = getSnapOptions(e).enabled ? ROTATION_STEP : 1;
+      const rotation = normalizeAngle(Math.round(angle / step) * step);
+      previewRooms(prevRooms => prevRooms.map(r => r.id === actionState.targetId ? { ...r, rotation } : r));
     }
-  }, [actionState, isPanning, getMouseWorldPos, setRooms]);
+  }, [actionState, isPanning, polygonDraft, rooms, visibleRooms, levelSnapTargets, settings.gridSize, getMouseWorldPos, getSnapOptions, snapMeasurePoint, setRooms, reportCursor]);
 
   const handleMouseUp = useCallback((e: React.MouseEvent) => {
     if (isPanning) {
@@ -371,16 +857,30 @@ const App: React.FC = () => {
     }
     
     if (actionState.type === 'moving' && actionState.isDragging) {
-        setRooms(rooms, false);
+        commitPlan();
+    }
+
+    if (actionState.type === 'measuring') {
+        setTape(prev => prev && distance(prev.start.point, prev.end.point) > 0 ? { ...prev, done: true } : null);
+    }
+
+    if (actionState.type === 'marquee' && marquee) {
+        const box = getPointsBounds([marquee.start, marquee.end]);
+        const hits = expandGroups(visibleRooms.filter(r => boundsIntersect(box, getRoomBounds(r))).map(r => r.id), levelRooms);
+        setSelectedRoomIds(ids => [...ids, ...hits.filter(id => !ids.includes(id))]);
+        setMarquee(null);
     }
     
-    if (actionState.type === 'resizing' && actionState.isDragging) {
-        setRooms(rooms, false);
+    if ((actionState.type === 'resizing' || actionState.type === 'reshaping') && actionState.isDragging) {
+        setRooms(prev => prev.map(r => r.id === actionState.targetId ? clampRoomFurniture(clampRoomFeatures(r)) : r));
+    }
+
+    if ((actionState.type === 'movingItem' || actionState.type === 'rotating') && actionState.isDragging) {
+        commitPlan();
     }
 
     if (actionState.type === 'drawing' && actionState.startPoint) {
-      const endPoint = getMouseWorldPos(e);
-      const snappedEnd = { x: snapToGrid(endPoint.x), y: snapToGrid(endPoint.y) };
+      const snappedEnd = snapPoint(getMouseWorldPos(e), levelSnapTargets, getSnapOptions(e)).point;
       const startPoint = actionState.startPoint;
       const maxZ = rooms.length > 0 ? Math.max(...rooms.map(r => r.zIndex)) : -1;
       
@@ -395,17 +895,24 @@ const App: React.FC = () => {
         zIndex: maxZ + 1,
         features: [],
         locked: false,
+        levelId: activeLevel.id,
+        ...(drawType && getRoomTypeDefaults(drawType, rooms)),
       };
+      // A click without a drag places a typed room at its template size
+      if (drawType && newRoom.width < settings.gridSize && newRoom.height < settings.gridSize) {
+        Object.assign(newRoom, { x: startPoint.x, y: startPoint.y }, getRoomTemplateSize(drawType, settings));
+      }
 
-      if (newRoom.width >= GRID_SIZE && newRoom.height >= GRID_SIZE) {
+      if (newRoom.width >= settings.gridSize && newRoom.height >= settings.gridSize) {
         setRooms(prev => [...prev, newRoom]);
-        setSelectedRoomId(newRoom.id);
+        selectRoom(newRoom.id);
       }
       setDrawingPreview(null);
       setMode('select');
     }
     setActionState({ type: 'none' });
-  }, [actionState, rooms, getMouseWorldPos, isPanning, setRooms]);
+    setSnapGuides([]);
+  }, [actionState, rooms, levelRooms, visibleRooms, levelSnapTargets, marquee, activeLevel.id, settings, drawType, getMouseWorldPos, getSnapOptions, isPanning, setRooms, selectRoom]);
 
   const handleWheel = useCallback((e: React.WheelEvent) => {
     e.preventDefault();
@@ -417,7 +924,7 @@ const App: React.FC = () => {
 
     const zoomFactor = 1.1;
     const newScale = e.deltaY < 0 ? viewTransform.scale * zoomFactor : viewTransform.scale / zoomFactor;
-    const clampedScale = Math.max(0.2, Math.min(newScale, 5));
+    const clampedScale = Math.max(MIN_ZOOM, Math.min(newScale, MAX_ZOOM));
 
     const worldX = (mouseX - viewTransform.x) / viewTransform.scale;
     const worldY = (mouseY - viewTransform.y) / viewTransform.scale;
@@ -428,27 +935,460 @@ const App: React.FC = () => {
     setViewTransform({ scale: clampedScale, x: newX, y: newY });
   }, [viewTransform]);
   
-  const handleUpdateRoom = useCallback((id: string, newValues: Partial<Room>) => {
-    setRooms(prev => prev.map(r => r.id === id ? { ...r, ...newValues } : r));
+  const handleUpdateRooms = useCallback((changes: RoomChanges) => {
+    if (Object.keys(changes).length === 0) return;
+    setRooms(prev => prev.map(r => {
+      const newValues = changes[r.id];
+      if (!newValues) return r;
+      const updated = { ...r, ...newValues };
+      if (isPolygonRoom(r) && (newValues.width !== undefined || newValues.height !== undefined)) {
+        updated.vertices = scaleRoomVertices(r, updated.width, updated.height);
+      }
+      // A rotated room grows from its top-left corner as drawn, not from where its box would sit unrotated
+      if (newValues.x === undefined && newValues.y === undefined && (newValues.width !== undefined || newValues.height !== undefined)) {
+        Object.assign(updated, placeLocalBox(r, { x: 0, y: 0, width: updated.width, height: updated.height }));
+      }
+      // Shrinking a wall must not leave an opening hanging past its end, or furniture outside it
+      const reshaped = newValues.width !== undefined || newValues.height !== undefined || newValues.vertices !== undefined;
+      return reshaped ? clampRoomFurniture(clampRoomFeatures(updated)) : updated;
+    }), { coalesceKey: `rooms:${Object.entries(changes).map(([id, values]) => `${id}=${Object.keys(values).sort()}`).sort().join(';')}` });
   }, [setRooms]);
 
-  const handleDeleteRoom = useCallback((id: string) => {
-    setRooms(prev => prev.filter(r => r.id !== id));
-    setSelectedRoomId(null);
-  }, [setRooms]);
+  const handleUpdateRoom = useCallback((id: string, newValues: Partial<Room>) => {
+    handleUpdateRooms({ [id]: newValues });
+  }, [handleUpdateRooms]);
+
+  const handleUpdateSettings = useCallback((newValues: Partial<PlanSettings>) => {
+    setPlan(prev => ({ ...prev, settings: { ...prev.settings, ...newValues } }), { coalesceKey: `settings:${Object.keys(newValues).sort()}` });
+  }, [setPlan]);
+
+  const handleDeleteRooms = useCallback((ids: string[]) => {
+    setPlan(prev => ({
+        ...prev,
+        rooms: prev.rooms.filter(r => !ids.includes(r.id)),
+        dimensions: removeDimensionsForRooms(prev.dimensions, ids),
+    }));
+    selectRoom(null);
+  }, [setPlan, selectRoom]);
+
+  const handlePinTape = useCallback(() => {
+    if (!tape?.done) return;
+    const dimension: DimensionLine = {
+        id: crypto.randomUUID(),
+        levelId: activeLevel.id,
+        start: tape.start.anchor ?? tape.start.point,
+        end: tape.end.anchor ?? tape.end.point,
+        offset: 0,
+    };
+    setPlan(prev => ({ ...prev, dimensions: [...prev.dimensions, dimension] }));
+    setTape(null);
+  }, [tape, activeLevel.id, setPlan]);
+
+  const handleDeleteDimension = useCallback((id: string) => {
+    setPlan(prev => ({ ...prev, dimensions: prev.dimensions.filter(d => d.id !== id) }));
+  }, [setPlan]);
+
+  // Replaces any earlier generated dimensions on this level, leaving pinned ones alone
+  const handleAddExteriorDimensions = useCallback(() => {
+    const generated = createExteriorDimensions(levelRooms, activeLevel.id, EXTERIOR_DIMENSION_GAP);
+    setPlan(prev => ({
+        ...prev,
+        dimensions: [...prev.dimensions.filter(d => !(d.auto && d.levelId === activeLevel.id)), ...generated],
+    }));
+  }, [levelRooms, activeLevel.id, setPlan]);
+
+  useEffect(() => {
+    if (mode !== 'measure') setTape(null);
+  }, [mode]);
+
+  useEffect(() => {
+    if (!tape?.done) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setTape(null);
+      if (e.key === 'Enter') handlePinTape();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [tape, handlePinTape]);
   
-  const handleSave = useCallback(() => {
-    const data = JSON.stringify(rooms, null, 2);
-    const blob = new Blob([data], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = 'home-plan.json';
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
-  }, [rooms]);
+  const handleSelectLevel = useCallback((id: string) => {
+    setActiveLevelId(id);
+    selectRoom(null);
+    setPolygonDraft(null);
+  }, []);
+
+  const handleAddLevel = useCallback(() => {
+    const level = createLevelAbove(levels);
+    setPlan(prev => ({ ...prev, levels: [...prev.levels, level] }));
+    handleSelectLevel(level.id);
+  }, [levels, setPlan, handleSelectLevel]);
+
+  const handleUpdateLevel = useCallback((id: string, newValues: Partial<Level>) => {
+    setPlan(prev => ({ ...prev, levels: prev.levels.map(l => l.id === id ? { ...l, ...newValues } : l) }), { coalesceKey: `level:${id}=${Object.keys(newValues).sort()}` });
+  }, [setPlan]);
+
+  const handleDeleteLevel = useCallback((id: string) => {
+    if (levels.length <= 1) return;
+    setPlan(prev => ({
+        ...prev,
+        levels: prev.levels.filter(l => l.id !== id),
+        rooms: prev.rooms.filter(r => r.levelId !== id),
+        dimensions: prev.dimensions.filter(d => d.levelId !== id),
+    }));
+    handleSelectLevel(sortLevels(levels.filter(l => l.id !== id))[0].id);
+  }, [levels, setPlan, handleSelectLevel]);
+
+  const handleCopyLevel = useCallback((sourceId: string, targetId: string | null) => {
+    const target = targetId ? levels.find(l => l.id === targetId) : createLevelAbove(levels);
+    if (!target) return;
+    const copies = copyRoomsToLevel(rooms.filter(r => r.levelId === sourceId), target.id, rooms.filter(r => r.levelId === target.id));
+    setPlan(prev => ({
+        ...prev,
+        levels: targetId ? prev.levels : [...prev.levels, target],
+        rooms: [...prev.rooms, ...copies],
+    }));
+    handleSelectLevel(target.id);
+  }, [levels, rooms, setPlan, handleSelectLevel]);
+
+  const handleCopyRoomToLevel = useCallback((roomId: string, levelId: string) => {
+    const room = rooms.find(r => r.id === roomId);
+    if (!room) return;
+    // A single room leaves its group behind
+    const [copy] = copyRoomsToLevel([{ ...room, group: undefined }], levelId, []);
+    setRooms(prev => [...prev, copy]);
+    handleSelectLevel(levelId);
+    selectRoom(copy.id);
+  }, [rooms, setRooms, handleSelectLevel]);
+
+  const handleExportPlanFile = useCallback(() => {
+    const fileName = `${project.name.toLowerCase().replace(/[^a-z0-9]+/g, '-') || 'home-plan'}.json`;
+    downloadFile(serializePlan(plan), fileName, 'application/json');
+  }, [plan, project.name]);
+
+  const handleExportPlanText = useCallback(() => {
+    const fileName = `${project.name.toLowerCase().replace(/[^a-z0-9]+/g, '-') || 'home-plan'}.plan`;
+    downloadFile(printPlanText(plan), fileName, 'text/plain');
+  }, [plan, project.name]);
+
+  const handleApplyPlanText = (next: Plan) => setPlan(next, { label: 'Edit plan text', coalesceKey: 'plan-text' });
+
+  const openPlan = useCallback((openedPlan: Plan, openedProject: { id: string | null; name: string }, saved: boolean, storedHistory?: string) => {
+    const head = resetPlan(openedPlan, storedHistory);
+    setProject(openedProject);
+    setSavedHeadId(saved ? head : null);
+    handleSelectLevel(sortLevels(openedPlan.levels)[0].id);
+  }, [resetPlan, handleSelectLevel]);
+
+  const confirmDiscard = () => !isDirty || confirm(`Discard unsaved changes to "${project.name}"?`);
+
+  const handleLeaveSession = () => {
+    collabRef.current?.connection.close();
+    collabRef.current = null;
+    setCollab(null);
+    setPeers([]);
+  };
+
+  /** Opening another plan would replace everyone's shared plan with it, so leave the session first. */
+  const confirmLeaveSession = () => {
+    const state = collabRef.current;
+    if (!state) return true;
+    if (!confirm(`Opening another plan leaves the shared session "${state.session}". Continue?`)) return false;
+    handleLeaveSession();
+    return true;
+  };
+
+  const handleSaveProject = useCallback(async () => {
+    let { id, name } = project;
+    if (!id) {
+        const chosen = prompt('Save plan as:', name);
+        if (chosen === null) return;
+        name = chosen.trim() || UNTITLED_PLAN;
+        id = crypto.randomUUID();
+    }
+    try {
+        await putProject({ id, name, updatedAt: Date.now(), thumbnail: createThumbnail(plan), data: serializePlan(plan) });
+        setProject({ id, name });
+        setSavedHeadId(headId);
+    } catch (error) {
+        console.error("Failed to save project:", error);
+        alert("Could not save the plan to this browser's storage.");
+    }
+  }, [project, plan, headId]);
+
+  const handleOpenProject = useCallback((record: ProjectRecord) => {
+    if (!confirmDiscard() || !confirmLeaveSession()) return;
+    const result = parsePlanFile(record.data);
+    if (!result.plan) {
+        console.error("Stored project failed validation:", result.errors);
+        alert([`Could not open "${record.name}":`, ...result.errors.slice(0, MAX_LOAD_ERRORS_SHOWN).map(error => `• ${error}`)].join('\n'));
+        return;
+    }
+    openPlan(result.plan, { id: record.id, name: record.name }, true);
+    setShowProjects(false);
+  }, [isDirty, project.name, openPlan]);
+
+  const handleNewPlan = useCallback(() => {
+    if (!confirmDiscard() || !confirmLeaveSession()) return;
+    openPlan({ settings, levels: [DEFAULT_LEVEL], rooms: [], dimensions: [], materials: DEFAULT_MATERIALS }, { id: null, name: UNTITLED_PLAN }, true);
+    setShowProjects(false);
+  }, [settings, isDirty, project.name, openPlan]);
+
+  const handleRecover = () => {
+    if (!confirmLeaveSession()) return;
+    const result = recovery && parsePlanFile(recovery.data);
+    if (result?.plan) {
+        openPlan(result.plan, { id: recovery.projectId, name: recovery.name }, false, recovery.history);
+    } else {
+        console.error("Autosave failed validation:", result?.errors);
+        alert("The autosaved plan could not be recovered.");
+    }
+    setRecovery(null);
+    setAutosaveReady(true);
+  };
+
+  const handleDiscardRecovery = () => {
+    clearAutosave().catch(error => console.error("Failed to clear autosave:", error));
+    setRecovery(null);
+    setAutosaveReady(true);
+  };
+
+  useEffect(() => {
+    getAutosave()
+        .then(record => record ? setRecovery(record) : setAutosaveReady(true))
+        .catch(error => {
+            console.error("Autosave is unavailable:", error);
+        });
+  }, []);
+
+  useEffect(() => {
+    if (!autosaveReady) return;
+    if (!isDirty) {
+        clearAutosave().catch(error => console.error("Failed to clear autosave:", error));
+        return;
+    }
+    const timer = setTimeout(() => {
+        putAutosave({
+            projectId: project.id,
+            name: project.name,
+            savedAt: Date.now(),
+            data: serializePlan(plan),
+            history: keepHistory ? serializeHistory(history, CURRENT_PLAN_VERSION) : undefined,
+        }).catch(error => console.error("Autosave failed:", error));
+    }, AUTOSAVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [plan, history, keepHistory, isDirty, project, autosaveReady]);
+
+  useEffect(() => sendPresence(), [activeLevel.id, selectedRoomIds, sendPresence]);
+
+  useEffect(() => {
+    const state = collabRef.current;
+    if (!state?.synced || state.synced === plan) return;
+    const ops = diffPlanOps(state.synced, plan, state.clock);
+    state.synced = plan;
+    if (ops.length === 0) return;
+    state.doc = mergeOps(state.doc, ops).doc;
+    state.pending.push(...ops);
+    flushOps();
+  }, [plan, flushOps]);
+
+  const applyRemoteOps = (ops: CrdtOp[]) => {
+    const state = collabRef.current;
+    observeOps(state.clock, ops);
+    const { doc, applied } = mergeOps(state.doc, ops);
+    state.doc = doc;
+    if (applied.length === 0) return;
+    // The synced plan takes the edits as they are, so they are not sent back as our own. The plan
+    // on screen also settles any clash between them the way every copy does, and that repair is
+    // sent like a local edit, so later edits everywhere build on it.
+    state.synced = applyOpsToPlan(state.synced, doc, applied);
+    applyRemote(p => repairPlan(applyOpsToPlan(p, doc, applied)));
+  };
+
+  const handleCollabMessage = (message: ServerMessage) => {
+    const state = collabRef.current;
+    if (!state) return;
+    switch (message.type) {
+      case 'snapshot': {
+        setPeers(message.peers.filter(p => p.peer.id !== state.peer.id));
+        if (state.synced) {
+            // Back after a dropped connection: take what changed meanwhile and offer everything we have
+            applyRemoteOps(message.ops);
+            state.connection.send({ type: 'ops', ops: docToOps(state.doc) });
+        } else if (message.ops.length > 0) {
+            observeOps(state.clock, message.ops);
+            const doc = mergeOps(createDoc(), message.ops).doc;
+            const result = parsePlanFile(JSON.stringify({ version: CURRENT_PLAN_VERSION, plan: repairPlan(docToPlan(doc)) }));
+            if (!result.plan) {
+                console.error("Shared plan failed validation:", result.errors);
+                alert([`Could not open the plan shared in "${state.session}":`, ...result.errors.slice(0, MAX_LOAD_ERRORS_SHOWN).map(error => `• ${error}`)].join('\n'));
+                handleLeaveSession();
+                return;
+            }
+            state.doc = doc;
+            state.synced = result.plan;
+            openPlan(result.plan, { id: null, name: state.session }, false);
+        } else {
+            // An empty session starts from the plan we have open
+            const ops = planToOps(plan, state.clock);
+            state.doc = mergeOps(state.doc, ops).doc;
+            state.synced = plan;
+            state.connection.send({ type: 'ops', ops });
+        }
+        sendPresence();
+        break;
+      }
+      case 'ops':
+        if (state.synced) applyRemoteOps(message.ops);
+        break;
+      case 'presence':
+        setPeers(ps => ps.map(p => p.peer.id === message.peerId ? { ...p, presence: message.presence } : p));
+        break;
+      case 'joined':
+        setPeers(ps => [...ps.filter(p => p.peer.id !== message.peer.id), { peer: message.peer, presence: null }]);
+        break;
+      case 'left':
+        setPeers(ps => ps.filter(p => p.peer.id !== message.peerId));
+        break;
+    }
+  };
+  // The connection is opened once per session and always reaches the latest handler
+  const collabMessageRef = useRef(handleCollabMessage);
+  collabMessageRef.current = handleCollabMessage;
+
+  const handleJoinSession = (prefs: CollabPrefs) => {
+    setCollabPrefs(prefs);
+    setShowCollabDialog(false);
+    collabRef.current?.connection.close();
+    const peer: Peer = { id: crypto.randomUUID(), name: prefs.name, color: pickPeerColor() };
+    const connection = connectCollab({
+        url: prefs.url,
+        session: prefs.session,
+        peer,
+        onMessage: message => collabMessageRef.current(message),
+        onStatus: status => setCollab(c => c && { ...c, status }),
+    });
+    collabRef.current = { connection, peer, session: prefs.session, doc: createDoc(), clock: createClock(peer.id), synced: null, pending: [] };
+    setCollab({ session: prefs.session, status: 'connecting' });
+    setPeers([]);
+  };
+
+  useEffect(() => () => collabRef.current?.connection.close(), []);
+
+  const handleKeepHistoryChange = (keep: boolean) => {
+    setKeepHistory(keep);
+    setKeepHistoryState(keep);
+  };
+
+  const handleExportScheduleCsv = useCallback(() => {
+    downloadFile(scheduleToCsv(buildRoomSchedule(rooms, levels), settings), 'room-schedule.csv', 'text/csv');
+  }, [rooms, levels, settings]);
+
+  const handleExportCostCsv = useCallback(() => {
+    downloadFile(costEstimateToCsv(buildCostEstimate(plan)), 'cost-estimate.csv', 'text/csv');
+  }, [plan]);
+
+  const handleAddMaterial = useCallback((slot: FinishSlot) => {
+    setPlan(prev => ({ ...prev, materials: [...prev.materials, createMaterial(slot, prev.materials)] }));
+  }, [setPlan]);
+
+  // A material moved to another finish is taken off the rooms that had it for the old one
+  const handleUpdateMaterial = useCallback((id: string, newValues: Partial<Material>) => {
+    const material = plan.materials.find(m => m.id === id);
+    if (!material || isMaterialNameTaken(plan.materials, { ...material, ...newValues })) return;
+    if (newValues.slot && newValues.slot !== material.slot) {
+        const users = plan.rooms.filter(room => removeFinish(room, id) !== room).length;
+        const from = getFinishSlotSpec(material.slot).label.toLowerCase();
+        const to = getFinishSlotSpec(newValues.slot).label.toLowerCase();
+        if (users > 0 && !confirm(`${users} room${users === 1 ? '' : 's'} use "${material.name}" for the ${from}. Move it to the ${to} and take it off ${users === 1 ? 'that room' : 'them'}?`)) return;
+    }
+    setPlan(prev => ({
+        ...prev,
+        materials: prev.materials.map(m => m.id === id ? { ...m, ...newValues } : m),
+        rooms: newValues.slot && newValues.slot !== material.slot ? prev.rooms.map(room => removeFinish(room, id)) : prev.rooms,
+    }), { coalesceKey: `material:${id}=${Object.keys(newValues).sort()}` });
+  }, [plan.materials, plan.rooms, setPlan]);
+
+  // Rooms finished in a deleted material go back to having no finish there
+  const handleDeleteMaterial = useCallback((id: string) => {
+    const material = plan.materials.find(m => m.id === id);
+    setPlan(prev => ({
+        ...prev,
+        materials: prev.materials.filter(m => m.id !== id),
+        rooms: prev.rooms.map(room => removeFinish(room, id)),
+    }), { label: `Delete ${material?.name ?? 'material'}` });
+  }, [plan.materials, setPlan]);
+
+  const handleImportRuleSet = useCallback((file: File) => {
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      const result = parseRuleSet(String(event.target?.result ?? ''));
+      if (!result.ruleSet) {
+        console.error("Rule set failed validation:", result.errors);
+        alert([`Could not use the rules in "${file.name}":`, ...result.errors.slice(0, MAX_LOAD_ERRORS_SHOWN).map(error => `• ${error}`)].join('\n'));
+        return;
+      }
+      setRuleSet(result.ruleSet);
+      setStoredRuleSet(result.ruleSet);
+    };
+    reader.readAsText(file);
+  }, []);
+
+  const handleExportRuleSet = useCallback(() => {
+    const fileName = `${ruleSet.name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'room-rules'}.json`;
+    downloadFile(serializeRuleSet(ruleSet), fileName, 'application/json');
+  }, [ruleSet]);
+
+  const handleResetRuleSet = useCallback(() => {
+    setRuleSet(DEFAULT_RULE_SET);
+    setStoredRuleSet(null);
+  }, []);
+
+  const handleExportSvg = useCallback(({ showGrid }: { showGrid: boolean }) => {
+    const svg = exportPlanSvg(plan, {
+        levelId: activeLevel.id,
+        title: 'Home Plan',
+        date: new Date().toISOString().slice(0, 10),
+        showGrid,
+    });
+    const fileName = `home-plan-${activeLevel.name.toLowerCase().replace(/[^a-z0-9]+/g, '-')}.svg`;
+    downloadFile(svg, fileName, 'image/svg+xml');
+  }, [plan, activeLevel]);
+
+  const handleExportDxf = useCallback(() => {
+    const fileName = `home-plan-${activeLevel.name.toLowerCase().replace(/[^a-z0-9]+/g, '-')}.dxf`;
+    downloadFile(exportPlanDxf(plan, activeLevel.id), fileName, 'application/dxf');
+  }, [plan, activeLevel]);
+
+  const handleImportDxf = (text: string) => {
+    const maxZ = rooms.length > 0 ? Math.max(...rooms.map(r => r.zIndex)) : -1;
+    const { rooms: imported, warnings } = importDxf(text, settings, {
+        levelId: activeLevel.id,
+        colors: ROOM_COLORS,
+        firstZIndex: maxZ + 1,
+        firstRoomNumber: rooms.length + 1,
+    });
+    if (imported.length > 0) {
+        setRooms(prev => [...prev, ...imported]);
+        setSelectedRoomIds(imported.map(r => r.id));
+    }
+    if (imported.length === 0 || warnings.length > 0) {
+        alert([`Imported ${imported.length} room${imported.length === 1 ? '' : 's'} from DXF.`, ...warnings].join('\n'));
+    }
+  };
+
+  const handleFocusRoom = useCallback((id: string) => {
+    const room = rooms.find(r => r.id === id);
+    if (!room) return;
+    if (room.levelId !== activeLevel.id) handleSelectLevel(room.levelId);
+    selectRoom(id);
+  }, [rooms, activeLevel.id, handleSelectLevel, selectRoom]);
+
+  const handleSelectIssue = useCallback((issue: PlanIssue) => {
+    if (issue.levelId !== activeLevel.id) handleSelectLevel(issue.levelId);
+    setSelectedRoomIds(issue.roomIds);
+    setSelectedItemId(null);
+    setActiveIssueId(issue.id);
+  }, [activeLevel.id, handleSelectLevel]);
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -459,30 +1399,26 @@ const App: React.FC = () => {
       try {
         const text = event.target?.result;
         if (typeof text !== 'string') throw new Error("File content is not text");
-        const loadedRooms = JSON.parse(text);
-
-        if (Array.isArray(loadedRooms) && loadedRooms.every(r => 
-          'id' in r && 'name' in r && 'x' in r && 'y' in r &&
-          'width' in r && 'height' in r && 'color' in r && 'zIndex' in r
-        )) {
-          // ensure features array exists and all dimensions are integers
-          const sanitizedRooms = loadedRooms.map((r: any) => ({ 
-            ...r, 
-            x: Math.round(r.x),
-            y: Math.round(r.y),
-            width: Math.round(r.width),
-            height: Math.round(r.height),
-            locked: r.locked || false,
-            features: r.features?.map((f: WallFeature) => ({
-                ...f,
-                width: Math.round(f.width),
-            })) || [] 
-          }));
-          setRooms(sanitizedRooms);
-          setSelectedRoomId(null);
-        } else {
-          throw new Error("Invalid file format.");
+        if (file.name.toLowerCase().endsWith('.dxf')) {
+          handleImportDxf(text);
+          return;
+        }
+        const planText = file.name.toLowerCase().endsWith('.plan') ? parsePlanText(text) : null;
+        const result = planText ? { plan: planText.plan, errors: planText.errors.map(formatPlanTextError) } : parsePlanFile(text);
+        if (!result.plan) {
+          console.error("Plan file failed validation:", result.errors);
+          const shown = result.errors.slice(0, MAX_LOAD_ERRORS_SHOWN);
+          const hidden = result.errors.length - shown.length;
+          alert([
+            `Could not load "${file.name}":`,
+            ...shown.map(error => `• ${error}`),
+            ...(hidden > 0 ? [`…and ${hidden} more (see the console).`] : []),
+          ].join('\n'));
+          return;
         }
+        if (!confirmLeaveSession()) return;
+        setPlan(result.plan);
+        handleSelectLevel(sortLevels(result.plan.levels)[0].id);
       } catch (error) {
         console.error("Failed to load or parse file:", error);
         alert("Could not load the plan. The file may be corrupted or in an incorrect format.");
@@ -496,34 +1432,363 @@ const App: React.FC = () => {
     fileInputRef.current?.click();
   };
 
-  const selectedRoom = rooms.find(r => r.id === selectedRoomId);
+  const selectedRooms = rooms.filter(r => selectedRoomIds.includes(r.id));
+
+  const activateTool = (tool: 'select' | 'rect' | 'polygon' | 'measure') => {
+    setMode(tool === 'rect' || tool === 'polygon' ? 'draw' : tool);
+    if (tool === 'rect' || tool === 'polygon') setDrawShape(tool);
+    if (tool !== 'polygon') setPolygonDraft(null);
+  };
+
+  const zoomToRooms = (targets: Room[]) => {
+    const canvas = canvasRef.current;
+    if (!canvas || targets.length === 0) return;
+    const bounds = getPointsBounds(targets.flatMap(getRoomOutline));
+    const available = { width: canvas.clientWidth - ZOOM_TO_FIT_PADDING * 2, height: canvas.clientHeight - ZOOM_TO_FIT_PADDING * 2 };
+    const scale = Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, available.width / (bounds.width || 1), available.height / (bounds.height || 1)));
+    setViewTransform({
+        scale,
+        x: canvas.clientWidth / 2 - (bounds.x + bounds.width / 2) * scale,
+        y: canvas.clientHeight / 2 - (bounds.y + bounds.height / 2) * scale,
+    });
+  };
+
+  const handleZoomToFit = () => zoomToRooms(levelRooms);
+
+  // Locked rooms stay where they are, matching the inspector
+  const handleNudge = (dx: number, dy: number) => {
+    const ids = selectedRooms.filter(r => !r.locked).map(r => r.id);
+    if (ids.length === 0) return;
+    // Holding an arrow key down makes one step
+    setRooms(prev => prev.map(r => ids.includes(r.id) ? { ...r, x: r.x + dx, y: r.y + dy } : r), { coalesceKey: `nudge:${ids}` });
+  };
+
+  const handleDeleteSelection = () => {
+    if (selectedItemId) {
+        setRooms(prev => prev.map(r => r.furniture?.some(item => item.id === selectedItemId)
+            ? { ...r, furniture: r.furniture.filter(item => item.id !== selectedItemId) }
+            : r));
+        setSelectedItemId(null);
+        return;
+    }
+    const ids = selectedRooms.filter(r => !r.locked).map(r => r.id);
+    if (ids.length > 0) handleDeleteRooms(ids);
+  };
+
+  const nextZIndex = () => rooms.length > 0 ? Math.max(...rooms.map(r => r.zIndex)) + 1 : 0;
+
+  const insertRooms = (newRooms: Room[], newMaterials: Material[] = []) => {
+    setPlan(prev => ({
+        ...prev,
+        rooms: [...prev.rooms, ...newRooms],
+        materials: newMaterials.length > 0 ? [...prev.materials, ...newMaterials] : prev.materials,
+    }));
+    setSelectedRoomIds(newRooms.map(r => r.id));
+    setSelectedItemId(null);
+  };
+
+  // Rooms from another plan bring the materials they are finished in into this plan's library
+  const pasteRooms = (source: Room[], sourceMaterials: Material[] = []) => {
+    if (source.length === 0) return;
+    const adopted = adoptMaterials(source, sourceMaterials, plan.materials);
+    const offset = getPasteOffset(adopted.rooms, levelRooms, settings.gridSize, PASTE_STEP);
+    insertRooms(copyRooms(adopted.rooms, activeLevel.id, levelRooms, offset, nextZIndex()), adopted.materials);
+  };
+
+  const handleDuplicate = () => pasteRooms(selectedRooms);
+
+  const handleArrayDuplicate = (count: number, spacing: Point) => {
+    setShowArrayDialog(false);
+    insertRooms(arrayRooms(selectedRooms, activeLevel.id, levelRooms, count, spacing, nextZIndex()));
+  };
+
+  /** Pastes rooms from clipboard text; false when the text holds no rooms at all. */
+  const pasteClipboardText = (text: string) => {
+    const result = parseClipboard(text, settings);
+    if (!result) return false;
+    if (!result.rooms) {
+        console.error("Clipboard rooms failed validation:", result.errors);
+        alert(['Could not paste the copied rooms:', ...result.errors.slice(0, MAX_LOAD_ERRORS_SHOWN).map(error => `• ${error}`)].join('\n'));
+        return true;
+    }
+    pasteRooms(result.rooms, result.materials);
+    return true;
+  };
+
+  // Cutting leaves locked rooms in place, like deleting does
+  const cutRooms = () => selectedRooms.filter(r => !r.locked);
+
+  const writeClipboard = (cut: boolean) => {
+    const source = cut ? cutRooms() : selectedRooms;
+    if (source.length === 0) return;
+    navigator.clipboard.writeText(serializeClipboard(source, settings, plan.materials))
+        .then(() => cut && handleDeleteRooms(source.map(r => r.id)))
+        .catch(error => {
+            console.error("Failed to copy rooms:", error);
+            alert("Could not write to the clipboard.");
+        });
+  };
+
+  const readClipboard = () => {
+    navigator.clipboard.readText()
+        .then(text => {
+            if (!pasteClipboardText(text)) alert("The clipboard does not contain any rooms.");
+        })
+        .catch(error => {
+            console.error("Failed to read the clipboard:", error);
+            alert("Could not read the clipboard. Try pasting with Ctrl+V instead.");
+        });
+  };
+
+  const nudgeStep = settings.gridSize;
+  const largeNudgeStep = settings.gridSize * settings.majorGridEvery;
+  // Outline: rooms picked there may sit on another level
+  const handleSelectOutlineRooms = useCallback((ids: string[], additive: boolean) => {
+    const levelId = rooms.find(r => r.id === ids[0])?.levelId;
+    if (!levelId) return;
+    if (levelId !== activeLevel.id) {
+        handleSelectLevel(levelId);
+        selectRooms(ids);
+    } else if (additive) {
+        setSelectedRoomIds(current => ids.every(id => current.includes(id)) ? current.filter(id => !ids.includes(id)) : [...current, ...ids.filter(id => !current.includes(id))]);
+    } else {
+        selectRooms(ids);
+    }
+  }, [rooms, activeLevel.id, handleSelectLevel, selectRooms]);
+
+  const handleZoomToRooms = (ids: string[]) => {
+    const targets = rooms.filter(r => ids.includes(r.id));
+    if (targets.length === 0) return;
+    if (targets[0].levelId !== activeLevel.id) handleSelectLevel(targets[0].levelId);
+    zoomToRooms(targets);
+  };
+
+  const handleSetRoomFlags = (ids: string[], flags: RoomFlags) => {
+    setRooms(prev => prev.map(r => ids.includes(r.id) ? { ...r, ...flags } : r));
+  };
+
+  const handleReorderRooms = (ids: string[], targetIds: string[], place: 'above' | 'below', group?: string | null) => {
+    setRooms(prev => {
+        const restacked = moveInStack(prev, ids, targetIds, place);
+        return group === undefined ? restacked : restacked.map(r => ids.includes(r.id) ? { ...r, group: group ?? undefined } : r);
+    });
+  };
+
+  const handleGroupSelection = () => {
+    const ids = selectedRooms.filter(r => r.levelId === activeLevel.id).map(r => r.id);
+    if (ids.length === 0) return;
+    const name = nextGroupName(levelRooms);
+    setRooms(prev => groupRooms(prev, ids, name), { label: `Group ${ids.length} room${ids.length === 1 ? '' : 's'} as ${name}` });
+    setShowOutline(true);
+  };
+
+  const handleUngroup = (ids: string[]) => {
+    const name = rooms.find(r => ids.includes(r.id) && r.group)?.group;
+    if (!name) return;
+    setRooms(prev => prev.map(r => ids.includes(r.id) ? { ...r, group: undefined } : r), { label: `Ungroup ${name}` });
+  };
+
+  const handleRenameGroup = (ids: string[], name: string) => {
+    const previous = rooms.find(r => ids.includes(r.id))?.group;
+    if (!previous || previous === name) return;
+    setRooms(prev => prev.map(r => ids.includes(r.id) ? { ...r, group: name } : r), { label: `Rename ${previous} to ${name}` });
+  };
+
+  const selectedGroupIds = selectedRooms.filter(r => r.group).map(r => r.id);
+  const hasSelection = selectedRooms.some(r => !r.locked);
+  const commands: Command[] = [
+    { id: 'tool.select', label: 'Select & move tool', category: 'Tools', shortcuts: ['v'], run: () => activateTool('select') },
+    { id: 'tool.rect', label: 'Draw room', category: 'Tools', shortcuts: ['r'], run: () => activateTool('rect') },
+    { id: 'tool.polygon', label: 'Draw polygon room', category: 'Tools', shortcuts: ['p'], run: () => activateTool('polygon') },
+    { id: 'tool.measure', label: 'Measure', category: 'Tools', shortcuts: ['m'], run: () => activateTool('measure') },
+    { id: 'edit.undo', label: 'Undo', category: 'Edit', shortcuts: ['mod+z'], enabled: canUndo, run: undo },
+    { id: 'edit.redo', label: 'Redo', category: 'Edit', shortcuts: ['mod+y', 'mod+shift+z'], enabled: canRedo, run: redo },
+    { id: 'edit.delete', label: 'Delete selection', category: 'Edit', shortcuts: ['delete', 'backspace'], enabled: hasSelection || !!selectedItemId, run: handleDeleteSelection },
+    ...([['left', -1, 0], ['right', 1, 0], ['up', 0, -1], ['down', 0, 1]] as const).flatMap(([direction, x, y]) => [
+      { id: `edit.nudge-${direction}`, label: `Nudge ${direction}`, category: 'Edit' as const, shortcuts: [`arrow${direction}`], enabled: hasSelection, run: () => handleNudge(x * nudgeStep, y * nudgeStep) },
+      { id: `edit.nudge-${direction}-large`, label: `Nudge ${direction} by a major grid step`, category: 'Edit' as const, shortcuts: [`shift+arrow${direction}`], enabled: hasSelection, run: () => handleNudge(x * largeNudgeStep, y * largeNudgeStep) },
+    ]),
+    { id: 'edit.copy', label: 'Copy rooms', category: 'Edit', enabled: selectedRooms.length > 0, run: () => writeClipboard(false) },
+    { id: 'edit.cut', label: 'Cut rooms', category: 'Edit', enabled: hasSelection, run: () => writeClipboard(true) },
+    { id: 'edit.paste', label: 'Paste rooms', category: 'Edit', run: readClipboard },
+    { id: 'edit.duplicate', label: 'Duplicate rooms', category: 'Edit', shortcuts: ['mod+d'], enabled: selectedRooms.length > 0, run: handleDuplicate },
+    { id: 'edit.array-duplicate', label: 'Array duplicate…', category: 'Edit', enabled: selectedRooms.length > 0, run: () => setShowArrayDialog(true) },
+    { id: 'edit.group', label: 'Group rooms', category: 'Edit', shortcuts: ['mod+g'], enabled: selectedRooms.some(r => r.levelId === activeLevel.id), run: handleGroupSelection },
+    { id: 'edit.ungroup', label: 'Ungroup rooms', category: 'Edit', shortcuts: ['mod+shift+g'], enabled: selectedGroupIds.length > 0, run: () => handleUngroup(expandGroups(selectedGroupIds, levelRooms)) },
+    { id: 'view.zoom-to-fit', label: 'Zoom to fit', category: 'View', shortcuts: ['mod+0'], enabled: levelRooms.length > 0, run: handleZoomToFit },
+    { id: 'view.outline', label: 'Toggle outline', category: 'View', run: () => setShowOutline(s => !s) },
+    { id: 'view.plan-text', label: 'Toggle plan text', category: 'View', run: () => setShowPlanText(s => !s) },
+    { id: 'view.preview', label: 'Toggle 3D preview', category: 'View', run: () => setBottomPanel(p => p === 'preview' ? null : 'preview') },
+    { id: 'view.schedule', label: 'Toggle room schedule', category: 'View', run: () => setBottomPanel(p => p === 'schedule' ? null : 'schedule') },
+    { id: 'view.costs', label: 'Toggle cost estimate', category: 'View', run: () => setBottomPanel(p => p === 'costs' ? null : 'costs') },
+    { id: 'view.issues', label: 'Toggle plan issues', category: 'View', run: () => setBottomPanel(p => p === 'issues' ? null : 'issues') },
+    { id: 'view.rules', label: 'Toggle room rules', category: 'View', run: () => setBottomPanel(p => p === 'rules' ? null : 'rules') },
+    { id: 'view.history', label: 'Toggle history', category: 'View', run: () => setBottomPanel(p => p === 'history' ? null : 'history') },
+    { id: 'view.palette', label: 'Command palette', category: 'View', shortcuts: ['mod+k'], run: () => setShowPalette(true) },
+    { id: 'file.save', label: 'Save plan', category: 'File', shortcuts: ['mod+s'], run: handleSaveProject },
+    { id: 'file.open', label: 'Load plan or import DXF', category: 'File', shortcuts: ['mod+o'], run: triggerFileLoad },
+    { id: 'file.projects', label: 'Browse projects', category: 'File', run: () => setShowProjects(true) },
+    { id: 'file.new', label: 'New plan', category: 'File', run: handleNewPlan },
+    collab
+      ? { id: 'file.collab', label: 'Leave shared session', category: 'File', run: handleLeaveSession }
+      : { id: 'file.collab', label: 'Edit together…', category: 'File', run: () => setShowCollabDialog(true) },
+  ];
+
+  // The listener is registered once and always sees the latest commands
+  const commandsRef = useRef(commands);
+  commandsRef.current = commands;
+  const shortcutsBlocked = showPalette || showProjects || showArrayDialog || showCollabDialog || !!recovery;
+  useEffect(() => {
+    if (shortcutsBlocked) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (isTypingTarget(e.target)) return;
+      const command = findCommandForEvent(commandsRef.current, e);
+      if (!command) return;
+      e.preventDefault();
+      command.run();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [shortcutsBlocked]);
+
+  // Ctrl/Cmd+C, X and V use the native clipboard events, which need no permission prompt
+  const clipboardRef = useRef({ selectedRooms, settings, materials: plan.materials, cutRooms, handleDeleteRooms, pasteClipboardText });
+  clipboardRef.current = { selectedRooms, settings, materials: plan.materials, cutRooms, handleDeleteRooms, pasteClipboardText };
+  useEffect(() => {
+    if (shortcutsBlocked) return;
+    const handleCopy = (e: ClipboardEvent, cut: boolean) => {
+      const { selectedRooms, settings, materials, cutRooms, handleDeleteRooms } = clipboardRef.current;
+      const source = cut ? cutRooms() : selectedRooms;
+      if (isTypingTarget(e.target) || source.length === 0) return;
+      e.preventDefault();
+      e.clipboardData?.setData('text/plain', serializeClipboard(source, settings, materials));
+      if (cut) handleDeleteRooms(source.map(r => r.id));
+    };
+    const handlePaste = (e: ClipboardEvent) => {
+      if (isTypingTarget(e.target)) return;
+      if (clipboardRef.current.pasteClipboardText(e.clipboardData?.getData('text/plain') ?? '')) e.preventDefault();
+    };
+    const onCopy = (e: ClipboardEvent) => handleCopy(e, false);
+    const onCut = (e: ClipboardEvent) => handleCopy(e, true);
+    window.addEventListener('copy', onCopy);
+    window.addEventListener('cut', onCut);
+    window.addEventListener('paste', handlePaste);
+    return () => {
+      window.removeEventListener('copy', onCopy);
+      window.removeEventListener('cut', onCut);
+      window.removeEventListener('paste', handlePaste);
+    };
+  }, [shortcutsBlocked]);
   
   const getCursor = () => {
     if (isPanning) return 'grabbing';
-    if (mode === 'draw') return 'crosshair';
+    if (mode === 'draw' || mode === 'measure') return 'crosshair';
     if (actionState.type === 'moving' && actionState.isDragging) return 'grabbing';
-    if (mode === 'select' && !selectedRoomId) return 'grab';
+    if (mode === 'select' && selectedRoomIds.length === 0) return 'grab';
     return 'default';
   }
 
   return (
     <div className="flex h-screen font-sans bg-gray-100 text-gray-800">
+      {showOutline && (
+        <aside className="w-64 bg-white border-r border-gray-200 shadow-lg">
+          <OutlinePanel
+            rooms={rooms}
+            levels={levels}
+            activeLevelId={activeLevel.id}
+            selectedRoomIds={selectedRoomIds}
+            onSelectRooms={handleSelectOutlineRooms}
+            onZoomTo={handleZoomToRooms}
+            onSetFlags={handleSetRoomFlags}
+            onReorder={handleReorderRooms}
+            onGroupSelection={handleGroupSelection}
+            onUngroup={handleUngroup}
+            onRenameGroup={handleRenameGroup}
+            onClose={() => setShowOutline(false)}
+          />
+        </aside>
+      )}
       <main className="flex-1 flex flex-col">
         <header className="flex items-center justify-between p-3 bg-white border-b border-gray-200 shadow-sm">
           <div className="flex items-center space-x-2">
             <Ruler className="h-6 w-6 text-blue-600" />
             <h1 className="text-xl font-bold text-gray-700">Home Plan Modeler</h1>
+            <span className="text-sm text-gray-500" title={isDirty ? 'Unsaved changes' : 'Saved'}>— {project.name}{isDirty && ' •'}</span>
+            {collab && (
+              <div className="flex items-center pl-2 space-x-1.5">
+                <span
+                  className={`w-2 h-2 rounded-full ${collab.status === 'online' ? 'bg-green-500' : collab.status === 'connecting' ? 'bg-amber-400' : 'bg-red-500'}`}
+                  title={collab.status === 'online' ? `Editing "${collab.session}" live` : collab.status === 'connecting' ? 'Connecting…' : 'Offline: your edits will merge when the relay is back'}
+                />
+                {[collabRef.current.peer, ...peers.map(p => p.peer)].map(peer => (
+                  <span key={peer.id} className="w-6 h-6 rounded-full text-[11px] leading-6 text-center font-semibold text-white" style={{ backgroundColor: peer.color }} title={peer.id === collabRef.current.peer.id ? `${peer.name} (you)` : peer.name}>
+                    {peer.name.slice(0, 1).toUpperCase()}
+                  </span>
+                ))}
+                <button onClick={handleLeaveSession} className="p-1 rounded-md hover:bg-gray-200 transition-colors" title="Leave Shared Session"><LogOut className="h-4 w-4 text-gray-600"/></button>
+              </div>
+            )}
           </div>
           <div className="flex items-center space-x-2">
-            <button onClick={handleSave} className="p-2 rounded-md bg-transparent hover:bg-gray-200 transition-colors" title="Save Plan"><Save className="h-5 w-5 text-gray-600" /></button>
-            <button onClick={triggerFileLoad} className="p-2 rounded-md bg-transparent hover:bg-gray-200 transition-colors" title="Load Plan"><FolderOpen className="h-5 w-5 text-gray-600" /></button>
-            <input type="file" ref={fileInputRef} onChange={handleFileChange} accept=".json" className="hidden" />
+            <LevelSwitcher
+              levels={levels}
+              activeLevelId={activeLevel.id}
+              settings={settings}
+              showGhosts={showGhosts}
+              onSelectLevel={handleSelectLevel}
+              onAddLevel={handleAddLevel}
+              onUpdateLevel={handleUpdateLevel}
+              onDeleteLevel={handleDeleteLevel}
+              onCopyLevel={handleCopyLevel}
+              onToggleGhosts={() => setShowGhosts(v => !v)}
+            />
+            <div className="h-6 w-px bg-gray-200 mx-1"></div>
+            <button onClick={() => setShowProjects(true)} className="p-2 rounded-md bg-transparent hover:bg-gray-200 transition-colors" title="Projects"><Library className="h-5 w-5 text-gray-600" /></button>
+            <button onClick={handleSaveProject} className="p-2 rounded-md bg-transparent hover:bg-gray-200 transition-colors" title="Save Plan to Projects (Ctrl+S)"><Save className="h-5 w-5 text-gray-600" /></button>
+            <button onClick={triggerFileLoad} className="p-2 rounded-md bg-transparent hover:bg-gray-200 transition-colors" title="Load Plan (JSON or Plan Text) or Import Rooms (DXF) (Ctrl+O)"><FolderOpen className="h-5 w-5 text-gray-600" /></button>
+            <button onClick={() => setShowCollabDialog(true)} className={`p-2 rounded-md transition-colors ${collab ? 'bg-blue-100 text-blue-600' : 'bg-transparent hover:bg-gray-200 text-gray-600'}`} title="Edit Together"><Users className="h-5 w-5"/></button>
+            <ExportMenu onExportPlanFile={handleExportPlanFile} onExportPlanText={handleExportPlanText} onExportSvg={handleExportSvg} onExportDxf={handleExportDxf} onExportScheduleCsv={handleExportScheduleCsv} />
+            <input type="file" ref={fileInputRef} onChange={handleFileChange} accept=".json,.plan,.dxf" className="hidden" />
+            <div className="h-6 w-px bg-gray-200 mx-1"></div>
+            <button onClick={() => setShowPalette(true)} className="p-2 rounded-md bg-transparent hover:bg-gray-200 transition-colors" title="Command Palette (Ctrl+K)"><CommandIcon className="h-5 w-5 text-gray-600" /></button>
+            <button onClick={undo} disabled={!canUndo} className="p-2 rounded-md bg-transparent hover:bg-gray-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed" title={canUndo ? `Undo ${history.entries[history.index - 1].label} (Ctrl+Z)` : "Undo (Ctrl+Z)"}><Undo className="h-5 w-5 text-gray-600" /></button>
+            <button onClick={redo} disabled={!canRedo} className="p-2 rounded-md bg-transparent hover:bg-gray-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed" title={canRedo ? `Redo ${history.entries[history.index].label} (Ctrl+Y)` : "Redo (Ctrl+Y)"}><Redo className="h-5 w-5 text-gray-600" /></button>
+            <button onClick={() => setBottomPanel(p => p === 'history' ? null : 'history')} className={`p-2 rounded-md transition-colors ${bottomPanel === 'history' ? 'bg-blue-100 text-blue-600' : 'bg-transparent hover:bg-gray-200 text-gray-600'}`} title="History"><History className="h-5 w-5"/></button>
             <div className="h-6 w-px bg-gray-200 mx-1"></div>
-            <button onClick={undo} disabled={!canUndo} className="p-2 rounded-md bg-transparent hover:bg-gray-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed" title="Undo"><Undo className="h-5 w-5 text-gray-600" /></button>
-            <button onClick={redo} disabled={!canRedo} className="p-2 rounded-md bg-transparent hover:bg-gray-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed" title="Redo"><Redo className="h-5 w-5 text-gray-600" /></button>
+            <button onClick={handleDuplicate} disabled={selectedRooms.length === 0} className="p-2 rounded-md bg-transparent hover:bg-gray-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed" title="Duplicate (Ctrl+D)"><CopyPlus className="h-5 w-5 text-gray-600" /></button>
+            <button onClick={() => setShowArrayDialog(true)} disabled={selectedRooms.length === 0} className="p-2 rounded-md bg-transparent hover:bg-gray-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed" title="Array Duplicate"><Grid2x2Plus className="h-5 w-5 text-gray-600" /></button>
             <div className="h-6 w-px bg-gray-200 mx-1"></div>
-            <button onClick={() => setMode('select')} className={`p-2 rounded-md transition-colors ${mode === 'select' ? 'bg-blue-100 text-blue-600' : 'bg-transparent hover:bg-gray-200'}`} title="Select & Move Tool (V)"><Hand className="h-5 w-5"/></button>
-            <button onClick={() => setMode('draw')} className={`p-2 rounded-md transition-colors ${mode === 'draw' ? 'bg-blue-100 text-blue-600' : 'bg-transparent hover:bg-gray-200'}`} title="Draw Room Tool (R)"><SquarePlus className="h-5 w-5"/></button>
+            <button onClick={() => activateTool('select')} className={`p-2 rounded-md transition-colors ${mode === 'select' ? 'bg-blue-100 text-blue-600' : 'bg-transparent hover:bg-gray-200'}`} title="Select & Move Tool (V) - Shift+click or Shift+drag to select several rooms"><Hand className="h-5 w-5"/></button>
+            <button onClick={() => activateTool('rect')} className={`p-2 rounded-md transition-colors ${mode === 'draw' && drawShape === 'rect' ? 'bg-blue-100 text-blue-600' : 'bg-transparent hover:bg-gray-200'}`} title="Draw Room Tool (R)"><SquarePlus className="h-5 w-5"/></button>
+            <button onClick={() => activateTool('polygon')} className={`p-2 rounded-md transition-colors ${mode === 'draw' && drawShape === 'polygon' ? 'bg-blue-100 text-blue-600' : 'bg-transparent hover:bg-gray-200'}`} title="Draw Polygon Room Tool (P) - click to add vertices, click the first vertex or press Enter to close"><Pentagon className="h-5 w-5"/></button>
+            <select
+              value={drawType}
+              onChange={e => setDrawType(e.target.value as RoomType | '')}
+              className="text-sm py-1 px-1 border border-gray-300 rounded-md bg-white focus:outline-none focus:ring-1 focus:ring-blue-500"
+              title="Type of room to draw; click instead of dragging to place one at a typical size"
+              aria-label="Type of room to draw"
+            >
+              <option value="">Any room</option>
+              {ROOM_TYPES.map(spec => <option key={spec.type} value={spec.type}>{spec.label}</option>)}
+            </select>
+            <button onClick={() => activateTool('measure')} className={`p-2 rounded-md transition-colors ${mode === 'measure' ? 'bg-blue-100 text-blue-600' : 'bg-transparent hover:bg-gray-200'}`} title="Measure Tool (M) - drag between two points, then pin the reading as a dimension line"><RulerDimensionLine className="h-5 w-5"/></button>
+            <button onClick={handleAddExteriorDimensions} disabled={levelRooms.length === 0} className="p-2 rounded-md bg-transparent hover:bg-gray-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed" title="Add Exterior Dimensions"><Frame className="h-5 w-5 text-gray-600"/></button>
+            <button onClick={handleZoomToFit} disabled={levelRooms.length === 0} className="p-2 rounded-md bg-transparent hover:bg-gray-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed" title="Zoom to Fit (Ctrl+0)"><Scan className="h-5 w-5 text-gray-600"/></button>
+            <div className="h-6 w-px bg-gray-200 mx-1"></div>
+            <button onClick={() => setShowOutline(s => !s)} className={`p-2 rounded-md transition-colors ${showOutline ? 'bg-blue-100 text-blue-600' : 'bg-transparent hover:bg-gray-200'}`} title="Outline"><ListTree className="h-5 w-5"/></button>
+            <button onClick={() => setShowPlanText(s => !s)} className={`p-2 rounded-md transition-colors ${showPlanText ? 'bg-blue-100 text-blue-600' : 'bg-transparent hover:bg-gray-200'}`} title="Plan Text"><SquareCode className="h-5 w-5"/></button>
+            <button onClick={() => setBottomPanel(p => p === 'preview' ? null : 'preview')} className={`p-2 rounded-md transition-colors ${bottomPanel === 'preview' ? 'bg-blue-100 text-blue-600' : 'bg-transparent hover:bg-gray-200'}`} title="3D Preview"><Box className="h-5 w-5"/></button>
+            <button onClick={() => setBottomPanel(p => p === 'schedule' ? null : 'schedule')} className={`p-2 rounded-md transition-colors ${bottomPanel === 'schedule' ? 'bg-blue-100 text-blue-600' : 'bg-transparent hover:bg-gray-200'}`} title="Room Schedule"><Table className="h-5 w-5"/></button>
+            <button onClick={() => setBottomPanel(p => p === 'costs' ? null : 'costs')} className={`p-2 rounded-md transition-colors ${bottomPanel === 'costs' ? 'bg-blue-100 text-blue-600' : 'bg-transparent hover:bg-gray-200'}`} title="Cost Estimate"><Calculator className="h-5 w-5"/></button>
+            <button onClick={() => setBottomPanel(p => p === 'rules' ? null : 'rules')} className={`p-2 rounded-md transition-colors ${bottomPanel === 'rules' ? 'bg-blue-100 text-blue-600' : 'bg-transparent hover:bg-gray-200'}`} title="Room Rules"><ClipboardCheck className="h-5 w-5"/></button>
+            <button onClick={() => setBottomPanel(p => p === 'issues' ? null : 'issues')} className={`relative p-2 rounded-md transition-colors ${bottomPanel === 'issues' ? 'bg-blue-100 text-blue-600' : 'bg-transparent hover:bg-gray-200'}`} title="Plan Issues">
+              <ShieldAlert className="h-5 w-5"/>
+              {issues.some(i => i.severity !== 'info') && (
+                <span className={`absolute -top-0.5 -right-0.5 min-w-4 h-4 px-1 rounded-full text-[10px] leading-4 text-white ${issues.some(i => i.severity === 'error') ? 'bg-red-600' : 'bg-amber-500'}`}>
+                  {issues.filter(i => i.severity !== 'info').length}
+                </span>
+              )}
+            </button>
           </div>
         </header>
         <div 
@@ -532,11 +1797,11 @@ const App: React.FC = () => {
           onMouseDown={handleMouseDown}
           onMouseMove={handleMouseMove}
           onMouseUp={handleMouseUp}
-          onMouseLeave={handleMouseUp}
+          onMouseLeave={e => { handleMouseUp(e); reportCursor(null); }}
           onWheel={handleWheel}
           style={{ cursor: getCursor() }}
         >
-          <GridBackground transform={viewTransform} />
+          <GridBackground transform={viewTransform} settings={settings} />
           
           <div 
             className="w-full h-full"
@@ -545,15 +1810,39 @@ const App: React.FC = () => {
                 transformOrigin: 'top left'
             }}
           >
-            {rooms.map(room => (
+            <GhostUnderlay rooms={ghostRooms} />
+            {visibleRooms.map(room => (
               <RoomComponent 
                 key={room.id}
                 room={room}
-                isSelected={room.id === selectedRoomId}
+                settings={settings}
+                isSelected={selectedRoomIds.includes(room.id)}
+                ruleWarning={ruleWarnings.get(room.id)}
                 onMouseDown={handleRoomMouseDown}
                 onResizeStart={handleResizeStart}
+                onPolygonHandleStart={handlePolygonHandleStart}
+                onRotateStart={handleRotateStart}
               />
             ))}
+            <FurnitureLayer
+              rooms={visibleRooms}
+              selectedItemId={selectedItemId}
+              interactive={mode === 'select'}
+              onItemMouseDown={handleItemMouseDown}
+            />
+            <WallLayer walls={visibleWalls} />
+            <OpeningLayer rooms={visibleRooms} highlightedIds={highlightedFeatureIds} />
+            <DimensionLayer
+              dimensions={levelDimensions}
+              rooms={levelRooms}
+              settings={settings}
+              tape={tape && { from: tape.start.point, to: tape.end.point, done: tape.done }}
+              editable={mode === 'measure'}
+              onPinTape={handlePinTape}
+              onDeleteDimension={handleDeleteDimension}
+            />
+            <SnapGuideLayer guides={snapGuides} />
+            <PresenceLayer peers={peers} rooms={levelRooms} levelId={activeLevel.id} scale={viewTransform.scale} />
             {drawingPreview && (
                 <div
                     className="absolute border-2 border-dashed border-blue-500 bg-blue-500 bg-opacity-20 pointer-events-none"
@@ -566,17 +1855,164 @@ const App: React.FC = () => {
                     }}
                 />
             )}
+            {marquee && (
+                <div
+                    className="absolute border border-blue-500 bg-blue-500 bg-opacity-10 pointer-events-none"
+                    style={{
+                        left: Math.min(marquee.start.x, marquee.end.x),
+                        top: Math.min(marquee.start.y, marquee.end.y),
+                        width: Math.abs(marquee.start.x - marquee.end.x),
+                        height: Math.abs(marquee.start.y - marquee.end.y),
+                        zIndex: 10000,
+                    }}
+                />
+            )}
+            {polygonDraft && (
+                <svg className="absolute left-0 top-0 overflow-visible pointer-events-none" width={1} height={1} style={{ zIndex: 10000 }}>
+                    <polyline
+                        points={pointsToSvg([...polygonDraft.points, polygonDraft.cursor])}
+                        fill="rgba(59, 130, 246, 0.2)"
+                        stroke="#3B82F6"
+                        strokeWidth={2}
+                        strokeDasharray="6 4"
+                    />
+                    {polygonDraft.points.map((p, i) => (
+                        <circle key={i} cx={p.x} cy={p.y} r={i === 0 ? 5 : 3} fill={i === 0 ? '#fff' : '#3B82F6'} stroke="#3B82F6" strokeWidth={2} />
+                    ))}
+                </svg>
+            )}
           </div>
         </div>
+        {bottomPanel && (
+          <div className={`${bottomPanel === 'preview' ? 'h-96' : 'h-64'} bg-white border-t border-gray-200`}>
+            {bottomPanel === 'preview' && (
+              <IsometricPreview
+                rooms={rooms}
+                levels={levels}
+                activeLevel={activeLevel}
+                settings={settings}
+                onUpdateLevel={handleUpdateLevel}
+                onClose={() => setBottomPanel(null)}
+              />
+            )}
+            {bottomPanel === 'schedule' && (
+              <RoomSchedulePanel
+                rooms={rooms}
+                levels={levels}
+                settings={settings}
+                selectedRoomIds={selectedRoomIds}
+                onSelectRoom={handleFocusRoom}
+                onExportCsv={handleExportScheduleCsv}
+                onClose={() => setBottomPanel(null)}
+              />
+            )}
+            {bottomPanel === 'costs' && (
+              <CostEstimatePanel
+                plan={plan}
+                selectedRoomIds={selectedRoomIds}
+                onSelectRoom={handleFocusRoom}
+                onAddMaterial={handleAddMaterial}
+                onUpdateMaterial={handleUpdateMaterial}
+                onDeleteMaterial={handleDeleteMaterial}
+                onExportCsv={handleExportCostCsv}
+                onClose={() => setBottomPanel(null)}
+              />
+            )}
+            {bottomPanel === 'rules' && (
+              <RuleReportPanel
+                rooms={rooms}
+                levels={levels}
+                settings={settings}
+                ruleSet={ruleSet}
+                ruleIssues={ruleIssues}
+                selectedRoomIds={selectedRoomIds}
+                onSelectRoom={handleFocusRoom}
+                onImport={handleImportRuleSet}
+                onExport={handleExportRuleSet}
+                onReset={handleResetRuleSet}
+                onClose={() => setBottomPanel(null)}
+              />
+            )}
+            {bottomPanel === 'history' && (
+              <HistoryPanel
+                history={history}
+                keepHistory={keepHistory}
+                onJump={jumpToStep}
+                onKeepHistoryChange={handleKeepHistoryChange}
+                onClose={() => setBottomPanel(null)}
+              />
+            )}
+            {bottomPanel === 'issues' && (
+              <IssuesPanel
+                issues={issues}
+                levels={levels}
+                activeIssueId={activeIssueId}
+                onSelectIssue={handleSelectIssue}
+                onClose={() => setBottomPanel(null)}
+              />
+            )}
+          </div>
+        )}
       </main>
+      {showPlanText && (
+        <aside className="w-[28rem] bg-white border-l border-gray-200 shadow-lg">
+          <PlanTextEditor plan={plan} onApply={handleApplyPlanText} onClose={() => setShowPlanText(false)} />
+        </aside>
+      )}
       <aside className="w-80 bg-white border-l border-gray-200 shadow-lg">
         <InspectorPanel 
-          selectedRoom={selectedRoom}
+          selectedRooms={selectedRooms}
+          settings={settings}
+          levels={levels}
+          rooms={rooms}
+          featureConnections={featureConnections}
+          ruleIssues={ruleIssues}
+          materials={plan.materials}
           onUpdateRoom={handleUpdateRoom}
-          onDeleteRoom={handleDeleteRoom}
+          onUpdateRooms={handleUpdateRooms}
+          onDeleteRooms={handleDeleteRooms}
+          onUpdateSettings={handleUpdateSettings}
+          onCopyRoomToLevel={handleCopyRoomToLevel}
+          selectedItemId={selectedItemId}
+          onSelectItem={setSelectedItemId}
           roomColors={ROOM_COLORS}
         />
       </aside>
+      {showArrayDialog && (
+        <ArrayDuplicateDialog
+          settings={settings}
+          defaultSpacing={{ x: getPointsBounds(selectedRooms.flatMap(getRoomOutline)).width, y: 0 }}
+          onConfirm={handleArrayDuplicate}
+          onCancel={() => setShowArrayDialog(false)}
+        />
+      )}
+      {showPalette && (
+        <CommandPalette
+          commands={commands}
+          rooms={rooms}
+          levels={levels}
+          onSelectRoom={handleFocusRoom}
+          onClose={() => setShowPalette(false)}
+        />
+      )}
+      {showProjects && (
+        <ProjectBrowser
+          currentProjectId={project.id}
+          onOpen={handleOpenProject}
+          onNew={handleNewPlan}
+          onRenamed={(id, name) => id === project.id && setProject({ id, name })}
+          onDeleted={id => id === project.id && setProject(p => ({ ...p, id: null }))}
+          onClose={() => setShowProjects(false)}
+        />
+      )}
+      {showCollabDialog && (
+        <CollabDialog
+          initial={collab ? { ...getCollabPrefs(), session: collab.session } : getCollabPrefs()}
+          onJoin={handleJoinSession}
+          onCancel={() => setShowCollabDialog(false)}
+        />
+      )}
+      {recovery && <RecoveryPrompt autosave={recovery} onRecover={handleRecover} onDiscard={handleDiscardRecovery} />}
     </div>
   );
 };
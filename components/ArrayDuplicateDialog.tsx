@@ -0,0 +1,59 @@
+import React, { useState } from 'react';
+import type { PlanSettings, Point } from '../types';
+import { Grid2x2Plus } from 'lucide-react';
+import LengthInput from './LengthInput';
+
+interface ArrayDuplicateDialogProps {
+  settings: PlanSettings;
+  defaultSpacing: Point;
+  onConfirm: (count: number, spacing: Point) => void;
+  onCancel: () => void;
+}
+
+const MAX_COPIES = 50;
+
+/** Asks how many copies of the selection to lay out, and how far apart. */
+const ArrayDuplicateDialog: React.FC<ArrayDuplicateDialogProps> = ({ settings, defaultSpacing, onConfirm, onCancel }) => {
+  const [count, setCount] = useState(3);
+  const [spacing, setSpacing] = useState(defaultSpacing);
+
+  return (
+    <div className="fixed inset-0 flex items-center justify-center bg-black bg-opacity-30" style={{ zIndex: 30000 }}>
+      <div className="w-80 p-5 bg-white rounded-lg shadow-xl space-y-4" role="dialog" aria-labelledby="array-title">
+        <div className="flex items-center space-x-2">
+          <Grid2x2Plus className="w-5 h-5 text-blue-600"/>
+          <h2 id="array-title" className="text-lg font-semibold text-gray-700">Array duplicate</h2>
+        </div>
+        <div>
+          <label htmlFor="array-count" className="block text-xs text-gray-500 mb-1">Copies</label>
+          <input
+            id="array-count"
+            type="number"
+            min="1"
+            max={MAX_COPIES}
+            step="1"
+            value={count}
+            onChange={e => setCount(Math.max(1, Math.min(MAX_COPIES, Math.round(Number(e.target.value)) || 1)))}
+            className="w-full text-sm p-2 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-blue-500"
+          />
+        </div>
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label htmlFor="array-spacing-x" className="block text-xs text-gray-500 mb-1">Spacing across</label>
+            <LengthInput id="array-spacing-x" value={spacing.x} settings={settings} onChange={x => setSpacing(s => ({ ...s, x }))} className="w-full text-sm p-2 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-blue-500"/>
+          </div>
+          <div>
+            <label htmlFor="array-spacing-y" className="block text-xs text-gray-500 mb-1">Spacing down</label>
+            <LengthInput id="array-spacing-y" value={spacing.y} settings={settings} onChange={y => setSpacing(s => ({ ...s, y }))} className="w-full text-sm p-2 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-blue-500"/>
+          </div>
+        </div>
+        <div className="flex justify-end space-x-2">
+          <button onClick={onCancel} className="text-sm px-3 py-1.5 bg-gray-200 hover:bg-gray-300 rounded-md transition-colors">Cancel</button>
+          <button onClick={() => onConfirm(count, spacing)} className="text-sm px-3 py-1.5 bg-blue-500 text-white hover:bg-blue-600 rounded-md transition-colors">Duplicate</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ArrayDuplicateDialog;
@@ -0,0 +1,60 @@
+import React, { useState } from 'react';
+import { Users } from 'lucide-react';
+import type { CollabPrefs } from '../utils/collab';
+
+interface CollabDialogProps {
+  initial: CollabPrefs;
+  onJoin: (prefs: CollabPrefs) => void;
+  onCancel: () => void;
+}
+
+/** Asks where the relay runs, which session to join and what to call us there. */
+const CollabDialog: React.FC<CollabDialogProps> = ({ initial, onJoin, onCancel }) => {
+  const [prefs, setPrefs] = useState(initial);
+  const canJoin = prefs.url.trim() !== '' && prefs.session.trim() !== '' && prefs.name.trim() !== '';
+
+  const field = (key: keyof CollabPrefs, label: string, placeholder: string) => (
+    <div>
+      <label htmlFor={`collab-${key}`} className="block text-xs text-gray-500 mb-1">{label}</label>
+      <input
+        id={`collab-${key}`}
+        value={prefs[key]}
+        placeholder={placeholder}
+        onChange={e => setPrefs(p => ({ ...p, [key]: e.target.value }))}
+        className="w-full text-sm p-2 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-blue-500"
+      />
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 flex items-center justify-center bg-black bg-opacity-30" style={{ zIndex: 30000 }}>
+      <form
+        className="w-96 p-5 bg-white rounded-lg shadow-xl space-y-4"
+        role="dialog"
+        aria-labelledby="collab-title"
+        onSubmit={e => {
+          e.preventDefault();
+          if (canJoin) onJoin({ url: prefs.url.trim(), session: prefs.session.trim(), name: prefs.name.trim() });
+        }}
+      >
+        <div className="flex items-center space-x-2">
+          <Users className="w-5 h-5 text-blue-600"/>
+          <h2 id="collab-title" className="text-lg font-semibold text-gray-700">Edit together</h2>
+        </div>
+        <p className="text-xs text-gray-500">
+          Everyone who joins the same session on the same relay edits one shared plan. Start the relay with <code>npm run relay</code>.
+          If the session is empty it starts from your current plan; otherwise your plan is replaced by the shared one.
+        </p>
+        {field('url', 'Relay address', 'ws://localhost:8787')}
+        {field('session', 'Session', 'e.g. kitchen-remodel')}
+        {field('name', 'Your name', 'Shown next to your cursor')}
+        <div className="flex justify-end space-x-2">
+          <button type="button" onClick={onCancel} className="text-sm px-3 py-1.5 bg-gray-200 hover:bg-gray-300 rounded-md transition-colors">Cancel</button>
+          <button type="submit" disabled={!canJoin} className="text-sm px-3 py-1.5 bg-blue-500 text-white hover:bg-blue-600 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed">Join</button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default CollabDialog;
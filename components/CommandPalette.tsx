@@ -0,0 +1,107 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import type { Level, Room } from '../types';
+import { Command as CommandIcon, Search, SquareDashed } from 'lucide-react';
+import type { Command } from '../utils/commands';
+import { formatShortcut, matchesQuery } from '../utils/commands';
+
+interface CommandPaletteProps {
+  commands: Command[];
+  rooms: Room[];
+  levels: Level[];
+  onSelectRoom: (id: string) => void;
+  onClose: () => void;
+}
+
+interface PaletteEntry {
+  key: string;
+  label: string;
+  detail: string;
+  shortcut?: string;
+  icon: React.ElementType;
+  run: () => void;
+}
+
+const MAX_ENTRIES = 50;
+
+/** Ctrl/Cmd+K search over every command and every room in the plan. */
+const CommandPalette: React.FC<CommandPaletteProps> = ({ commands, rooms, levels, onSelectRoom, onClose }) => {
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const listRef = useRef<HTMLUListElement>(null);
+
+  const entries = useMemo(() => {
+    const levelNames = new Map(levels.map(l => [l.id, l.name]));
+    const commandEntries: PaletteEntry[] = commands
+      .filter(c => c.enabled !== false && matchesQuery(`${c.category} ${c.label}`, query))
+      .map(c => ({ key: c.id, label: c.label, detail: c.category, shortcut: c.shortcuts?.[0], icon: CommandIcon, run: c.run }));
+    const roomEntries: PaletteEntry[] = query.trim() === '' ? [] : rooms
+      .filter(r => matchesQuery(r.name, query))
+      .map(r => ({ key: `room:${r.id}`, label: r.name, detail: `Room · ${levelNames.get(r.levelId) ?? ''}`, icon: SquareDashed, run: () => onSelectRoom(r.id) }));
+    return [...commandEntries, ...roomEntries].slice(0, MAX_ENTRIES);
+  }, [commands, rooms, levels, query, onSelectRoom]);
+
+  useEffect(() => setActiveIndex(0), [query]);
+
+  useEffect(() => {
+    listRef.current?.children[activeIndex]?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  const runEntry = (entry: PaletteEntry | undefined) => {
+    if (!entry) return;
+    onClose();
+    entry.run();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex(i => Math.min(i + 1, entries.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex(i => Math.max(i - 1, 0));
+    } else if (e.key === 'Enter') {
+      runEntry(entries[activeIndex]);
+    } else if (e.key === 'Escape') {
+      onClose();
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 flex items-start justify-center pt-24 bg-black bg-opacity-30" style={{ zIndex: 30000 }} onMouseDown={onClose}>
+      <div className="w-[32rem] bg-white rounded-lg shadow-xl overflow-hidden" role="dialog" aria-label="Command palette" onMouseDown={e => e.stopPropagation()}>
+        <div className="flex items-center px-3 border-b border-gray-200">
+          <Search className="w-4 h-4 text-gray-400"/>
+          <input
+            autoFocus
+            value={query}
+            onChange={e => setQuery(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder="Search commands and rooms…"
+            className="flex-1 px-2 py-3 text-sm focus:outline-none"
+          />
+        </div>
+        <ul ref={listRef} className="max-h-80 overflow-auto py-1 text-sm">
+          {entries.length === 0 && <li className="px-4 py-3 text-gray-500">Nothing matches "{query}"</li>}
+          {entries.map((entry, i) => {
+            const Icon = entry.icon;
+            return (
+              <li
+                key={entry.key}
+                onMouseEnter={() => setActiveIndex(i)}
+                onClick={() => runEntry(entry)}
+                className={`flex items-center px-4 py-2 cursor-pointer ${i === activeIndex ? 'bg-blue-50 text-blue-700' : 'text-gray-700'}`}
+              >
+                <Icon className="w-4 h-4 mr-3 text-gray-400"/>
+                <span className="flex-1">{entry.label}</span>
+                <span className="ml-3 text-xs text-gray-400">{entry.detail}</span>
+                {entry.shortcut && <kbd className="ml-3 px-1.5 py-0.5 text-xs text-gray-500 bg-gray-100 border border-gray-200 rounded">{formatShortcut(entry.shortcut)}</kbd>}
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+    </div>
+  );
+};
+
+export default CommandPalette;
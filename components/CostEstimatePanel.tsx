@@ -0,0 +1,190 @@
+import React, { useMemo, useState } from 'react';
+import type { FinishSlot, Material, Plan } from '../types';
+import { FileSpreadsheet, Plus, Trash2, X } from 'lucide-react';
+import { buildCostEstimate, formatCost } from '../utils/costEstimate';
+import { FINISH_SLOTS, getFinishSlotSpec, isMaterialNameTaken } from '../utils/materials';
+
+interface CostEstimatePanelProps {
+  plan: Plan;
+  selectedRoomIds: string[];
+  onSelectRoom: (id: string) => void;
+  onAddMaterial: (slot: FinishSlot) => void;
+  onUpdateMaterial: (id: string, newValues: Partial<Material>) => void;
+  onDeleteMaterial: (id: string) => void;
+  onExportCsv: () => void;
+  onClose: () => void;
+}
+
+const INPUT_CLASS = 'w-full px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-blue-500';
+
+const quantityText = (value: number, slot: FinishSlot) => `${value.toFixed(2)} ${getFinishSlotSpec(slot).unit}`;
+
+/** What the assigned finishes cost, room by room, and the material library they come from. */
+const CostEstimatePanel: React.FC<CostEstimatePanelProps> = ({ plan, selectedRoomIds, onSelectRoom, onAddMaterial, onUpdateMaterial, onDeleteMaterial, onExportCsv, onClose }) => {
+  const [view, setView] = useState<'estimate' | 'library'>('estimate');
+  const [newSlot, setNewSlot] = useState<FinishSlot>('floor');
+  // A name another material for the same finish has stays here, flagged, until it is changed or left
+  const [nameDraft, setNameDraft] = useState<{ id: string; name: string } | null>(null);
+  const estimate = useMemo(() => buildCostEstimate(plan), [plan]);
+  const tabClass = (tab: typeof view) => `px-2 py-0.5 rounded-md ${view === tab ? 'bg-blue-100 text-blue-600' : 'text-gray-600 hover:bg-gray-200'}`;
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="flex items-center justify-between px-4 py-2 border-b border-gray-200">
+        <div className="flex items-center space-x-3">
+          <h2 className="text-sm font-semibold text-gray-700">Cost Estimate</h2>
+          <div className="flex items-center space-x-1 text-xs">
+            <button onClick={() => setView('estimate')} className={tabClass('estimate')}>Estimate</button>
+            <button onClick={() => setView('library')} className={tabClass('library')}>Materials</button>
+          </div>
+          <span className="text-xs text-gray-500">Total {formatCost(estimate.total)}</span>
+        </div>
+        <div className="flex items-center space-x-2">
+          <button onClick={onExportCsv} disabled={estimate.lines.length === 0} className="flex items-center text-sm px-2 py-1 bg-gray-200 hover:bg-gray-300 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed">
+            <FileSpreadsheet className="w-4 h-4 mr-2"/> Export CSV
+          </button>
+          <button onClick={onClose} className="p-1 rounded-md hover:bg-gray-200 transition-colors" aria-label="Close cost estimate"><X className="w-4 h-4 text-gray-600"/></button>
+        </div>
+      </div>
+      <div className="flex-1 overflow-auto">
+        {view === 'estimate' ? (
+          estimate.lines.length === 0 ? (
+            <div className="flex items-center justify-center h-full text-sm text-gray-500">
+              Give rooms finishes in the properties panel to price them.
+            </div>
+          ) : (
+            <table className="w-full text-sm">
+              <thead className="sticky top-0 bg-gray-50 text-xs text-gray-500">
+                <tr>
+                  <th className="px-3 py-2 font-medium text-left">Room</th>
+                  <th className="px-3 py-2 font-medium text-left">Level</th>
+                  <th className="px-3 py-2 font-medium text-left">Finish</th>
+                  <th className="px-3 py-2 font-medium text-left">Material</th>
+                  <th className="px-3 py-2 font-medium text-right">Quantity</th>
+                  <th className="px-3 py-2 font-medium text-right">With waste</th>
+                  <th className="px-3 py-2 font-medium text-right">Unit price</th>
+                  <th className="px-3 py-2 font-medium text-right">Cost</th>
+                </tr>
+              </thead>
+              <tbody>
+                {estimate.lines.map(line => (
+                  <tr
+                    key={`${line.roomId}/${line.slot}`}
+                    onClick={() => onSelectRoom(line.roomId)}
+                    className={`border-t border-gray-100 cursor-pointer ${selectedRoomIds.includes(line.roomId) ? 'bg-blue-50' : 'hover:bg-gray-50'}`}
+                  >
+                    <td className="px-3 py-1.5">{line.roomName}</td>
+                    <td className="px-3 py-1.5">{line.levelName}</td>
+                    <td className="px-3 py-1.5">{getFinishSlotSpec(line.slot).label}</td>
+                    <td className="px-3 py-1.5">{line.material.name}</td>
+                    <td className="px-3 py-1.5 text-right tabular-nums">{quantityText(line.quantity, line.slot)}</td>
+                    <td className="px-3 py-1.5 text-right tabular-nums">{quantityText(line.ordered, line.slot)}</td>
+                    <td className="px-3 py-1.5 text-right tabular-nums">{formatCost(line.material.unitPrice)}</td>
+                    <td className="px-3 py-1.5 text-right tabular-nums">{formatCost(line.cost)}</td>
+                  </tr>
+                ))}
+              </tbody>
+              <tbody className="border-t border-gray-300 text-gray-600">
+                {estimate.materials.map(({ material, ordered, cost }) => (
+                  <tr key={material.id}>
+                    <td className="px-3 py-1" colSpan={3}>{getFinishSlotSpec(material.slot).label} total</td>
+                    <td className="px-3 py-1">{material.name}</td>
+                    <td></td>
+                    <td className="px-3 py-1 text-right tabular-nums">{quantityText(ordered, material.slot)}</td>
+                    <td></td>
+                    <td className="px-3 py-1 text-right tabular-nums">{formatCost(cost)}</td>
+                  </tr>
+                ))}
+              </tbody>
+              <tfoot className="border-t border-gray-300 font-semibold">
+                <tr>
+                  <td className="px-3 py-2" colSpan={7}>
+                    Total
+                    {estimate.unfinishedRoomIds.length > 0 && (
+                      <span className="ml-2 text-xs font-normal text-amber-600">
+                        ({estimate.unfinishedRoomIds.length} room{estimate.unfinishedRoomIds.length === 1 ? ' has' : 's have'} no finishes)
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-3 py-2 text-right tabular-nums">{formatCost(estimate.total)}</td>
+                </tr>
+              </tfoot>
+            </table>
+          )
+        ) : (
+          <table className="w-full text-sm">
+            <thead className="sticky top-0 bg-gray-50 text-xs text-gray-500">
+              <tr>
+                <th className="px-3 py-2 font-medium text-left">Material</th>
+                <th className="px-3 py-2 font-medium text-left w-36">Finish</th>
+                <th className="px-3 py-2 font-medium text-left w-36">Unit price</th>
+                <th className="px-3 py-2 font-medium text-left w-28">Waste (%)</th>
+                <th className="w-10"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {plan.materials.map(material => (
+                <tr key={material.id} className="border-t border-gray-100">
+                  <td className="px-3 py-1">
+                    <input
+                      value={nameDraft?.id === material.id ? nameDraft.name : material.name}
+                      onChange={e => {
+                        const name = e.target.value;
+                        if (isMaterialNameTaken(plan.materials, { ...material, name })) {
+                          setNameDraft({ id: material.id, name });
+                        } else {
+                          setNameDraft(null);
+                          onUpdateMaterial(material.id, { name });
+                        }
+                      }}
+                      onBlur={() => setNameDraft(null)}
+                      aria-invalid={nameDraft?.id === material.id}
+                      title={nameDraft?.id === material.id ? `Another ${getFinishSlotSpec(material.slot).label.toLowerCase()} material is called "${nameDraft.name}"` : undefined}
+                      className={`${INPUT_CLASS} ${nameDraft?.id === material.id ? 'border-red-500 focus:ring-red-500' : ''}`}
+                      aria-label="Material name"
+                    />
+                  </td>
+                  <td className="px-3 py-1">
+                    <select value={material.slot} onChange={e => onUpdateMaterial(material.id, { slot: e.target.value as FinishSlot })} className={INPUT_CLASS} aria-label="Finish">
+                      {FINISH_SLOTS.map(spec => (
+                        <option key={spec.slot} value={spec.slot} disabled={isMaterialNameTaken(plan.materials, { ...material, slot: spec.slot })}>{spec.label}</option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="px-3 py-1">
+                    <div className="flex items-center">
+                      <input type="number" min="0" step="0.01" value={material.unitPrice} onChange={e => onUpdateMaterial(material.id, { unitPrice: Math.max(0, Number(e.target.value) || 0) })} className={INPUT_CLASS} aria-label="Unit price"/>
+                      <span className="ml-1 text-xs text-gray-500 whitespace-nowrap">/ {getFinishSlotSpec(material.slot).unit}</span>
+                    </div>
+                  </td>
+                  <td className="px-3 py-1">
+                    <input type="number" min="0" step="1" value={Math.round(material.waste * 1000) / 10} onChange={e => onUpdateMaterial(material.id, { waste: Math.max(0, Number(e.target.value) || 0) / 100 })} className={INPUT_CLASS} aria-label="Waste percentage"/>
+                  </td>
+                  <td className="px-2 py-1">
+                    <button onClick={() => onDeleteMaterial(material.id)} className="p-1 text-gray-500 hover:text-red-600 rounded-full hover:bg-gray-200" aria-label={`Delete ${material.name}`}><Trash2 className="w-4 h-4"/></button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+            <tfoot className="border-t border-gray-200">
+              <tr>
+                <td className="px-3 py-2" colSpan={5}>
+                  <div className="flex items-center space-x-2">
+                    <select value={newSlot} onChange={e => setNewSlot(e.target.value as FinishSlot)} className="px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-blue-500" aria-label="Finish for the new material">
+                      {FINISH_SLOTS.map(spec => <option key={spec.slot} value={spec.slot}>{spec.label}</option>)}
+                    </select>
+                    <button onClick={() => onAddMaterial(newSlot)} className="flex items-center text-sm px-2 py-1 bg-gray-200 hover:bg-gray-300 rounded-md transition-colors">
+                      <Plus className="w-4 h-4 mr-1"/> Add material
+                    </button>
+                  </div>
+                </td>
+              </tr>
+            </tfoot>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CostEstimatePanel;
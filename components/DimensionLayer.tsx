@@ -0,0 +1,87 @@
+import React from 'react';
+import type { DimensionLine, PlanSettings, Point, Room } from '../types';
+import { getDimensionGeometry } from '../utils/dimensions';
+import type { DimensionGeometry } from '../utils/dimensions';
+import { formatLength } from '../utils/units';
+
+interface DimensionLayerProps {
+  dimensions: DimensionLine[];
+  rooms: Room[];
+  settings: PlanSettings;
+  tape: { from: Point; to: Point; done: boolean } | null; // the measure tool's live reading
+  editable: boolean;
+  onPinTape: () => void;
+  onDeleteDimension: (id: string) => void;
+}
+
+const TICK = 4;
+
+const DimensionGraphic: React.FC<{ geometry: DimensionGeometry; label: string; color: string; children?: React.ReactNode }> = ({ geometry, label, color, children }) => {
+  const { from, to, lineStart, lineEnd } = geometry;
+  const mid = { x: (lineStart.x + lineEnd.x) / 2, y: (lineStart.y + lineEnd.y) / 2 };
+  let angle = (Math.atan2(lineEnd.y - lineStart.y, lineEnd.x - lineStart.x) * 180) / Math.PI;
+  // Keep the label upright
+  if (angle > 90) angle -= 180;
+  if (angle <= -90) angle += 180;
+
+  return (
+    <g>
+      <line x1={from.x} y1={from.y} x2={lineStart.x} y2={lineStart.y} stroke={color} strokeWidth={0.75} strokeDasharray="2 2" />
+      <line x1={to.x} y1={to.y} x2={lineEnd.x} y2={lineEnd.y} stroke={color} strokeWidth={0.75} strokeDasharray="2 2" />
+      <line x1={lineStart.x} y1={lineStart.y} x2={lineEnd.x} y2={lineEnd.y} stroke={color} strokeWidth={1} />
+      {[lineStart, lineEnd].map((p, i) => (
+        <line key={i} x1={p.x - TICK} y1={p.y + TICK} x2={p.x + TICK} y2={p.y - TICK} stroke={color} strokeWidth={1.5} />
+      ))}
+      <g transform={`translate(${mid.x} ${mid.y}) rotate(${angle})`}>
+        <text y={-4} textAnchor="middle" fontSize={11} fill={color} stroke="#FFFFFF" strokeWidth={3} paintOrder="stroke">{label}</text>
+        {children}
+      </g>
+    </g>
+  );
+};
+
+/** Pinned dimension lines for the visible level, plus the measure tool's tape while it is in use. */
+const DimensionLayer: React.FC<DimensionLayerProps> = ({ dimensions, rooms, settings, tape, editable, onPinTape, onDeleteDimension }) => {
+  const roomsById = new Map(rooms.map(r => [r.id, r]));
+  const tapeLength = tape ? Math.hypot(tape.to.x - tape.from.x, tape.to.y - tape.from.y) : 0;
+
+  return (
+    <svg className="absolute left-0 top-0 overflow-visible pointer-events-none" width={1} height={1} style={{ zIndex: 10000 }}>
+      {dimensions.map(dimension => {
+        const geometry = getDimensionGeometry(dimension, roomsById);
+        if (!geometry) return null;
+        return (
+          <DimensionGraphic key={dimension.id} geometry={geometry} label={formatLength(geometry.length, settings)} color="#7C3AED">
+            {editable && (
+              <g className="pointer-events-auto cursor-pointer" onMouseDown={e => { e.stopPropagation(); onDeleteDimension(dimension.id); }}>
+                <title>Delete dimension</title>
+                <circle cx={0} cy={8} r={6} fill="#FFFFFF" stroke="#7C3AED" strokeWidth={1} />
+                <path d="M -2.5 5.5 L 2.5 10.5 M 2.5 5.5 L -2.5 10.5" stroke="#7C3AED" strokeWidth={1.25} />
+              </g>
+            )}
+          </DimensionGraphic>
+        );
+      })}
+      {tape && tapeLength > 0 && (
+        <DimensionGraphic
+          geometry={{ from: tape.from, to: tape.to, lineStart: tape.from, lineEnd: tape.to, length: tapeLength }}
+          label={formatLength(tapeLength, settings)}
+          color="#DB2777"
+        >
+          {tape.done && (
+            <g className="pointer-events-auto cursor-pointer" onMouseDown={e => { e.stopPropagation(); onPinTape(); }}>
+              <title>Pin as a dimension line (Enter)</title>
+              <rect x={-14} y={2} width={28} height={14} rx={3} fill="#DB2777" />
+              <text y={12} textAnchor="middle" fontSize={9} fill="#FFFFFF">Pin</text>
+            </g>
+          )}
+        </DimensionGraphic>
+      )}
+      {tape && [tape.from, tape.to].map((p, i) => (
+        <circle key={i} cx={p.x} cy={p.y} r={3} fill="#FFFFFF" stroke="#DB2777" strokeWidth={1.5} />
+      ))}
+    </svg>
+  );
+};
+
+export default DimensionLayer;
@@ -0,0 +1,51 @@
+import React, { useState } from 'react';
+import { Download, FileImage, FileSpreadsheet, FileCode, FileJson, FileText } from 'lucide-react';
+
+interface ExportMenuProps {
+  onExportPlanFile: () => void;
+  onExportPlanText: () => void;
+  onExportSvg: (options: { showGrid: boolean }) => void;
+  onExportDxf: () => void;
+  onExportScheduleCsv: () => void;
+}
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ onExportPlanFile, onExportPlanText, onExportSvg, onExportDxf, onExportScheduleCsv }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [showGrid, setShowGrid] = useState(false);
+
+  const run = (action: () => void) => {
+    action();
+    setIsOpen(false);
+  };
+
+  return (
+    <div className="relative">
+      <button onClick={() => setIsOpen(v => !v)} className={`p-2 rounded-md transition-colors ${isOpen ? 'bg-blue-100 text-blue-600' : 'bg-transparent hover:bg-gray-200 text-gray-600'}`} title="Export"><Download className="h-5 w-5" /></button>
+      {isOpen && (
+        <div className="absolute top-full right-0 mt-2 w-64 p-2 bg-white border border-gray-200 rounded-lg shadow-lg space-y-1" style={{ zIndex: 20000 }}>
+          <button onClick={() => run(onExportPlanFile)} className="w-full flex items-center text-sm px-2 py-2 rounded-md hover:bg-gray-100 transition-colors">
+            <FileJson className="w-4 h-4 mr-2 text-gray-600"/> Plan file (JSON)
+          </button>
+          <button onClick={() => run(onExportPlanText)} className="w-full flex items-center text-sm px-2 py-2 rounded-md hover:bg-gray-100 transition-colors">
+            <FileText className="w-4 h-4 mr-2 text-gray-600"/> Plan text, for version control
+          </button>
+          <button onClick={() => run(() => onExportSvg({ showGrid }))} className="w-full flex items-center text-sm px-2 py-2 rounded-md hover:bg-gray-100 transition-colors">
+            <FileImage className="w-4 h-4 mr-2 text-gray-600"/> SVG drawing of this level
+          </button>
+          <label className="flex items-center text-xs text-gray-500 pl-8 pb-1">
+            <input type="checkbox" checked={showGrid} onChange={e => setShowGrid(e.target.checked)} className="mr-2"/>
+            Include grid
+          </label>
+          <button onClick={() => run(onExportDxf)} className="w-full flex items-center text-sm px-2 py-2 rounded-md hover:bg-gray-100 transition-colors">
+            <FileCode className="w-4 h-4 mr-2 text-gray-600"/> DXF for CAD (this level)
+          </button>
+          <button onClick={() => run(onExportScheduleCsv)} className="w-full flex items-center text-sm px-2 py-2 rounded-md hover:bg-gray-100 transition-colors">
+            <FileSpreadsheet className="w-4 h-4 mr-2 text-gray-600"/> Room schedule (CSV)
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
@@ -0,0 +1,39 @@
+import React from 'react';
+import type { FurnitureItem, Room } from '../types';
+import { getFurnitureSymbol, getFurnitureTransform } from '../utils/furniture';
+import SymbolShapeElement from './SymbolShapeElement';
+
+interface FurnitureLayerProps {
+  rooms: Room[];
+  selectedItemId: string | null;
+  interactive: boolean;
+  onItemMouseDown: (e: React.MouseEvent, room: Room, item: FurnitureItem) => void;
+}
+
+/** Furniture drawn over the room fills; items belong to their room and are placed in its frame. */
+const FurnitureLayer: React.FC<FurnitureLayerProps> = ({ rooms, selectedItemId, interactive, onItemMouseDown }) => (
+  <svg className="absolute left-0 top-0 overflow-visible pointer-events-none" width={1} height={1} style={{ zIndex: 9998 }}>
+    {rooms.flatMap(room => (room.furniture ?? []).map(item => {
+      const isSelected = item.id === selectedItemId;
+      return (
+        <g
+          key={item.id}
+          transform={getFurnitureTransform(item, room)}
+          className={interactive ? 'pointer-events-auto cursor-move' : undefined}
+          onMouseDown={interactive ? e => onItemMouseDown(e, room, item) : undefined}
+          fill="#FFFFFF"
+          fillOpacity={0.85}
+          stroke={isSelected ? '#2563EB' : '#4B5563'}
+          strokeWidth={isSelected ? 1.5 : 1}
+        >
+          {getFurnitureSymbol(item.kind, item.width, item.depth).map((shape, i) => <SymbolShapeElement key={i} shape={shape} />)}
+          {isSelected && (
+            <rect x={-3} y={-3} width={item.width + 6} height={item.depth + 6} fill="none" stroke="#3B82F6" strokeWidth={1} strokeDasharray="4 3" />
+          )}
+        </g>
+      );
+    }))}
+  </svg>
+);
+
+export default FurnitureLayer;
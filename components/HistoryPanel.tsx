@@ -0,0 +1,57 @@
+import React from 'react';
+import { CircleDot, X } from 'lucide-react';
+import type { HistoryState } from '../utils/history';
+import { getHistorySize, MAX_HISTORY_BYTES, MAX_HISTORY_ENTRIES } from '../utils/history';
+
+interface HistoryPanelProps {
+  history: HistoryState;
+  keepHistory: boolean;
+  onJump: (index: number) => void;
+  onKeepHistoryChange: (keep: boolean) => void;
+  onClose: () => void;
+}
+
+const formatBytes = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${Math.ceil(bytes / 1024)} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+const formatTime = (time: number) => new Date(time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+/** Every recorded step, oldest first. Clicking one undoes or redoes back to it. */
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ history, keepHistory, onJump, onKeepHistoryChange, onClose }) => {
+  const steps = [{ id: history.rootId, label: 'Opened plan', time: null as number | null }, ...history.entries];
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="flex items-center justify-between px-4 py-2 border-b border-gray-200">
+        <div className="flex items-center space-x-3">
+          <h2 className="text-sm font-semibold text-gray-700">History</h2>
+          <span className="text-xs text-gray-500" title={`Oldest steps are dropped past ${MAX_HISTORY_ENTRIES} steps or ${formatBytes(MAX_HISTORY_BYTES)}`}>
+            {history.entries.length} steps · {formatBytes(getHistorySize(history))} of {formatBytes(MAX_HISTORY_BYTES)}
+          </span>
+        </div>
+        <div className="flex items-center space-x-3">
+          <label className="flex items-center text-xs text-gray-600 cursor-pointer">
+            <input type="checkbox" checked={keepHistory} onChange={e => onKeepHistoryChange(e.target.checked)} className="mr-1.5"/>
+            Keep history across reloads
+          </label>
+          <button onClick={onClose} className="p-1 rounded-md hover:bg-gray-200 transition-colors" aria-label="Close history"><X className="w-4 h-4 text-gray-600"/></button>
+        </div>
+      </div>
+      <ul className="flex-1 overflow-auto text-sm">
+        {steps.map((step, i) => (
+          <li
+            key={step.id}
+            onClick={() => onJump(i)}
+            className={`flex items-center px-4 py-1.5 border-b border-gray-100 cursor-pointer ${i === history.index ? 'bg-blue-50' : 'hover:bg-gray-50'} ${i > history.index ? 'text-gray-400' : 'text-gray-700'}`}
+          >
+            <CircleDot className={`w-3.5 h-3.5 mr-3 flex-shrink-0 ${i === history.index ? 'text-blue-600' : 'text-transparent'}`}/>
+            <span className="flex-1">{step.label}</span>
+            {step.time !== null && <span className="ml-4 text-xs text-gray-400">{formatTime(step.time)}</span>}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default HistoryPanel;
@@ -1,26 +1,52 @@
-import React from 'react';
-import type { Room, WallFeature } from '../types';
-import { Edit3, Trash2, Maximize, Palette, Layers, DoorOpen, Wind, Lock, Unlock } from 'lucide-react';
+import React, { useState } from 'react';
+import type { Room, RoomType, WallFeature, PlanSettings, LengthUnit, Level, FurnitureItem, FurnitureKind, FinishSlot, Material } from '../types';
+import { Edit3, Trash2, Maximize, Palette, Layers, DoorOpen, Wind, Lock, Unlock, Ruler, Building2, Copy, Sofa, Plus, RotateCcw, RotateCw, Grid3x3, Tag, TriangleAlert, PaintRoller } from 'lucide-react';
+import LengthInput from './LengthInput';
+import MultiSelectionPanel from './MultiSelectionPanel';
+import type { RoomChanges } from '../utils/arrange';
+import type { FeatureConnection } from '../utils/walls';
+import type { PlanIssue } from '../utils/validation';
+import { LENGTH_UNITS } from '../utils/units';
+import { isPolygonRoom, getEdgeCount, getRoomRotation, normalizeAngle } from '../utils/geometry';
+import { DOOR_STYLES, WINDOW_STYLES, getOpeningStyle, getOpeningSwing, getOpeningHinge, hasSwing, hasHingeSide, getWindowHeights, clampFeature } from '../utils/openings';
+import { ROOM_TYPES, changeRoomType } from '../utils/roomTypes';
+import { FINISH_SLOTS, getRoomFinish } from '../utils/materials';
+import { FURNITURE_CATALOG, getFurnitureSpec, createFurnitureItem, clampFurniture, rotateFurniture } from '../utils/furniture';
 
 interface InspectorPanelProps {
-  selectedRoom: Room | undefined;
+  selectedRooms: Room[];
+  settings: PlanSettings;
+  levels: Level[];
+  rooms: Room[];
+  featureConnections: Record<string, FeatureConnection>;
+  ruleIssues: PlanIssue[]; // room rule checks that fail, for any room
+  materials: Material[];
   onUpdateRoom: (id: string, newValues: Partial<Room>) => void;
-  onDeleteRoom: (id: string) => void;
+  onUpdateRooms: (changes: RoomChanges) => void;
+  onDeleteRooms: (ids: string[]) => void;
+  onUpdateSettings: (newValues: Partial<PlanSettings>) => void;
+  onCopyRoomToLevel: (roomId: string, levelId: string) => void;
+  selectedItemId: string | null;
+  onSelectItem: (id: string | null) => void;
   roomColors: string[];
 }
 
 const FeatureEditor: React.FC<{
     feature: WallFeature;
+    settings: PlanSettings;
+    edgeCount: number | null; // polygon rooms only
+    connection: string;
     onUpdateFeature: (updatedFeature: WallFeature) => void;
     onDeleteFeature: (featureId: string) => void;
     roomLocked: boolean;
-}> = ({ feature, onUpdateFeature, onDeleteFeature, roomLocked }) => {
+}> = ({ feature, settings, edgeCount, connection, onUpdateFeature, onDeleteFeature, roomLocked }) => {
     
+    const windowHeights = getWindowHeights(feature, settings);
+
     const handleFeatureChange = (key: keyof WallFeature, value: any) => {
         let processedValue = value;
-        if (key === 'width') {
+        if (key === 'wall' && edgeCount !== null) {
             processedValue = parseInt(value, 10);
-            if (isNaN(processedValue)) processedValue = 0;
         } else if (key === 'position') {
             processedValue = parseFloat(value);
             if (isNaN(processedValue)) processedValue = 0;
@@ -44,33 +70,194 @@ const FeatureEditor: React.FC<{
                     <div>
                         <label htmlFor={`feature-wall-${feature.id}`} className="text-xs text-gray-500">Wall</label>
                         <select id={`feature-wall-${feature.id}`} value={feature.wall} onChange={e => handleFeatureChange('wall', e.target.value)} className="w-full text-sm p-1 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-blue-500 disabled:bg-gray-200">
-                            <option value="top">Top</option>
-                            <option value="bottom">Bottom</option>
-                            <option value="left">Left</option>
-                            <option value="right">Right</option>
+                            {edgeCount !== null ? (
+                                Array.from({ length: edgeCount }, (_, i) => <option key={i} value={i}>Edge {i + 1}</option>)
+                            ) : (
+                                <>
+                                    <option value="top">Top</option>
+                                    <option value="bottom">Bottom</option>
+                                    <option value="left">Left</option>
+                                    <option value="right">Right</option>
+                                </>
+                            )}
                         </select>
                     </div>
                     <div>
                         <label htmlFor={`feature-width-${feature.id}`} className="text-xs text-gray-500">Width</label>
-                        <input id={`feature-width-${feature.id}`} type="number" step="1" value={Math.round(feature.width)} onChange={e => handleFeatureChange('width', e.target.value)} className="w-full text-sm p-1 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-blue-500 disabled:bg-gray-200"/>
+                        <LengthInput id={`feature-width-${feature.id}`} value={feature.width} settings={settings} onChange={width => handleFeatureChange('width', width)} className="w-full text-sm p-1 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-blue-500 disabled:bg-gray-200"/>
                     </div>
                 </div>
                 <div>
                     <label htmlFor={`feature-pos-${feature.id}`} className="text-xs text-gray-500">Position ({Math.round(feature.position * 100)}%)</label>
                     <input id={`feature-pos-${feature.id}`} type="range" min="0" max="1" step="0.01" value={feature.position} onChange={e => handleFeatureChange('position', e.target.value)} className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer disabled:bg-gray-300"/>
                 </div>
+                <div className="grid grid-cols-2 gap-3 mt-3">
+                    <div>
+                        <label htmlFor={`feature-style-${feature.id}`} className="text-xs text-gray-500">Type</label>
+                        <select id={`feature-style-${feature.id}`} value={getOpeningStyle(feature)} onChange={e => handleFeatureChange('style', e.target.value)} className="w-full text-sm p-1 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-blue-500 disabled:bg-gray-200">
+                            {(feature.type === 'door' ? DOOR_STYLES : WINDOW_STYLES).map(s => <option key={s.value} value={s.value}>{s.label}</option>)}
+                        </select>
+                    </div>
+                    {hasSwing(feature) && (
+                        <div>
+                            <label htmlFor={`feature-swing-${feature.id}`} className="text-xs text-gray-500">Opens</label>
+                            <select id={`feature-swing-${feature.id}`} value={getOpeningSwing(feature)} onChange={e => handleFeatureChange('swing', e.target.value)} className="w-full text-sm p-1 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-blue-500 disabled:bg-gray-200">
+                                <option value="in">Inward</option>
+                                <option value="out">Outward</option>
+                            </select>
+                        </div>
+                    )}
+                    {hasHingeSide(feature) && (
+                        <div>
+                            <label htmlFor={`feature-hinge-${feature.id}`} className="text-xs text-gray-500">{getOpeningStyle(feature) === 'pocket' ? 'Pocket side' : 'Hinge side'}</label>
+                            <select id={`feature-hinge-${feature.id}`} value={getOpeningHinge(feature)} onChange={e => handleFeatureChange('hinge', e.target.value)} className="w-full text-sm p-1 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-blue-500 disabled:bg-gray-200">
+                                <option value="start">Start of wall</option>
+                                <option value="end">End of wall</option>
+                            </select>
+                        </div>
+                    )}
+                    {feature.type === 'window' && (
+                        <>
+                            <div>
+                                <label htmlFor={`feature-sill-${feature.id}`} className="text-xs text-gray-500">Sill height</label>
+                                <LengthInput id={`feature-sill-${feature.id}`} value={windowHeights.sill} settings={settings} onChange={sillHeight => onUpdateFeature({ ...feature, sillHeight, headHeight: windowHeights.head })} className="w-full text-sm p-1 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-blue-500 disabled:bg-gray-200"/>
+                            </div>
+                            <div>
+                                <label htmlFor={`feature-head-${feature.id}`} className="text-xs text-gray-500">Head height</label>
+                                <LengthInput id={`feature-head-${feature.id}`} value={windowHeights.head} settings={settings} onChange={headHeight => onUpdateFeature({ ...feature, sillHeight: windowHeights.sill, headHeight })} min={windowHeights.sill} className="w-full text-sm p-1 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-blue-500 disabled:bg-gray-200"/>
+                            </div>
+                        </>
+                    )}
+                </div>
             </fieldset>
+            <p className="text-xs text-gray-500">{connection}</p>
         </div>
     )
 }
 
 
+const FurnitureEditor: React.FC<{
+    item: FurnitureItem;
+    settings: PlanSettings;
+    onUpdateItem: (item: FurnitureItem) => void;
+    onRotateItem: (item: FurnitureItem, clockwise: boolean) => void;
+    onDeleteItem: (itemId: string) => void;
+    roomLocked: boolean;
+}> = ({ item, settings, onUpdateItem, onRotateItem, onDeleteItem, roomLocked }) => (
+    <div className="p-3 bg-blue-50 rounded-lg border border-blue-200 space-y-3">
+        <div className="flex justify-between items-center">
+            <h4 className="font-semibold text-sm">{getFurnitureSpec(item.kind).label}</h4>
+            <button onClick={() => onDeleteItem(item.id)} className="p-1 text-gray-500 hover:text-red-600 rounded-full hover:bg-gray-200" aria-label={`Delete ${getFurnitureSpec(item.kind).label}`}>
+                <Trash2 className="w-4 h-4"/>
+            </button>
+        </div>
+        <fieldset disabled={roomLocked} className="space-y-3">
+            <div className="grid grid-cols-2 gap-3">
+                <div>
+                    <label htmlFor={`item-width-${item.id}`} className="text-xs text-gray-500">Width</label>
+                    <LengthInput id={`item-width-${item.id}`} value={item.width} settings={settings} onChange={width => onUpdateItem({ ...item, width })} min={1} className="w-full text-sm p-1 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-blue-500 disabled:bg-gray-200"/>
+                </div>
+                <div>
+                    <label htmlFor={`item-depth-${item.id}`} className="text-xs text-gray-500">Depth</label>
+                    <LengthInput id={`item-depth-${item.id}`} value={item.depth} settings={settings} onChange={depth => onUpdateItem({ ...item, depth })} min={1} className="w-full text-sm p-1 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-blue-500 disabled:bg-gray-200"/>
+                </div>
+            </div>
+            <div className="flex items-center justify-between">
+                <span className="text-xs text-gray-500">Rotation: {item.rotation}°</span>
+                <div className="flex space-x-1">
+                    <button onClick={() => onRotateItem(item, false)} className="p-1 rounded-md hover:bg-gray-200 transition-colors disabled:opacity-50" title="Rotate 90° counter-clockwise"><RotateCcw className="w-4 h-4 text-gray-600"/></button>
+                    <button onClick={() => onRotateItem(item, true)} className="p-1 rounded-md hover:bg-gray-200 transition-colors disabled:opacity-50" title="Rotate 90° clockwise"><RotateCw className="w-4 h-4 text-gray-600"/></button>
+                </div>
+            </div>
+        </fieldset>
+    </div>
+);
+
+
+const PlanSettingsEditor: React.FC<{
+    settings: PlanSettings;
+    onUpdateSettings: (newValues: Partial<PlanSettings>) => void;
+}> = ({ settings, onUpdateSettings }) => {
+    const handleNumberChange = (key: 'worldUnitsPerMeter' | 'precision' | 'majorGridEvery', value: string) => {
+        const parsed = parseFloat(value);
+        if (isNaN(parsed)) return;
+        const processedValue = key === 'precision' ? Math.max(0, Math.min(4, Math.round(parsed)))
+            : key === 'majorGridEvery' ? Math.round(parsed) : parsed;
+        if (processedValue <= 0 && key !== 'precision') return;
+        onUpdateSettings({ [key]: processedValue });
+    };
+
+    return (
+        <div className="text-left space-y-3">
+            <label className="flex items-center text-sm font-medium text-gray-600">
+                <Ruler className="w-4 h-4 mr-2" />
+                Plan Units
+            </label>
+            <div>
+                <label htmlFor="plan-unit" className="block text-xs text-gray-500 mb-1">Unit system</label>
+                <select id="plan-unit" value={settings.unit} onChange={e => onUpdateSettings({ unit: e.target.value as LengthUnit })} className="w-full text-sm p-2 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-blue-500">
+                    {LENGTH_UNITS.map(u => <option key={u.value} value={u.value}>{u.label}</option>)}
+                </select>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+                <div>
+                    <label htmlFor="plan-scale" className="block text-xs text-gray-500 mb-1">World units / meter</label>
+                    <input id="plan-scale" type="number" min="1" step="1" value={settings.worldUnitsPerMeter} onChange={e => handleNumberChange('worldUnitsPerMeter', e.target.value)} className="w-full text-sm p-2 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-blue-500"/>
+                </div>
+                <div>
+                    <label htmlFor="plan-precision" className="block text-xs text-gray-500 mb-1">Decimals</label>
+                    <input id="plan-precision" type="number" min="0" max="4" step="1" value={settings.precision} onChange={e => handleNumberChange('precision', e.target.value)} className="w-full text-sm p-2 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-blue-500"/>
+                </div>
+            </div>
+            <label className="flex items-center text-sm font-medium text-gray-600 pt-1">
+                <Grid3x3 className="w-4 h-4 mr-2" />
+                Grid
+            </label>
+            <div className="grid grid-cols-2 gap-3">
+                <div>
+                    <label htmlFor="plan-grid-size" className="block text-xs text-gray-500 mb-1">Grid size</label>
+                    <LengthInput id="plan-grid-size" value={settings.gridSize} min={1} settings={settings} onChange={gridSize => onUpdateSettings({ gridSize })} className="w-full text-sm p-2 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-blue-500"/>
+                </div>
+                <div>
+                    <label htmlFor="plan-grid-major" className="block text-xs text-gray-500 mb-1">Major line every</label>
+                    <input id="plan-grid-major" type="number" min="1" step="1" value={settings.majorGridEvery} onChange={e => handleNumberChange('majorGridEvery', e.target.value)} className="w-full text-sm p-2 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-blue-500"/>
+                </div>
+            </div>
+            <p className="text-xs text-gray-400">Rooms snap to the grid and to other rooms. Hold Alt while dragging to place freely.</p>
+        </div>
+    );
+};
+
+
 const InspectorPanel: React.FC<InspectorPanelProps> = ({
-  selectedRoom,
+  selectedRooms,
+  settings,
+  levels,
+  rooms,
+  featureConnections,
+  ruleIssues,
+  materials,
   onUpdateRoom,
-  onDeleteRoom,
+  onUpdateRooms,
+  onDeleteRooms,
+  onUpdateSettings,
+  onCopyRoomToLevel,
+  selectedItemId,
+  onSelectItem,
   roomColors,
 }) => {
+  const [copyLevelId, setCopyLevelId] = useState('');
+  const [furnitureKind, setFurnitureKind] = useState<FurnitureKind>(FURNITURE_CATALOG[0].kind);
+  const selectedRoom = selectedRooms.length === 1 ? selectedRooms[0] : undefined;
+
+  const handleFinishChange = (slot: FinishSlot, materialId: string) => {
+    if (!selectedRoom) return;
+    const finishes = { ...selectedRoom.finishes };
+    if (materialId) finishes[slot] = materialId;
+    else delete finishes[slot];
+    onUpdateRoom(selectedRoom.id, { finishes: Object.keys(finishes).length > 0 ? finishes : undefined });
+  };
+
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (!selectedRoom) return;
     
@@ -87,21 +274,35 @@ const InspectorPanel: React.FC<InspectorPanelProps> = ({
     onUpdateRoom(selectedRoom.id, { [name]: processedValue });
   };
   
+  const handleDimensionChange = (key: 'width' | 'height', value: number) => {
+    if (!selectedRoom) return;
+    onUpdateRoom(selectedRoom.id, { [key]: value });
+  };
+
+  const describeConnection = (featureId: string) => {
+    const connection = featureConnections[featureId];
+    if (!connection) return 'Not on a wall';
+    const names = connection.roomIds.map(id => rooms.find(r => r.id === id)?.name ?? 'Unknown');
+    if (connection.exterior) names.push('Outside');
+    return `Connects ${names.join(' ↔ ')}`;
+  };
+
   const handleAddFeature = (type: 'door' | 'window') => {
     if (!selectedRoom) return;
     const newFeature: WallFeature = {
         id: crypto.randomUUID(),
         type,
-        wall: 'top',
+        wall: isPolygonRoom(selectedRoom) ? 0 : 'top',
         position: 0.5,
         width: type === 'door' ? 40 : 60,
     };
-    onUpdateRoom(selectedRoom.id, { features: [...(selectedRoom.features || []), newFeature] });
+    onUpdateRoom(selectedRoom.id, { features: [...(selectedRoom.features || []), clampFeature(newFeature, selectedRoom)] });
   };
 
   const handleUpdateFeature = (updatedFeature: WallFeature) => {
     if (!selectedRoom) return;
-    const updatedFeatures = selectedRoom.features.map(f => f.id === updatedFeature.id ? updatedFeature : f);
+    const clamped = clampFeature(updatedFeature, selectedRoom);
+    const updatedFeatures = selectedRoom.features.map(f => f.id === updatedFeature.id ? clamped : f);
     onUpdateRoom(selectedRoom.id, { features: updatedFeatures });
   };
 
@@ -111,6 +312,33 @@ const InspectorPanel: React.FC<InspectorPanelProps> = ({
     onUpdateRoom(selectedRoom.id, { features: updatedFeatures });
   };
   
+  const setFurniture = (room: Room, furniture: FurnitureItem[]) => onUpdateRoom(room.id, { furniture });
+
+  const handleAddFurniture = () => {
+    if (!selectedRoom) return;
+    const item = createFurnitureItem(furnitureKind, selectedRoom, settings);
+    setFurniture(selectedRoom, [...(selectedRoom.furniture ?? []), item]);
+    onSelectItem(item.id);
+  };
+
+  const handleUpdateItem = (item: FurnitureItem) => {
+    if (!selectedRoom) return;
+    const clamped = clampFurniture(item, selectedRoom);
+    setFurniture(selectedRoom, (selectedRoom.furniture ?? []).map(i => i.id === item.id ? clamped : i));
+  };
+
+  const handleRotateItem = (item: FurnitureItem, clockwise: boolean) => {
+    if (!selectedRoom) return;
+    const rotated = rotateFurniture(item, selectedRoom, clockwise);
+    setFurniture(selectedRoom, (selectedRoom.furniture ?? []).map(i => i.id === item.id ? rotated : i));
+  };
+
+  const handleDeleteItem = (itemId: string) => {
+    if (!selectedRoom) return;
+    setFurniture(selectedRoom, (selectedRoom.furniture ?? []).filter(i => i.id !== itemId));
+    onSelectItem(null);
+  };
+
   const handleToggleLock = () => {
       if(!selectedRoom) return;
       onUpdateRoom(selectedRoom.id, { locked: !selectedRoom.locked });
@@ -122,7 +350,9 @@ const InspectorPanel: React.FC<InspectorPanelProps> = ({
         <h2 className="text-lg font-semibold text-gray-700">Properties</h2>
       </div>
       <div className="flex-1 p-4 overflow-y-auto">
-        {selectedRoom ? (
+        {selectedRooms.length > 1 ? (
+          <MultiSelectionPanel rooms={selectedRooms} roomColors={roomColors} onUpdateRooms={onUpdateRooms} />
+        ) : selectedRoom ? (
           <div className="space-y-6">
             <div>
               <div className="flex items-center justify-between mb-1">
@@ -148,6 +378,28 @@ const InspectorPanel: React.FC<InspectorPanelProps> = ({
                 onChange={handleInputChange}
               />
             </div>
+
+            <div>
+              <label htmlFor="room-type" className="flex items-center text-sm font-medium text-gray-600 mb-1">
+                <Tag className="w-4 h-4 mr-2" />
+                Room Type
+              </label>
+              <select
+                id="room-type"
+                value={selectedRoom.type ?? ''}
+                onChange={e => onUpdateRoom(selectedRoom.id, changeRoomType(selectedRoom, (e.target.value || undefined) as RoomType | undefined))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500 transition"
+              >
+                <option value="">None</option>
+                {ROOM_TYPES.map(spec => <option key={spec.type} value={spec.type}>{spec.label}</option>)}
+              </select>
+              {ruleIssues.filter(issue => issue.roomIds.includes(selectedRoom.id)).map(issue => (
+                <p key={issue.id} className="flex items-start mt-2 text-xs text-amber-700">
+                  <TriangleAlert className="w-3.5 h-3.5 mr-1.5 mt-px flex-shrink-0" />
+                  {issue.message}
+                </p>
+              ))}
+            </div>
             
             <div>
                 <label className="flex items-center text-sm font-medium text-gray-600 mb-2">
@@ -157,37 +409,37 @@ const InspectorPanel: React.FC<InspectorPanelProps> = ({
                 <div className="grid grid-cols-2 gap-3">
                     <div>
                         <label htmlFor="width" className="block text-xs text-gray-500 mb-1">Width</label>
-                        <div className="relative">
-                            <input
-                                type="number"
-                                id="width"
-                                name="width"
-                                className="w-full pl-3 pr-8 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500 transition disabled:bg-gray-100 disabled:cursor-not-allowed"
-                                value={Math.round(selectedRoom.width)}
-                                onChange={handleInputChange}
-                                min="0"
-                                step="1"
-                                disabled={selectedRoom.locked}
-                            />
-                            <span className="absolute inset-y-0 right-0 pr-3 flex items-center text-sm text-gray-400">units</span>
-                        </div>
+                        <LengthInput
+                            id="width"
+                            value={selectedRoom.width}
+                            settings={settings}
+                            onChange={value => handleDimensionChange('width', value)}
+                            disabled={selectedRoom.locked}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500 transition disabled:bg-gray-100 disabled:cursor-not-allowed"
+                        />
                     </div>
                      <div>
                         <label htmlFor="height" className="block text-xs text-gray-500 mb-1">Height</label>
-                        <div className="relative">
-                            <input
-                                type="number"
-                                id="height"
-                                name="height"
-                                className="w-full pl-3 pr-8 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500 transition disabled:bg-gray-100 disabled:cursor-not-allowed"
-                                value={Math.round(selectedRoom.height)}
-                                onChange={handleInputChange}
-                                min="0"
-                                step="1"
-                                disabled={selectedRoom.locked}
-                            />
-                             <span className="absolute inset-y-0 right-0 pr-3 flex items-center text-sm text-gray-400">units</span>
-                        </div>
+                        <LengthInput
+                            id="height"
+                            value={selectedRoom.height}
+                            settings={settings}
+                            onChange={value => handleDimensionChange('height', value)}
+                            disabled={selectedRoom.locked}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500 transition disabled:bg-gray-100 disabled:cursor-not-allowed"
+                        />
+                    </div>
+                    <div>
+                        <label htmlFor="rotation" className="block text-xs text-gray-500 mb-1">Rotation (°)</label>
+                        <input
+                            type="number"
+                            id="rotation"
+                            step="15"
+                            value={getRoomRotation(selectedRoom)}
+                            onChange={e => onUpdateRoom(selectedRoom.id, { rotation: normalizeAngle(Number(e.target.value) || 0) })}
+                            disabled={selectedRoom.locked}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500 transition disabled:bg-gray-100 disabled:cursor-not-allowed"
+                        />
                     </div>
                 </div>
             </div>
@@ -214,6 +466,29 @@ const InspectorPanel: React.FC<InspectorPanelProps> = ({
               </div>
             </div>
             
+            <div>
+              <label className="flex items-center text-sm font-medium text-gray-600 mb-2">
+                <PaintRoller className="w-4 h-4 mr-2" />
+                Finishes
+              </label>
+              <div className="grid grid-cols-2 gap-3">
+                {FINISH_SLOTS.map(({ slot, label }) => (
+                  <div key={slot}>
+                    <label htmlFor={`finish-${slot}`} className="block text-xs text-gray-500 mb-1">{label}</label>
+                    <select
+                      id={`finish-${slot}`}
+                      value={getRoomFinish(selectedRoom, slot, materials)?.id ?? ''}
+                      onChange={e => handleFinishChange(slot, e.target.value)}
+                      className="w-full text-sm p-1 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-blue-500"
+                    >
+                      <option value="">None</option>
+                      {materials.filter(m => m.slot === slot).map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+                    </select>
+                  </div>
+                ))}
+              </div>
+            </div>
+
             <div>
               <label htmlFor="zIndex" className="flex items-center text-sm font-medium text-gray-600 mb-1">
                 <Layers className="w-4 h-4 mr-2" />
@@ -231,6 +506,31 @@ const InspectorPanel: React.FC<InspectorPanelProps> = ({
               />
             </div>
             
+            <div>
+              <label htmlFor="copy-level" className="flex items-center text-sm font-medium text-gray-600 mb-1">
+                <Building2 className="w-4 h-4 mr-2" />
+                Copy to Level
+              </label>
+              <div className="flex space-x-2">
+                <select
+                  id="copy-level"
+                  value={copyLevelId || selectedRoom.levelId}
+                  onChange={e => setCopyLevelId(e.target.value)}
+                  className="flex-1 px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500 transition"
+                >
+                  {levels.map(level => <option key={level.id} value={level.id}>{level.name}</option>)}
+                </select>
+                <button
+                  onClick={() => onCopyRoomToLevel(selectedRoom.id, copyLevelId || selectedRoom.levelId)}
+                  className="flex items-center px-3 bg-gray-200 hover:bg-gray-300 rounded-md transition-colors"
+                  title="Copy room to level"
+                  aria-label="Copy room to level"
+                >
+                  <Copy className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+            
             <div className="border-t border-gray-200 pt-4">
                 <label className="flex items-center text-sm font-medium text-gray-600 mb-2">
                     Features
@@ -241,6 +541,9 @@ const InspectorPanel: React.FC<InspectorPanelProps> = ({
                             <FeatureEditor 
                                 key={feature.id}
                                 feature={feature}
+                                settings={settings}
+                                edgeCount={isPolygonRoom(selectedRoom) ? getEdgeCount(selectedRoom) : null}
+                                connection={describeConnection(feature.id)}
                                 onUpdateFeature={handleUpdateFeature}
                                 onDeleteFeature={handleDeleteFeature}
                                 roomLocked={!!selectedRoom.locked}
@@ -260,23 +563,73 @@ const InspectorPanel: React.FC<InspectorPanelProps> = ({
                 </div>
             </div>
 
+            <div className="border-t border-gray-200 pt-4">
+                <label className="flex items-center text-sm font-medium text-gray-600 mb-2">
+                    <Sofa className="w-4 h-4 mr-2" />
+                    Furniture
+                </label>
+                <div className="space-y-2 mb-4">
+                    {(selectedRoom.furniture ?? []).length > 0 ? (
+                        selectedRoom.furniture!.map(item => item.id === selectedItemId ? (
+                            <FurnitureEditor
+                                key={item.id}
+                                item={item}
+                                settings={settings}
+                                onUpdateItem={handleUpdateItem}
+                                onRotateItem={handleRotateItem}
+                                onDeleteItem={handleDeleteItem}
+                                roomLocked={!!selectedRoom.locked}
+                            />
+                        ) : (
+                            <button key={item.id} onClick={() => onSelectItem(item.id)} className="w-full text-left text-sm px-3 py-2 bg-gray-100 hover:bg-gray-200 rounded-md border border-gray-200 transition-colors">
+                                {getFurnitureSpec(item.kind).label}
+                            </button>
+                        ))
+                    ) : (
+                        <p className="text-xs text-gray-500 text-center py-2">No furniture placed.</p>
+                    )}
+                </div>
+                <div className="flex space-x-2">
+                    <select
+                        value={furnitureKind}
+                        onChange={e => setFurnitureKind(e.target.value as FurnitureKind)}
+                        className="flex-1 text-sm p-2 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-blue-500"
+                        aria-label="Furniture to add"
+                    >
+                        {Array.from(new Set(FURNITURE_CATALOG.map(spec => spec.category))).map(category => (
+                            <optgroup key={category} label={category}>
+                                {FURNITURE_CATALOG.filter(spec => spec.category === category).map(spec => (
+                                    <option key={spec.kind} value={spec.kind}>{spec.label}</option>
+                                ))}
+                            </optgroup>
+                        ))}
+                    </select>
+                    <button onClick={handleAddFurniture} className="flex items-center text-sm px-3 bg-gray-200 hover:bg-gray-300 rounded-md transition-colors" title="Add to room">
+                        <Plus className="w-4 h-4 mr-1"/> Add
+                    </button>
+                </div>
+            </div>
+
 
           </div>
         ) : (
           <div className="text-center text-gray-500 mt-8">
             <p>Select a room to see its properties.</p>
             <p className="mt-2 text-sm">Or use the <span className="font-semibold">Draw Room</span> tool to create a new one.</p>
+            <div className="mt-8 pt-4 border-t border-gray-200">
+              <PlanSettingsEditor settings={settings} onUpdateSettings={onUpdateSettings} />
+            </div>
           </div>
         )}
       </div>
-      {selectedRoom && (
+      {selectedRooms.length > 0 && (
         <div className="p-4 mt-auto border-t border-gray-200">
           <button
-            onClick={() => onDeleteRoom(selectedRoom.id)}
+            onClick={() => onDeleteRooms(selectedRooms.map(r => r.id))}
             className="w-full flex items-center justify-center px-4 py-2 bg-red-500 text-white font-semibold rounded-md hover:bg-red-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500 transition-colors"
           >
             <Trash2 className="w-4 h-4 mr-2" />
-            Delete Room
+            {selectedRooms.length > 1 ? `Delete ${selectedRooms.length} Rooms` : 'Delete Room'}
           </button>
         </div>
       )}
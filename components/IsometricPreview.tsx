@@ -0,0 +1,108 @@
+import React, { useMemo, useState } from 'react';
+import type { Level, PlanSettings, Room } from '../types';
+import { RotateCcw, RotateCw, X } from 'lucide-react';
+import LengthInput from './LengthInput';
+import { buildIsometricScene } from '../utils/isometric';
+import type { ViewRotation } from '../utils/isometric';
+import { getLevelsBelow } from '../utils/levels';
+import { getPointsBounds, pointsToSvg } from '../utils/geometry';
+
+interface IsometricPreviewProps {
+  rooms: Room[];
+  levels: Level[];
+  activeLevel: Level;
+  settings: PlanSettings;
+  onUpdateLevel: (id: string, values: Partial<Level>) => void;
+  onClose: () => void;
+}
+
+const VIEW_PADDING = 40; // world units around the drawing
+
+/** Read-only isometric view of the active level, turned in 90° steps. */
+const IsometricPreview: React.FC<IsometricPreviewProps> = ({ rooms, levels, activeLevel, settings, onUpdateLevel, onClose }) => {
+  const [rotation, setRotation] = useState<ViewRotation>(0);
+  const [showBelow, setShowBelow] = useState(false);
+
+  const shownLevels = useMemo(
+    () => showBelow ? [...getLevelsBelow(levels, activeLevel), activeLevel] : [activeLevel],
+    [levels, activeLevel, showBelow],
+  );
+  const scene = useMemo(() => buildIsometricScene(rooms, shownLevels, settings, rotation), [rooms, shownLevels, settings, rotation]);
+  const bounds = useMemo(() => getPointsBounds(scene.faces.flatMap(f => f.points)), [scene]);
+
+  const turn = (by: number) => setRotation(r => (((r + by) % 360 + 360) % 360) as ViewRotation);
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="flex items-center justify-between px-4 py-2 border-b border-gray-200">
+        <div className="flex items-center space-x-3">
+          <h2 className="text-sm font-semibold text-gray-700">3D Preview</h2>
+          <div className="flex items-center">
+            <button onClick={() => turn(-90)} className="p-1 rounded-md hover:bg-gray-200 transition-colors" title="Turn left" aria-label="Turn view left"><RotateCcw className="w-4 h-4 text-gray-600"/></button>
+            <span className="w-10 text-center text-xs text-gray-500">{rotation}°</span>
+            <button onClick={() => turn(90)} className="p-1 rounded-md hover:bg-gray-200 transition-colors" title="Turn right" aria-label="Turn view right"><RotateCw className="w-4 h-4 text-gray-600"/></button>
+          </div>
+          <label htmlFor="preview-ceiling" className="text-xs text-gray-500">Ceiling height</label>
+          <LengthInput
+            id="preview-ceiling"
+            value={activeLevel.height}
+            settings={settings}
+            onChange={height => onUpdateLevel(activeLevel.id, { height })}
+            className="w-24 text-xs p-1 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-blue-500"
+          />
+          <label className="flex items-center text-xs text-gray-600 cursor-pointer">
+            <input type="checkbox" checked={showBelow} onChange={e => setShowBelow(e.target.checked)} className="mr-1.5"/>
+            Show levels below
+          </label>
+        </div>
+        <button onClick={onClose} className="p-1 rounded-md hover:bg-gray-200 transition-colors" aria-label="Close 3D preview"><X className="w-4 h-4 text-gray-600"/></button>
+      </div>
+      <div className="flex-1 min-h-0 bg-gray-50">
+        {scene.faces.length === 0 ? (
+          <div className="flex items-center justify-center h-full text-sm text-gray-500">Draw some rooms to see them here</div>
+        ) : (
+          <svg
+            className="w-full h-full"
+            viewBox={`${bounds.x - VIEW_PADDING} ${bounds.y - VIEW_PADDING} ${bounds.width + VIEW_PADDING * 2} ${bounds.height + VIEW_PADDING * 2}`}
+            preserveAspectRatio="xMidYMid meet"
+            role="img"
+            aria-label={`Isometric view of ${activeLevel.name}`}
+          >
+            {scene.faces.map(face => (
+              <polygon
+                key={face.id}
+                points={pointsToSvg(face.points)}
+                fill={face.fill}
+                fillOpacity={face.kind === 'glass' ? 0.5 : 1}
+                stroke={face.kind === 'floor' ? '#9CA3AF' : '#4B5563'}
+                strokeWidth={1}
+                strokeLinejoin="round"
+                vectorEffect="non-scaling-stroke"
+              />
+            ))}
+            {scene.labels.map(label => (
+              <text
+                key={label.id}
+                x={label.at.x}
+                y={label.at.y}
+                textAnchor="middle"
+                dominantBaseline="middle"
+                fontSize={Math.max(bounds.width, bounds.height) / 60}
+                fill="#374151"
+                stroke="white"
+                strokeWidth={3}
+                paintOrder="stroke"
+                vectorEffect="non-scaling-stroke"
+                className="pointer-events-none select-none"
+              >
+                {label.text}
+              </text>
+            ))}
+          </svg>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default IsometricPreview;
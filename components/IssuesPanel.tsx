@@ -0,0 +1,69 @@
+import React from 'react';
+import type { Level } from '../types';
+import { CircleCheck, CircleX, Info, TriangleAlert, X } from 'lucide-react';
+import type { IssueSeverity, PlanIssue } from '../utils/validation';
+import { SEVERITY_ORDER } from '../utils/validation';
+
+interface IssuesPanelProps {
+  issues: PlanIssue[];
+  levels: Level[];
+  activeIssueId: string | null;
+  onSelectIssue: (issue: PlanIssue) => void;
+  onClose: () => void;
+}
+
+const SEVERITY_STYLES: Record<IssueSeverity, { icon: React.ElementType; color: string; label: string }> = {
+  error: { icon: CircleX, color: 'text-red-600', label: 'errors' },
+  warning: { icon: TriangleAlert, color: 'text-amber-500', label: 'warnings' },
+  info: { icon: Info, color: 'text-blue-500', label: 'notes' },
+};
+
+const IssuesPanel: React.FC<IssuesPanelProps> = ({ issues, levels, activeIssueId, onSelectIssue, onClose }) => {
+  const levelNames = new Map(levels.map(l => [l.id, l.name]));
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="flex items-center justify-between px-4 py-2 border-b border-gray-200">
+        <div className="flex items-center space-x-3">
+          <h2 className="text-sm font-semibold text-gray-700">Plan Issues</h2>
+          {SEVERITY_ORDER.map(severity => {
+            const count = issues.filter(i => i.severity === severity).length;
+            const { icon: Icon, color, label } = SEVERITY_STYLES[severity];
+            return count > 0 && (
+              <span key={severity} className="flex items-center text-xs text-gray-500">
+                <Icon className={`w-3.5 h-3.5 mr-1 ${color}`}/> {count} {label}
+              </span>
+            );
+          })}
+        </div>
+        <button onClick={onClose} className="p-1 rounded-md hover:bg-gray-200 transition-colors" aria-label="Close plan issues"><X className="w-4 h-4 text-gray-600"/></button>
+      </div>
+      <div className="flex-1 overflow-auto">
+        {issues.length === 0 ? (
+          <div className="flex items-center justify-center h-full text-sm text-gray-500">
+            <CircleCheck className="w-4 h-4 mr-2 text-green-600"/> No issues found
+          </div>
+        ) : (
+          <ul className="text-sm">
+            {issues.map(issue => {
+              const { icon: Icon, color } = SEVERITY_STYLES[issue.severity];
+              return (
+                <li
+                  key={issue.id}
+                  onClick={() => onSelectIssue(issue)}
+                  className={`flex items-center px-4 py-1.5 border-b border-gray-100 cursor-pointer ${issue.id === activeIssueId ? 'bg-blue-50' : 'hover:bg-gray-50'}`}
+                >
+                  <Icon className={`w-4 h-4 mr-3 flex-shrink-0 ${color}`}/>
+                  <span className="flex-1 text-gray-700">{issue.message}</span>
+                  <span className="ml-4 text-xs text-gray-400">{levelNames.get(issue.levelId)}</span>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default IssuesPanel;
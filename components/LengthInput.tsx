@@ -0,0 +1,64 @@
+import React, { useState, useEffect } from 'react';
+import type { PlanSettings } from '../types';
+import { formatLength, parseLength, roundLength } from '../utils/units';
+
+interface LengthInputProps {
+  id?: string;
+  value: number; // world units
+  settings: PlanSettings;
+  onChange: (value: number) => void;
+  disabled?: boolean;
+  min?: number;
+  className?: string;
+}
+
+/**
+ * Text input for a length in world units. Shows the value formatted in the plan's units and
+ * accepts any input parseLength understands (e.g. `3.5`, `250cm`, `12'6"`), rounded to the
+ * precision it is shown at. The edit is committed on Enter or blur; unparseable text is
+ * flagged and reverted on blur.
+ */
+const LengthInput: React.FC<LengthInputProps> = ({ id, value, settings, onChange, disabled, min = 0, className = '' }) => {
+  const [draft, setDraft] = useState<string | null>(null);
+  const [invalid, setInvalid] = useState(false);
+
+  useEffect(() => {
+    // an outside change (drag, undo) replaces whatever was being typed
+    setDraft(null);
+    setInvalid(false);
+  }, [value, settings]);
+
+  const commit = () => {
+    if (draft === null) return;
+    const parsed = parseLength(draft, settings);
+    if (parsed === null || parsed < min) {
+      setInvalid(true);
+      return;
+    }
+    setDraft(null);
+    setInvalid(false);
+    const rounded = roundLength(parsed, settings);
+    if (rounded !== value) onChange(rounded);
+  };
+
+  return (
+    <input
+      type="text"
+      id={id}
+      inputMode="decimal"
+      value={draft ?? formatLength(value, settings)}
+      onChange={e => { setDraft(e.target.value); setInvalid(false); }}
+      onFocus={e => e.target.select()}
+      onBlur={() => { commit(); setDraft(null); setInvalid(false); }}
+      onKeyDown={e => {
+        if (e.key === 'Enter') commit();
+        if (e.key === 'Escape') { setDraft(null); setInvalid(false); }
+      }}
+      disabled={disabled}
+      aria-invalid={invalid}
+      className={`${className} ${invalid ? 'border-red-500 focus:ring-red-500' : ''}`}
+    />
+  );
+};
+
+export default LengthInput;
@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import type { Level, PlanSettings } from '../types';
+import { Building2, Plus, Settings2, Ghost, Copy, Trash2 } from 'lucide-react';
+import LengthInput from './LengthInput';
+import { sortLevels } from '../utils/levels';
+
+interface LevelSwitcherProps {
+  levels: Level[];
+  activeLevelId: string;
+  settings: PlanSettings;
+  showGhosts: boolean;
+  onSelectLevel: (id: string) => void;
+  onAddLevel: () => void;
+  onUpdateLevel: (id: string, newValues: Partial<Level>) => void;
+  onDeleteLevel: (id: string) => void;
+  onCopyLevel: (sourceId: string, targetId: string | null) => void; // null copies onto a new level
+  onToggleGhosts: () => void;
+}
+
+const LevelSwitcher: React.FC<LevelSwitcherProps> = ({
+  levels,
+  activeLevelId,
+  settings,
+  showGhosts,
+  onSelectLevel,
+  onAddLevel,
+  onUpdateLevel,
+  onDeleteLevel,
+  onCopyLevel,
+  onToggleGhosts,
+}) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [copyTarget, setCopyTarget] = useState('');
+  const activeLevel = levels.find(l => l.id === activeLevelId);
+  // Highest level first, the way floors read in a building section
+  const orderedLevels = sortLevels(levels).reverse();
+
+  return (
+    <div className="relative flex items-center space-x-1">
+      <Building2 className="h-5 w-5 text-gray-500" />
+      <select
+        value={activeLevelId}
+        onChange={e => onSelectLevel(e.target.value)}
+        className="text-sm py-1 px-2 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-blue-500"
+        aria-label="Active level"
+      >
+        {orderedLevels.map(level => <option key={level.id} value={level.id}>{level.name}</option>)}
+      </select>
+      <button onClick={onAddLevel} className="p-2 rounded-md bg-transparent hover:bg-gray-200 transition-colors" title="Add Level Above"><Plus className="h-4 w-4 text-gray-600" /></button>
+      <button onClick={() => setIsEditing(v => !v)} className={`p-2 rounded-md transition-colors ${isEditing ? 'bg-blue-100 text-blue-600' : 'bg-transparent hover:bg-gray-200 text-gray-600'}`} title="Level Settings"><Settings2 className="h-4 w-4" /></button>
+      <button onClick={onToggleGhosts} className={`p-2 rounded-md transition-colors ${showGhosts ? 'bg-blue-100 text-blue-600' : 'bg-transparent hover:bg-gray-200 text-gray-600'}`} title="Show Levels Below"><Ghost className="h-4 w-4" /></button>
+
+      {isEditing && activeLevel && (
+        <div className="absolute top-full right-0 mt-2 w-72 p-4 bg-white border border-gray-200 rounded-lg shadow-lg space-y-3" style={{ zIndex: 20000 }}>
+          <div>
+            <label htmlFor="level-name" className="block text-xs text-gray-500 mb-1">Name</label>
+            <input id="level-name" type="text" value={activeLevel.name} onChange={e => onUpdateLevel(activeLevel.id, { name: e.target.value })} className="w-full text-sm p-2 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-blue-500"/>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label htmlFor="level-elevation" className="block text-xs text-gray-500 mb-1">Elevation</label>
+              <LengthInput id="level-elevation" value={activeLevel.elevation} settings={settings} min={-Infinity} onChange={elevation => onUpdateLevel(activeLevel.id, { elevation })} className="w-full text-sm p-2 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-blue-500"/>
+            </div>
+            <div>
+              <label htmlFor="level-height" className="block text-xs text-gray-500 mb-1">Ceiling height</label>
+              <LengthInput id="level-height" value={activeLevel.height} settings={settings} onChange={height => onUpdateLevel(activeLevel.id, { height })} className="w-full text-sm p-2 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-blue-500"/>
+            </div>
+          </div>
+          <div>
+            <label htmlFor="level-copy" className="block text-xs text-gray-500 mb-1">Copy all rooms to</label>
+            <div className="flex space-x-2">
+              <select id="level-copy" value={copyTarget} onChange={e => setCopyTarget(e.target.value)} className="flex-1 text-sm p-1 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-blue-500">
+                <option value="">New level above</option>
+                {orderedLevels.filter(l => l.id !== activeLevel.id).map(l => <option key={l.id} value={l.id}>{l.name}</option>)}
+              </select>
+              <button onClick={() => onCopyLevel(activeLevel.id, copyTarget || null)} className="flex items-center text-sm px-2 bg-gray-200 hover:bg-gray-300 rounded-md transition-colors" title="Copy level">
+                <Copy className="w-4 h-4"/>
+              </button>
+            </div>
+          </div>
+          <button
+            onClick={() => { onDeleteLevel(activeLevel.id); setIsEditing(false); }}
+            disabled={levels.length <= 1}
+            className="w-full flex items-center justify-center text-sm p-2 bg-red-500 text-white rounded-md hover:bg-red-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Trash2 className="w-4 h-4 mr-2"/> Delete Level and Its Rooms
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LevelSwitcher;
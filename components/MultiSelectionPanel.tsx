@@ -0,0 +1,131 @@
+import React from 'react';
+import type { Room } from '../types';
+import {
+  AlignStartVertical, AlignEndVertical, AlignCenterVertical,
+  AlignStartHorizontal, AlignEndHorizontal, AlignCenterHorizontal,
+  AlignHorizontalDistributeCenter, AlignVerticalDistributeCenter,
+  Palette, Layers, Lock, Unlock, LayoutGrid,
+} from 'lucide-react';
+import { alignRooms, distributeRooms } from '../utils/arrange';
+import type { AlignMode, DistributeAxis, RoomChanges } from '../utils/arrange';
+
+interface MultiSelectionPanelProps {
+  rooms: Room[];
+  roomColors: string[];
+  onUpdateRooms: (changes: RoomChanges) => void;
+}
+
+const ALIGN_BUTTONS: { mode: AlignMode; label: string; icon: React.ElementType }[] = [
+  { mode: 'left', label: 'Align left', icon: AlignStartVertical },
+  { mode: 'center', label: 'Align center', icon: AlignCenterVertical },
+  { mode: 'right', label: 'Align right', icon: AlignEndVertical },
+  { mode: 'top', label: 'Align top', icon: AlignStartHorizontal },
+  { mode: 'middle', label: 'Align middle', icon: AlignCenterHorizontal },
+  { mode: 'bottom', label: 'Align bottom', icon: AlignEndHorizontal },
+];
+
+const DISTRIBUTE_BUTTONS: { axis: DistributeAxis; label: string; icon: React.ElementType }[] = [
+  { axis: 'horizontal', label: 'Distribute horizontally', icon: AlignHorizontalDistributeCenter },
+  { axis: 'vertical', label: 'Distribute vertically', icon: AlignVerticalDistributeCenter },
+];
+
+const MultiSelectionPanel: React.FC<MultiSelectionPanelProps> = ({ rooms, roomColors, onUpdateRooms }) => {
+  const allLocked = rooms.every(r => r.locked);
+  const sharedColor = rooms.every(r => r.color === rooms[0].color) ? rooms[0].color : null;
+  const sharedZIndex = rooms.every(r => r.zIndex === rooms[0].zIndex) ? rooms[0].zIndex : null;
+
+  const updateAll = (newValues: Partial<Room>, includeLocked = true) => {
+    const changes: RoomChanges = {};
+    rooms.forEach(r => {
+      if (includeLocked || !r.locked) changes[r.id] = newValues;
+    });
+    onUpdateRooms(changes);
+  };
+
+  const handleZIndexChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = parseInt(e.target.value, 10);
+    if (isNaN(value) || value < 0) return;
+    updateAll({ zIndex: value }, false);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <p className="flex items-center text-sm font-medium text-gray-600">
+          <LayoutGrid className="w-4 h-4 mr-2" />
+          {rooms.length} rooms selected
+        </p>
+        <button
+          onClick={() => updateAll({ locked: !allLocked })}
+          className={`p-2 rounded-md transition-colors ${allLocked ? 'bg-blue-100 text-blue-600' : 'bg-transparent hover:bg-gray-200'}`}
+          title={allLocked ? 'Unlock Rooms' : 'Lock Room Positions'}
+          aria-label={allLocked ? 'Unlock selected rooms' : 'Lock selected rooms'}
+        >
+          {allLocked ? <Lock className="h-4 w-4"/> : <Unlock className="h-4 w-4"/>}
+        </button>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-600 mb-2">Align</label>
+        <div className="grid grid-cols-6 gap-1">
+          {ALIGN_BUTTONS.map(({ mode, label, icon: Icon }) => (
+            <button key={mode} onClick={() => onUpdateRooms(alignRooms(rooms, mode))} className="flex items-center justify-center p-2 bg-gray-200 hover:bg-gray-300 rounded-md transition-colors" title={label} aria-label={label}>
+              <Icon className="w-4 h-4"/>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-600 mb-2">Distribute</label>
+        <div className="grid grid-cols-2 gap-2">
+          {DISTRIBUTE_BUTTONS.map(({ axis, label, icon: Icon }) => (
+            <button key={axis} onClick={() => onUpdateRooms(distributeRooms(rooms, axis))} disabled={rooms.length < 3} className="flex items-center justify-center text-sm p-2 bg-gray-200 hover:bg-gray-300 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed" title={rooms.length < 3 ? 'Select at least three rooms' : label}>
+              <Icon className="w-4 h-4 mr-2"/> {axis === 'horizontal' ? 'Horizontally' : 'Vertically'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <label className="flex items-center text-sm font-medium text-gray-600 mb-2">
+          <Palette className="w-4 h-4 mr-2" />
+          Color
+        </label>
+        <div className="flex flex-wrap gap-2">
+          {roomColors.map(color => (
+            <button
+              key={color}
+              onClick={() => updateAll({ color })}
+              className={`w-8 h-8 rounded-full border-2 transition-transform transform hover:scale-110 ${
+                sharedColor === color
+                  ? 'border-blue-500 ring-2 ring-blue-500 ring-offset-1'
+                  : 'border-gray-300'
+              }`}
+              style={{ backgroundColor: color }}
+              aria-label={`Set color to ${color}`}
+            />
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <label htmlFor="multi-zIndex" className="flex items-center text-sm font-medium text-gray-600 mb-1">
+          <Layers className="w-4 h-4 mr-2" />
+          Stacking Layer
+        </label>
+        <input
+          type="number"
+          id="multi-zIndex"
+          className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500 transition"
+          value={sharedZIndex ?? ''}
+          placeholder="Mixed"
+          onChange={handleZIndexChange}
+          min="0"
+        />
+      </div>
+    </div>
+  );
+};
+
+export default MultiSelectionPanel;
@@ -0,0 +1,37 @@
+import React from 'react';
+import type { Room } from '../types';
+import { OPENING_DEPTH, getOpeningPlacement, getOpeningSymbol } from '../utils/openings';
+import SymbolShapeElement from './SymbolShapeElement';
+
+interface OpeningLayerProps {
+  rooms: Room[];
+  highlightedIds?: string[];
+}
+
+const HIGHLIGHT_COLOR = '#DC2626';
+
+/** Door and window symbols, drawn over the walls so swings and frames read clearly. */
+const OpeningLayer: React.FC<OpeningLayerProps> = React.memo(({ rooms, highlightedIds = [] }) => (
+  <svg className="absolute left-0 top-0 overflow-visible pointer-events-none" width={1} height={1} style={{ zIndex: 9999 }}>
+    {rooms.flatMap(room => room.features.map(feature => {
+      const { center, angle, flip } = getOpeningPlacement(feature, room);
+      const highlighted = highlightedIds.includes(feature.id);
+      return (
+        <g
+          key={feature.id}
+          transform={`translate(${center.x} ${center.y}) rotate(${angle}) scale(1 ${flip})`}
+          fill="#FFFFFF"
+          stroke={highlighted ? HIGHLIGHT_COLOR : feature.type === 'window' ? '#0369A1' : '#111827'}
+          strokeWidth={highlighted ? 2 : 1}
+        >
+          {highlighted && (
+            <rect x={-feature.width / 2 - 4} y={-OPENING_DEPTH} width={feature.width + 8} height={OPENING_DEPTH * 2} fill={HIGHLIGHT_COLOR} fillOpacity={0.2} stroke="none" />
+          )}
+          {getOpeningSymbol(feature).map((shape, i) => <SymbolShapeElement key={i} shape={shape} />)}
+        </g>
+      );
+    }))}
+  </svg>
+));
+
+export default OpeningLayer;
@@ -0,0 +1,204 @@
+import React, { useMemo, useState } from 'react';
+import type { Level, Room } from '../types';
+import { ChevronDown, ChevronRight, Eye, EyeOff, Folder, Group, Locate, Lock, LockOpen, Search, Ungroup, X } from 'lucide-react';
+import { buildOutline, filterOutline } from '../utils/outline';
+import { sortLevels } from '../utils/levels';
+
+export type RoomFlags = Partial<Pick<Room, 'hidden' | 'locked'>>;
+
+interface OutlinePanelProps {
+  rooms: Room[];
+  levels: Level[];
+  activeLevelId: string;
+  selectedRoomIds: string[];
+  onSelectRooms: (ids: string[], additive: boolean) => void;
+  onZoomTo: (ids: string[]) => void;
+  onSetFlags: (ids: string[], flags: RoomFlags) => void;
+  // `group` moves the rooms into that group, or out of any group when null
+  onReorder: (ids: string[], targetIds: string[], place: 'above' | 'below', group?: string | null) => void;
+  onGroupSelection: () => void;
+  onUngroup: (ids: string[]) => void;
+  onRenameGroup: (ids: string[], name: string) => void;
+  onClose: () => void;
+}
+
+interface DragSource {
+  ids: string[];
+  levelId: string;
+  group?: string; // set when a whole group is being dragged
+}
+
+interface DropTarget {
+  key: string;
+  place: 'above' | 'below';
+}
+
+/** Sidebar listing every room by level, top of the stacking order first. */
+const OutlinePanel: React.FC<OutlinePanelProps> = ({
+  rooms, levels, activeLevelId, selectedRoomIds, onSelectRooms, onZoomTo, onSetFlags, onReorder, onGroupSelection, onUngroup, onRenameGroup, onClose,
+}) => {
+  const [query, setQuery] = useState('');
+  const [collapsed, setCollapsed] = useState<string[]>([]);
+  const [renaming, setRenaming] = useState<string | null>(null);
+  const [dragSource, setDragSource] = useState<DragSource | null>(null);
+  const [dropTarget, setDropTarget] = useState<DropTarget | null>(null);
+
+  const sections = useMemo(() => sortLevels(levels).reverse().map(level => ({
+    level,
+    entries: filterOutline(buildOutline(rooms.filter(r => r.levelId === level.id)), query),
+  })), [rooms, levels, query]);
+
+  const canGroup = rooms.some(r => selectedRoomIds.includes(r.id) && r.levelId === activeLevelId);
+
+  const placeFor = (e: React.DragEvent) => {
+    const box = e.currentTarget.getBoundingClientRect();
+    return e.clientY < box.top + box.height / 2 ? 'above' : 'below';
+  };
+
+  // Rooms dropped onto a grouped room join that group; anywhere else they leave their group
+  const dropProps = (key: string, levelId: string, targetIds: string[], group: string | null) => ({
+    onDragOver: (e: React.DragEvent) => {
+      if (!dragSource || dragSource.levelId !== levelId || targetIds.every(id => dragSource.ids.includes(id))) return;
+      e.preventDefault();
+      const place = placeFor(e);
+      if (dropTarget?.key !== key || dropTarget.place !== place) setDropTarget({ key, place });
+    },
+    onDragLeave: () => setDropTarget(t => t?.key === key ? null : t),
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault();
+      if (!dragSource) return;
+      if (dragSource.group) {
+        onReorder(dragSource.ids, targetIds, placeFor(e));
+      } else {
+        onReorder(dragSource.ids, targetIds, placeFor(e), group);
+      }
+      setDragSource(null);
+      setDropTarget(null);
+    },
+  });
+
+  const dragProps = (source: DragSource) => ({
+    draggable: !query,
+    onDragStart: (e: React.DragEvent) => {
+      e.dataTransfer.effectAllowed = 'move';
+      setDragSource(source);
+    },
+    onDragEnd: () => {
+      setDragSource(null);
+      setDropTarget(null);
+    },
+  });
+
+  const dropLine = (key: string) => dropTarget?.key === key
+    ? (dropTarget.place === 'above' ? 'shadow-[inset_0_2px_0_#3B82F6]' : 'shadow-[inset_0_-2px_0_#3B82F6]')
+    : '';
+
+  const flagButtons = (ids: string[], members: Room[], label: string) => {
+    const hidden = members.every(r => r.hidden);
+    const locked = members.every(r => r.locked);
+    return (
+      <>
+        <button onClick={e => { e.stopPropagation(); onZoomTo(ids); }} className="p-0.5 rounded text-gray-400 hover:text-gray-700" title={`Zoom to ${label}`} aria-label={`Zoom to ${label}`}><Locate className="w-3.5 h-3.5"/></button>
+        <button onClick={e => { e.stopPropagation(); onSetFlags(ids, { hidden: !hidden }); }} className={`p-0.5 rounded hover:text-gray-700 ${hidden ? 'text-gray-700' : 'text-gray-400'}`} title={hidden ? `Show ${label}` : `Hide ${label}`} aria-label={hidden ? `Show ${label}` : `Hide ${label}`}>
+          {hidden ? <EyeOff className="w-3.5 h-3.5"/> : <Eye className="w-3.5 h-3.5"/>}
+        </button>
+        <button onClick={e => { e.stopPropagation(); onSetFlags(ids, { locked: !locked }); }} className={`p-0.5 rounded hover:text-gray-700 ${locked ? 'text-blue-600' : 'text-gray-400'}`} title={locked ? `Unlock ${label}` : `Lock ${label}`} aria-label={locked ? `Unlock ${label}` : `Lock ${label}`}>
+          {locked ? <Lock className="w-3.5 h-3.5"/> : <LockOpen className="w-3.5 h-3.5"/>}
+        </button>
+      </>
+    );
+  };
+
+  const renderRoom = (room: Room, group: string | null) => (
+    <li
+      key={room.id}
+      {...dragProps({ ids: [room.id], levelId: room.levelId })}
+      {...dropProps(room.id, room.levelId, [room.id], group)}
+      onClick={e => onSelectRooms([room.id], e.shiftKey)}
+      onDoubleClick={() => onZoomTo([room.id])}
+      className={`flex items-center py-1 pr-2 cursor-pointer ${group ? 'pl-8' : 'pl-3'} ${selectedRoomIds.includes(room.id) ? 'bg-blue-50 text-blue-700' : 'hover:bg-gray-50'} ${dropLine(room.id)}`}
+    >
+      <span className="w-3 h-3 mr-2 flex-shrink-0 rounded-sm border border-gray-300" style={{ backgroundColor: room.color }}/>
+      <span className={`flex-1 truncate ${room.hidden ? 'text-gray-400 italic' : ''}`}>{room.name}</span>
+      {flagButtons([room.id], [room], room.name)}
+    </li>
+  );
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-gray-200">
+        <h2 className="text-sm font-semibold text-gray-700">Outline</h2>
+        <div className="flex items-center space-x-1">
+          <button onClick={onGroupSelection} disabled={!canGroup} className="p-1 rounded-md hover:bg-gray-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed" title="Group Selected Rooms (Ctrl+G)" aria-label="Group selected rooms"><Group className="w-4 h-4 text-gray-600"/></button>
+          <button onClick={onClose} className="p-1 rounded-md hover:bg-gray-200 transition-colors" aria-label="Close outline"><X className="w-4 h-4 text-gray-600"/></button>
+        </div>
+      </div>
+      <div className="flex items-center px-3 border-b border-gray-200">
+        <Search className="w-4 h-4 text-gray-400"/>
+        <input
+          value={query}
+          onChange={e => setQuery(e.target.value)}
+          placeholder="Find a room…"
+          className="flex-1 px-2 py-2 text-sm focus:outline-none"
+        />
+      </div>
+      <div className="flex-1 overflow-auto text-sm">
+        {sections.map(({ level, entries }) => (query && entries.length === 0) ? null : (
+          <section key={level.id}>
+            <h3 className={`px-3 py-1 text-xs font-semibold uppercase tracking-wide border-b border-gray-100 ${level.id === activeLevelId ? 'text-blue-600 bg-gray-50' : 'text-gray-500 bg-gray-50'}`}>{level.name}</h3>
+            {entries.length === 0 && <p className="px-3 py-2 text-xs text-gray-400">No rooms</p>}
+            <ul>
+              {entries.map(entry => {
+                if (entry.kind === 'room') return renderRoom(entry.room, null);
+                const key = `${level.id}/${entry.name}`;
+                const members = rooms.filter(r => r.levelId === level.id && r.group === entry.name);
+                const memberIds = members.map(r => r.id);
+                const open = query !== '' || !collapsed.includes(key);
+                return (
+                  <li key={key}>
+                    <div
+                      {...dragProps({ ids: memberIds, levelId: level.id, group: entry.name })}
+                      {...dropProps(key, level.id, memberIds, null)}
+                      onClick={e => onSelectRooms(memberIds, e.shiftKey)}
+                      onDoubleClick={() => setRenaming(key)}
+                      className={`flex items-center py-1 pl-1 pr-2 cursor-pointer ${memberIds.every(id => selectedRoomIds.includes(id)) ? 'bg-blue-50 text-blue-700' : 'hover:bg-gray-50'} ${dropLine(key)}`}
+                    >
+                      <button
+                        onClick={e => { e.stopPropagation(); setCollapsed(c => c.includes(key) ? c.filter(k => k !== key) : [...c, key]); }}
+                        className="p-0.5 text-gray-400 hover:text-gray-700"
+                        aria-label={open ? `Collapse ${entry.name}` : `Expand ${entry.name}`}
+                      >
+                        {open ? <ChevronDown className="w-3.5 h-3.5"/> : <ChevronRight className="w-3.5 h-3.5"/>}
+                      </button>
+                      <Folder className="w-3.5 h-3.5 mr-2 text-gray-500"/>
+                      {renaming === key ? (
+                        <input
+                          autoFocus
+                          defaultValue={entry.name}
+                          onClick={e => e.stopPropagation()}
+                          onBlur={e => { if (e.target.value.trim()) onRenameGroup(memberIds, e.target.value.trim()); setRenaming(null); }}
+                          onKeyDown={e => {
+                            if (e.key === 'Enter') e.currentTarget.blur();
+                            if (e.key === 'Escape') setRenaming(null);
+                          }}
+                          className="flex-1 min-w-0 px-1 text-sm border border-blue-400 rounded focus:outline-none"
+                        />
+                      ) : (
+                        <span className={`flex-1 truncate font-medium ${members.every(r => r.hidden) ? 'text-gray-400 italic' : ''}`} title="Double-click to rename">{entry.name}</span>
+                      )}
+                      <button onClick={e => { e.stopPropagation(); onUngroup(memberIds); }} className="p-0.5 rounded text-gray-400 hover:text-gray-700" title={`Ungroup ${entry.name}`} aria-label={`Ungroup ${entry.name}`}><Ungroup className="w-3.5 h-3.5"/></button>
+                      {flagButtons(memberIds, members, entry.name)}
+                    </div>
+                    {open && <ul>{entry.rooms.map(room => renderRoom(room, entry.name))}</ul>}
+                  </li>
+                );
+              })}
+            </ul>
+          </section>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default OutlinePanel;
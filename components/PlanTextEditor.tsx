@@ -0,0 +1,137 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import type { Plan } from '../types';
+import { AlertCircle, RefreshCw, X } from 'lucide-react';
+import { parsePlanText, printPlanText, keepPlanIds } from '../utils/planText';
+import type { PlanTextError } from '../utils/planText';
+
+interface PlanTextEditorProps {
+  plan: Plan;
+  onApply: (plan: Plan) => void;
+  onClose: () => void;
+}
+
+const APPLY_DELAY = 400; // ms after the last keystroke
+
+/** Offset of a 1-based line and column in the text. */
+const offsetOf = (text: string, line: number, column: number) =>
+  text.split('\n').slice(0, line - 1).reduce((sum, l) => sum + l.length + 1, 0) + column - 1;
+
+/**
+ * The plan as text beside the canvas. Valid text is applied as you type; edits on the canvas
+ * rewrite the text, unless it has errors you are still fixing.
+ */
+const PlanTextEditor: React.FC<PlanTextEditorProps> = ({ plan, onApply, onClose }) => {
+  const [text, setText] = useState(() => printPlanText(plan));
+  const [errors, setErrors] = useState<PlanTextError[]>([]);
+  // The canvas changed while the text had errors, so the two no longer match
+  const [stale, setStale] = useState(false);
+  const appliedRef = useRef<Plan | null>(null);
+  const planRef = useRef(plan);
+  planRef.current = plan;
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const gutterRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (plan === appliedRef.current) return;
+    if (errors.length > 0) {
+      setStale(true);
+      return;
+    }
+    setText(printPlanText(plan));
+  }, [plan]);
+
+  useEffect(() => () => { if (timerRef.current) clearTimeout(timerRef.current); }, []);
+
+  const apply = (value: string) => {
+    const result = parsePlanText(value);
+    setErrors(result.errors);
+    if (!result.plan) return;
+    const current = planRef.current;
+    const next = keepPlanIds(result.plan, current);
+    // Layout and comments are the text's own business; only a different plan is applied
+    if (printPlanText(next) !== printPlanText(current)) {
+      appliedRef.current = next;
+      onApply(next);
+    }
+    setStale(false);
+  };
+
+  const handleChange = (value: string) => {
+    setText(value);
+    if (timerRef.current) clearTimeout(timerRef.current);
+    timerRef.current = setTimeout(() => apply(value), APPLY_DELAY);
+  };
+
+  const handleReload = () => {
+    if (timerRef.current) clearTimeout(timerRef.current);
+    setText(printPlanText(plan));
+    setErrors([]);
+    setStale(false);
+  };
+
+  const goTo = (error: PlanTextError) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    const offset = offsetOf(text, error.line, error.column);
+    textarea.focus();
+    textarea.setSelectionRange(offset, offset + 1);
+  };
+
+  const errorLines = useMemo(() => new Set(errors.map(e => e.line)), [errors]);
+  const lineCount = text.split('\n').length;
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-gray-200">
+        <h2 className="text-sm font-semibold text-gray-700">Plan Text</h2>
+        <div className="flex items-center space-x-1">
+          <button onClick={handleReload} className="p-1 rounded-md hover:bg-gray-200 transition-colors" title="Rewrite the text from the canvas" aria-label="Reload text from canvas"><RefreshCw className="w-4 h-4 text-gray-600"/></button>
+          <button onClick={onClose} className="p-1 rounded-md hover:bg-gray-200 transition-colors" aria-label="Close plan text"><X className="w-4 h-4 text-gray-600"/></button>
+        </div>
+      </div>
+      {stale && (
+        <div className="flex items-center justify-between px-3 py-1.5 text-xs bg-amber-50 text-amber-800 border-b border-amber-200">
+          <span>The plan changed on the canvas.</span>
+          <button onClick={handleReload} className="underline hover:no-underline">Discard text edits</button>
+        </div>
+      )}
+      <div className="flex flex-1 min-h-0 font-mono text-xs">
+        <div ref={gutterRef} className="py-2 overflow-hidden text-right text-gray-400 bg-gray-50 border-r border-gray-200 select-none" aria-hidden="true">
+          {Array.from({ length: lineCount }, (_, i) => (
+            <div key={i} className={`px-2 leading-5 ${errorLines.has(i + 1) ? 'bg-red-100 text-red-600' : ''}`}>{i + 1}</div>
+          ))}
+        </div>
+        <textarea
+          ref={textareaRef}
+          value={text}
+          onChange={e => handleChange(e.target.value)}
+          onScroll={e => { if (gutterRef.current) gutterRef.current.scrollTop = e.currentTarget.scrollTop; }}
+          onKeyDown={e => {
+            if (e.key !== 'Tab') return;
+            e.preventDefault();
+            const { selectionStart, selectionEnd } = e.currentTarget;
+            handleChange(text.slice(0, selectionStart) + '  ' + text.slice(selectionEnd));
+            requestAnimationFrame(() => textareaRef.current?.setSelectionRange(selectionStart + 2, selectionStart + 2));
+          }}
+          spellCheck={false}
+          wrap="off"
+          aria-label="Plan text"
+          className="flex-1 p-2 leading-5 resize-none focus:outline-none whitespace-pre"
+        />
+      </div>
+      {errors.length > 0 && (
+        <ul className="max-h-32 overflow-auto border-t border-gray-200 text-xs">
+          {errors.map((error, i) => (
+            <li key={i} onClick={() => goTo(error)} className="flex items-start px-3 py-1 cursor-pointer text-red-700 hover:bg-red-50">
+              <AlertCircle className="w-3.5 h-3.5 mr-2 mt-px flex-shrink-0"/>
+              <span><span className="font-medium">Line {error.line}, column {error.column}:</span> {error.message}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default PlanTextEditor;
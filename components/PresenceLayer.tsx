@@ -0,0 +1,45 @@
+import React from 'react';
+import type { Room } from '../types';
+import type { Peer, Presence } from '../utils/collab';
+import { getRoomOutline, pointsToSvg } from '../utils/geometry';
+
+export interface RemotePeer {
+  peer: Peer;
+  presence: Presence | null;
+}
+
+interface PresenceLayerProps {
+  peers: RemotePeer[];
+  rooms: Room[];
+  levelId: string;
+  scale: number; // cursors and labels keep their screen size at any zoom
+}
+
+/** Other people's cursors and selected rooms on the level being viewed, in their colours. */
+const PresenceLayer: React.FC<PresenceLayerProps> = ({ peers, rooms, levelId, scale }) => (
+  <svg className="absolute left-0 top-0 overflow-visible pointer-events-none" width={1} height={1} style={{ zIndex: 10001 }}>
+    {peers.filter(({ presence }) => presence?.levelId === levelId).map(({ peer, presence }) => (
+      <g key={peer.id}>
+        {rooms.filter(r => presence.selection.includes(r.id)).map(room => (
+          <polygon
+            key={room.id}
+            points={pointsToSvg(getRoomOutline(room))}
+            fill="none"
+            stroke={peer.color}
+            strokeWidth={2}
+            strokeDasharray="6 4"
+            vectorEffect="non-scaling-stroke"
+          />
+        ))}
+        {presence.cursor && (
+          <g transform={`translate(${presence.cursor.x} ${presence.cursor.y}) scale(${1 / scale})`}>
+            <path d="M0 0 L0 16 L4.5 12 L8 19 L10.5 18 L7 11 L12.5 11 Z" fill={peer.color} stroke="white" strokeWidth={1}/>
+            <text x={14} y={26} fontSize={12} fill="white" stroke={peer.color} strokeWidth={3} paintOrder="stroke" className="select-none">{peer.name}</text>
+          </g>
+        )}
+      </g>
+    ))}
+  </svg>
+);
+
+export default PresenceLayer;
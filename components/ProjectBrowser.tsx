@@ -0,0 +1,132 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Copy, FilePlus, Pencil, Trash2, X } from 'lucide-react';
+import { listProjects, putProject, deleteProject } from '../utils/projectStore';
+import type { ProjectRecord } from '../utils/projectStore';
+
+interface ProjectBrowserProps {
+  currentProjectId: string | null;
+  onOpen: (project: ProjectRecord) => void;
+  onNew: () => void;
+  onRenamed: (id: string, name: string) => void;
+  onDeleted: (id: string) => void;
+  onClose: () => void;
+}
+
+const formatTimestamp = (ms: number) => new Date(ms).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+const thumbnailSrc = (svg: string) => `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+
+const ProjectBrowser: React.FC<ProjectBrowserProps> = ({ currentProjectId, onOpen, onNew, onRenamed, onDeleted, onClose }) => {
+  const [projects, setProjects] = useState<ProjectRecord[] | null>(null);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+
+  const refresh = useCallback(() => {
+    listProjects()
+      .then(setProjects)
+      .catch(error => {
+        console.error("Failed to list projects:", error);
+        setProjects([]);
+      });
+  }, []);
+
+  useEffect(refresh, [refresh]);
+
+  const startRename = (project: ProjectRecord) => {
+    setRenamingId(project.id);
+    setDraftName(project.name);
+  };
+
+  const commitRename = async (project: ProjectRecord) => {
+    setRenamingId(null);
+    const name = draftName.trim();
+    if (!name || name === project.name) return;
+    try {
+        await putProject({ ...project, name, updatedAt: Date.now() });
+        onRenamed(project.id, name);
+    } catch (error) {
+        console.error("Failed to rename project:", error);
+        alert(`Could not rename "${project.name}" in this browser's storage.`);
+    }
+    refresh();
+  };
+
+  const handleDuplicate = async (project: ProjectRecord) => {
+    try {
+        await putProject({ ...project, id: crypto.randomUUID(), name: `${project.name} copy`, updatedAt: Date.now() });
+    } catch (error) {
+        console.error("Failed to duplicate project:", error);
+        alert(`Could not duplicate "${project.name}" in this browser's storage.`);
+    }
+    refresh();
+  };
+
+  const handleDelete = async (project: ProjectRecord) => {
+    if (!confirm(`Delete "${project.name}"? This cannot be undone.`)) return;
+    try {
+        await deleteProject(project.id);
+        onDeleted(project.id);
+    } catch (error) {
+        console.error("Failed to delete project:", error);
+        alert(`Could not delete "${project.name}" from this browser's storage.`);
+    }
+    refresh();
+  };
+
+  return (
+    <div className="fixed inset-0 flex items-center justify-center bg-black bg-opacity-30" style={{ zIndex: 30000 }} onMouseDown={onClose}>
+      <div className="w-[720px] max-h-[80vh] flex flex-col bg-white rounded-lg shadow-xl" onMouseDown={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-700">Projects</h2>
+          <div className="flex items-center space-x-2">
+            <button onClick={onNew} className="flex items-center text-sm px-2 py-1 bg-blue-500 text-white hover:bg-blue-600 rounded-md transition-colors">
+              <FilePlus className="w-4 h-4 mr-2"/> New Plan
+            </button>
+            <button onClick={onClose} className="p-1 rounded-md hover:bg-gray-200 transition-colors" aria-label="Close projects"><X className="w-4 h-4 text-gray-600"/></button>
+          </div>
+        </div>
+        <div className="flex-1 overflow-auto p-4">
+          {projects === null && <p className="text-sm text-gray-500">Loading…</p>}
+          {projects?.length === 0 && (
+            <p className="text-sm text-gray-500 text-center py-8">No saved plans yet. Use Save to keep the current plan here.</p>
+          )}
+          <div className="grid grid-cols-3 gap-4">
+            {projects?.map(project => (
+              <div key={project.id} className={`border rounded-lg overflow-hidden ${project.id === currentProjectId ? 'border-blue-500 ring-1 ring-blue-500' : 'border-gray-200'}`}>
+                <button onClick={() => onOpen(project)} className="block w-full h-32 bg-gray-50 hover:bg-gray-100" title={`Open ${project.name}`}>
+                  <img src={thumbnailSrc(project.thumbnail)} alt="" className="w-full h-full object-contain"/>
+                </button>
+                <div className="p-2">
+                  {renamingId === project.id ? (
+                    <input
+                      autoFocus
+                      value={draftName}
+                      onChange={e => setDraftName(e.target.value)}
+                      onBlur={() => commitRename(project)}
+                      onKeyDown={e => {
+                        if (e.key === 'Enter') e.currentTarget.blur();
+                        if (e.key === 'Escape') setRenamingId(null);
+                      }}
+                      className="w-full text-sm p-1 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-blue-500"
+                      aria-label="Project name"
+                    />
+                  ) : (
+                    <p className="text-sm font-medium text-gray-800 truncate" title={project.name}>{project.name}</p>
+                  )}
+                  <p className="text-xs text-gray-500">{formatTimestamp(project.updatedAt)}</p>
+                  <div className="flex justify-end space-x-1 mt-1">
+                    <button onClick={() => startRename(project)} className="p-1 rounded-md hover:bg-gray-200 transition-colors" title="Rename"><Pencil className="w-4 h-4 text-gray-600"/></button>
+                    <button onClick={() => handleDuplicate(project)} className="p-1 rounded-md hover:bg-gray-200 transition-colors" title="Duplicate"><Copy className="w-4 h-4 text-gray-600"/></button>
+                    <button onClick={() => handleDelete(project)} className="p-1 rounded-md hover:bg-red-100 transition-colors" title="Delete"><Trash2 className="w-4 h-4 text-red-600"/></button>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProjectBrowser;
@@ -0,0 +1,29 @@
+import React from 'react';
+import { ArchiveRestore } from 'lucide-react';
+import type { AutosaveRecord } from '../utils/projectStore';
+
+interface RecoveryPromptProps {
+  autosave: AutosaveRecord;
+  onRecover: () => void;
+  onDiscard: () => void;
+}
+
+const RecoveryPrompt: React.FC<RecoveryPromptProps> = ({ autosave, onRecover, onDiscard }) => (
+  <div className="fixed inset-0 flex items-center justify-center bg-black bg-opacity-30" style={{ zIndex: 30000 }}>
+    <div className="w-96 p-5 bg-white rounded-lg shadow-xl space-y-4" role="alertdialog" aria-labelledby="recovery-title">
+      <div className="flex items-center space-x-2">
+        <ArchiveRestore className="w-5 h-5 text-blue-600"/>
+        <h2 id="recovery-title" className="text-lg font-semibold text-gray-700">Recover unsaved changes?</h2>
+      </div>
+      <p className="text-sm text-gray-600">
+        "{autosave.name}" has changes that were not saved, last autosaved {new Date(autosave.savedAt).toLocaleString()}.
+      </p>
+      <div className="flex justify-end space-x-2">
+        <button onClick={onDiscard} className="text-sm px-3 py-1.5 bg-gray-200 hover:bg-gray-300 rounded-md transition-colors">Discard</button>
+        <button onClick={onRecover} className="text-sm px-3 py-1.5 bg-blue-500 text-white hover:bg-blue-600 rounded-md transition-colors">Recover</button>
+      </div>
+    </div>
+  </div>
+);
+
+export default RecoveryPrompt;
@@ -0,0 +1,112 @@
+import React, { useMemo, useState } from 'react';
+import type { Room, Level, PlanSettings } from '../types';
+import { ArrowDown, ArrowUp, FileSpreadsheet, X } from 'lucide-react';
+import { buildRoomSchedule, sortScheduleRows } from '../utils/schedule';
+import type { ScheduleSortKey } from '../utils/schedule';
+import { formatLength, formatArea } from '../utils/units';
+
+interface RoomSchedulePanelProps {
+  rooms: Room[];
+  levels: Level[];
+  settings: PlanSettings;
+  selectedRoomIds: string[];
+  onSelectRoom: (id: string) => void;
+  onExportCsv: () => void;
+  onClose: () => void;
+}
+
+const COLUMNS: { key: ScheduleSortKey; label: string; numeric?: boolean }[] = [
+  { key: 'name', label: 'Room' },
+  { key: 'levelName', label: 'Level' },
+  { key: 'width', label: 'Width', numeric: true },
+  { key: 'height', label: 'Height', numeric: true },
+  { key: 'area', label: 'Area', numeric: true },
+  { key: 'perimeter', label: 'Perimeter', numeric: true },
+  { key: 'doors', label: 'Doors', numeric: true },
+  { key: 'windows', label: 'Windows', numeric: true },
+];
+
+const RoomSchedulePanel: React.FC<RoomSchedulePanelProps> = ({ rooms, levels, settings, selectedRoomIds, onSelectRoom, onExportCsv, onClose }) => {
+  const [sortKey, setSortKey] = useState<ScheduleSortKey>('name');
+  const [ascending, setAscending] = useState(true);
+
+  const schedule = useMemo(() => buildRoomSchedule(rooms, levels), [rooms, levels]);
+  const rows = useMemo(() => sortScheduleRows(schedule.rows, sortKey, ascending), [schedule, sortKey, ascending]);
+  const overlap = schedule.grossArea - schedule.floorArea;
+
+  const handleSort = (key: ScheduleSortKey) => {
+    if (key === sortKey) {
+      setAscending(a => !a);
+    } else {
+      setSortKey(key);
+      setAscending(true);
+    }
+  };
+
+  const formatCell = (key: ScheduleSortKey, value: string | number) => {
+    if (key === 'area') return formatArea(value as number, settings);
+    if (key === 'width' || key === 'height' || key === 'perimeter') return formatLength(value as number, settings);
+    return value;
+  };
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="flex items-center justify-between px-4 py-2 border-b border-gray-200">
+        <h2 className="text-sm font-semibold text-gray-700">Room Schedule</h2>
+        <div className="flex items-center space-x-2">
+          <button onClick={onExportCsv} className="flex items-center text-sm px-2 py-1 bg-gray-200 hover:bg-gray-300 rounded-md transition-colors">
+            <FileSpreadsheet className="w-4 h-4 mr-2"/> Export CSV
+          </button>
+          <button onClick={onClose} className="p-1 rounded-md hover:bg-gray-200 transition-colors" aria-label="Close room schedule"><X className="w-4 h-4 text-gray-600"/></button>
+        </div>
+      </div>
+      <div className="flex-1 overflow-auto">
+        <table className="w-full text-sm">
+          <thead className="sticky top-0 bg-gray-50 text-xs text-gray-500">
+            <tr>
+              {COLUMNS.map(col => (
+                <th key={col.key} className={`px-3 py-2 font-medium ${col.numeric ? 'text-right' : 'text-left'}`}>
+                  <button onClick={() => handleSort(col.key)} className="inline-flex items-center hover:text-gray-800">
+                    {col.label}
+                    {sortKey === col.key && (ascending ? <ArrowUp className="w-3 h-3 ml-1"/> : <ArrowDown className="w-3 h-3 ml-1"/>)}
+                  </button>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(row => (
+              <tr
+                key={row.id}
+                onClick={() => onSelectRoom(row.id)}
+                className={`border-t border-gray-100 cursor-pointer ${selectedRoomIds.includes(row.id) ? 'bg-blue-50' : 'hover:bg-gray-50'}`}
+              >
+                {COLUMNS.map(col => (
+                  <td key={col.key} className={`px-3 py-1.5 ${col.numeric ? 'text-right tabular-nums' : ''}`}>
+                    {formatCell(col.key, row[col.key])}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+          <tfoot className="border-t border-gray-300 font-semibold">
+            <tr>
+              <td className="px-3 py-2" colSpan={4}>
+                Total floor area
+                {overlap > 0.5 && (
+                  <span className="ml-2 text-xs font-normal text-amber-600">
+                    ({formatArea(overlap, settings)} of overlapping rooms counted once)
+                  </span>
+                )}
+              </td>
+              <td className="px-3 py-2 text-right tabular-nums">{formatArea(schedule.floorArea, settings)}</td>
+              <td colSpan={3}></td>
+            </tr>
+          </tfoot>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default RoomSchedulePanel;
@@ -0,0 +1,118 @@
+import React, { useRef } from 'react';
+import type { Room, Level, PlanSettings } from '../types';
+import { CircleCheck, FileDown, FileUp, RotateCcw, TriangleAlert, X } from 'lucide-react';
+import type { PlanIssue } from '../utils/validation';
+import type { RuleSet } from '../utils/roomRules';
+import { DEFAULT_RULE_SET } from '../utils/roomRules';
+import { getRoomTypeSpec } from '../utils/roomTypes';
+import { getRoomArea } from '../utils/schedule';
+import { formatArea } from '../utils/units';
+
+interface RuleReportPanelProps {
+  rooms: Room[];
+  levels: Level[];
+  settings: PlanSettings;
+  ruleSet: RuleSet;
+  ruleIssues: PlanIssue[];
+  selectedRoomIds: string[];
+  onSelectRoom: (id: string) => void;
+  onImport: (file: File) => void;
+  onExport: () => void;
+  onReset: () => void;
+  onClose: () => void;
+}
+
+/** Every typed room checked against the rule set, passing or with what it lacks. */
+const RuleReportPanel: React.FC<RuleReportPanelProps> = ({ rooms, levels, settings, ruleSet, ruleIssues, selectedRoomIds, onSelectRoom, onImport, onExport, onReset, onClose }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const levelNames = new Map(levels.map(l => [l.id, l.name]));
+  const checked = rooms.filter(r => r.type && ruleSet.rules[r.type]);
+  const failures = (room: Room) => ruleIssues.filter(issue => issue.roomIds.includes(room.id));
+  const failing = checked.filter(room => failures(room).length > 0).length;
+  const untyped = rooms.filter(r => !r.type).length;
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="flex items-center justify-between px-4 py-2 border-b border-gray-200">
+        <div className="flex items-center space-x-3">
+          <h2 className="text-sm font-semibold text-gray-700">Room Rules</h2>
+          <span className="text-xs text-gray-500">{ruleSet.name}</span>
+          {checked.length > 0 && (
+            <span className="text-xs text-gray-500">{checked.length - failing} of {checked.length} rooms pass</span>
+          )}
+        </div>
+        <div className="flex items-center space-x-2">
+          <input
+            type="file"
+            ref={fileInputRef}
+            accept=".json"
+            className="hidden"
+            onChange={e => {
+              const file = e.target.files?.[0];
+              if (file) onImport(file);
+              e.target.value = '';
+            }}
+          />
+          <button onClick={() => fileInputRef.current?.click()} className="flex items-center text-sm px-2 py-1 bg-gray-200 hover:bg-gray-300 rounded-md transition-colors" title="Use rule set from a JSON file">
+            <FileUp className="w-4 h-4 mr-2"/> Import
+          </button>
+          <button onClick={onExport} className="flex items-center text-sm px-2 py-1 bg-gray-200 hover:bg-gray-300 rounded-md transition-colors" title="Save this rule set as JSON, e.g. to edit it">
+            <FileDown className="w-4 h-4 mr-2"/> Export
+          </button>
+          <button onClick={onReset} disabled={ruleSet === DEFAULT_RULE_SET} className="p-1 rounded-md hover:bg-gray-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed" title={`Go back to the ${DEFAULT_RULE_SET.name} rules`} aria-label="Reset to default rules"><RotateCcw className="w-4 h-4 text-gray-600"/></button>
+          <button onClick={onClose} className="p-1 rounded-md hover:bg-gray-200 transition-colors" aria-label="Close room rules"><X className="w-4 h-4 text-gray-600"/></button>
+        </div>
+      </div>
+      <div className="flex-1 overflow-auto">
+        {checked.length === 0 ? (
+          <div className="flex items-center justify-center h-full text-sm text-gray-500">
+            Give rooms a type in the properties panel to check them against the rules.
+          </div>
+        ) : (
+          <table className="w-full text-sm">
+            <thead className="sticky top-0 bg-gray-50 text-xs text-gray-500">
+              <tr>
+                <th className="px-3 py-2 font-medium text-left">Room</th>
+                <th className="px-3 py-2 font-medium text-left">Type</th>
+                <th className="px-3 py-2 font-medium text-left">Level</th>
+                <th className="px-3 py-2 font-medium text-right">Area</th>
+                <th className="px-3 py-2 font-medium text-left">Result</th>
+              </tr>
+            </thead>
+            <tbody>
+              {checked.map(room => {
+                const failed = failures(room);
+                return (
+                  <tr
+                    key={room.id}
+                    onClick={() => onSelectRoom(room.id)}
+                    className={`border-t border-gray-100 cursor-pointer align-top ${selectedRoomIds.includes(room.id) ? 'bg-blue-50' : 'hover:bg-gray-50'}`}
+                  >
+                    <td className="px-3 py-1.5">{room.name}</td>
+                    <td className="px-3 py-1.5">{getRoomTypeSpec(room.type).label}</td>
+                    <td className="px-3 py-1.5">{levelNames.get(room.levelId)}</td>
+                    <td className="px-3 py-1.5 text-right tabular-nums">{formatArea(getRoomArea(room), settings)}</td>
+                    <td className="px-3 py-1.5">
+                      {failed.length === 0 ? (
+                        <span className="flex items-center text-green-700"><CircleCheck className="w-4 h-4 mr-1.5"/> Passes</span>
+                      ) : failed.map(issue => (
+                        <span key={issue.id} className="flex items-start text-amber-700"><TriangleAlert className="w-4 h-4 mr-1.5 flex-shrink-0"/> {issue.message}</span>
+                      ))}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+      {untyped > 0 && checked.length > 0 && (
+        <div className="px-4 py-1.5 border-t border-gray-200 text-xs text-gray-500">
+          {untyped} room{untyped === 1 ? '' : 's'} without a type {untyped === 1 ? 'is' : 'are'} not checked.
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RuleReportPanel;
@@ -0,0 +1,20 @@
+import React from 'react';
+import type { SnapGuide } from '../utils/snapping';
+
+const GUIDE_COLOR = '#FF00FF';
+const GUIDE_OVERHANG = 20; // world units past the aligned geometry
+
+/** Magenta alignment guides shown while a room lines up with its neighbours. */
+const SnapGuideLayer: React.FC<{ guides: SnapGuide[] }> = ({ guides }) => (
+  <svg className="absolute left-0 top-0 overflow-visible pointer-events-none" width={1} height={1} style={{ zIndex: 10000 }}>
+    {guides.map(g => {
+      const start = g.start - GUIDE_OVERHANG;
+      const end = g.end + GUIDE_OVERHANG;
+      return g.axis === 'x'
+        ? <line key={`x${g.value}`} x1={g.value} y1={start} x2={g.value} y2={end} stroke={GUIDE_COLOR} strokeWidth={1} vectorEffect="non-scaling-stroke" />
+        : <line key={`y${g.value}`} x1={start} y1={g.value} x2={end} y2={g.value} stroke={GUIDE_COLOR} strokeWidth={1} vectorEffect="non-scaling-stroke" />;
+    })}
+  </svg>
+);
+
+export default SnapGuideLayer;
@@ -0,0 +1,19 @@
+import React from 'react';
+import type { SymbolShape } from '../utils/symbols';
+import { DASH_PATTERN, getArcPath } from '../utils/symbols';
+
+/** One shape of a plan symbol; fill and stroke come from the enclosing group. */
+const SymbolShapeElement: React.FC<{ shape: SymbolShape }> = ({ shape }) => {
+  switch (shape.type) {
+    case 'rect':
+      return <rect x={shape.x} y={shape.y} width={shape.width} height={shape.height} rx={shape.radius} fill={shape.filled === false ? 'none' : undefined} />;
+    case 'ellipse':
+      return <ellipse cx={shape.cx} cy={shape.cy} rx={shape.rx} ry={shape.ry} />;
+    case 'line':
+      return <line x1={shape.x1} y1={shape.y1} x2={shape.x2} y2={shape.y2} strokeDasharray={shape.dashed ? DASH_PATTERN : undefined} />;
+    case 'arc':
+      return <path d={getArcPath(shape)} fill="none" strokeDasharray={shape.dashed ? DASH_PATTERN : undefined} />;
+  }
+};
+
+export default SymbolShapeElement;
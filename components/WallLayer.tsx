@@ -0,0 +1,35 @@
+import React from 'react';
+import type { WallSegment } from '../utils/walls';
+import { getWallPieces } from '../utils/walls';
+
+interface WallLayerProps {
+  walls: WallSegment[];
+}
+
+const WALL_STYLES: Record<WallSegment['kind'], { stroke: string; width: number }> = {
+  exterior: { stroke: '#374151', width: 4 },
+  interior: { stroke: '#4B5563', width: 2 },
+};
+
+/** Draws the derived wall graph as single lines, leaving gaps where doors and windows cut through. */
+const WallLayer: React.FC<WallLayerProps> = React.memo(({ walls }) => (
+  <svg className="absolute left-0 top-0 overflow-visible pointer-events-none" width={1} height={1} style={{ zIndex: 9999 }}>
+    {walls.map(wall => {
+      const { stroke, width } = WALL_STYLES[wall.kind];
+      return getWallPieces(wall).map((piece, i) => (
+        <line
+          key={`${wall.id}-${i}`}
+          x1={piece.start.x}
+          y1={piece.start.y}
+          x2={piece.end.x}
+          y2={piece.end.y}
+          stroke={stroke}
+          strokeWidth={width}
+          strokeLinecap="square"
+        />
+      ));
+    })}
+  </svg>
+));
+
+export default WallLayer;
@@ -0,0 +1,230 @@
+// Relay for live editing: `npm run relay`, then join the same session from each browser.
+//
+// Plain Node with no dependencies, so it speaks just enough WebSocket (RFC 6455) to carry the
+// app's JSON messages. Each session keeps the winning write for every field it has seen, so a
+// newcomer or a reconnecting client gets the whole plan in one snapshot. The shared plans live
+// in memory only and are gone once everyone has left or the relay stops; save the plan in the
+// app to keep it.
+//
+// Browsers may connect from pages served by this machine or by localhost; list any other app
+// origins, comma separated, in ALLOWED_ORIGINS.
+import { createServer } from 'node:http';
+import { createHash } from 'node:crypto';
+
+const PORT = Number(process.env.PORT) || 8787;
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const MAX_MESSAGE_BYTES = 16 * 1024 * 1024; // also what one connection may hold unprocessed
+const LOCAL_HOSTNAMES = new Set(['localhost', '127.0.0.1', '[::1]']);
+const ALLOWED_ORIGINS = new Set((process.env.ALLOWED_ORIGINS ?? '').split(',').map(o => o.trim()).filter(Boolean));
+
+const OPCODE = { continuation: 0x0, text: 0x1, close: 0x8, ping: 0x9, pong: 0xa };
+
+/** @type {Map<string, { name: string, registers: Map<string, any>, clients: Set<any> }>} */
+const sessions = new Map();
+
+const compareStamps = (a, b) =>
+  a.counter !== b.counter ? a.counter - b.counter : a.clientId < b.clientId ? -1 : a.clientId > b.clientId ? 1 : 0;
+
+const isOp = op => op && typeof op.collection === 'string' && typeof op.id === 'string' && typeof op.field === 'string'
+  && op.stamp && Number.isFinite(op.stamp.counter) && typeof op.stamp.clientId === 'string';
+
+const encodeFrame = (opcode, payload = Buffer.alloc(0)) => {
+  const length = payload.length;
+  const header = length < 126 ? Buffer.alloc(2) : length < 65536 ? Buffer.alloc(4) : Buffer.alloc(10);
+  header[0] = 0x80 | opcode;
+  if (length < 126) {
+    header[1] = length;
+  } else if (length < 65536) {
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+};
+
+/** Splits complete frames off the front of the buffer; returns them and whatever is left over. */
+const decodeFrames = buffer => {
+  const frames = [];
+  let offset = 0;
+  while (buffer.length - offset >= 2) {
+    const fin = (buffer[offset] & 0x80) !== 0;
+    const opcode = buffer[offset] & 0x0f;
+    const masked = (buffer[offset + 1] & 0x80) !== 0;
+    let length = buffer[offset + 1] & 0x7f;
+    let at = offset + 2;
+    if (length === 126) {
+      if (buffer.length < at + 2) break;
+      length = buffer.readUInt16BE(at);
+      at += 2;
+    } else if (length === 127) {
+      if (buffer.length < at + 8) break;
+      length = Number(buffer.readBigUInt64BE(at));
+      at += 8;
+    }
+    if (length > MAX_MESSAGE_BYTES) throw new Error(`frame of ${length} bytes is too large`);
+    const maskAt = at;
+    if (masked) at += 4;
+    if (buffer.length < at + length) break;
+    const payload = Buffer.from(buffer.subarray(at, at + length));
+    if (masked) {
+      for (let i = 0; i < payload.length; i++) payload[i] ^= buffer[maskAt + (i % 4)];
+    }
+    frames.push({ fin, opcode, payload });
+    offset = at + length;
+  }
+  return { frames, rest: buffer.subarray(offset) };
+};
+
+const send = (client, message) => {
+  if (!client.socket.destroyed) client.socket.write(encodeFrame(OPCODE.text, Buffer.from(JSON.stringify(message))));
+};
+
+const broadcast = (session, from, message) => {
+  session.clients.forEach(client => { if (client !== from && client.peer) send(client, message); });
+};
+
+const handleMessage = (client, message) => {
+  if (message.type === 'join') {
+    if (client.session || typeof message.session !== 'string' || typeof message.peer?.id !== 'string') return;
+    if (!sessions.has(message.session)) sessions.set(message.session, { name: message.session, registers: new Map(), clients: new Set() });
+    const session = sessions.get(message.session);
+    client.session = session;
+    client.peer = message.peer;
+    send(client, {
+      type: 'snapshot',
+      ops: [...session.registers.values()],
+      peers: [...session.clients].filter(c => c.peer).map(c => ({ peer: c.peer, presence: c.presence })),
+    });
+    session.clients.add(client);
+    broadcast(session, client, { type: 'joined', peer: client.peer });
+    console.log(`${client.peer.name} joined "${message.session}" (${session.clients.size} connected)`);
+    return;
+  }
+
+  const session = client.session;
+  if (!session) return;
+  if (message.type === 'ops' && Array.isArray(message.ops)) {
+    // Only writes that win are passed on; the others already have something newer
+    const applied = message.ops.filter(op => {
+      if (!isOp(op)) return false;
+      const key = `${op.collection}/${op.id}/${op.field}`;
+      const current = session.registers.get(key);
+      if (current && compareStamps(current.stamp, op.stamp) >= 0) return false;
+      session.registers.set(key, op);
+      return true;
+    });
+    if (applied.length > 0) broadcast(session, client, { type: 'ops', ops: applied });
+  } else if (message.type === 'presence') {
+    client.presence = message.presence;
+    broadcast(session, client, { type: 'presence', peerId: client.peer.id, presence: message.presence });
+  }
+};
+
+const leave = client => {
+  const session = client.session;
+  if (!session || !session.clients.delete(client)) return;
+  broadcast(session, client, { type: 'left', peerId: client.peer.id });
+  console.log(`${client.peer.name} left (${session.clients.size} connected)`);
+  if (session.clients.size === 0) {
+    // Whoever comes back offers everything they have, so nothing is lost that a client still holds
+    sessions.delete(session.name);
+    console.log(`Closed "${session.name}"`);
+  }
+};
+
+/** Browsers send the page's origin; anything else (no Origin header) is not a web page. */
+const isAllowedOrigin = req => {
+  const origin = req.headers.origin;
+  if (!origin) return true;
+  if (ALLOWED_ORIGINS.has(origin)) return true;
+  let hostname;
+  try {
+    hostname = new URL(origin).hostname;
+  } catch {
+    return false;
+  }
+  const relayHostname = (req.headers.host ?? '').replace(/:\d+$/, '');
+  return LOCAL_HOSTNAMES.has(hostname) || hostname === relayHostname;
+};
+
+const server = createServer((req, res) => {
+  res.writeHead(426, { 'Content-Type': 'text/plain' });
+  res.end('This is the home plan modeler relay. Connect to it from the app with "Edit together".\n');
+});
+
+server.on('upgrade', (req, socket) => {
+  const key = req.headers['sec-websocket-key'];
+  if (req.headers.upgrade?.toLowerCase() !== 'websocket' || !key) {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+    return;
+  }
+  if (!isAllowedOrigin(req)) {
+    console.error(`Refusing a connection from ${req.headers.origin}`);
+    socket.end('HTTP/1.1 403 Forbidden\r\n\r\n');
+    return;
+  }
+  const accept = createHash('sha1').update(key + WEBSOCKET_GUID).digest('base64');
+  socket.write([
+    'HTTP/1.1 101 Switching Protocols',
+    'Upgrade: websocket',
+    'Connection: Upgrade',
+    `Sec-WebSocket-Accept: ${accept}`,
+    '', '',
+  ].join('\r\n'));
+
+  const client = { socket, session: null, peer: null, presence: null };
+  let buffer = Buffer.alloc(0);
+  let fragments = [];
+  let fragmentBytes = 0;
+  const dropConnection = reason => {
+    console.error('Dropping connection:', reason);
+    socket.destroy();
+  };
+
+  socket.on('data', chunk => {
+    let decoded;
+    try {
+      decoded = decodeFrames(Buffer.concat([buffer, chunk]));
+    } catch (error) {
+      dropConnection(error.message);
+      return;
+    }
+    buffer = decoded.rest;
+    if (fragmentBytes + buffer.length > MAX_MESSAGE_BYTES) {
+      dropConnection(`over ${MAX_MESSAGE_BYTES} bytes are waiting to be read`);
+      return;
+    }
+    decoded.frames.forEach(({ fin, opcode, payload }) => {
+      if (opcode === OPCODE.close) {
+        socket.end(encodeFrame(OPCODE.close));
+      } else if (opcode === OPCODE.ping) {
+        socket.write(encodeFrame(OPCODE.pong, payload));
+      } else if (opcode === OPCODE.text || opcode === OPCODE.continuation) {
+        if (socket.destroyed) return;
+        fragmentBytes += payload.length;
+        if (fragmentBytes + buffer.length > MAX_MESSAGE_BYTES) {
+          dropConnection(`message of over ${MAX_MESSAGE_BYTES} bytes is too large`);
+          return;
+        }
+        fragments.push(payload);
+        if (!fin) return;
+        const text = Buffer.concat(fragments).toString('utf8');
+        fragments = [];
+        fragmentBytes = 0;
+        try {
+          handleMessage(client, JSON.parse(text));
+        } catch (error) {
+          console.error('Ignoring a malformed message:', error.message);
+        }
+      }
+    });
+  });
+  // The HTTP server keeps upgraded sockets half open, so finish our side when the client goes
+  socket.on('end', () => socket.end());
+  socket.on('close', () => leave(client));
+  socket.on('error', () => socket.destroy());
+});
+
+server.listen(PORT, () => console.log(`Relay listening on ws://localhost:${PORT}`));
@@ -1,9 +1,48 @@
+export type WallSide = 'top' | 'bottom' | 'left' | 'right';
+
+export type DoorStyle = 'hinged' | 'double' | 'sliding' | 'pocket' | 'bifold';
+export type WindowStyle = 'fixed' | 'casement' | 'sliding';
+
 export interface WallFeature {
   id: string;
   type: 'door' | 'window';
-  wall: 'top' | 'bottom' | 'left' | 'right';
+  wall: WallSide | number; // a side for rectangular rooms, an edge index for polygon rooms
   position: number; // 0 to 1, percentage along the wall
   width: number; // in world units
+  style?: DoorStyle | WindowStyle; // hinged doors and casement windows when omitted
+  hinge?: 'start' | 'end'; // the end of the opening, along the wall, that the leaf hangs from
+  swing?: 'in' | 'out'; // into the room or out of it
+  sillHeight?: number; // windows: above the floor, in world units
+  headHeight?: number; // windows: top of the opening above the floor, in world units
+}
+
+export type FurnitureKind =
+  | 'bed-double' | 'bed-single' | 'sofa' | 'armchair' | 'dining-table' | 'desk' | 'wardrobe'
+  | 'toilet' | 'bathtub' | 'shower' | 'sink' | 'kitchen-counter' | 'stove' | 'fridge';
+
+export interface FurnitureItem {
+  id: string;
+  kind: FurnitureKind;
+  x: number; // center, relative to the room's (x, y) origin
+  y: number;
+  width: number; // in world units, before rotation
+  depth: number; // front to back, in world units, before rotation
+  rotation: 0 | 90 | 180 | 270; // clockwise degrees
+}
+
+export type RoomType =
+  | 'bedroom' | 'bathroom' | 'kitchen' | 'living' | 'dining' | 'office'
+  | 'hallway' | 'closet' | 'laundry' | 'garage';
+
+export type FinishSlot = 'floor' | 'walls' | 'baseboard' | 'ceiling';
+
+/** A finish from the plan's library, priced per square meter, or per meter for baseboards. */
+export interface Material {
+  id: string;
+  name: string;
+  slot: FinishSlot; // the part of a room it finishes
+  unitPrice: number; // per m², or per m of baseboard
+  waste: number; // fraction bought on top for offcuts and breakage, e.g. 0.1 for 10%
 }
 
 export interface Room {
@@ -13,13 +52,64 @@ export interface Room {
   width: number;
   height: number;
   name: string;
+  type?: RoomType; // what the room is used for, which decides the rules it is checked against
   color: string;
   zIndex: number;
   features: WallFeature[];
   locked?: boolean;
+  hidden?: boolean; // left off the canvas, e.g. to reach the rooms underneath
+  group?: string; // rooms on a level with the same group name select, move, lock and hide together
+  rotation?: number; // degrees clockwise about the centre of the width × height box; 0 when omitted
+  levelId: string;
+  shape?: 'rect' | 'polygon'; // rect when omitted
+  vertices?: Point[]; // polygon rooms: ordered outline relative to (x, y); x/y/width/height hold its bounding box
+  furniture?: FurnitureItem[]; // owned by the room, so it moves with it
+  finishes?: Partial<Record<FinishSlot, string>>; // material ids from the plan's library
 }
 
 export interface Point {
   x: number;
   y: number;
-}
\ No newline at end of file
+}
+
+export type LengthUnit = 'mm' | 'cm' | 'm' | 'ft-in';
+
+export interface PlanSettings {
+  unit: LengthUnit;
+  worldUnitsPerMeter: number; // how many canvas/world units make up one meter
+  precision: number; // decimal places shown in readouts
+  gridSize: number; // world units between minor grid lines
+  majorGridEvery: number; // minor cells per major grid line
+}
+
+export interface Level {
+  id: string;
+  name: string;
+  elevation: number; // floor level above the ground, in world units
+  height: number; // floor-to-ceiling height, in world units
+}
+
+/** A point on a room's outline: `t` runs from 0 at vertex `edge` to 1 at the next vertex. */
+export interface EdgeAnchor {
+  roomId: string;
+  edge: number;
+  t: number;
+}
+
+export interface DimensionLine {
+  id: string;
+  levelId: string;
+  start: EdgeAnchor | Point; // anchored ends follow their room when it moves or resizes
+  end: EdgeAnchor | Point;
+  axis?: 'x' | 'y'; // measures only the horizontal or vertical distance; aligned with the points when omitted
+  offset: number; // how far the dimension line sits from the measured points, in world units
+  auto?: boolean; // generated exterior dimension, replaced when they are regenerated
+}
+
+export interface Plan {
+  settings: PlanSettings;
+  levels: Level[];
+  rooms: Room[];
+  dimensions: DimensionLine[];
+  materials: Material[]; // the finishes rooms can be given, with their prices
+}
@@ -0,0 +1,71 @@
+import type { Room } from '../types';
+import { getRoomBounds } from './geometry';
+
+export type AlignMode = 'left' | 'right' | 'top' | 'bottom' | 'center' | 'middle';
+export type DistributeAxis = 'horizontal' | 'vertical';
+
+/** Position changes keyed by room id, ready to merge into the plan in one step. */
+export type RoomChanges = Record<string, Partial<Room>>;
+
+const movable = (rooms: Room[]) => rooms.filter(r => !r.locked);
+
+/**
+ * Lines the rooms up against the shared edge or centre line of their combined bounds.
+ * Locked rooms still count towards the bounds but are never moved.
+ */
+export const alignRooms = (rooms: Room[], mode: AlignMode): RoomChanges => {
+  if (rooms.length < 2) return {};
+  const bounds = rooms.map(getRoomBounds);
+  const left = Math.min(...bounds.map(b => b.x));
+  const top = Math.min(...bounds.map(b => b.y));
+  const right = Math.max(...bounds.map(b => b.x + b.width));
+  const bottom = Math.max(...bounds.map(b => b.y + b.height));
+
+  const changes: RoomChanges = {};
+  movable(rooms).forEach(room => {
+    const b = getRoomBounds(room);
+    let dx = 0;
+    let dy = 0;
+    switch (mode) {
+      case 'left': dx = left - b.x; break;
+      case 'right': dx = right - (b.x + b.width); break;
+      case 'center': dx = (left + right) / 2 - (b.x + b.width / 2); break;
+      case 'top': dy = top - b.y; break;
+      case 'bottom': dy = bottom - (b.y + b.height); break;
+      case 'middle': dy = (top + bottom) / 2 - (b.y + b.height / 2); break;
+    }
+    if (dx || dy) changes[room.id] = { x: Math.round(room.x + dx), y: Math.round(room.y + dy) };
+  });
+  return changes;
+};
+
+/**
+ * Spaces the rooms so the gaps between neighbours are equal, keeping the first and last
+ * room along the axis where they are.
+ */
+export const distributeRooms = (rooms: Room[], axis: DistributeAxis): RoomChanges => {
+  if (rooms.length < 3) return {};
+  const horizontal = axis === 'horizontal';
+  const items = rooms
+    .map(room => {
+      const b = getRoomBounds(room);
+      return { room, start: horizontal ? b.x : b.y, size: horizontal ? b.width : b.height };
+    })
+    .sort((a, b) => a.start - b.start);
+
+  const first = items[0];
+  const last = items[items.length - 1];
+  const totalSize = items.reduce((sum, item) => sum + item.size, 0);
+  const gap = (last.start + last.size - first.start - totalSize) / (items.length - 1);
+
+  const changes: RoomChanges = {};
+  let cursor = first.start;
+  items.forEach(({ room, start, size }) => {
+    const delta = Math.round(cursor - start);
+    if (delta && !room.locked) {
+      changes[room.id] = horizontal ? { x: room.x + delta } : { y: room.y + delta };
+    }
+    cursor += size + gap;
+  });
+  return changes;
+};
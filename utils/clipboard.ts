@@ -0,0 +1,134 @@
+import type { Material, Point, PlanSettings, Room } from '../types';
+import { getPointsBounds, getRoomOutline } from './geometry';
+import { cloneRoom } from './levels';
+import { renameCopiedGroups } from './outline';
+import { snapToGrid } from './snapping';
+import { CURRENT_PLAN_VERSION, parsePlanFile } from './planFile';
+
+/**
+ * Rooms travel through the system clipboard as plain-text JSON, so they can be pasted into a
+ * plan open in another tab:
+ *
+ *   {
+ *     "format": "home-plan-modeler/rooms",
+ *     "version": 11,            // plan file version the rooms were written in
+ *     "settings": { ... },      // the source plan's settings, used to rescale between plans
+ *     "rooms": [ Room, ... ],   // exactly as stored in a plan file, features and furniture included
+ *     "materials": [ Material, ... ] // the library materials the rooms are finished in
+ *   }
+ *
+ * Older versions are upgraded through the plan file migrations when pasted.
+ */
+export const CLIPBOARD_FORMAT = 'home-plan-modeler/rooms';
+
+export interface ClipboardData {
+  format: typeof CLIPBOARD_FORMAT;
+  version: number;
+  settings: PlanSettings;
+  rooms: Room[];
+  materials: Material[];
+}
+
+export interface ClipboardResult {
+  rooms: Room[] | null;
+  materials: Material[];
+  errors: string[];
+}
+
+const CLIPBOARD_LEVEL_ID = 'clipboard';
+
+const usedMaterials = (rooms: Room[], materials: Material[]) =>
+  materials.filter(m => rooms.some(r => Object.values(r.finishes ?? {}).includes(m.id)));
+
+export const serializeClipboard = (rooms: Room[], settings: PlanSettings, materials: Material[]): string =>
+  JSON.stringify({ format: CLIPBOARD_FORMAT, version: CURRENT_PLAN_VERSION, settings, rooms, materials: usedMaterials(rooms, materials) } satisfies ClipboardData);
+
+/** Resizes a room drawn at one plan scale for a plan at another. */
+const scaleRoom = (room: Room, factor: number): Room => {
+  const scale = (value: number) => Math.round(value * factor);
+  return {
+    ...room,
+    x: scale(room.x),
+    y: scale(room.y),
+    width: scale(room.width),
+    height: scale(room.height),
+    vertices: room.vertices?.map(v => ({ x: v.x * factor, y: v.y * factor })),
+    features: room.features.map(f => ({
+      ...f,
+      width: scale(f.width),
+      sillHeight: f.sillHeight === undefined ? undefined : scale(f.sillHeight),
+      headHeight: f.headHeight === undefined ? undefined : scale(f.headHeight),
+    })),
+    furniture: room.furniture?.map(item => ({
+      ...item,
+      x: item.x * factor,
+      y: item.y * factor,
+      width: scale(item.width),
+      depth: scale(item.depth),
+    })),
+  };
+};
+
+/**
+ * Reads rooms off the clipboard. Returns null when the text is not a room clipboard at all,
+ * so ordinary text can be ignored quietly.
+ */
+export const parseClipboard = (text: string, settings: PlanSettings): ClipboardResult | null => {
+  let data: Partial<ClipboardData>;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  if (typeof data !== 'object' || data === null || data.format !== CLIPBOARD_FORMAT) return null;
+  if (!Array.isArray(data.rooms)) return { rooms: null, materials: [], errors: ['rooms: expected an array'] };
+
+  // Borrow the plan file pipeline for migration and validation
+  const result = parsePlanFile(JSON.stringify({
+    version: data.version,
+    plan: {
+      settings: data.settings,
+      levels: [{ id: CLIPBOARD_LEVEL_ID, name: 'Clipboard', elevation: 0, height: 0 }],
+      rooms: data.rooms.map(room => typeof room === 'object' && room !== null ? { ...room, levelId: CLIPBOARD_LEVEL_ID } : room),
+      dimensions: [],
+      materials: data.materials ?? [],
+    },
+  }));
+  if (!result.plan) return { rooms: null, materials: [], errors: result.errors.map(error => error.replace(/^plan\./, '')) };
+
+  const factor = settings.worldUnitsPerMeter / result.plan.settings.worldUnitsPerMeter;
+  const rooms = factor === 1 ? result.plan.rooms : result.plan.rooms.map(room => scaleRoom(room, factor));
+  return { rooms, materials: usedMaterials(rooms, result.plan.materials), errors: [] };
+};
+
+/** Fresh copies of rooms on a level, shifted by `offset` and stacked above everything else. */
+export const copyRooms = (rooms: Room[], levelId: string, levelRooms: Room[], offset: Point, firstZIndex: number): Room[] =>
+  renameCopiedGroups([...rooms]
+    .sort((a, b) => a.zIndex - b.zIndex)
+    .map((room, i) => cloneRoom(room, { levelId, x: room.x + offset.x, y: room.y + offset.y, zIndex: firstZIndex + i })), levelRooms);
+
+/**
+ * Where pasted rooms go: their bounding box snapped to the grid, then stepped down and to the
+ * right (by whole grid cells) until no copy starts within a step of a room already on the level.
+ */
+export const getPasteOffset = (rooms: Room[], levelRooms: Room[], gridSize: number, step: number): Point => {
+  const bounds = getPointsBounds(rooms.flatMap(getRoomOutline));
+  const offset = { x: snapToGrid(bounds.x, gridSize) - bounds.x, y: snapToGrid(bounds.y, gridSize) - bounds.y };
+  const stride = Math.max(gridSize, snapToGrid(step, gridSize));
+  const collides = () => rooms.some(r => levelRooms.some(other =>
+    Math.abs(other.x - (r.x + offset.x)) < stride && Math.abs(other.y - (r.y + offset.y)) < stride));
+  while (collides()) {
+    offset.x += stride;
+    offset.y += stride;
+  }
+  return offset;
+};
+
+/** `count` further copies of the rooms, each `spacing` on from the one before and grouped apart from it. */
+export const arrayRooms = (rooms: Room[], levelId: string, levelRooms: Room[], count: number, spacing: Point, firstZIndex: number): Room[] => {
+  const copies: Room[] = [];
+  for (let i = 0; i < count; i++) {
+    copies.push(...copyRooms(rooms, levelId, [...levelRooms, ...copies], { x: spacing.x * (i + 1), y: spacing.y * (i + 1) }, firstZIndex + i * rooms.length));
+  }
+  return copies;
+};
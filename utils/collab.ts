@@ -0,0 +1,133 @@
+import type { Point } from '../types';
+import type { CrdtOp } from './crdt';
+
+/**
+ * Live editing goes through the relay in server/relay.mjs: everyone in a session sends it their
+ * operations and presence, and it merges the operations into its own copy of the doc and passes
+ * everything on to the others. The relay is only a meeting point; each client resolves
+ * conflicts itself, so it keeps working while disconnected and catches up on reconnect.
+ */
+export const DEFAULT_RELAY_URL = 'ws://localhost:8787';
+
+const PREFS_KEY = 'home-plan-modeler:collab';
+
+export interface Peer {
+  id: string;
+  name: string;
+  color: string;
+}
+
+export interface Presence {
+  levelId: string;
+  cursor: Point | null; // world position, null when the pointer is off the canvas
+  selection: string[]; // room ids
+}
+
+export type ClientMessage =
+  | { type: 'join'; session: string; peer: Peer }
+  | { type: 'ops'; ops: CrdtOp[] }
+  | { type: 'presence'; presence: Presence };
+
+export type ServerMessage =
+  | { type: 'snapshot'; ops: CrdtOp[]; peers: { peer: Peer; presence: Presence | null }[] }
+  | { type: 'ops'; ops: CrdtOp[] }
+  | { type: 'presence'; peerId: string; presence: Presence }
+  | { type: 'joined'; peer: Peer }
+  | { type: 'left'; peerId: string };
+
+export type CollabStatus = 'connecting' | 'online' | 'offline';
+
+export interface CollabConnection {
+  send: (message: ClientMessage) => boolean; // false while disconnected
+  close: () => void;
+}
+
+interface ConnectOptions {
+  url: string;
+  session: string;
+  peer: Peer;
+  onMessage: (message: ServerMessage) => void;
+  onStatus: (status: CollabStatus) => void;
+}
+
+/** What the join dialog was last filled in with. */
+export interface CollabPrefs {
+  url: string;
+  session: string;
+  name: string;
+}
+
+export const getCollabPrefs = (): CollabPrefs => {
+  const fallback = { url: DEFAULT_RELAY_URL, session: '', name: '' };
+  try {
+    return { ...fallback, ...JSON.parse(localStorage.getItem(PREFS_KEY) ?? '{}') };
+  } catch {
+    return fallback;
+  }
+};
+
+export const setCollabPrefs = (prefs: CollabPrefs) => localStorage.setItem(PREFS_KEY, JSON.stringify(prefs));
+
+const RETRY_DELAYS = [1000, 2000, 5000, 10000]; // ms, the last one repeats
+
+const PEER_COLORS = ['#EF4444', '#F59E0B', '#10B981', '#06B6D4', '#6366F1', '#D946EF', '#F97316', '#84CC16'];
+
+export const pickPeerColor = () => PEER_COLORS[Math.floor(Math.random() * PEER_COLORS.length)];
+
+/**
+ * Joins a session, rejoining with growing pauses whenever the connection drops. The relay
+ * answers every join with a snapshot, so each reconnect starts with one.
+ */
+export const connectCollab = ({ url, session, peer, onMessage, onStatus }: ConnectOptions): CollabConnection => {
+  let socket: WebSocket | null = null;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  let attempt = 0;
+  let closed = false;
+
+  const open = () => {
+    onStatus('connecting');
+    try {
+      socket = new WebSocket(url);
+    } catch (error) {
+      console.error("Could not reach the collaboration relay:", error);
+      scheduleRetry();
+      return;
+    }
+    socket.onopen = () => {
+      attempt = 0;
+      socket.send(JSON.stringify({ type: 'join', session, peer } satisfies ClientMessage));
+      onStatus('online');
+    };
+    socket.onmessage = event => {
+      try {
+        onMessage(JSON.parse(event.data));
+      } catch (error) {
+        console.error("Ignoring a malformed message from the relay:", error);
+      }
+    };
+    socket.onclose = () => {
+      socket = null;
+      if (!closed) scheduleRetry();
+    };
+  };
+
+  const scheduleRetry = () => {
+    onStatus('offline');
+    retryTimer = setTimeout(open, RETRY_DELAYS[Math.min(attempt++, RETRY_DELAYS.length - 1)]);
+  };
+
+  open();
+
+  return {
+    send: message => {
+      if (socket?.readyState !== WebSocket.OPEN) return false;
+      socket.send(JSON.stringify(message));
+      return true;
+    },
+    close: () => {
+      closed = true;
+      if (retryTimer) clearTimeout(retryTimer);
+      socket?.close();
+    },
+  };
+};
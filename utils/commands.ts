@@ -0,0 +1,58 @@
+/**
+ * A command is anything the user can trigger from a shortcut or the command palette. Shortcuts
+ * are written like `mod+shift+z`, where `mod` is Cmd on macOS and Ctrl elsewhere.
+ */
+export interface Command {
+  id: string;
+  label: string;
+  category: 'Tools' | 'Edit' | 'View' | 'File';
+  shortcuts?: string[];
+  enabled?: boolean; // defaults to true
+  run: () => void;
+}
+
+const IS_MAC = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+
+const KEY_LABELS: Record<string, string> = {
+  arrowleft: '←',
+  arrowright: '→',
+  arrowup: '↑',
+  arrowdown: '↓',
+  delete: 'Del',
+  backspace: '⌫',
+  escape: 'Esc',
+};
+
+/** Whether a keyboard event comes from somewhere the user types text. */
+export const isTypingTarget = (target: EventTarget | null) => {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+};
+
+export const matchesShortcut = (e: KeyboardEvent, shortcut: string) => {
+  const parts = shortcut.toLowerCase().split('+');
+  const key = parts[parts.length - 1];
+  const mod = IS_MAC ? e.metaKey : e.ctrlKey;
+  return e.key.toLowerCase() === key
+    && mod === parts.includes('mod')
+    && e.shiftKey === parts.includes('shift')
+    && e.altKey === parts.includes('alt');
+};
+
+/** The enabled command bound to a key press, if any. */
+export const findCommandForEvent = (commands: Command[], e: KeyboardEvent) =>
+  commands.find(c => c.enabled !== false && c.shortcuts?.some(s => matchesShortcut(e, s)));
+
+export const formatShortcut = (shortcut: string) =>
+  shortcut.split('+').map(part => {
+    if (part === 'mod') return IS_MAC ? '⌘' : 'Ctrl';
+    if (part === 'shift') return IS_MAC ? '⇧' : 'Shift';
+    if (part === 'alt') return IS_MAC ? '⌥' : 'Alt';
+    return KEY_LABELS[part] ?? part.toUpperCase();
+  }).join(IS_MAC ? '' : '+');
+
+/** Case-insensitive match on every word of the query, so "dr poly" finds "Draw polygon room". */
+export const matchesQuery = (text: string, query: string) => {
+  const haystack = text.toLowerCase();
+  return query.toLowerCase().split(/\s+/).filter(Boolean).every(word => haystack.includes(word));
+};
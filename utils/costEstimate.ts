@@ -0,0 +1,135 @@
+import type { FinishSlot, Material, Plan, PlanSettings, Room, WallFeature } from '../types';
+import { getRoomArea, getRoomPerimeter } from './schedule';
+import { getWindowHeights } from './openings';
+import { buildWallGraph, getFeatureConnections } from './walls';
+import { DEFAULT_LEVEL } from './levels';
+import { FINISH_SLOTS, getFinishSlotSpec, getRoomFinish } from './materials';
+import { worldToMeters, roundTo } from './units';
+import { toCsv } from './csv';
+import type { CsvCell } from './csv';
+
+/** How much of each finish a room takes before waste, in m² or m. */
+export type RoomQuantities = Record<FinishSlot, number>;
+
+export interface CostLine {
+  roomId: string;
+  roomName: string;
+  levelName: string;
+  slot: FinishSlot;
+  material: Material;
+  quantity: number; // m² or m, as laid
+  ordered: number; // with the waste factor on top
+  cost: number;
+}
+
+export interface MaterialTotal {
+  material: Material;
+  ordered: number;
+  cost: number;
+}
+
+export interface CostEstimate {
+  lines: CostLine[];
+  materials: MaterialTotal[]; // in library order
+  total: number;
+  unfinishedRoomIds: string[]; // rooms without any finish assigned
+}
+
+/**
+ * Finish quantities for a room. `openings` are the doors and windows in its walls, its own and
+ * its neighbours' on shared walls: doors cut the baseboard and windows the painted wall, which
+ * runs from the floor to the level's ceiling height.
+ */
+export const getRoomQuantities = (room: Room, openings: WallFeature[], ceilingHeight: number, settings: PlanSettings): RoomQuantities => {
+  const meters = (value: number) => worldToMeters(value, settings);
+  const area = meters(meters(getRoomArea(room)));
+  const perimeter = meters(getRoomPerimeter(room));
+  const doorWidths = openings.filter(f => f.type === 'door').reduce((sum, door) => sum + meters(door.width), 0);
+  const windowArea = openings.filter(f => f.type === 'window').reduce((sum, window) => {
+    const { sill, head } = getWindowHeights(window, settings);
+    return sum + meters(window.width) * meters(Math.max(0, Math.min(head, ceilingHeight) - sill));
+  }, 0);
+  return {
+    floor: area,
+    walls: Math.max(0, perimeter * meters(ceilingHeight) - windowArea),
+    baseboard: Math.max(0, perimeter - doorWidths),
+    ceiling: area,
+  };
+};
+
+/** The doors and windows in each room's walls, per room id. */
+const getRoomOpenings = (plan: Plan) => {
+  const openings = new Map<string, WallFeature[]>();
+  plan.levels.forEach(level => {
+    const levelRooms = plan.rooms.filter(r => r.levelId === level.id);
+    const connections = getFeatureConnections(buildWallGraph(levelRooms));
+    levelRooms.forEach(owner => owner.features.forEach(feature => {
+      (connections[feature.id]?.roomIds ?? [owner.id]).forEach(id => openings.set(id, [...(openings.get(id) ?? []), feature]));
+    }));
+  });
+  return openings;
+};
+
+/** Every assigned finish priced, room by room, with totals per material. */
+export const buildCostEstimate = (plan: Plan): CostEstimate => {
+  const levels = new Map(plan.levels.map(l => [l.id, l]));
+  const openings = getRoomOpenings(plan);
+  const lines: CostLine[] = [];
+  const unfinishedRoomIds: string[] = [];
+
+  plan.rooms.forEach(room => {
+    const finishes = FINISH_SLOTS.map(({ slot }) => ({ slot, material: getRoomFinish(room, slot, plan.materials) })).filter(f => f.material);
+    if (finishes.length === 0) {
+      unfinishedRoomIds.push(room.id);
+      return;
+    }
+    const level = levels.get(room.levelId);
+    const quantities = getRoomQuantities(room, openings.get(room.id) ?? [], level?.height ?? DEFAULT_LEVEL.height, plan.settings);
+    finishes.forEach(({ slot, material }) => {
+      const ordered = quantities[slot] * (1 + material.waste);
+      lines.push({
+        roomId: room.id,
+        roomName: room.name,
+        levelName: level?.name ?? '',
+        slot,
+        material,
+        quantity: quantities[slot],
+        ordered,
+        cost: ordered * material.unitPrice,
+      });
+    });
+  });
+
+  const materials = plan.materials
+    .map(material => ({ material, used: lines.filter(line => line.material.id === material.id) }))
+    .filter(({ used }) => used.length > 0)
+    .map(({ material, used }) => ({ material, ordered: used.reduce((sum, l) => sum + l.ordered, 0), cost: used.reduce((sum, l) => sum + l.cost, 0) }));
+
+  return { lines, materials, total: lines.reduce((sum, line) => sum + line.cost, 0), unfinishedRoomIds };
+};
+
+/** The estimate as CSV: one line per room finish, then totals per material and overall. */
+export const costEstimateToCsv = (estimate: CostEstimate) => {
+  const amount = (value: number) => roundTo(value, 2);
+  const rows: CsvCell[][] = [
+    ['Room', 'Level', 'Finish', 'Material', 'Quantity', 'Unit', 'Waste (%)', 'Quantity with waste', 'Unit price', 'Cost'],
+    ...estimate.lines.map(line => [
+      line.roomName, line.levelName, getFinishSlotSpec(line.slot).label, line.material.name,
+      amount(line.quantity), getFinishSlotSpec(line.slot).unit, amount(line.material.waste * 100), amount(line.ordered),
+      amount(line.material.unitPrice), amount(line.cost),
+    ]),
+    [],
+    ['Material', '', 'Finish', '', '', 'Unit', '', 'Quantity with waste', 'Unit price', 'Cost'],
+    ...estimate.materials.map(({ material, ordered, cost }) => [
+      material.name, '', getFinishSlotSpec(material.slot).label, '', '', getFinishSlotSpec(material.slot).unit, '', amount(ordered),
+      amount(material.unitPrice), amount(cost),
+    ]),
+    [],
+    ['Total', '', '', '', '', '', '', '', '', amount(estimate.total)],
+  ];
+  return toCsv(rows);
+};
+
+/** A price with two decimals, in whatever currency the library's prices are in. */
+export const formatCost = (value: number) =>
+  value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
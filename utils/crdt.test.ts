@@ -0,0 +1,237 @@
+import { describe, expect, it } from 'vitest';
+import type { Level, Plan, Room } from '../types';
+import { DEFAULT_LEVEL } from './levels';
+import { parsePlanFile, serializePlan } from './planFile';
+import { DEFAULT_PLAN_SETTINGS } from './units';
+import { applyOpsToPlan, createClock, createDoc, diffPlanOps, docToOps, docToPlan, mergeOps, observeOps, planToOps, repairPlan } from './crdt';
+import type { Clock, CrdtDoc, CrdtOp } from './crdt';
+
+const room = (overrides: Partial<Room>): Room => ({
+  id: 'room',
+  name: 'Room',
+  x: 0,
+  y: 0,
+  width: 400,
+  height: 300,
+  color: '#E5E7EB',
+  zIndex: 0,
+  features: [],
+  levelId: DEFAULT_LEVEL.id,
+  ...overrides,
+});
+
+const base: Plan = {
+  settings: DEFAULT_PLAN_SETTINGS,
+  levels: [DEFAULT_LEVEL],
+  rooms: [room({ id: 'kitchen', name: 'Kitchen' }), room({ id: 'hall', name: 'Hall', x: 400 })],
+  dimensions: [],
+  materials: [],
+};
+
+/** A client that has joined a session holding `base`. */
+const join = (clientId: string, doc: CrdtDoc, ops: CrdtOp[]) => {
+  const clock = createClock(clientId);
+  observeOps(clock, ops);
+  return { clock, doc };
+};
+
+const shared = () => {
+  const ops = planToOps(base, createClock('host'));
+  const doc = mergeOps(createDoc(), ops).doc;
+  return { a: join('a', doc, ops), b: join('b', doc, ops) };
+};
+
+const edit = (client: { clock: Clock; doc: CrdtDoc }, change: (plan: Plan) => Plan) => {
+  const ops = diffPlanOps(base, change(base), client.clock);
+  client.doc = mergeOps(client.doc, ops).doc;
+  return ops;
+};
+
+const updateRoom = (id: string, patch: Partial<Room>) => (plan: Plan): Plan =>
+  ({ ...plan, rooms: plan.rooms.map(r => r.id === id ? { ...r, ...patch } : r) });
+
+describe('crdt', () => {
+  it('rebuilds the plan it was published from', () => {
+    const doc = mergeOps(createDoc(), planToOps(base, createClock('a'))).doc;
+    expect(docToPlan(doc)).toEqual(base);
+  });
+
+  it('keeps concurrent edits to different fields of the same room', () => {
+    const { a, b } = shared();
+    const fromA = edit(a, updateRoom('kitchen', { name: 'Galley' }));
+    const fromB = edit(b, updateRoom('kitchen', { width: 500 }));
+    const merged = docToPlan(mergeOps(a.doc, fromB).doc).rooms.find(r => r.id === 'kitchen');
+    expect(merged).toMatchObject({ name: 'Galley', width: 500 });
+    expect(docToPlan(mergeOps(b.doc, fromA).doc)).toEqual(docToPlan(mergeOps(a.doc, fromB).doc));
+  });
+
+  it('settles edits to the same field the same way whatever order they arrive in', () => {
+    const { a, b } = shared();
+    const fromA = edit(a, updateRoom('kitchen', { color: '#FF0000' }));
+    const fromB = edit(b, updateRoom('kitchen', { color: '#00FF00' }));
+    const atA = docToPlan(mergeOps(a.doc, fromB).doc);
+    const atB = docToPlan(mergeOps(b.doc, fromA).doc);
+    expect(atA).toEqual(atB);
+    // same counter, so the client id breaks the tie
+    expect(atA.rooms.find(r => r.id === 'kitchen').color).toBe('#00FF00');
+  });
+
+  it('keeps a room deleted when someone edits it at the same time', () => {
+    const { a, b } = shared();
+    const fromA = edit(a, plan => ({ ...plan, rooms: plan.rooms.filter(r => r.id !== 'hall') }));
+    const fromB = edit(b, updateRoom('hall', { name: 'Entry' }));
+    const atA = docToPlan(mergeOps(a.doc, fromB).doc);
+    expect(atA.rooms.map(r => r.id)).toEqual(['kitchen']);
+    expect(docToPlan(mergeOps(b.doc, fromA).doc)).toEqual(atA);
+  });
+
+  it('ignores operations it has already seen', () => {
+    const { a } = shared();
+    const ops = edit(a, updateRoom('kitchen', { x: 50 }));
+    const { doc, applied } = mergeOps(a.doc, ops);
+    expect(applied).toEqual([]);
+    expect(doc).toEqual(a.doc);
+  });
+
+  it('catches up a copy that was offline from every register of the doc', () => {
+    const { a, b } = shared();
+    edit(a, updateRoom('kitchen', { x: 50 }));
+    edit(a, plan => ({ ...plan, rooms: [...plan.rooms, room({ id: 'bath', name: 'Bath' })] }));
+    expect(docToPlan(mergeOps(b.doc, docToOps(a.doc)).doc)).toEqual(docToPlan(a.doc));
+  });
+
+  it('patches only the rooms the winning operations touched', () => {
+    const { a, b } = shared();
+    const ops = edit(b, updateRoom('kitchen', { name: 'Galley' }));
+    const { doc, applied } = mergeOps(a.doc, ops);
+    const next = applyOpsToPlan(base, doc, applied);
+    expect(next.rooms[0].name).toBe('Galley');
+    expect(next.rooms[1]).toBe(base.rooms[1]);
+    expect(next).toEqual(docToPlan(doc));
+  });
+});
+
+/** A copy of a shared plan kept the way App keeps it, with the ops it has yet to send. */
+interface Replica {
+  clock: Clock;
+  doc: CrdtDoc;
+  synced: Plan;
+  plan: Plan;
+  outbox: CrdtOp[];
+}
+
+const upper: Level = { id: 'upper', name: 'Upper Floor', elevation: 270, height: 270 };
+
+const session = (start: Plan, ...clientIds: string[]): Replica[] => {
+  const ops = planToOps(start, createClock('host'));
+  const doc = mergeOps(createDoc(), ops).doc;
+  return clientIds.map(clientId => ({ ...join(clientId, doc, ops), synced: start, plan: start, outbox: [] }));
+};
+
+// Sends what changed on screen since the last sync, as App's sync effect does
+const flush = (replica: Replica) => {
+  const ops = diffPlanOps(replica.synced, replica.plan, replica.clock);
+  replica.synced = replica.plan;
+  replica.doc = mergeOps(replica.doc, ops).doc;
+  replica.outbox.push(...ops);
+};
+
+const change = (replica: Replica, edit: (plan: Plan) => Plan) => {
+  replica.plan = edit(replica.plan);
+  flush(replica);
+};
+
+const receive = (replica: Replica, ops: CrdtOp[]) => {
+  observeOps(replica.clock, ops);
+  const { doc, applied } = mergeOps(replica.doc, ops);
+  replica.doc = doc;
+  if (applied.length === 0) return;
+  replica.synced = applyOpsToPlan(replica.synced, doc, applied);
+  replica.plan = repairPlan(applyOpsToPlan(replica.plan, doc, applied));
+  flush(replica);
+};
+
+// Relays every replica's ops to the others until nobody has anything left to send
+const settle = (replicas: Replica[]) => {
+  while (replicas.some(r => r.outbox.length > 0)) {
+    replicas.forEach(from => {
+      const ops = from.outbox.splice(0);
+      replicas.filter(r => r !== from).forEach(to => receive(to, ops));
+    });
+  }
+};
+
+const byId = <T extends { id: string },>(records: T[]) => [...records].sort((x, y) => x.id < y.id ? -1 : 1);
+// Copies may list records in different orders, which the plan does not depend on
+const sorted = (plan: Plan): Plan =>
+  ({ ...plan, levels: byId(plan.levels), rooms: byId(plan.rooms), dimensions: byId(plan.dimensions), materials: byId(plan.materials) });
+
+/** Both copies, and someone joining afterwards, see the same plan, and it loads. */
+const expectConverged = ([a, b]: Replica[]) => {
+  expect(sorted(a.plan)).toEqual(sorted(b.plan));
+  expect(sorted(repairPlan(docToPlan(a.doc)))).toEqual(sorted(a.plan));
+  expect(parsePlanFile(serializePlan(a.plan)).errors).toEqual([]);
+  return a.plan;
+};
+
+describe('repairPlan', () => {
+  it('leaves a valid plan as it is', () => {
+    expect(repairPlan(base)).toBe(base);
+  });
+
+  it('moves rooms off a missing level onto the lowest one', () => {
+    const repaired = repairPlan({ ...base, levels: [upper, { ...DEFAULT_LEVEL, id: 'basement', elevation: -270 }] });
+    expect(repaired.rooms.map(r => r.levelId)).toEqual(['basement', 'basement']);
+  });
+
+  it('brings back the default level when none is left', () => {
+    expect(repairPlan({ ...base, levels: [] }).levels).toEqual([DEFAULT_LEVEL]);
+  });
+});
+
+describe('concurrent edits that clash', () => {
+  it('settle a room moved onto a level someone deleted on the lowest level', () => {
+    const [a, b] = session({ ...base, levels: [DEFAULT_LEVEL, upper] }, 'a', 'b');
+    change(a, plan => ({ ...plan, levels: plan.levels.filter(l => l.id !== 'upper') }));
+    change(b, updateRoom('kitchen', { levelId: 'upper' }));
+    settle([a, b]);
+    expect(expectConverged([a, b]).rooms.map(r => r.levelId)).toEqual([DEFAULT_LEVEL.id, DEFAULT_LEVEL.id]);
+  });
+
+  it('settle both remaining levels being deleted by bringing back the default level', () => {
+    const [a, b] = session({ ...base, levels: [DEFAULT_LEVEL, upper] }, 'a', 'b');
+    change(a, plan => ({ ...plan, levels: plan.levels.filter(l => l.id !== DEFAULT_LEVEL.id) }));
+    change(b, plan => ({ ...plan, levels: plan.levels.filter(l => l.id !== 'upper') }));
+    settle([a, b]);
+    expect(expectConverged([a, b]).levels).toEqual([DEFAULT_LEVEL]);
+  });
+
+  it('drop a finish from a material someone deleted', () => {
+    const oak = { id: 'oak', name: 'Oak', slot: 'floor' as const, unitPrice: 60, waste: 0.1 };
+    const [a, b] = session({ ...base, materials: [oak] }, 'a', 'b');
+    change(a, plan => ({ ...plan, materials: [] }));
+    change(b, updateRoom('kitchen', { finishes: { floor: 'oak' } }));
+    settle([a, b]);
+    expect(expectConverged([a, b]).rooms[0].finishes).toBeUndefined();
+  });
+
+  it('drop a dimension line anchored to a room someone deleted', () => {
+    const [a, b] = session(base, 'a', 'b');
+    change(a, plan => ({ ...plan, rooms: plan.rooms.filter(r => r.id !== 'hall') }));
+    change(b, plan => ({
+      ...plan,
+      dimensions: [{ id: 'd', levelId: DEFAULT_LEVEL.id, start: { roomId: 'hall', edge: 0, t: 0 }, end: { x: 0, y: 0 }, offset: 20 }],
+    }));
+    settle([a, b]);
+    expect(expectConverged([a, b]).dimensions).toEqual([]);
+  });
+
+  it('drop a door on a polygon edge someone removed', () => {
+    const square = [{ x: 0, y: 0 }, { x: 400, y: 0 }, { x: 400, y: 300 }, { x: 0, y: 300 }];
+    const [a, b] = session(updateRoom('kitchen', { shape: 'polygon', vertices: square })(base), 'a', 'b');
+    change(a, updateRoom('kitchen', { vertices: square.slice(0, 3) }));
+    change(b, updateRoom('kitchen', { features: [{ id: 'door', type: 'door', wall: 3, position: 0.5, width: 80 }] }));
+    settle([a, b]);
+    expect(expectConverged([a, b]).rooms.find(r => r.id === 'kitchen').features).toEqual([]);
+  });
+});
@@ -0,0 +1,215 @@
+import type { Plan, Room } from '../types';
+import { DEFAULT_LEVEL } from './levels';
+import { dropUnresolvedFinishes } from './materials';
+
+/**
+ * A shared plan is kept as a CRDT: every room, level, dimension line and material, plus the plan settings,
+ * is a map of last-writer-wins registers, one per field. Two people editing different fields of
+ * the same room both keep their change; edits to the same field go to the later write. Writes
+ * are ordered by Lamport stamps, so every copy that has seen the same operations agrees on the
+ * plan no matter the order they arrived in, including edits made offline.
+ */
+export type Collection = 'rooms' | 'levels' | 'dimensions' | 'materials' | 'settings';
+
+export interface Stamp {
+  counter: number; // Lamport clock
+  clientId: string; // breaks ties between writes with the same counter
+}
+
+/** One field of one record set to a value; the unit sent over the wire. */
+export interface CrdtOp {
+  collection: Collection;
+  id: string;
+  field: string;
+  value: unknown; // null when the field was cleared
+  stamp: Stamp;
+}
+
+interface Register {
+  value: unknown;
+  stamp: Stamp;
+}
+
+export type CrdtDoc = Record<Collection, Record<string, Record<string, Register>>>;
+
+export interface Clock {
+  clientId: string;
+  counter: number;
+}
+
+// Deleting a record is a write to this register, so a delete and a concurrent edit both survive
+// as registers and the record stays deleted until someone restores it
+const DELETED = '$deleted';
+const SETTINGS_ID = 'plan';
+const RECORD_COLLECTIONS = ['rooms', 'levels', 'dimensions', 'materials'] as const;
+
+export const createDoc = (): CrdtDoc => ({ rooms: {}, levels: {}, dimensions: {}, materials: {}, settings: {} });
+
+export const createClock = (clientId: string): Clock => ({ clientId, counter: 0 });
+
+export const compareStamps = (a: Stamp, b: Stamp) =>
+  a.counter !== b.counter ? a.counter - b.counter : a.clientId < b.clientId ? -1 : a.clientId > b.clientId ? 1 : 0;
+
+const tick = (clock: Clock): Stamp => ({ clientId: clock.clientId, counter: ++clock.counter });
+
+/** Moves the clock past every stamp seen, so our next write orders after them. */
+export const observeOps = (clock: Clock, ops: CrdtOp[]) => {
+  ops.forEach(op => { clock.counter = Math.max(clock.counter, op.stamp.counter); });
+};
+
+/** Merges operations into a copy of the doc, returning it with the operations that won. */
+export const mergeOps = (doc: CrdtDoc, ops: CrdtOp[]): { doc: CrdtDoc; applied: CrdtOp[] } => {
+  const next: CrdtDoc = { ...doc };
+  const copied = new Set<string>();
+  const applied: CrdtOp[] = [];
+  ops.forEach(op => {
+    const current = next[op.collection]?.[op.id]?.[op.field];
+    if (!next[op.collection] || (current && compareStamps(current.stamp, op.stamp) >= 0)) return;
+    if (!copied.has(op.collection)) {
+      next[op.collection] = { ...next[op.collection] };
+      copied.add(op.collection);
+    }
+    const recordKey = `${op.collection}/${op.id}`;
+    if (!copied.has(recordKey)) {
+      next[op.collection][op.id] = { ...next[op.collection][op.id] };
+      copied.add(recordKey);
+    }
+    next[op.collection][op.id][op.field] = { value: op.value, stamp: op.stamp };
+    applied.push(op);
+  });
+  return { doc: next, applied };
+};
+
+/** Every register in the doc as operations, e.g. to catch the server up after being offline. */
+export const docToOps = (doc: CrdtDoc): CrdtOp[] =>
+  (Object.keys(doc) as Collection[]).flatMap(collection =>
+    Object.entries(doc[collection]).flatMap(([id, fields]) =>
+      Object.entries(fields).map(([field, { value, stamp }]) => ({ collection, id, field, value, stamp }))));
+
+const sameValue = (a: unknown, b: unknown) => a === b || JSON.stringify(a) === JSON.stringify(b);
+
+const diffFields = (collection: Collection, id: string, before: object | undefined, after: object, clock: Clock): CrdtOp[] => {
+  const ops: CrdtOp[] = [];
+  const keys = new Set([...Object.keys(before ?? {}), ...Object.keys(after)]);
+  keys.forEach(field => {
+    const value = (after as Record<string, unknown>)[field];
+    if (before && sameValue((before as Record<string, unknown>)[field], value)) return;
+    ops.push({ collection, id, field, value: value ?? null, stamp: tick(clock) });
+  });
+  if (!before) ops.push({ collection, id, field: DELETED, value: false, stamp: tick(clock) });
+  return ops;
+};
+
+/** Operations that turn `before` into `after`, stamped with the local clock. */
+export const diffPlanOps = (before: Plan, after: Plan, clock: Clock): CrdtOp[] => {
+  const ops: CrdtOp[] = [];
+  RECORD_COLLECTIONS.forEach(collection => {
+    const previous: { id: string }[] = before[collection];
+    const next: { id: string }[] = after[collection];
+    if (previous === next) return;
+    const beforeById = new Map(previous.map(r => [r.id, r]));
+    const afterIds = new Set(next.map(r => r.id));
+    next.forEach(record => {
+      const old = beforeById.get(record.id);
+      if (old !== record) ops.push(...diffFields(collection, record.id, old, record, clock));
+    });
+    previous.forEach(record => {
+      if (!afterIds.has(record.id)) ops.push({ collection, id: record.id, field: DELETED, value: true, stamp: tick(clock) });
+    });
+  });
+  if (before.settings !== after.settings) ops.push(...diffFields('settings', SETTINGS_ID, before.settings, after.settings, clock));
+  return ops;
+};
+
+/** Operations that create the whole plan, for publishing it to an empty session. */
+export const planToOps = (plan: Plan, clock: Clock): CrdtOp[] =>
+  diffPlanOps({ settings: undefined, levels: [], rooms: [], dimensions: [], materials: [] }, plan, clock);
+
+const materialize = <T,>(fields: Record<string, Register> | undefined, id: string): T | null => {
+  if (!fields || fields[DELETED]?.value === true) return null;
+  const record: Record<string, unknown> = { id };
+  Object.entries(fields).forEach(([field, { value }]) => {
+    if (field !== DELETED && value !== null) record[field] = value;
+  });
+  return record as T;
+};
+
+/** The plan a doc describes, without any checks; parse it as a plan file before trusting it. */
+export const docToPlan = (doc: CrdtDoc): Plan => {
+  const records = <T,>(collection: Collection) =>
+    Object.keys(doc[collection]).map(id => materialize<T>(doc[collection][id], id)).filter(Boolean);
+  const settings = materialize<Plan['settings'] & { id?: string }>(doc.settings[SETTINGS_ID], SETTINGS_ID);
+  if (settings) delete settings.id;
+  return { settings, levels: records('levels'), rooms: records('rooms'), dimensions: records('dimensions'), materials: records('materials') };
+};
+
+/** A copy of the record with the fields the operations set, so fields we have not synced yet stay. */
+const patchRecord = <T extends object,>(record: T, ops: CrdtOp[]): T => {
+  const next = { ...record } as Record<string, unknown>;
+  ops.forEach(({ field, value }) => {
+    if (field === DELETED) return;
+    if (value === null) delete next[field];
+    else next[field] = value;
+  });
+  return next as T;
+};
+
+/**
+ * Brings a plan up to date with operations that won a merge. Records they did not touch are
+ * kept as they were, so unchanged rooms are not re-rendered.
+ */
+export const applyOpsToPlan = (plan: Plan, doc: CrdtDoc, applied: CrdtOp[]): Plan => {
+  if (applied.length === 0) return plan;
+  const next = { ...plan };
+  RECORD_COLLECTIONS.forEach(collection => {
+    const touched = new Map<string, CrdtOp[]>();
+    applied.filter(op => op.collection === collection).forEach(op => touched.set(op.id, [...(touched.get(op.id) ?? []), op]));
+    if (touched.size === 0) return;
+    const records: { id: string }[] = [...plan[collection]];
+    touched.forEach((ops, id) => {
+      const index = records.findIndex(r => r.id === id);
+      if (doc[collection][id][DELETED]?.value === true) {
+        if (index >= 0) records.splice(index, 1);
+      } else if (index >= 0) {
+        records[index] = patchRecord(records[index], ops);
+      } else {
+        records.push(materialize(doc[collection][id], id));
+      }
+    });
+    (next as Record<string, unknown>)[collection] = records;
+  });
+  const settingsOps = applied.filter(op => op.collection === 'settings');
+  if (settingsOps.length > 0) next.settings = patchRecord(plan.settings, settingsOps);
+  return next;
+};
+
+/**
+ * Edits that were fine on their own can clash once merged: a room moved onto a level someone
+ * deleted meanwhile, a finish from a deleted material, a door on a polygon edge someone removed.
+ * Every copy accepts every operation and then settles such clashes here, looking only at the
+ * plan and never at the order edits arrived in, so all copies show the same valid plan:
+ *
+ * - with no levels left, the default level comes back
+ * - rooms on a missing level move to the lowest level
+ * - polygon rooms without vertices are drawn as rectangles
+ * - openings on edges a room does not have, finishes from missing materials and dimension lines
+ *   on missing levels or rooms are dropped
+ */
+export const repairPlan = (plan: Plan): Plan => {
+  const levels = plan.levels.length > 0 ? plan.levels : [DEFAULT_LEVEL];
+  const levelIds = new Set(levels.map(l => l.id));
+  // Ties on elevation go by id, so every copy picks the same level
+  const lowest = [...levels].sort((a, b) => a.elevation - b.elevation || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0))[0];
+  const rooms = plan.rooms.map(room => {
+    let next: Room = levelIds.has(room.levelId) ? room : { ...room, levelId: lowest.id };
+    if (next.shape === 'polygon' && !next.vertices) next = { ...next, shape: 'rect' };
+    const edgeCount = next.shape === 'polygon' ? next.vertices.length : 4;
+    const features = next.features.filter(f => typeof f.wall !== 'number' || f.wall < edgeCount);
+    return features.length < next.features.length ? { ...next, features } : next;
+  });
+  const roomIds = new Set(rooms.map(r => r.id));
+  const dimensions = plan.dimensions.filter(d =>
+    levelIds.has(d.levelId) && [d.start, d.end].every(end => !('roomId' in end) || roomIds.has(end.roomId)));
+  const unchanged = levels === plan.levels && rooms.every((room, i) => room === plan.rooms[i]) && dimensions.length === plan.dimensions.length;
+  return dropUnresolvedFinishes(unchanged ? plan : { ...plan, levels, rooms, dimensions });
+};
@@ -0,0 +1,10 @@
+export type CsvCell = string | number | null | undefined;
+
+const escapeCell = (cell: CsvCell) => {
+  if (cell === null || cell === undefined) return '';
+  const text = String(cell);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/** Serialises rows to RFC 4180 CSV. */
+export const toCsv = (rows: CsvCell[][]) => rows.map(row => row.map(escapeCell).join(',')).join('\r\n') + '\r\n';
@@ -0,0 +1,135 @@
+import type { DimensionLine, EdgeAnchor, Point, Room } from '../types';
+import { getRoomOutline, distance } from './geometry';
+
+export interface DimensionGeometry {
+  from: Point; // measured points
+  to: Point;
+  lineStart: Point; // where the dimension line itself is drawn
+  lineEnd: Point;
+  length: number; // world units
+}
+
+/** A measured point, with the room edge it lies on when it was snapped to one. */
+export interface SnappedPoint {
+  point: Point;
+  anchor?: EdgeAnchor;
+}
+
+export const isEdgeAnchor = (end: EdgeAnchor | Point): end is EdgeAnchor => 'roomId' in end;
+
+const lerp = (a: Point, b: Point, t: number): Point => ({ x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t });
+
+/** World position of a dimension end, or null when its room or edge no longer exists. */
+export const resolveDimensionEnd = (end: EdgeAnchor | Point, roomsById: Map<string, Room>): Point | null => {
+  if (!isEdgeAnchor(end)) return end;
+  const room = roomsById.get(end.roomId);
+  if (!room) return null;
+  const outline = getRoomOutline(room);
+  if (end.edge >= outline.length) return null;
+  return lerp(outline[end.edge], outline[(end.edge + 1) % outline.length], end.t);
+};
+
+export const getDimensionGeometry = (dimension: DimensionLine, roomsById: Map<string, Room>): DimensionGeometry | null => {
+  const from = resolveDimensionEnd(dimension.start, roomsById);
+  const to = resolveDimensionEnd(dimension.end, roomsById);
+  if (!from || !to) return null;
+  const { axis, offset } = dimension;
+
+  if (axis === 'x') {
+    const y = Math.min(from.y, to.y) + offset;
+    return { from, to, lineStart: { x: from.x, y }, lineEnd: { x: to.x, y }, length: Math.abs(to.x - from.x) };
+  }
+  if (axis === 'y') {
+    const x = Math.min(from.x, to.x) + offset;
+    return { from, to, lineStart: { x, y: from.y }, lineEnd: { x, y: to.y }, length: Math.abs(to.y - from.y) };
+  }
+  const length = distance(from, to);
+  const normal = length > 0 ? { x: (to.y - from.y) / length, y: -(to.x - from.x) / length } : { x: 0, y: 0 };
+  return {
+    from,
+    to,
+    lineStart: { x: from.x + normal.x * offset, y: from.y + normal.y * offset },
+    lineEnd: { x: to.x + normal.x * offset, y: to.y + normal.y * offset },
+    length,
+  };
+};
+
+/**
+ * Snaps a point to the nearest room corner, edge midpoint or edge within `tolerance`, in that
+ * order of preference. Returns null when nothing is close enough.
+ */
+export const snapToRoomEdges = (point: Point, rooms: Room[], tolerance: number): SnappedPoint | null => {
+  let best: (SnappedPoint & { distance: number; priority: number }) | null = null;
+  const consider = (candidate: Point, anchor: EdgeAnchor, priority: number) => {
+    const d = distance(point, candidate);
+    if (d > tolerance) return;
+    if (!best || priority < best.priority || (priority === best.priority && d < best.distance)) {
+      best = { point: candidate, anchor, distance: d, priority };
+    }
+  };
+
+  rooms.forEach(room => {
+    const outline = getRoomOutline(room);
+    outline.forEach((a, edge) => {
+      const b = outline[(edge + 1) % outline.length];
+      consider(a, { roomId: room.id, edge, t: 0 }, 0);
+      consider(lerp(a, b, 0.5), { roomId: room.id, edge, t: 0.5 }, 1);
+      const lengthSq = (b.x - a.x) ** 2 + (b.y - a.y) ** 2;
+      if (lengthSq === 0) return;
+      const t = Math.max(0, Math.min(1, ((point.x - a.x) * (b.x - a.x) + (point.y - a.y) * (b.y - a.y)) / lengthSq));
+      consider(lerp(a, b, t), { roomId: room.id, edge, t }, 2);
+    });
+  });
+
+  if (!best) return null;
+  const { point: snapped, anchor } = best as SnappedPoint;
+  return { point: snapped, anchor };
+};
+
+/**
+ * Overall width along the top and overall depth down the left of a level, anchored to the
+ * outermost room corners so they follow the plan as it changes.
+ */
+export const createExteriorDimensions = (rooms: Room[], levelId: string, gap: number): DimensionLine[] => {
+  const corners = rooms.flatMap(room => getRoomOutline(room).map((point, edge) => ({
+    point,
+    anchor: { roomId: room.id, edge, t: 0 } as EdgeAnchor,
+  })));
+  if (corners.length === 0) return [];
+
+  const pick = (better: (a: Point, b: Point) => boolean) =>
+    corners.reduce((best, c) => better(c.point, best.point) ? c : best);
+  const left = pick((a, b) => a.x < b.x || (a.x === b.x && a.y < b.y));
+  const right = pick((a, b) => a.x > b.x || (a.x === b.x && a.y < b.y));
+  const top = pick((a, b) => a.y < b.y || (a.y === b.y && a.x < b.x));
+  const bottom = pick((a, b) => a.y > b.y || (a.y === b.y && a.x < b.x));
+
+  const dimensions: DimensionLine[] = [];
+  if (right.point.x > left.point.x) {
+    dimensions.push({
+      id: crypto.randomUUID(),
+      levelId,
+      start: left.anchor,
+      end: right.anchor,
+      axis: 'x',
+      offset: top.point.y - gap - Math.min(left.point.y, right.point.y),
+      auto: true,
+    });
+  }
+  if (bottom.point.y > top.point.y) {
+    dimensions.push({
+      id: crypto.randomUUID(),
+      levelId,
+      start: top.anchor,
+      end: bottom.anchor,
+      axis: 'y',
+      offset: left.point.x - gap - Math.min(top.point.x, bottom.point.x),
+      auto: true,
+    });
+  }
+  return dimensions;
+};
+
+/** Drops dimensions that measure to any of the given rooms. */
+export const removeDimensionsForRooms = (dimensions: DimensionLine[], roomIds: string[]) =>
+  dimensions.filter(d => ![d.start, d.end].some(end => isEdgeAnchor(end) && roomIds.includes(end.roomId)));
@@ -0,0 +1,319 @@
+import type { Plan, PlanSettings, Point, Room } from '../types';
+import { getRoomOutline, getFeatureGeometry, getPolygonLabelPoint, getRoomRotation, isPointInPolygon, normalizePolygon, toWorldPoint } from './geometry';
+import { worldToMeters, metersToWorld } from './units';
+
+// $INSUNITS codes (AutoCAD 2000 and later) and their size in meters
+const INSUNITS: Record<number, { name: string; meters: number }> = {
+  1: { name: 'inches', meters: 0.0254 },
+  2: { name: 'feet', meters: 0.3048 },
+  4: { name: 'mm', meters: 0.001 },
+  5: { name: 'cm', meters: 0.01 },
+  6: { name: 'm', meters: 1 },
+};
+
+const PLAN_UNIT_TO_INSUNITS: Record<PlanSettings['unit'], number> = { mm: 4, cm: 5, m: 6, 'ft-in': 1 };
+
+const MAX_ARC_STEP = Math.PI / 12; // radians per straight segment when flattening polyline arcs
+
+const DOOR_LAYER = 'DOORS';
+const WINDOW_LAYER = 'WINDOWS';
+const LABEL_LAYER = 'ROOM-LABELS';
+const FEATURE_DEPTH = 8; // world units, matches the canvas
+
+/** Layer a room is written to: its type, or else its name with any trailing counter dropped, e.g. "ROOM-BEDROOM". */
+export const getRoomLayerName = (room: Room) => {
+  if (room.type) return `ROOM-${room.type.toUpperCase()}`;
+  const base = room.name.replace(/\s*\d+$/, '').trim().toUpperCase().replace(/[^A-Z0-9]+/g, '-').replace(/^-|-$/g, '');
+  return `ROOM-${base || 'UNNAMED'}`;
+};
+
+const num = (value: number) => {
+  const rounded = Math.round(value * 1e6) / 1e6;
+  return Object.is(rounded, -0) ? '0' : String(rounded);
+};
+
+const pair = (code: number, value: string | number) => `${code}\n${typeof value === 'number' ? num(value) : value}`;
+
+/**
+ * Writes one level of the plan as an ASCII R12 DXF (header, linetype and layer tables, blocks,
+ * entities). Rooms become closed POLYLINEs on per-room-type layers, names become TEXT, and
+ * doors/windows are INSERTs of unit-sized DOOR and WINDOW blocks. R12 has no way to name the
+ * drawing unit, so coordinates are in the plan's display unit (inches for imperial plans, as
+ * CAD's architectural units expect) with Y pointing up.
+ */
+export const exportPlanDxf = (plan: Plan, levelId: string): string => {
+  const { settings } = plan;
+  const unitMeters = INSUNITS[PLAN_UNIT_TO_INSUNITS[settings.unit]].meters;
+  const toDxf = (p: Point) => ({ x: worldToMeters(p.x, settings) / unitMeters, y: -worldToMeters(p.y, settings) / unitMeters });
+  const toDxfLength = (value: number) => worldToMeters(value, settings) / unitMeters;
+
+  const rooms = plan.rooms.filter(r => r.levelId === levelId);
+  const roomLayers = [...new Set(rooms.map(getRoomLayerName))].sort();
+  const layers = [...roomLayers, LABEL_LAYER, DOOR_LAYER, WINDOW_LAYER];
+
+  const out: string[] = [];
+  out.push(pair(0, 'SECTION'), pair(2, 'HEADER'),
+    pair(9, '$ACADVER'), pair(1, 'AC1009'),
+    pair(0, 'ENDSEC'));
+
+  out.push(pair(0, 'SECTION'), pair(2, 'TABLES'),
+    pair(0, 'TABLE'), pair(2, 'LTYPE'), pair(70, 1),
+    pair(0, 'LTYPE'), pair(2, 'CONTINUOUS'), pair(70, 0), pair(3, 'Solid line'), pair(72, 65), pair(73, 0), pair(40, 0),
+    pair(0, 'ENDTAB'),
+    pair(0, 'TABLE'), pair(2, 'LAYER'), pair(70, layers.length));
+  layers.forEach((name, i) => out.push(pair(0, 'LAYER'), pair(2, name), pair(70, 0), pair(62, (i % 7) + 1), pair(6, 'CONTINUOUS')));
+  out.push(pair(0, 'ENDTAB'), pair(0, 'ENDSEC'));
+
+  // Unit-sized symbols, scaled per insert: the door swings from a hinge at the origin,
+  // the window spans x 0..1 and y -0.5..0.5
+  out.push(pair(0, 'SECTION'), pair(2, 'BLOCKS'),
+    pair(0, 'BLOCK'), pair(8, '0'), pair(2, 'DOOR'), pair(70, 0), pair(10, 0), pair(20, 0), pair(30, 0), pair(3, 'DOOR'),
+    pair(0, 'LINE'), pair(8, '0'), pair(10, 0), pair(20, 0), pair(30, 0), pair(11, 0), pair(21, 1), pair(31, 0),
+    pair(0, 'ARC'), pair(8, '0'), pair(10, 0), pair(20, 0), pair(30, 0), pair(40, 1), pair(50, 0), pair(51, 90),
+    pair(0, 'ENDBLK'), pair(8, '0'),
+    pair(0, 'BLOCK'), pair(8, '0'), pair(2, 'WINDOW'), pair(70, 0), pair(10, 0), pair(20, 0), pair(30, 0), pair(3, 'WINDOW'),
+    pair(0, 'LINE'), pair(8, '0'), pair(10, 0), pair(20, -0.5), pair(30, 0), pair(11, 1), pair(21, -0.5), pair(31, 0),
+    pair(0, 'LINE'), pair(8, '0'), pair(10, 0), pair(20, 0), pair(30, 0), pair(11, 1), pair(21, 0), pair(31, 0),
+    pair(0, 'LINE'), pair(8, '0'), pair(10, 0), pair(20, 0.5), pair(30, 0), pair(11, 1), pair(21, 0.5), pair(31, 0),
+    pair(0, 'ENDBLK'), pair(8, '0'),
+    pair(0, 'ENDSEC'));
+
+  out.push(pair(0, 'SECTION'), pair(2, 'ENTITIES'));
+  rooms.forEach(room => {
+    const outline = getRoomOutline(room);
+    const layer = getRoomLayerName(room);
+    out.push(pair(0, 'POLYLINE'), pair(8, layer), pair(66, 1), pair(10, 0), pair(20, 0), pair(30, 0), pair(70, 1));
+    outline.forEach(p => {
+      const d = toDxf(p);
+      out.push(pair(0, 'VERTEX'), pair(8, layer), pair(10, d.x), pair(20, d.y), pair(30, 0));
+    });
+    out.push(pair(0, 'SEQEND'), pair(8, layer));
+
+    const label = toDxf(getPolygonLabelPoint(outline));
+    const textHeight = toDxfLength(12);
+    out.push(pair(0, 'TEXT'), pair(8, LABEL_LAYER), pair(10, label.x), pair(20, label.y), pair(30, 0),
+      pair(40, textHeight), pair(1, room.name), pair(72, 1), pair(11, label.x), pair(21, label.y), pair(31, 0));
+
+    room.features.forEach(feature => {
+      const { center, angle, normal } = getFeatureGeometry(feature, room);
+      const radians = (angle * Math.PI) / 180;
+      const start = toWorldPoint(room, {
+        x: center.x - (Math.cos(radians) * feature.width) / 2,
+        y: center.y - (Math.sin(radians) * feature.width) / 2,
+      });
+      const insert = toDxf(start);
+      const width = toDxfLength(feature.width);
+      // The block's +Y must face into the room once the Y axis is flipped
+      const inward = normal.x * Math.sin(radians) - normal.y * Math.cos(radians) >= 0 ? 1 : -1;
+      const isDoor = feature.type === 'door';
+      out.push(pair(0, 'INSERT'), pair(8, isDoor ? DOOR_LAYER : WINDOW_LAYER), pair(2, isDoor ? 'DOOR' : 'WINDOW'),
+        pair(10, insert.x), pair(20, insert.y), pair(30, 0),
+        pair(41, width), pair(42, isDoor ? width * inward : toDxfLength(FEATURE_DEPTH)), pair(43, 1),
+        pair(50, -(angle + getRoomRotation(room))));
+    });
+  });
+  out.push(pair(0, 'ENDSEC'), pair(0, 'EOF'));
+
+  return out.join('\n') + '\n';
+};
+
+export interface DxfImportResult {
+  rooms: Room[];
+  warnings: string[];
+}
+
+export interface DxfImportOptions {
+  levelId: string;
+  colors: string[];
+  firstZIndex: number;
+  firstRoomNumber: number;
+}
+
+interface DxfEntity {
+  type: string;
+  pairs: [number, string][];
+}
+
+const parsePairs = (text: string): [number, string][] => {
+  const lines = text.split(/\r?\n/);
+  const pairs: [number, string][] = [];
+  for (let i = 0; i + 1 < lines.length; i += 2) {
+    const code = parseInt(lines[i].trim(), 10);
+    if (isNaN(code)) throw new Error(`Line ${i + 1}: expected a group code, found "${lines[i].trim()}"`);
+    pairs.push([code, lines[i + 1].trim()]);
+  }
+  return pairs;
+};
+
+/** Splits the ENTITIES section into entities, and reads $INSUNITS from the header. */
+const readDrawing = (pairs: [number, string][]) => {
+  let section = '';
+  let insUnits = 0;
+  const entities: DxfEntity[] = [];
+  for (let i = 0; i < pairs.length; i++) {
+    const [code, value] = pairs[i];
+    if (code === 0 && value === 'SECTION') {
+      section = pairs[i + 1]?.[1] ?? '';
+      i++;
+      continue;
+    }
+    if (code === 0 && value === 'ENDSEC') {
+      section = '';
+      continue;
+    }
+    if (section === 'HEADER' && code === 9 && value === '$INSUNITS') {
+      insUnits = parseInt(pairs[i + 1]?.[1] ?? '0', 10);
+    }
+    if (section === 'ENTITIES') {
+      if (code === 0) entities.push({ type: value, pairs: [] });
+      else entities[entities.length - 1]?.pairs.push([code, value]);
+    }
+  }
+  return { insUnits, entities };
+};
+
+const getValue = (entity: DxfEntity, code: number) => entity.pairs.find(([c]) => c === code)?.[1];
+
+/** Points in the order given; a bulge (code 42) belongs to the segment from the point before it. */
+const getPoints = (pairs: [number, string][]) => {
+  const points: (Point & { bulge?: number })[] = [];
+  pairs.forEach(([code, value]) => {
+    if (code === 10) points.push({ x: parseFloat(value), y: 0 });
+    if (code === 20 && points.length > 0) points[points.length - 1].y = parseFloat(value);
+    if (code === 42 && points.length > 0) points[points.length - 1].bulge = parseFloat(value);
+  });
+  return points;
+};
+
+/**
+ * A closed outline with its arc segments flattened to short straight ones. A bulge is the tangent
+ * of a quarter of the arc's included angle, positive when the arc turns counterclockwise.
+ */
+const flattenBulges = (points: (Point & { bulge?: number })[]) => {
+  const flat: Point[] = [];
+  let arcs = 0;
+  points.forEach((from, i) => {
+    flat.push({ x: from.x, y: from.y });
+    const to = points[(i + 1) % points.length];
+    const bulge = from.bulge ?? 0;
+    if (!bulge || !isFinite(bulge) || (from.x === to.x && from.y === to.y)) return;
+    arcs++;
+    const angle = 4 * Math.atan(bulge);
+    // The center sits off the chord's midpoint, to the left for a counterclockwise arc
+    const offset = (1 - bulge * bulge) / (4 * bulge);
+    const center = {
+      x: (from.x + to.x) / 2 - (to.y - from.y) * offset,
+      y: (from.y + to.y) / 2 + (to.x - from.x) * offset,
+    };
+    const radius = Math.hypot(from.x - center.x, from.y - center.y);
+    const start = Math.atan2(from.y - center.y, from.x - center.x);
+    const steps = Math.max(2, Math.ceil(Math.abs(angle) / MAX_ARC_STEP));
+    for (let step = 1; step < steps; step++) {
+      const a = start + (angle * step) / steps;
+      flat.push({ x: center.x + radius * Math.cos(a), y: center.y + radius * Math.sin(a) });
+    }
+  });
+  return { points: flat, arcs };
+};
+
+const isClosed = (entity: DxfEntity) => (parseInt(getValue(entity, 70) ?? '0', 10) & 1) === 1;
+
+const isAxisAlignedRectangle = (points: Point[]) =>
+  points.length === 4 && points.every((p, i) => {
+    const next = points[(i + 1) % 4];
+    return p.x === next.x || p.y === next.y;
+  });
+
+/**
+ * Reads closed LWPOLYLINE and POLYLINE outlines from an ASCII DXF as rooms on the given level.
+ * A TEXT or MTEXT inside an outline names the room. Everything else is tallied in `warnings`
+ * rather than dropped without a word, and arcs in outlines (bulges) become short straight
+ * segments. Drawing units come from $INSUNITS; when the header does not say, as in R12 files,
+ * the plan's own unit, or inches for imperial plans.
+ */
+export const importDxf = (text: string, settings: PlanSettings, options: DxfImportOptions): DxfImportResult => {
+  const { insUnits, entities } = readDrawing(parsePairs(text));
+  const warnings: string[] = [];
+  const unit = INSUNITS[insUnits];
+  const assumed = INSUNITS[PLAN_UNIT_TO_INSUNITS[settings.unit]];
+  const unitMeters = (unit ?? assumed).meters;
+  if (!unit) warnings.push(`Drawing units not specified; assuming ${assumed.name}.`);
+  const toWorld = (p: Point): Point => ({
+    x: Math.round(metersToWorld(p.x * unitMeters, settings)),
+    y: Math.round(metersToWorld(-p.y * unitMeters, settings)),
+  });
+
+  const outlines: Point[][] = [];
+  const labels: { point: Point; text: string }[] = [];
+  const skipped: Record<string, number> = {};
+  const skip = (reason: string) => { skipped[reason] = (skipped[reason] ?? 0) + 1; };
+  let flattenedArcs = 0;
+  const addOutline = (points: (Point & { bulge?: number })[]) => {
+    const flat = flattenBulges(points);
+    flattenedArcs += flat.arcs;
+    outlines.push(flat.points.map(toWorld));
+  };
+
+  for (let i = 0; i < entities.length; i++) {
+    const entity = entities[i];
+    switch (entity.type) {
+      case 'LWPOLYLINE': {
+        const points = getPoints(entity.pairs);
+        if (!isClosed(entity)) skip('open LWPOLYLINE');
+        else if (points.length < 3) skip('LWPOLYLINE with fewer than 3 vertices');
+        else addOutline(points);
+        break;
+      }
+      case 'POLYLINE': {
+        // R12 polylines carry their vertices as the following VERTEX entities, up to SEQEND
+        const vertices: (Point & { bulge?: number })[] = [];
+        while (entities[i + 1]?.type === 'VERTEX') {
+          i++;
+          vertices.push(...getPoints(entities[i].pairs));
+        }
+        if (entities[i + 1]?.type === 'SEQEND') i++;
+        if (!isClosed(entity)) skip('open POLYLINE');
+        else if (vertices.length < 3) skip('POLYLINE with fewer than 3 vertices');
+        else addOutline(vertices);
+        break;
+      }
+      case 'TEXT':
+      case 'MTEXT': {
+        const [point] = getPoints(entity.pairs);
+        const content = (getValue(entity, 1) ?? '').replace(/\\P/g, ' ').trim();
+        if (point && content) labels.push({ point: toWorld(point), text: content });
+        break;
+      }
+      default:
+        skip(entity.type);
+    }
+  }
+
+  const usedLabels = new Set<number>();
+  const rooms = outlines.map((outline, index): Room => {
+    const labelIndex = labels.findIndex((label, i) => !usedLabels.has(i) && isPointInPolygon(label.point, outline));
+    if (labelIndex >= 0) usedLabels.add(labelIndex);
+    const base = {
+      id: crypto.randomUUID(),
+      name: labelIndex >= 0 ? labels[labelIndex].text : `Room ${options.firstRoomNumber + index}`,
+      color: options.colors[(options.firstRoomNumber + index - 1) % options.colors.length],
+      zIndex: options.firstZIndex + index,
+      features: [],
+      locked: false,
+      levelId: options.levelId,
+    };
+    const shape = normalizePolygon(outline);
+    return isAxisAlignedRectangle(outline)
+      ? { ...base, x: shape.x, y: shape.y, width: shape.width, height: shape.height }
+      : { ...base, ...shape, shape: 'polygon' };
+  });
+
+  if (flattenedArcs > 0) warnings.push(`Drew ${flattenedArcs} curved outline segment${flattenedArcs === 1 ? '' : 's'} as short straight walls.`);
+  const unusedLabels = labels.length - usedLabels.size;
+  if (unusedLabels > 0) skipped['text outside any room outline'] = unusedLabels;
+  Object.keys(skipped).sort().forEach(reason => {
+    warnings.push(`Skipped ${skipped[reason]} × ${reason}.`);
+  });
+
+  return { rooms, warnings };
+};
@@ -0,0 +1,186 @@
+import type { FurnitureItem, FurnitureKind, PlanSettings, Point, Room } from '../types';
+import { getRoomRotation, getRoomVertices, isPointInPolygon, isPolygonRoom, toWorldPoint } from './geometry';
+import type { Bounds } from './geometry';
+import { metersToWorld } from './units';
+import { rect, ellipse, line } from './symbols';
+import type { SymbolShape } from './symbols';
+
+export interface FurnitureSpec {
+  kind: FurnitureKind;
+  label: string;
+  category: 'Bedroom' | 'Living' | 'Bathroom' | 'Kitchen';
+  width: number; // meters
+  depth: number; // meters
+}
+
+export const FURNITURE_CATALOG: FurnitureSpec[] = [
+  { kind: 'bed-double', label: 'Double bed', category: 'Bedroom', width: 1.6, depth: 2.0 },
+  { kind: 'bed-single', label: 'Single bed', category: 'Bedroom', width: 0.9, depth: 2.0 },
+  { kind: 'wardrobe', label: 'Wardrobe', category: 'Bedroom', width: 1.2, depth: 0.6 },
+  { kind: 'sofa', label: 'Sofa', category: 'Living', width: 2.0, depth: 0.9 },
+  { kind: 'armchair', label: 'Armchair', category: 'Living', width: 0.85, depth: 0.85 },
+  { kind: 'dining-table', label: 'Dining table', category: 'Living', width: 1.6, depth: 0.9 },
+  { kind: 'desk', label: 'Desk', category: 'Living', width: 1.2, depth: 0.6 },
+  { kind: 'toilet', label: 'Toilet', category: 'Bathroom', width: 0.4, depth: 0.7 },
+  { kind: 'bathtub', label: 'Bathtub', category: 'Bathroom', width: 1.7, depth: 0.75 },
+  { kind: 'shower', label: 'Shower tray', category: 'Bathroom', width: 0.9, depth: 0.9 },
+  { kind: 'sink', label: 'Washbasin', category: 'Bathroom', width: 0.6, depth: 0.45 },
+  { kind: 'kitchen-counter', label: 'Kitchen counter', category: 'Kitchen', width: 2.4, depth: 0.6 },
+  { kind: 'stove', label: 'Stove', category: 'Kitchen', width: 0.6, depth: 0.6 },
+  { kind: 'fridge', label: 'Fridge', category: 'Kitchen', width: 0.7, depth: 0.7 },
+];
+
+export const getFurnitureSpec = (kind: FurnitureKind) => FURNITURE_CATALOG.find(spec => spec.kind === kind)!;
+
+/** Width and depth as laid out in the room, after rotation. */
+export const getFurnitureFootprint = (item: FurnitureItem) =>
+  item.rotation % 180 === 0 ? { width: item.width, height: item.depth } : { width: item.depth, height: item.width };
+
+/** World position of the item's center. */
+export const getFurnitureCenter = (item: FurnitureItem, room: Room): Point => toWorldPoint(room, item);
+
+const FIT_TOLERANCE = 0.01; // world units a footprint may overlap a wall it sits flush against
+const FIT_SAMPLES = 40; // positions tried across the room per axis when searching for a fit
+
+const segmentsCross = (a: Point, b: Point, c: Point, d: Point) => {
+  const side = (p: Point, q: Point, r: Point) => Math.sign((q.x - p.x) * (r.y - p.y) - (q.y - p.y) * (r.x - p.x));
+  return side(a, b, c) * side(a, b, d) < 0 && side(c, d, a) * side(c, d, b) < 0;
+};
+
+/** Whether a box lies inside a polygon, touching its edges allowed. */
+const fitsInPolygon = (box: Bounds, polygon: Point[]) => {
+  const left = box.x + FIT_TOLERANCE;
+  const top = box.y + FIT_TOLERANCE;
+  const right = box.x + box.width - FIT_TOLERANCE;
+  const bottom = box.y + box.height - FIT_TOLERANCE;
+  const corners = [{ x: left, y: top }, { x: right, y: top }, { x: right, y: bottom }, { x: left, y: bottom }];
+  if (!corners.every(corner => isPointInPolygon(corner, polygon))) return false;
+  // A corner of the outline poking in, or a thin notch cutting right across, leaves the corners inside
+  if (polygon.some(p => p.x > left && p.x < right && p.y > top && p.y < bottom)) return false;
+  return !polygon.some((a, i) => {
+    const b = polygon[(i + 1) % polygon.length];
+    return corners.some((c, j) => segmentsCross(a, b, c, corners[(j + 1) % 4]));
+  });
+};
+
+/**
+ * Keeps an item's footprint inside its room, in the room's own frame so rotated rooms need
+ * nothing extra. In a polygon room an item that does not fit where it is goes to the nearest
+ * place it does, flush against a corner where possible; one too big for the room anywhere is
+ * only kept inside the bounding box.
+ */
+export const clampFurniture = (item: FurnitureItem, room: Room): FurnitureItem => {
+  const { width, height } = getFurnitureFootprint(item);
+  const clamp = (value: number, half: number, size: number) =>
+    half * 2 >= size ? size / 2 : Math.max(half, Math.min(size - half, value));
+  const boxed = { ...item, x: clamp(item.x, width / 2, room.width), y: clamp(item.y, height / 2, room.height) };
+  if (!isPolygonRoom(room)) return boxed;
+
+  const polygon = getRoomVertices(room);
+  const fits = (x: number, y: number) => fitsInPolygon({ x: x - width / 2, y: y - height / 2, width, height }, polygon);
+  if (fits(boxed.x, boxed.y)) return boxed;
+  const candidates = (value: number, half: number, size: number, corners: number[]) => [...new Set([
+    value,
+    ...corners.flatMap(c => [c - half, c + half]),
+    ...Array.from({ length: FIT_SAMPLES + 1 }, (_, i) => half + ((size - half * 2) * i) / FIT_SAMPLES),
+  ])].filter(v => v >= half && v <= size - half);
+  const xs = candidates(boxed.x, width / 2, room.width, polygon.map(p => p.x));
+  const ys = candidates(boxed.y, height / 2, room.height, polygon.map(p => p.y));
+  const nearest = xs
+    .flatMap(x => ys.map(y => ({ x, y, distance: Math.hypot(x - boxed.x, y - boxed.y) })))
+    .sort((a, b) => a.distance - b.distance)
+    .find(({ x, y }) => fits(x, y));
+  return nearest ? { ...item, x: nearest.x, y: nearest.y } : boxed;
+};
+
+/** Every item in a room clamped back inside it, e.g. after the room was resized or reshaped. */
+export const clampRoomFurniture = (room: Room): Room =>
+  room.furniture ? { ...room, furniture: room.furniture.map(item => clampFurniture(item, room)) } : room;
+
+/**
+ * Moves an item's center to a local point, snapping flush against a wall when one is within
+ * one grid step and to the grid otherwise, and keeping it inside the room.
+ */
+export const placeFurniture = (item: FurnitureItem, room: Room, center: Point, gridSize: number): FurnitureItem => {
+  const { width, height } = getFurnitureFootprint(item);
+  const snapAxis = (value: number, half: number, size: number) => {
+    if (Math.abs(value - half) <= gridSize) return half;
+    if (Math.abs(size - half - value) <= gridSize) return size - half;
+    return Math.round(value / gridSize) * gridSize;
+  };
+  return clampFurniture({
+    ...item,
+    x: snapAxis(center.x, width / 2, room.width),
+    y: snapAxis(center.y, height / 2, room.height),
+  }, room);
+};
+
+export const rotateFurniture = (item: FurnitureItem, room: Room, clockwise: boolean): FurnitureItem =>
+  clampFurniture({ ...item, rotation: ((item.rotation + (clockwise ? 90 : 270)) % 360) as FurnitureItem['rotation'] }, room);
+
+/** A new catalog item at its real size, centered in the room. */
+export const createFurnitureItem = (kind: FurnitureKind, room: Room, settings: PlanSettings): FurnitureItem => {
+  const spec = getFurnitureSpec(kind);
+  return clampFurniture({
+    id: crypto.randomUUID(),
+    kind,
+    x: room.width / 2,
+    y: room.height / 2,
+    width: Math.round(metersToWorld(spec.width, settings)),
+    depth: Math.round(metersToWorld(spec.depth, settings)),
+    rotation: 0,
+  }, room);
+};
+
+/**
+ * Top-down symbol of an item in its own frame: (0, 0) to (width, depth), with the back
+ * (headboard, cistern, sofa back) along y = 0.
+ */
+export const getFurnitureSymbol = (kind: FurnitureKind, w: number, d: number): SymbolShape[] => {
+  switch (kind) {
+    case 'bed-double':
+    case 'bed-single': {
+      const pillows = kind === 'bed-double' ? 2 : 1;
+      const gap = w * 0.06;
+      const pillowWidth = (w - gap * (pillows + 1)) / pillows;
+      return [
+        rect(0, 0, w, d, 2),
+        ...Array.from({ length: pillows }, (_, i) => rect(gap + i * (pillowWidth + gap), d * 0.04, pillowWidth, d * 0.14, 3)),
+        line(0, d * 0.28, w, d * 0.28),
+      ];
+    }
+    case 'sofa':
+    case 'armchair': {
+      const arm = Math.min(w * 0.15, d * 0.25);
+      return [rect(0, 0, w, d, 4), rect(0, 0, w, d * 0.25, 3), rect(0, 0, arm, d, 3), rect(w - arm, 0, arm, d, 3)];
+    }
+    case 'dining-table':
+      return [rect(0, 0, w, d, 2), rect(w * 0.08, d * 0.1, w * 0.84, d * 0.8, 2)];
+    case 'desk':
+      return [rect(0, 0, w, d), ellipse(w / 2, d * 0.95, Math.min(w, d) * 0.3, Math.min(w, d) * 0.3)];
+    case 'wardrobe':
+      return [rect(0, 0, w, d), line(w / 2, 0, w / 2, d), line(w * 0.05, d * 0.5, w * 0.95, d * 0.5)];
+    case 'toilet':
+      return [rect(0, 0, w, d * 0.28, 2), ellipse(w / 2, d * 0.62, w * 0.42, d * 0.34)];
+    case 'bathtub':
+      return [rect(0, 0, w, d, 3), rect(w * 0.05, d * 0.1, w * 0.9, d * 0.8, Math.min(w, d) * 0.3), ellipse(w * 0.12, d / 2, 2, 2)];
+    case 'shower':
+      return [rect(0, 0, w, d), line(0, 0, w, d), line(w, 0, 0, d), ellipse(w / 2, d / 2, 3, 3)];
+    case 'sink':
+      return [rect(0, 0, w, d, 2), ellipse(w / 2, d * 0.55, w * 0.35, d * 0.32)];
+    case 'kitchen-counter':
+      return [rect(0, 0, w, d), line(0, d * 0.9, w, d * 0.9)];
+    case 'stove': {
+      const r = Math.min(w, d) * 0.16;
+      return [rect(0, 0, w, d), ...[0.3, 0.7].flatMap(fx => [0.3, 0.7].map(fy => ellipse(w * fx, d * fy, r, r)))];
+    }
+    case 'fridge':
+      return [rect(0, 0, w, d), line(0, d * 0.85, w, d * 0.85), line(w * 0.8, d * 0.85, w * 0.8, d)];
+  }
+};
+
+/** SVG transform placing an item's own frame into world coordinates. */
+export const getFurnitureTransform = (item: FurnitureItem, room: Room) => {
+  const c = getFurnitureCenter(item, room);
+  return `translate(${c.x} ${c.y}) rotate(${item.rotation + getRoomRotation(room)}) translate(${-item.width / 2} ${-item.depth / 2})`;
+};
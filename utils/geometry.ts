@@ -0,0 +1,289 @@
+import type { Room, Point, WallFeature, WallSide } from '../types';
+
+export interface Segment {
+  start: Point;
+  end: Point;
+}
+
+export const isPolygonRoom = (room: Room) => room.shape === 'polygon' && (room.vertices?.length ?? 0) >= 3;
+
+/** Outline of a room relative to its (x, y) origin, in drawing order. */
+export const getRoomVertices = (room: Room): Point[] => {
+  if (isPolygonRoom(room)) return room.vertices!;
+  return [
+    { x: 0, y: 0 },
+    { x: room.width, y: 0 },
+    { x: room.width, y: room.height },
+    { x: 0, y: room.height },
+  ];
+};
+
+/** Degrees clockwise, in [0, 360). */
+export const normalizeAngle = (degrees: number) => ((degrees % 360) + 360) % 360;
+
+export const getRoomRotation = (room: Room) => room.rotation ?? 0;
+
+/** Rooms turn about the centre of their unrotated box. */
+export const getRoomCenter = (room: Room): Point => ({ x: room.x + room.width / 2, y: room.y + room.height / 2 });
+
+export const rotatePoint = (point: Point, center: Point, degrees: number): Point => {
+  const radians = (degrees * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  const dx = point.x - center.x;
+  const dy = point.y - center.y;
+  return { x: center.x + dx * cos - dy * sin, y: center.y + dx * sin + dy * cos };
+};
+
+/** Converts a point in a room's local frame to world coordinates. */
+export const toWorldPoint = (room: Room, point: Point): Point => {
+  const world = { x: room.x + point.x, y: room.y + point.y };
+  const rotation = getRoomRotation(room);
+  return rotation ? rotatePoint(world, getRoomCenter(room), rotation) : world;
+};
+
+/** Converts a world point into a room's local frame, the inverse of toWorldPoint. */
+export const toLocalPoint = (room: Room, point: Point): Point => {
+  const rotation = getRoomRotation(room);
+  const unrotated = rotation ? rotatePoint(point, getRoomCenter(room), -rotation) : point;
+  return { x: unrotated.x - room.x, y: unrotated.y - room.y };
+};
+
+/**
+ * The x and y a room needs so that `box`, given in the room's current local frame, stays
+ * where it is in the world once it becomes the room's box. Resizing a rotated room moves its
+ * centre, so its origin has to follow.
+ */
+export const placeLocalBox = (room: Room, box: Bounds): Pick<Room, 'x' | 'y'> => {
+  if (!getRoomRotation(room)) return { x: room.x + box.x, y: room.y + box.y };
+  const center = toWorldPoint(room, { x: box.x + box.width / 2, y: box.y + box.height / 2 });
+  return { x: Math.round(center.x - box.width / 2), y: Math.round(center.y - box.height / 2) };
+};
+
+/** Outline of a room in world coordinates. */
+export const getRoomOutline = (room: Room): Point[] =>
+  getRoomVertices(room).map(p => toWorldPoint(room, p));
+
+export const getEdgeCount = (room: Room) => getRoomVertices(room).length;
+
+/** Local edge i of a room, running from vertex i to vertex i + 1. */
+export const getRoomEdge = (room: Room, index: number): Segment => {
+  const vertices = getRoomVertices(room);
+  const i = ((index % vertices.length) + vertices.length) % vertices.length;
+  return { start: vertices[i], end: vertices[(i + 1) % vertices.length] };
+};
+
+// Rectangle walls keep their historical orientation (left to right, top to bottom) so
+// that `position` means the same thing it always has.
+const RECT_WALLS: Record<WallSide, (room: Room) => Segment> = {
+  top: r => ({ start: { x: 0, y: 0 }, end: { x: r.width, y: 0 } }),
+  right: r => ({ start: { x: r.width, y: 0 }, end: { x: r.width, y: r.height } }),
+  bottom: r => ({ start: { x: 0, y: r.height }, end: { x: r.width, y: r.height } }),
+  left: r => ({ start: { x: 0, y: 0 }, end: { x: 0, y: r.height } }),
+};
+
+export const RECT_WALL_SIDES: WallSide[] = ['top', 'right', 'bottom', 'left'];
+
+/** The local wall segment a feature sits on, for both rectangle sides and polygon edges. */
+export const getFeatureWall = (feature: WallFeature, room: Room): Segment => {
+  if (typeof feature.wall === 'number') return getRoomEdge(room, feature.wall);
+  if (isPolygonRoom(room)) return getRoomEdge(room, RECT_WALL_SIDES.indexOf(feature.wall));
+  return RECT_WALLS[feature.wall](room);
+};
+
+export const distance = (a: Point, b: Point) => Math.hypot(b.x - a.x, b.y - a.y);
+
+export const segmentLength = (segment: Segment) => distance(segment.start, segment.end);
+
+export const isPointInPolygon = (point: Point, polygon: Point[]) => {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.y > point.y) !== (b.y > point.y) &&
+        point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+/** Unit normal of a wall segment pointing into the room. */
+export const getInwardNormal = (segment: Segment, polygon: Point[]): Point => {
+  const length = segmentLength(segment) || 1;
+  const normal = {
+    x: -(segment.end.y - segment.start.y) / length,
+    y: (segment.end.x - segment.start.x) / length,
+  };
+  const mid = {
+    x: (segment.start.x + segment.end.x) / 2 + normal.x * 0.5,
+    y: (segment.start.y + segment.end.y) / 2 + normal.y * 0.5,
+  };
+  return isPointInPolygon(mid, polygon) ? normal : { x: -normal.x, y: -normal.y };
+};
+
+export interface FeatureGeometry {
+  center: Point; // local to the room
+  angle: number; // degrees, direction of the wall
+  length: number; // wall length
+  normal: Point; // into the room
+}
+
+/** Where a feature sits on its wall, in room-local coordinates. */
+export const getFeatureGeometry = (feature: WallFeature, room: Room): FeatureGeometry => {
+  const wall = getFeatureWall(feature, room);
+  const dx = wall.end.x - wall.start.x;
+  const dy = wall.end.y - wall.start.y;
+  return {
+    center: { x: wall.start.x + dx * feature.position, y: wall.start.y + dy * feature.position },
+    angle: (Math.atan2(dy, dx) * 180) / Math.PI,
+    length: Math.hypot(dx, dy),
+    normal: getInwardNormal(wall, getRoomVertices(room)),
+  };
+};
+
+/**
+ * Turns a world-space outline into the polygon room fields: a bounding box plus vertices
+ * relative to its top-left corner.
+ */
+export const normalizePolygon = (points: Point[]): Pick<Room, 'x' | 'y' | 'width' | 'height' | 'vertices'> => {
+  const xs = points.map(p => p.x);
+  const ys = points.map(p => p.y);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return {
+    x,
+    y,
+    width: Math.max(...xs) - x,
+    height: Math.max(...ys) - y,
+    vertices: points.map(p => ({ x: p.x - x, y: p.y - y })),
+  };
+};
+
+/** Stretches a polygon room's vertices to a new bounding box size. */
+export const scaleRoomVertices = (room: Room, width: number, height: number): Point[] | undefined => {
+  if (!isPolygonRoom(room)) return room.vertices;
+  const sx = room.width > 0 ? width / room.width : 1;
+  const sy = room.height > 0 ? height / room.height : 1;
+  return room.vertices!.map(p => ({ x: Math.round(p.x * sx), y: Math.round(p.y * sy) }));
+};
+
+export const pointsToSvg = (points: Point[]) => points.map(p => `${p.x},${p.y}`).join(' ');
+
+export const getPolygonArea = (points: Point[]) => Math.abs(points.reduce((sum, p, i) => {
+  const next = points[(i + 1) % points.length];
+  return sum + p.x * next.y - next.x * p.y;
+}, 0)) / 2;
+
+/** A point to hang a label on: the centroid when it falls inside the shape, else the bounding-box centre. */
+export const getPolygonLabelPoint = (points: Point[]): Point => {
+  let area = 0;
+  let cx = 0;
+  let cy = 0;
+  points.forEach((p, i) => {
+    const next = points[(i + 1) % points.length];
+    const cross = p.x * next.y - next.x * p.y;
+    area += cross;
+    cx += (p.x + next.x) * cross;
+    cy += (p.y + next.y) * cross;
+  });
+  if (area !== 0) {
+    const centroid = { x: cx / (3 * area), y: cy / (3 * area) };
+    if (isPointInPolygon(centroid, points)) return centroid;
+  }
+  const xs = points.map(p => p.x);
+  const ys = points.map(p => p.y);
+  return { x: (Math.min(...xs) + Math.max(...xs)) / 2, y: (Math.min(...ys) + Math.max(...ys)) / 2 };
+};
+
+export interface Bounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export const getPointsBounds = (points: Point[]): Bounds => {
+  const xs = points.map(p => p.x);
+  const ys = points.map(p => p.y);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+};
+
+/** World-space bounding box of a room's outline. */
+export const getRoomBounds = (room: Room): Bounds => getPointsBounds(getRoomOutline(room));
+
+export const boundsIntersect = (a: Bounds, b: Bounds) =>
+  a.x <= b.x + b.width && b.x <= a.x + a.width && a.y <= b.y + b.height && b.y <= a.y + a.height;
+
+export const getPolygonPerimeter = (points: Point[]) =>
+  points.reduce((sum, p, i) => sum + distance(p, points[(i + 1) % points.length]), 0);
+
+const segmentIntersectionX = (a: Point, b: Point, c: Point, d: Point): number | null => {
+  const denominator = (b.x - a.x) * (d.y - c.y) - (b.y - a.y) * (d.x - c.x);
+  if (denominator === 0) return null;
+  const t = ((c.x - a.x) * (d.y - c.y) - (c.y - a.y) * (d.x - c.x)) / denominator;
+  const u = ((c.x - a.x) * (b.y - a.y) - (c.y - a.y) * (b.x - a.x)) / denominator;
+  if (t <= 0 || t >= 1 || u <= 0 || u >= 1) return null;
+  return a.x + t * (b.x - a.x);
+};
+
+/** Vertical extents of a polygon's interior along the line x = constant (even-odd rule). */
+const getCrossSection = (polygon: Point[], x: number): [number, number][] => {
+  const ys: number[] = [];
+  polygon.forEach((a, i) => {
+    const b = polygon[(i + 1) % polygon.length];
+    if ((a.x <= x && b.x > x) || (b.x <= x && a.x > x)) {
+      ys.push(a.y + ((x - a.x) * (b.y - a.y)) / (b.x - a.x));
+    }
+  });
+  ys.sort((m, n) => m - n);
+  const intervals: [number, number][] = [];
+  for (let i = 0; i + 1 < ys.length; i += 2) intervals.push([ys[i], ys[i + 1]]);
+  return intervals;
+};
+
+/**
+ * Exact area covered by the union of simple polygons, so overlapping rooms are only counted
+ * once. The plane is cut into vertical slabs at every vertex and edge crossing; inside a slab
+ * the covered height varies linearly, so sampling it at the slab's centre line is exact.
+ */
+export const getUnionArea = (polygons: Point[][]): number => {
+  const valid = polygons.filter(p => p.length >= 3);
+  const xs = new Set<number>();
+  const edges: [Point, Point][] = [];
+  valid.forEach(polygon => polygon.forEach((p, i) => {
+    xs.add(p.x);
+    edges.push([p, polygon[(i + 1) % polygon.length]]);
+  }));
+  for (let i = 0; i < edges.length; i++) {
+    for (let j = i + 1; j < edges.length; j++) {
+      const x = segmentIntersectionX(edges[i][0], edges[i][1], edges[j][0], edges[j][1]);
+      if (x !== null) xs.add(x);
+    }
+  }
+
+  const sorted = [...xs].sort((a, b) => a - b);
+  let area = 0;
+  for (let i = 0; i < sorted.length - 1; i++) {
+    const x0 = sorted[i];
+    const x1 = sorted[i + 1];
+    if (x1 - x0 <= 0) continue;
+    const mid = (x0 + x1) / 2;
+    const intervals = valid.flatMap(polygon => getCrossSection(polygon, mid)).sort((a, b) => a[0] - b[0]);
+    let covered = 0;
+    let current: [number, number] | null = null;
+    intervals.forEach(([from, to]) => {
+      if (current && from <= current[1]) {
+        current[1] = Math.max(current[1], to);
+      } else {
+        if (current) covered += current[1] - current[0];
+        current = [from, to];
+      }
+    });
+    if (current) covered += current[1] - current[0];
+    area += covered * (x1 - x0);
+  }
+  return area;
+};
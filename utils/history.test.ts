@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import type { Plan, Room } from '../types';
+import { DEFAULT_LEVEL } from './levels';
+import { dropUnresolvedFinishes } from './materials';
+import { DEFAULT_PLAN_SETTINGS } from './units';
+import { applyRemoteChange, commitChange, createHistory, diffPlans, jumpTo, previewChange } from './history';
+
+const room = (overrides: Partial<Room>): Room => ({
+  id: 'room',
+  name: 'Room',
+  x: 0,
+  y: 0,
+  width: 400,
+  height: 300,
+  color: '#E5E7EB',
+  zIndex: 0,
+  features: [],
+  levelId: DEFAULT_LEVEL.id,
+  ...overrides,
+});
+
+const plan: Plan = {
+  settings: DEFAULT_PLAN_SETTINGS,
+  levels: [DEFAULT_LEVEL],
+  rooms: [
+    room({ id: 'kitchen', name: 'Kitchen', finishes: { floor: 'oak' } }),
+    room({ id: 'hall', name: 'Hall', x: 400 }),
+  ],
+  dimensions: [],
+  materials: [{ id: 'oak', name: 'Oak', slot: 'floor', unitPrice: 60, waste: 0.1 }],
+};
+
+const updateRoom = (id: string, patch: Partial<Room>) => (p: Plan): Plan =>
+  ({ ...p, rooms: p.rooms.map(r => r.id === id ? { ...r, ...patch } : r) });
+
+const edit = (history: ReturnType<typeof createHistory>, change: (p: Plan) => Plan) =>
+  commitChange(previewChange(history, change(history.present)), {}, 0);
+
+describe('diffPlans', () => {
+  it('records only the rooms that changed', () => {
+    const patch = diffPlans(plan, updateRoom('hall', { name: 'Entry' })(plan));
+    expect(Object.keys(patch.rooms)).toEqual(['hall']);
+    expect(patch.roomOrder).toBeUndefined();
+    expect(diffPlans(plan, plan)).toBeNull();
+  });
+});
+
+describe('jumpTo', () => {
+  it('undoes and redoes steps', () => {
+    let history = edit(createHistory(plan), updateRoom('kitchen', { color: '#FDE68A' }));
+    history = edit(history, p => ({ ...p, rooms: p.rooms.filter(r => r.id !== 'hall') }));
+    expect(jumpTo(history, 0).present).toEqual(plan);
+    expect(jumpTo(jumpTo(history, 0), 2).present).toEqual(history.present);
+  });
+});
+
+describe('applyRemoteChange', () => {
+  it('keeps someone else\'s edit to the same room when undoing ours', () => {
+    let history = edit(createHistory(plan), updateRoom('kitchen', { color: '#FDE68A' }));
+    history = applyRemoteChange(history, updateRoom('kitchen', { name: 'Galley' }));
+    expect(jumpTo(history, 0).present.rooms[0]).toEqual({ ...plan.rooms[0], name: 'Galley' });
+  });
+
+  it('keeps finishes when the remote change checks them against the material library', () => {
+    let history = edit(createHistory(plan), updateRoom('kitchen', { color: '#FDE68A' }));
+    history = applyRemoteChange(history, p => dropUnresolvedFinishes(updateRoom('hall', { name: 'Entry' })(p)));
+    const undone = jumpTo(history, 0).present;
+    expect(undone.rooms[0]).toEqual(plan.rooms[0]);
+    expect(undone.rooms[1].name).toBe('Entry');
+  });
+
+  it('does not bring back a finish whose material someone else deleted', () => {
+    let history = edit(createHistory(plan), updateRoom('kitchen', { color: '#FDE68A' }));
+    history = applyRemoteChange(history, p => dropUnresolvedFinishes({ ...p, materials: [] }));
+    expect(jumpTo(history, 0).present.rooms[0].finishes).toBeUndefined();
+  });
+
+  it('leaves a room deleted by someone else deleted on undo and redo', () => {
+    let history = edit(createHistory(plan), updateRoom('hall', { color: '#FDE68A' }));
+    history = applyRemoteChange(history, p => ({ ...p, rooms: p.rooms.filter(r => r.id !== 'hall') }));
+    expect(jumpTo(history, 0).present.rooms.map(r => r.id)).toEqual(['kitchen']);
+    expect(jumpTo(jumpTo(history, 0), 1).present.rooms.map(r => r.id)).toEqual(['kitchen']);
+  });
+});
@@ -0,0 +1,326 @@
+import type { DimensionLine, Level, Material, Plan, PlanSettings, Room, WallFeature } from '../types';
+import { getFurnitureSpec } from './furniture';
+
+/**
+ * Undo history is a list of patches rather than copies of the plan. Each patch records only
+ * the rooms an action touched (before and after), plus the plan-wide parts it replaced, so a
+ * step costs about as much as the rooms it changed.
+ */
+export interface PlanPatch {
+  rooms: Record<string, { before: Room | null; after: Room | null }>;
+  roomOrder?: { before: string[]; after: string[] }; // only when rooms were added, removed or reordered
+  settings?: { before: PlanSettings; after: PlanSettings };
+  levels?: { before: Level[]; after: Level[] };
+  dimensions?: { before: DimensionLine[]; after: DimensionLine[] };
+  materials?: { before: Material[]; after: Material[] };
+}
+
+export interface HistoryEntry {
+  id: string;
+  label: string;
+  time: number;
+  patch: PlanPatch;
+  size: number; // rough memory footprint in bytes
+  coalesceKey?: string;
+}
+
+export interface HistoryState {
+  present: Plan; // what is on screen, possibly with an uncommitted drag on top of `base`
+  base: Plan; // the plan after entries[index - 1]
+  entries: HistoryEntry[];
+  index: number; // how many entries are applied
+  rootId: string; // identifies the state before the first entry, which moves on when old entries are dropped
+}
+
+export interface CommitOptions {
+  label?: string; // described from the patch when omitted
+  coalesceKey?: string; // consecutive edits with the same key merge into one step
+}
+
+export const MAX_HISTORY_ENTRIES = 500;
+export const MAX_HISTORY_BYTES = 8 * 1024 * 1024;
+// Edits with the same coalesce key this close together count as one step, e.g. typing a name
+const COALESCE_WINDOW = 1500; // ms
+
+const BYTES_PER_CHAR = 2; // strings are UTF-16 in memory
+
+const sameIds = (a: string[], b: string[]) => a.length === b.length && a.every((id, i) => id === b[i]);
+
+/** What changed between two plans, or null when nothing did. */
+export const diffPlans = (before: Plan, after: Plan): PlanPatch | null => {
+  const patch: PlanPatch = { rooms: {} };
+  const beforeById = new Map(before.rooms.map(r => [r.id, r]));
+  const afterById = new Map(after.rooms.map(r => [r.id, r]));
+  new Set([...beforeById.keys(), ...afterById.keys()]).forEach(id => {
+    const b = beforeById.get(id) ?? null;
+    const a = afterById.get(id) ?? null;
+    if (a !== b) patch.rooms[id] = { before: b, after: a };
+  });
+  const beforeOrder = before.rooms.map(r => r.id);
+  const afterOrder = after.rooms.map(r => r.id);
+  if (!sameIds(beforeOrder, afterOrder)) patch.roomOrder = { before: beforeOrder, after: afterOrder };
+  if (before.settings !== after.settings) patch.settings = { before: before.settings, after: after.settings };
+  if (before.levels !== after.levels) patch.levels = { before: before.levels, after: after.levels };
+  if (before.dimensions !== after.dimensions) patch.dimensions = { before: before.dimensions, after: after.dimensions };
+  if (before.materials !== after.materials) patch.materials = { before: before.materials, after: after.materials };
+
+  const changed = Object.keys(patch.rooms).length > 0 || patch.roomOrder || patch.settings || patch.levels || patch.dimensions || patch.materials;
+  return changed ? patch : null;
+};
+
+/** Replays a patch forwards ('after') or backwards ('before'). */
+export const applyPatch = (plan: Plan, patch: PlanPatch, side: 'before' | 'after'): Plan => {
+  let rooms: Room[];
+  if (patch.roomOrder) {
+    const byId = new Map(plan.rooms.map(r => [r.id, r]));
+    Object.entries(patch.rooms).forEach(([id, change]) => byId.set(id, change[side]));
+    const known = new Set([...patch.roomOrder.before, ...patch.roomOrder.after, ...Object.keys(patch.rooms)]);
+    // Rooms the step never knew about, e.g. added by someone else since, stay where they are
+    rooms = [...patch.roomOrder[side].map(id => byId.get(id)), ...plan.rooms.filter(r => !known.has(r.id))].filter(Boolean);
+  } else {
+    rooms = plan.rooms.map(r => patch.rooms[r.id] ? patch.rooms[r.id][side] : r).filter(Boolean);
+  }
+  return {
+    ...plan,
+    rooms,
+    settings: patch.settings ? patch.settings[side] : plan.settings,
+    levels: patch.levels ? patch.levels[side] : plan.levels,
+    dimensions: patch.dimensions ? patch.dimensions[side] : plan.dimensions,
+    materials: patch.materials ? patch.materials[side] : plan.materials,
+  };
+};
+
+/** One patch with the effect of `a` followed by `b`. */
+const mergePatches = (a: PlanPatch, b: PlanPatch): PlanPatch => {
+  const rooms = { ...a.rooms };
+  Object.entries(b.rooms).forEach(([id, change]) => {
+    rooms[id] = { before: a.rooms[id] ? a.rooms[id].before : change.before, after: change.after };
+  });
+  const merge = <T,>(x?: { before: T; after: T }, y?: { before: T; after: T }) =>
+    x || y ? { before: (x ?? y).before, after: (y ?? x).after } : undefined;
+  return {
+    rooms,
+    roomOrder: merge(a.roomOrder, b.roomOrder),
+    settings: merge(a.settings, b.settings),
+    levels: merge(a.levels, b.levels),
+    dimensions: merge(a.dimensions, b.dimensions),
+    materials: merge(a.materials, b.materials),
+  };
+};
+
+const estimateSize = (patch: PlanPatch) => JSON.stringify(patch).length * BYTES_PER_CHAR;
+
+const featureName = (feature: WallFeature) => feature.type === 'door' ? 'Door' : 'Window';
+
+/** Names the part of a room that an edit added, removed or changed. */
+const describeParts = <T extends { id: string },>(before: T[], after: T[], name: (part: T) => string, room: string) => {
+  const beforeIds = new Set(before.map(p => p.id));
+  const afterIds = new Set(after.map(p => p.id));
+  const added = after.find(p => !beforeIds.has(p.id));
+  if (added) return `Add ${name(added)} to ${room}`;
+  const removed = before.find(p => !afterIds.has(p.id));
+  if (removed) return `Remove ${name(removed)} from ${room}`;
+  const changed = after.find((p, i) => p !== before[i]);
+  return changed ? `Edit ${name(changed)} in ${room}` : null;
+};
+
+const describeRoomChange = (before: Room, after: Room): string => {
+  const changed = (...keys: (keyof Room)[]) => keys.some(key => before[key] !== after[key]);
+  if (changed('name')) return `Rename ${before.name} to ${after.name}`;
+  if (changed('features')) {
+    return describeParts(before.features, after.features, featureName, after.name) ?? `Edit openings in ${after.name}`;
+  }
+  if (changed('furniture')) {
+    const moved = after.furniture?.find((item, i) => {
+      const old = before.furniture?.[i];
+      return old && old.id === item.id && (old.x !== item.x || old.y !== item.y) && old.rotation === item.rotation;
+    });
+    if (moved) return `Move ${getFurnitureSpec(moved.kind).label} in ${after.name}`;
+    return describeParts(before.furniture ?? [], after.furniture ?? [], item => getFurnitureSpec(item.kind).label, after.name)
+      ?? `Edit furniture in ${after.name}`;
+  }
+  if (changed('vertices')) return `Reshape ${after.name}`;
+  if (changed('rotation')) return `Rotate ${after.name}`;
+  if (changed('width', 'height')) return `Resize ${after.name}`;
+  if (changed('x', 'y')) return `Move ${after.name}`;
+  if (changed('levelId')) return `Move ${after.name} to another level`;
+  if (changed('locked')) return `${after.locked ? 'Lock' : 'Unlock'} ${after.name}`;
+  if (changed('hidden')) return `${after.hidden ? 'Hide' : 'Show'} ${after.name}`;
+  if (changed('group')) return after.group ? `Add ${after.name} to ${after.group}` : `Remove ${after.name} from ${before.group}`;
+  if (changed('color')) return `Recolor ${after.name}`;
+  if (changed('finishes')) return `Change finishes in ${after.name}`;
+  if (changed('zIndex')) return `Reorder ${after.name}`;
+  return `Edit ${after.name}`;
+};
+
+/** A readable name for a step, e.g. "Move Kitchen" or "Add Door to Bedroom". */
+export const describePatch = (patch: PlanPatch): string => {
+  const changes = Object.values(patch.rooms);
+  const added = changes.filter(c => !c.before).map(c => c.after);
+  const removed = changes.filter(c => !c.after).map(c => c.before);
+  const modified = changes.filter(c => c.before && c.after);
+
+  if (added.length > 0) return added.length === 1 ? `Add ${added[0].name}` : `Add ${added.length} rooms`;
+  if (removed.length > 0) return removed.length === 1 ? `Delete ${removed[0].name}` : `Delete ${removed.length} rooms`;
+  if (modified.length === 1) return describeRoomChange(modified[0].before, modified[0].after);
+  if (modified.length > 1) {
+    const labels = new Set(modified.map(c => describeRoomChange(c.before, c.after).split(' ')[0]));
+    const verb = labels.size === 1 ? [...labels][0] : 'Edit';
+    return `${verb} ${modified.length} rooms`;
+  }
+  if (patch.roomOrder) return 'Reorder rooms';
+  if (patch.levels) {
+    const { before, after } = patch.levels;
+    if (after.length > before.length) return `Add ${after[after.length - 1].name}`;
+    if (after.length < before.length) return `Delete ${before.find(l => !after.some(a => a.id === l.id))?.name ?? 'level'}`;
+    return 'Edit levels';
+  }
+  if (patch.dimensions) {
+    const { before, after } = patch.dimensions;
+    if (after.length > before.length) return after.length - before.length === 1 ? 'Add dimension' : 'Add dimensions';
+    if (after.length < before.length) return 'Delete dimension';
+    return 'Edit dimensions';
+  }
+  if (patch.materials) {
+    const { before, after } = patch.materials;
+    if (after.length > before.length) return `Add ${after[after.length - 1].name}`;
+    if (after.length < before.length) return `Delete ${before.find(m => !after.some(a => a.id === m.id))?.name ?? 'material'}`;
+    return 'Edit materials';
+  }
+  if (patch.settings) return 'Change plan settings';
+  return 'Edit plan';
+};
+
+/** Whether a patch adds or removes anything; such steps never merge with their neighbours. */
+const isStructural = (patch: PlanPatch) => Boolean(patch.roomOrder) || Object.values(patch.rooms).some(({ before, after }) =>
+  !before || !after
+  || before.features.length !== after.features.length
+  || (before.furniture?.length ?? 0) !== (after.furniture?.length ?? 0));
+
+export const createHistory = (plan: Plan): HistoryState =>
+  ({ present: plan, base: plan, entries: [], index: 0, rootId: crypto.randomUUID() });
+
+/** Shows a plan without recording a step, e.g. while a room is being dragged. */
+export const previewChange = (state: HistoryState, plan: Plan): HistoryState => ({ ...state, present: plan });
+
+/** Drops the oldest steps until the history fits its limits. */
+const trimHistory = (state: HistoryState): HistoryState => {
+  let { entries, index, rootId } = state;
+  let total = entries.reduce((sum, e) => sum + e.size, 0);
+  while (entries.length > 0 && index > 0 && (entries.length > MAX_HISTORY_ENTRIES || total > MAX_HISTORY_BYTES)) {
+    total -= entries[0].size;
+    rootId = entries[0].id;
+    entries = entries.slice(1);
+    index--;
+  }
+  return { ...state, entries, index, rootId };
+};
+
+/** Records everything shown since the last step as a new step, discarding any redo steps. */
+export const commitChange = (state: HistoryState, options: CommitOptions = {}, now = Date.now()): HistoryState => {
+  const patch = diffPlans(state.base, state.present);
+  if (!patch) return state;
+  const entries = state.entries.slice(0, state.index);
+  const last = entries[entries.length - 1];
+
+  if (
+    options.coalesceKey && last?.coalesceKey === options.coalesceKey && state.index === state.entries.length
+    && now - last.time < COALESCE_WINDOW && !isStructural(last.patch) && !isStructural(patch)
+  ) {
+    const merged = mergePatches(last.patch, patch);
+    // A fresh id, so a plan saved partway through the merged edits still reads as changed
+    entries[entries.length - 1] = { ...last, id: crypto.randomUUID(), patch: merged, time: now, size: estimateSize(merged), label: options.label ?? describePatch(merged) };
+    return { ...state, base: state.present, entries };
+  }
+
+  entries.push({
+    id: crypto.randomUUID(),
+    label: options.label ?? describePatch(patch),
+    time: now,
+    patch,
+    size: estimateSize(patch),
+    coalesceKey: options.coalesceKey,
+  });
+  return trimHistory({ ...state, base: state.present, entries, index: entries.length });
+};
+
+/**
+ * Runs someone else's edit over both sides of a step, so undoing or redoing it later puts back
+ * only what the step changed and keeps their edits to the same rooms. A room they deleted is
+ * left deleted on both sides. Each side is the current plan with the step's side put in, so the
+ * edit sees the levels, materials and rooms the step did not touch as they are.
+ */
+const rebasePatch = (patch: PlanPatch, change: (plan: Plan) => Plan, base: Plan): PlanPatch => {
+  const rebaseSide = (side: 'before' | 'after') => change({
+    settings: patch.settings ? patch.settings[side] : base.settings,
+    levels: patch.levels ? patch.levels[side] : base.levels,
+    rooms: [...base.rooms.filter(r => !patch.rooms[r.id]), ...Object.values(patch.rooms).map(c => c[side]).filter(Boolean)],
+    dimensions: patch.dimensions ? patch.dimensions[side] : base.dimensions,
+    materials: patch.materials ? patch.materials[side] : base.materials,
+  });
+  const before = rebaseSide('before');
+  const after = rebaseSide('after');
+  const findRoom = (plan: Plan, id: string) => plan.rooms.find(r => r.id === id) ?? null;
+  const rebaseArray = <K extends 'levels' | 'dimensions' | 'materials',>(key: K) =>
+    patch[key] && { before: before[key], after: after[key] } as PlanPatch[K];
+  return {
+    rooms: Object.fromEntries(Object.entries(patch.rooms).map(([id, c]) =>
+      [id, { before: c.before && findRoom(before, id), after: c.after && findRoom(after, id) }])),
+    roomOrder: patch.roomOrder,
+    settings: patch.settings && { before: before.settings, after: after.settings },
+    levels: rebaseArray('levels'),
+    dimensions: rebaseArray('dimensions'),
+    materials: rebaseArray('materials'),
+  };
+};
+
+/**
+ * Applies an edit made by someone else underneath the local steps, so it shows straight away
+ * without becoming something our undo would take back. A drag in progress stays on top of it.
+ */
+export const applyRemoteChange =(state: HistoryState, change: (plan: Plan) => Plan): HistoryState => ({
+  ...state,
+  base: change(state.base),
+  present: change(state.present),
+  entries: state.entries.map(entry => ({ ...entry, patch: rebasePatch(entry.patch, change, state.base) })),
+});
+
+/** Moves to the state after `index` entries, undoing or redoing as many steps as needed. */
+export const jumpTo = (state: HistoryState, index: number): HistoryState => {
+  const target = Math.max(0, Math.min(state.entries.length, index));
+  let plan = state.base;
+  for (let i = state.index - 1; i >= target; i--) plan = applyPatch(plan, state.entries[i].patch, 'before');
+  for (let i = state.index; i < target; i++) plan = applyPatch(plan, state.entries[i].patch, 'after');
+  return { ...state, present: plan, base: plan, index: target };
+};
+
+/** Id of the step currently shown, for telling whether the plan has changed since a save. */
+export const getHeadId = (state: HistoryState) => state.index > 0 ? state.entries[state.index - 1].id : state.rootId;
+
+export const getHistorySize = (state: HistoryState) => state.entries.reduce((sum, e) => sum + e.size, 0);
+
+interface StoredHistory {
+  version: number;
+  rootId: string;
+  index: number;
+  entries: HistoryEntry[];
+}
+
+export const serializeHistory = (state: HistoryState, version: number): string =>
+  JSON.stringify({ version, rootId: state.rootId, index: state.index, entries: state.entries } satisfies StoredHistory);
+
+/** Rebuilds history saved alongside `plan`, or starts afresh when it was written for another file version. */
+export const restoreHistory = (text: string | undefined, plan: Plan, version: number): HistoryState => {
+  const fresh = createHistory(plan);
+  if (!text) return fresh;
+  try {
+    const stored: StoredHistory = JSON.parse(text);
+    if (stored.version !== version || !Array.isArray(stored.entries)) return fresh;
+    if (!Number.isInteger(stored.index) || stored.index < 0 || stored.index > stored.entries.length) return fresh;
+    if (!stored.entries.every(e => typeof e?.id === 'string' && typeof e.patch?.rooms === 'object')) return fresh;
+    return { ...fresh, rootId: stored.rootId, entries: stored.entries, index: stored.index };
+  } catch (error) {
+    console.error("Discarding stored undo history:", error);
+    return fresh;
+  }
+};
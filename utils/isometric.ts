@@ -0,0 +1,146 @@
+import type { Level, PlanSettings, Point, Room, WallFeature } from '../types';
+import { buildWallGraph } from './walls';
+import type { WallSegment } from './walls';
+import { getRoomOutline, getPolygonLabelPoint } from './geometry';
+import { getWindowHeights } from './openings';
+
+/**
+ * A 2.5D view of the plan drawn as flat SVG polygons, so it needs no WebGL. Floors and
+ * extruded walls are projected isometrically and painted back to front.
+ */
+export type ViewRotation = 0 | 90 | 180 | 270;
+
+export interface IsoFace {
+  id: string;
+  kind: 'floor' | 'wall' | 'glass';
+  points: Point[]; // projected, in SVG coordinates
+  fill: string;
+}
+
+export interface IsoLabel {
+  id: string;
+  text: string;
+  at: Point; // projected
+}
+
+export interface IsoScene {
+  faces: IsoFace[];
+  labels: IsoLabel[];
+}
+
+const COS_30 = Math.cos(Math.PI / 6);
+const SIN_30 = 0.5;
+
+const GLASS_COLOR = '#BFDBFE';
+
+/** Turns plan coordinates clockwise, as seen on screen, by the view rotation. */
+const rotate = (p: Point, rotation: ViewRotation): Point => {
+  switch (rotation) {
+    case 90: return { x: -p.y, y: p.x };
+    case 180: return { x: -p.x, y: -p.y };
+    case 270: return { x: p.y, y: -p.x };
+    default: return p;
+  }
+};
+
+// The viewer looks along +x+y, so points with a larger x + y are nearer
+const project = (p: Point, z: number): Point => ({ x: (p.x - p.y) * COS_30, y: (p.x + p.y) * SIN_30 - z });
+
+const depthOf = (points: Point[]) => points.reduce((sum, p) => sum + p.x + p.y, 0) / points.length;
+
+/** Walls facing one way are a shade darker than walls facing the other, so corners read. */
+const wallShade = (a: Point, b: Point, exterior: boolean) => {
+  const length = Math.hypot(b.x - a.x, b.y - a.y) || 1;
+  const across = Math.abs(b.x - a.x) / length; // 1 for walls running along x
+  const light = Math.round((exterior ? 200 : 222) + across * 24);
+  return `rgb(${light}, ${light}, ${Math.min(255, light + 6)})`;
+};
+
+/** Where each opening starts and stops vertically: doors run from the floor. */
+const getOpeningHeights = (feature: WallFeature, settings: PlanSettings) => {
+  const heights = getWindowHeights(feature, settings);
+  return feature.type === 'door' ? { sill: 0, head: heights.head } : heights;
+};
+
+interface Panel {
+  start: Point; // rotated plan coordinates
+  end: Point;
+  bottom: number;
+  top: number;
+  fill: string;
+  kind: IsoFace['kind'];
+}
+
+/** Splits a wall into full-height pieces plus the parts above and below its openings. */
+const getWallPanels = (wall: WallSegment, features: Map<string, WallFeature>, height: number, settings: PlanSettings, rotation: ViewRotation): Panel[] => {
+  const a = rotate(wall.start, rotation);
+  const b = rotate(wall.end, rotation);
+  const length = Math.hypot(b.x - a.x, b.y - a.y);
+  if (length === 0) return [];
+  const at = (d: number): Point => ({ x: a.x + ((b.x - a.x) * d) / length, y: a.y + ((b.y - a.y) * d) / length });
+  const fill = wallShade(a, b, wall.kind === 'exterior');
+  const panel = (from: number, to: number, bottom: number, top: number, kind: IsoFace['kind'] = 'wall', color = fill): Panel[] =>
+    to - from > 0 && top - bottom > 0 ? [{ start: at(from), end: at(to), bottom, top, fill: color, kind }] : [];
+
+  const panels: Panel[] = [];
+  let cursor = 0;
+  wall.openings.forEach(opening => {
+    const feature = features.get(opening.featureId);
+    if (!feature) return;
+    const { sill, head } = getOpeningHeights(feature, settings);
+    const top = Math.min(head, height);
+    panels.push(...panel(cursor, opening.start, 0, height));
+    const from = Math.max(cursor, opening.start);
+    panels.push(...panel(from, opening.end, 0, Math.min(sill, height)));
+    panels.push(...panel(from, opening.end, top, height));
+    if (feature.type === 'window') panels.push(...panel(from, opening.end, sill, top, 'glass', GLASS_COLOR));
+    cursor = Math.max(cursor, opening.end);
+  });
+  panels.push(...panel(cursor, length, 0, height));
+  return panels;
+};
+
+/**
+ * Faces for the given levels, sorted back to front (painter's algorithm). Each level sits on
+ * the one below: its floors first, then its walls from the furthest to the nearest. Only the
+ * top level is labelled, as the ones below are mostly covered.
+ */
+export const buildIsometricScene = (rooms: Room[], levels: Level[], settings: PlanSettings, rotation: ViewRotation): IsoScene => {
+  const faces: IsoFace[] = [];
+  let labels: IsoLabel[] = [];
+
+  [...levels].sort((a, b) => a.elevation - b.elevation).forEach(level => {
+    const levelRooms = rooms.filter(r => r.levelId === level.id && !r.hidden);
+    const features = new Map(levelRooms.flatMap(r => r.features.map(f => [f.id, f] as const)));
+    labels = [];
+
+    levelRooms
+      .map(room => ({ room, outline: getRoomOutline(room).map(p => rotate(p, rotation)) }))
+      .sort((a, b) => a.room.zIndex - b.room.zIndex)
+      .forEach(({ room, outline }) => {
+        faces.push({ id: `floor-${room.id}`, kind: 'floor', points: outline.map(p => project(p, level.elevation)), fill: room.color });
+        labels.push({ id: room.id, text: room.name, at: project(getPolygonLabelPoint(outline), level.elevation) });
+      });
+
+    buildWallGraph(levelRooms)
+      .flatMap(wall => getWallPanels(wall, features, level.height, settings, rotation).map((panel, i) => ({ panel, id: `${wall.id}-${i}` })))
+      .map(({ panel, id }) => ({ panel, id, depth: depthOf([panel.start, panel.end]) }))
+      .sort((a, b) => a.depth - b.depth)
+      .forEach(({ panel, id }) => {
+        const base = level.elevation;
+        faces.push({
+          id: `${level.id}-${id}`,
+          kind: panel.kind,
+          points: [
+            project(panel.start, base + panel.bottom),
+            project(panel.end, base + panel.bottom),
+            project(panel.end, base + panel.top),
+            project(panel.start, base + panel.top),
+          ],
+          fill: panel.fill,
+        });
+      });
+  });
+
+  return { faces, labels };
+};
@@ -0,0 +1,41 @@
+import type { Level, Room } from '../types';
+import { renameCopiedGroups } from './outline';
+
+export const DEFAULT_LEVEL: Level = {
+  id: 'level-1',
+  name: 'Ground Floor',
+  elevation: 0,
+  height: 270,
+};
+
+/** Levels ordered from the lowest to the highest elevation. */
+export const sortLevels = (levels: Level[]) => [...levels].sort((a, b) => a.elevation - b.elevation);
+
+export const getLevelsBelow = (levels: Level[], level: Level) =>
+  levels.filter(l => l.id !== level.id && l.elevation < level.elevation);
+
+/** A new level stacked directly on top of the highest existing one. */
+export const createLevelAbove = (levels: Level[]): Level => {
+  const top = sortLevels(levels).pop();
+  return {
+    id: crypto.randomUUID(),
+    name: `Level ${levels.length + 1}`,
+    elevation: top ? top.elevation + top.height : 0,
+    height: top ? top.height : DEFAULT_LEVEL.height,
+  };
+};
+
+/**
+ * Copies a room with fresh ids for it and all of its features and furniture. It keeps its group
+ * name, so copies go through `renameCopiedGroups` before they join a plan.
+ */
+export const cloneRoom = (room: Room, overrides: Partial<Room> = {}): Room => ({
+  ...room,
+  ...overrides,
+  id: crypto.randomUUID(),
+  features: room.features.map(f => ({ ...f, id: crypto.randomUUID() })),
+  furniture: room.furniture?.map(item => ({ ...item, id: crypto.randomUUID() })),
+});
+
+export const copyRoomsToLevel = (rooms: Room[], levelId: string, levelRooms: Room[]): Room[] =>
+  renameCopiedGroups(rooms.map(room => cloneRoom(room, { levelId })), levelRooms);
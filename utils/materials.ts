@@ -0,0 +1,94 @@
+import type { FinishSlot, Material, Plan, Room } from '../types';
+
+export interface FinishSlotSpec {
+  slot: FinishSlot;
+  label: string;
+  unit: 'm²' | 'm'; // what the unit price is per
+}
+
+export const FINISH_SLOTS: FinishSlotSpec[] = [
+  { slot: 'floor', label: 'Floor', unit: 'm²' },
+  { slot: 'walls', label: 'Walls', unit: 'm²' },
+  { slot: 'baseboard', label: 'Baseboard', unit: 'm' },
+  { slot: 'ceiling', label: 'Ceiling', unit: 'm²' },
+];
+
+export const getFinishSlotSpec = (slot: FinishSlot) => FINISH_SLOTS.find(spec => spec.slot === slot)!;
+
+// A starting library for new plans; prices are placeholders to be replaced with local quotes
+export const DEFAULT_MATERIALS: Material[] = [
+  { id: 'oak-plank', name: 'Oak plank', slot: 'floor', unitPrice: 55, waste: 0.1 },
+  { id: 'porcelain-tile', name: 'Porcelain tile', slot: 'floor', unitPrice: 40, waste: 0.12 },
+  { id: 'carpet', name: 'Carpet', slot: 'floor', unitPrice: 25, waste: 0.08 },
+  { id: 'wall-paint', name: 'Wall paint, two coats', slot: 'walls', unitPrice: 6, waste: 0.1 },
+  { id: 'wall-tile', name: 'Ceramic wall tile', slot: 'walls', unitPrice: 35, waste: 0.1 },
+  { id: 'mdf-baseboard', name: 'MDF baseboard', slot: 'baseboard', unitPrice: 8, waste: 0.1 },
+  { id: 'oak-baseboard', name: 'Oak baseboard', slot: 'baseboard', unitPrice: 18, waste: 0.1 },
+  { id: 'ceiling-paint', name: 'Ceiling paint, two coats', slot: 'ceiling', unitPrice: 5, waste: 0.1 },
+];
+
+export const createMaterial = (slot: FinishSlot, materials: Material[]): Material => {
+  const label = getFinishSlotSpec(slot).label;
+  const taken = new Set(materials.map(m => m.name));
+  let n = 1;
+  while (taken.has(`${label} material ${n}`)) n++;
+  return { id: crypto.randomUUID(), name: `${label} material ${n}`, slot, unitPrice: 0, waste: 0.1 };
+};
+
+/** Whether another material for the same finish has this one's name; plan text tells them apart by both. */
+export const isMaterialNameTaken = (materials: Material[], material: Material) =>
+  materials.some(m => m.id !== material.id && m.slot === material.slot && m.name === material.name);
+
+/** The material a room has for a finish, or undefined when none is set or it left the library. */
+export const getRoomFinish = (room: Room, slot: FinishSlot, materials: Material[]) => {
+  const id = room.finishes?.[slot];
+  return id ? materials.find(m => m.id === id && m.slot === slot) : undefined;
+};
+
+/**
+ * The plan with any finish taken off whose material is not in the library for that part of the
+ * room, e.g. after someone else deleted the material while it was being assigned.
+ */
+export const dropUnresolvedFinishes = (plan: Plan): Plan => {
+  const rooms = plan.rooms.map(room => {
+    if (!room.finishes) return room;
+    const kept = Object.entries(room.finishes).filter(([slot, id]) => plan.materials.some(m => m.id === id && m.slot === slot));
+    if (kept.length === Object.keys(room.finishes).length) return room;
+    return { ...room, finishes: kept.length > 0 ? Object.fromEntries(kept) : undefined };
+  });
+  return rooms.every((room, i) => room === plan.rooms[i]) ? plan : { ...plan, rooms };
+};
+
+/**
+ * Brings rooms finished from another library (e.g. pasted from another plan) into this one. A
+ * material with the same finish and name as one already here becomes that one, prices and all;
+ * the rest are returned to be added to the library.
+ */
+export const adoptMaterials = (rooms: Room[], incoming: Material[], library: Material[]) => {
+  const added: Material[] = [];
+  const ids = new Map<string, string>();
+  incoming.forEach(material => {
+    const known = [...library, ...added];
+    const match = known.find(m => m.slot === material.slot && m.name === material.name);
+    if (match) {
+      ids.set(material.id, match.id);
+      return;
+    }
+    const id = known.some(m => m.id === material.id) ? crypto.randomUUID() : material.id;
+    added.push({ ...material, id });
+    ids.set(material.id, id);
+  });
+  return {
+    materials: added,
+    rooms: rooms.map(room => room.finishes
+      ? { ...room, finishes: Object.fromEntries(Object.entries(room.finishes).map(([slot, id]) => [slot, ids.get(id) ?? id])) }
+      : room),
+  };
+};
+
+/** The finishes with a material dropped, e.g. when it is deleted from the library. */
+export const removeFinish = (room: Room, materialId: string): Room => {
+  if (!room.finishes || !Object.values(room.finishes).includes(materialId)) return room;
+  const finishes = Object.fromEntries(Object.entries(room.finishes).filter(([, id]) => id !== materialId));
+  return { ...room, finishes: Object.keys(finishes).length > 0 ? finishes : undefined };
+};
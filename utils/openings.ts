@@ -0,0 +1,126 @@
+import type { DoorStyle, PlanSettings, Point, Room, WallFeature, WindowStyle } from '../types';
+import { getFeatureGeometry, getFeatureWall, getRoomRotation, segmentLength, toWorldPoint } from './geometry';
+import { metersToWorld } from './units';
+import { rect, line, arc } from './symbols';
+import type { SymbolShape } from './symbols';
+
+export const DOOR_STYLES: { value: DoorStyle; label: string }[] = [
+  { value: 'hinged', label: 'Hinged' },
+  { value: 'double', label: 'Double' },
+  { value: 'sliding', label: 'Sliding' },
+  { value: 'pocket', label: 'Pocket' },
+  { value: 'bifold', label: 'Bifold' },
+];
+
+export const WINDOW_STYLES: { value: WindowStyle; label: string }[] = [
+  { value: 'fixed', label: 'Fixed' },
+  { value: 'casement', label: 'Casement' },
+  { value: 'sliding', label: 'Sliding' },
+];
+
+/** How thick openings are drawn across the wall line, in world units. */
+export const OPENING_DEPTH = 8;
+
+const DEFAULT_SILL_HEIGHT = 0.9; // meters
+const DEFAULT_HEAD_HEIGHT = 2.1;
+
+export const getOpeningStyle = (feature: WallFeature): DoorStyle | WindowStyle => {
+  const styles: { value: string }[] = feature.type === 'door' ? DOOR_STYLES : WINDOW_STYLES;
+  return styles.some(s => s.value === feature.style) ? feature.style! : feature.type === 'door' ? 'hinged' : 'casement';
+};
+
+/** Doors open into the room and windows open out unless told otherwise. */
+export const getOpeningSwing = (feature: WallFeature) => feature.swing ?? (feature.type === 'door' ? 'in' : 'out');
+
+export const getOpeningHinge = (feature: WallFeature) => feature.hinge ?? 'start';
+
+export const hasHingeSide = (feature: WallFeature) => ['hinged', 'pocket', 'bifold', 'casement'].includes(getOpeningStyle(feature));
+
+export const hasSwing = (feature: WallFeature) => ['hinged', 'double', 'bifold', 'casement'].includes(getOpeningStyle(feature));
+
+/** Sill and head heights of a window in world units, with typical defaults. */
+export const getWindowHeights = (feature: WallFeature, settings: PlanSettings) => ({
+  sill: feature.sillHeight ?? Math.round(metersToWorld(DEFAULT_SILL_HEIGHT, settings)),
+  head: feature.headHeight ?? Math.round(metersToWorld(DEFAULT_HEAD_HEIGHT, settings)),
+});
+
+/** Keeps an opening within its wall: no wider than the wall and not past either end. */
+export const clampFeature = (feature: WallFeature, room: Room): WallFeature => {
+  const length = segmentLength(getFeatureWall(feature, room));
+  const width = Math.max(0, Math.min(feature.width, Math.floor(length)));
+  const half = length > 0 ? width / 2 / length : 0.5;
+  const position = Math.max(half, Math.min(1 - half, feature.position));
+  const clamped = { ...feature, width, position };
+  if (clamped.sillHeight !== undefined && clamped.headHeight !== undefined && clamped.headHeight < clamped.sillHeight) {
+    clamped.headHeight = clamped.sillHeight;
+  }
+  return clamped;
+};
+
+export const clampRoomFeatures = (room: Room): Room =>
+  ({ ...room, features: room.features.map(f => clampFeature(f, room)) });
+
+/** Arc around `center` from `from` to `to`, bending the short way. */
+const arcAround = (center: Point, from: Point, to: Point, dashed?: boolean) => {
+  const cross = (from.x - center.x) * (to.y - center.y) - (from.y - center.y) * (to.x - center.x);
+  const radius = Math.hypot(from.x - center.x, from.y - center.y);
+  return arc(from.x, from.y, to.x, to.y, radius, cross > 0 ? 1 : 0, dashed);
+};
+
+/**
+ * Plan symbol of an opening in its own frame: centered on the wall line, x running along the
+ * wall and +y pointing into the room.
+ */
+export const getOpeningSymbol = (feature: WallFeature): SymbolShape[] => {
+  const w = feature.width;
+  const t = OPENING_DEPTH;
+  const side = getOpeningHinge(feature) === 'start' ? -1 : 1;
+  const hx = (side * w) / 2;
+  const dir = getOpeningSwing(feature) === 'in' ? 1 : -1;
+  const jambs = [line(-w / 2, -t / 2, -w / 2, t / 2), line(w / 2, -t / 2, w / 2, t / 2)];
+
+  switch (getOpeningStyle(feature)) {
+    case 'hinged':
+      return [...jambs, line(hx, 0, hx, dir * w), arcAround({ x: hx, y: 0 }, { x: hx, y: dir * w }, { x: -hx, y: 0 })];
+    case 'double':
+      return [
+        ...jambs,
+        line(-w / 2, 0, -w / 2, (dir * w) / 2),
+        arcAround({ x: -w / 2, y: 0 }, { x: -w / 2, y: (dir * w) / 2 }, { x: 0, y: 0 }),
+        line(w / 2, 0, w / 2, (dir * w) / 2),
+        arcAround({ x: w / 2, y: 0 }, { x: w / 2, y: (dir * w) / 2 }, { x: 0, y: 0 }),
+      ];
+    case 'sliding':
+      if (feature.type === 'window') {
+        return [rect(-w / 2, -t / 2, w, t), line(-w / 2, -t / 6, w * 0.05, -t / 6), line(-w * 0.05, t / 6, w / 2, t / 6)];
+      }
+      return [...jambs, rect(-w / 2, -t / 4 - 1, w * 0.55, 2), rect(w / 2 - w * 0.55, t / 4 - 1, w * 0.55, 2)];
+    case 'pocket': {
+      // The leaf slides into a cavity in the wall on the hinge side
+      const cavity: SymbolShape = { type: 'rect', x: Math.min(hx, hx + side * w), y: -1.5, width: w, height: 3, filled: false };
+      return [...jambs, cavity, line(hx, 0, hx - side * w * 0.1, 0)];
+    }
+    case 'bifold': {
+      const apex = { x: hx - (side * w) / 4, y: dir * w * 0.43 };
+      return [...jambs, line(hx, 0, apex.x, apex.y), line(apex.x, apex.y, 0, 0)];
+    }
+    case 'fixed':
+      return [rect(-w / 2, -t / 2, w, t), line(-w / 2, 0, w / 2, 0)];
+    case 'casement':
+      return [
+        rect(-w / 2, -t / 2, w, t),
+        line(-w / 2, 0, w / 2, 0),
+        line(hx, 0, hx, dir * w, true),
+        arcAround({ x: hx, y: 0 }, { x: hx, y: dir * w }, { x: -hx, y: 0 }, true),
+      ];
+  }
+};
+
+/** Where an opening's symbol frame sits in the world. */
+export const getOpeningPlacement = (feature: WallFeature, room: Room) => {
+  const { center, angle, normal } = getFeatureGeometry(feature, room);
+  const radians = (angle * Math.PI) / 180;
+  // Mirror the frame when the wall runs so that its +y would point out of the room
+  const flip = normal.x * -Math.sin(radians) + normal.y * Math.cos(radians) >= 0 ? 1 : -1;
+  return { center: toWorldPoint(room, center), angle: angle + getRoomRotation(room), flip };
+};
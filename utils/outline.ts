@@ -0,0 +1,95 @@
+import type { Room } from '../types';
+import { matchesQuery } from './commands';
+
+/**
+ * Groups are named rather than stored on their own: rooms on a level that share a `group` name
+ * form the group, so it is selected, moved, locked and hidden through its rooms.
+ */
+export type OutlineEntry =
+  | { kind: 'room'; room: Room }
+  | { kind: 'group'; name: string; rooms: Room[] };
+
+const byStackDescending = (a: Room, b: Room) => b.zIndex - a.zIndex;
+
+/** A level's rooms top of the stack first, each group listed where its topmost room sits. */
+export const buildOutline = (levelRooms: Room[]): OutlineEntry[] => {
+  const sorted = [...levelRooms].sort(byStackDescending);
+  const seen = new Set<string>();
+  const entries: OutlineEntry[] = [];
+  sorted.forEach(room => {
+    if (!room.group) {
+      entries.push({ kind: 'room', room });
+    } else if (!seen.has(room.group)) {
+      seen.add(room.group);
+      entries.push({ kind: 'group', name: room.group, rooms: sorted.filter(r => r.group === room.group) });
+    }
+  });
+  return entries;
+};
+
+/** Narrows an outline to rooms and groups whose names match the search. */
+export const filterOutline = (entries: OutlineEntry[], query: string): OutlineEntry[] =>
+  query.trim() === '' ? entries : entries.flatMap((entry): OutlineEntry[] => {
+    if (entry.kind === 'room') return matchesQuery(entry.room.name, query) ? [entry] : [];
+    if (matchesQuery(entry.name, query)) return [entry];
+    const rooms = entry.rooms.filter(r => matchesQuery(r.name, query));
+    return rooms.length > 0 ? [{ ...entry, rooms }] : [];
+  });
+
+/** The ids plus every other room in the same groups on the same level. */
+export const expandGroups = (ids: string[], rooms: Room[]): string[] => {
+  const groups = new Set(rooms.filter(r => ids.includes(r.id) && r.group).map(r => `${r.levelId}/${r.group}`));
+  if (groups.size === 0) return ids;
+  return [...ids, ...rooms.filter(r => !ids.includes(r.id) && r.group && groups.has(`${r.levelId}/${r.group}`)).map(r => r.id)];
+};
+
+/**
+ * Moves rooms directly above or below the target rooms in the stacking order, keeping their
+ * order among themselves, and renumbers every room's `zIndex` from 0.
+ */
+export const moveInStack = (rooms: Room[], ids: string[], targetIds: string[], place: 'above' | 'below'): Room[] => {
+  const stack = [...rooms].sort((a, b) => a.zIndex - b.zIndex);
+  const moving = stack.filter(r => ids.includes(r.id));
+  const rest = stack.filter(r => !ids.includes(r.id));
+  const targetIndexes = rest.flatMap((r, i) => targetIds.includes(r.id) ? [i] : []);
+  if (moving.length === 0 || targetIndexes.length === 0) return rooms;
+
+  const at = place === 'above' ? Math.max(...targetIndexes) + 1 : Math.min(...targetIndexes);
+  const order = [...rest.slice(0, at), ...moving, ...rest.slice(at)].map(r => r.id);
+  return rooms.map(r => {
+    const zIndex = order.indexOf(r.id);
+    return zIndex === r.zIndex ? r : { ...r, zIndex };
+  });
+};
+
+/** Puts rooms in a group, gathered together just under the topmost of them. */
+export const groupRooms = (rooms: Room[], ids: string[], name: string): Room[] => {
+  const members = rooms.filter(r => ids.includes(r.id)).sort(byStackDescending);
+  if (members.length === 0) return rooms;
+  const top = members[0];
+  const stacked = members.length > 1 ? moveInStack(rooms, members.slice(1).map(r => r.id), [top.id], 'below') : rooms;
+  return stacked.map(r => ids.includes(r.id) ? { ...r, group: name } : r);
+};
+
+/** "Group 1", "Group 2"… whichever is free on the level. */
+export const nextGroupName = (levelRooms: Room[]) => {
+  const taken = new Set(levelRooms.map(r => r.group));
+  let n = 1;
+  while (taken.has(`Group ${n}`)) n++;
+  return `Group ${n}`;
+};
+
+/** Copied rooms stay grouped as they were, but in new groups of their own on the level they land on. */
+export const renameCopiedGroups = (copies: Room[], levelRooms: Room[]): Room[] => {
+  const taken = [...levelRooms];
+  const names = new Map<string, string>();
+  return copies.map(room => {
+    if (!room.group) return room;
+    if (!names.has(room.group)) {
+      const name = nextGroupName(taken);
+      names.set(room.group, name);
+      taken.push({ ...room, group: name });
+    }
+    return { ...room, group: names.get(room.group) };
+  });
+};
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import type { Plan } from '../types';
+import { DEFAULT_LEVEL } from './levels';
+import { DEFAULT_MATERIALS } from './materials';
+import { DEFAULT_PLAN_SETTINGS } from './units';
+import { CURRENT_PLAN_VERSION, parsePlanFile, serializePlan } from './planFile';
+
+const kitchen = { id: 'kitchen', name: 'Kitchen', x: 0, y: 0, width: 400, height: 300, color: '#FDE68A', zIndex: 0 };
+
+const plan: Plan = {
+  settings: DEFAULT_PLAN_SETTINGS,
+  levels: [DEFAULT_LEVEL],
+  rooms: [{ ...kitchen, features: [], locked: false, levelId: DEFAULT_LEVEL.id }],
+  dimensions: [],
+  materials: DEFAULT_MATERIALS,
+};
+
+// The plan as saved before it had a material library
+const planV10 = { settings: plan.settings, levels: plan.levels, rooms: plan.rooms, dimensions: plan.dimensions };
+// Settings as they were saved before the grid became configurable
+const unitSettings = { unit: 'm', worldUnitsPerMeter: 100, precision: 2 };
+const planV6 = { ...planV10, settings: unitSettings };
+
+/** A file as each earlier release saved it, holding the same plan. */
+const olderFiles: [number, unknown][] = [
+  [0, [kitchen]],
+  [1, { settings: unitSettings, rooms: [{ ...kitchen, features: [], locked: false }] }],
+  [2, { settings: unitSettings, levels: [DEFAULT_LEVEL], rooms: [{ ...kitchen, features: [], locked: false, levelId: DEFAULT_LEVEL.id }] }],
+  [3, { version: 3, plan: { settings: unitSettings, levels: plan.levels, rooms: plan.rooms } }],
+  [4, { version: 4, plan: planV6 }],
+  [5, { version: 5, plan: planV6 }],
+  [6, { version: 6, plan: planV6 }],
+  [7, { version: 7, plan: planV10 }],
+  [8, { version: 8, plan: planV10 }],
+  [9, { version: 9, plan: planV10 }],
+  [10, { version: 10, plan: planV10 }],
+];
+
+describe('parsePlanFile', () => {
+  it('reads back what serializePlan writes', () => {
+    expect(parsePlanFile(serializePlan(plan))).toEqual({ plan, errors: [], migratedFrom: null });
+  });
+
+  it.each(olderFiles)('upgrades a version %i file to the current version', (version, doc) => {
+    const result = parsePlanFile(JSON.stringify(doc));
+    expect(result.errors).toEqual([]);
+    expect(result.migratedFrom).toBe(version);
+    expect(result.plan).toEqual(plan);
+  });
+
+  it('refuses files from a newer release', () => {
+    const result = parsePlanFile(JSON.stringify({ version: CURRENT_PLAN_VERSION + 1, plan }));
+    expect(result.plan).toBeNull();
+    expect(result.errors[0]).toMatch(/saved by a newer release/);
+  });
+
+  it('reports invalid values with their path', () => {
+    const broken = { ...plan, rooms: [{ ...plan.rooms[0], width: -1 }] };
+    const result = parsePlanFile(serializePlan(broken));
+    expect(result.plan).toBeNull();
+    expect(result.errors).toEqual([expect.stringMatching(/^plan\.rooms\[0\]\.width: /)]);
+  });
+
+  it('reports rooms on levels that do not exist', () => {
+    const result = parsePlanFile(serializePlan({ ...plan, rooms: [{ ...plan.rooms[0], levelId: 'attic' }] }));
+    expect(result.errors).toEqual(['plan.rooms[0].levelId: no level with id "attic"']);
+  });
+
+  it('reports dimension lines anchored to missing rooms', () => {
+    const dimension = { id: 'd', levelId: DEFAULT_LEVEL.id, start: { roomId: 'pantry', edge: 0, t: 0 }, end: { x: 0, y: 0 }, offset: 20 };
+    const result = parsePlanFile(serializePlan({ ...plan, dimensions: [dimension] }));
+    expect(result.errors).toEqual(['plan.dimensions[0].start.roomId: no room with id "pantry"']);
+  });
+
+  it('rejects text that is not a plan', () => {
+    expect(parsePlanFile('{').errors[0]).toMatch(/^The file is not valid JSON/);
+    expect(parsePlanFile('{"name":"x"}').errors[0]).toMatch(/does not contain a plan/);
+  });
+});
@@ -0,0 +1,298 @@
+import type { Plan } from '../types';
+import { DEFAULT_PLAN_SETTINGS, LENGTH_UNITS } from './units';
+import { DEFAULT_LEVEL } from './levels';
+import { FURNITURE_CATALOG } from './furniture';
+import { DOOR_STYLES, WINDOW_STYLES } from './openings';
+import { ROOM_TYPES } from './roomTypes';
+import { DEFAULT_MATERIALS, FINISH_SLOTS } from './materials';
+import { s, validate } from './schema';
+
+/**
+ * Saved plans are a versioned envelope: `{ "version": 11, "plan": { settings, levels, rooms, dimensions, materials } }`.
+ * Files from older releases are recognised by their shape and upgraded step by step:
+ *
+ * - v0: a bare `Room[]` array
+ * - v1: `{ settings, rooms }`, from when plans gained units
+ * - v2: `{ settings, levels, rooms }`, from when plans gained levels
+ * - v3: the versioned envelope
+ * - v4: adds pinned dimension lines
+ * - v5: rooms may hold furniture
+ * - v6: doors and windows gain an opening style, hinge side, swing and window heights
+ * - v7: plans set their own grid size and major grid spacing
+ * - v8: rooms may be hidden or belong to a named group
+ * - v9: rooms may be rotated
+ * - v10: rooms may have a type
+ * - v11: plans have a material library and rooms may have finishes from it
+ *
+ * Whenever the document shape changes, bump CURRENT_PLAN_VERSION, append a migration and
+ * update planSchema.
+ */
+export const CURRENT_PLAN_VERSION = 11;
+
+export interface PlanFile {
+  version: number;
+  plan: Plan;
+}
+
+export interface PlanFileResult {
+  plan: Plan | null; // null when the file could not be loaded
+  errors: string[];
+  migratedFrom: number | null; // the file's version when it had to be upgraded
+}
+
+const failure = (...errors: string[]): PlanFileResult => ({ plan: null, errors, migratedFrom: null });
+
+const pointSchema = s.object({ x: s.number(), y: s.number() });
+
+const featureSchema = s.object({
+  id: s.string(),
+  type: s.literal('door', 'window'),
+  wall: s.union('a wall side or an edge index', s.literal('top', 'bottom', 'left', 'right'), s.number({ integer: true, min: 0 })),
+  position: s.number({ min: 0, max: 1 }),
+  width: s.number({ min: 0 }),
+  style: s.literal(...DOOR_STYLES.map(d => d.value), ...WINDOW_STYLES.map(w => w.value)),
+  hinge: s.literal('start', 'end'),
+  swing: s.literal('in', 'out'),
+  sillHeight: s.number({ min: 0 }),
+  headHeight: s.number({ min: 0 }),
+}, ['style', 'hinge', 'swing', 'sillHeight', 'headHeight']);
+
+const furnitureSchema = s.object({
+  id: s.string(),
+  kind: s.literal(...FURNITURE_CATALOG.map(spec => spec.kind)),
+  x: s.number(),
+  y: s.number(),
+  width: s.number({ min: 0 }),
+  depth: s.number({ min: 0 }),
+  rotation: s.literal(0, 90, 180, 270),
+});
+
+const roomSchema = s.object({
+  id: s.string(),
+  name: s.string(),
+  type: s.literal(...ROOM_TYPES.map(spec => spec.type)),
+  x: s.number(),
+  y: s.number(),
+  width: s.number({ min: 0 }),
+  height: s.number({ min: 0 }),
+  color: s.string(),
+  zIndex: s.number(),
+  features: s.array(featureSchema),
+  locked: s.boolean(),
+  hidden: s.boolean(),
+  group: s.string(),
+  rotation: s.number(),
+  levelId: s.string(),
+  shape: s.literal('rect', 'polygon'),
+  vertices: s.array(pointSchema, 3),
+  furniture: s.array(furnitureSchema),
+  finishes: s.object(Object.fromEntries(FINISH_SLOTS.map(({ slot }) => [slot, s.string()])), FINISH_SLOTS.map(({ slot }) => slot)),
+}, ['type', 'locked', 'hidden', 'group', 'rotation', 'shape', 'vertices', 'furniture', 'finishes']);
+
+const dimensionEndSchema = s.union(
+  'a point or a room edge anchor',
+  pointSchema,
+  s.object({ roomId: s.string(), edge: s.number({ integer: true, min: 0 }), t: s.number({ min: 0, max: 1 }) }),
+);
+
+const dimensionSchema = s.object({
+  id: s.string(),
+  levelId: s.string(),
+  start: dimensionEndSchema,
+  end: dimensionEndSchema,
+  axis: s.literal('x', 'y'),
+  offset: s.number(),
+  auto: s.boolean(),
+}, ['axis', 'auto']);
+
+const materialSchema = s.object({
+  id: s.string(),
+  name: s.string(),
+  slot: s.literal(...FINISH_SLOTS.map(({ slot }) => slot)),
+  unitPrice: s.number({ min: 0 }),
+  waste: s.number({ min: 0 }),
+});
+
+const levelSchema = s.object({
+  id: s.string(),
+  name: s.string(),
+  elevation: s.number(),
+  height: s.number({ min: 0 }),
+});
+
+export const planSchema = s.object({
+  version: s.literal(CURRENT_PLAN_VERSION),
+  plan: s.object({
+    settings: s.object({
+      unit: s.literal(...LENGTH_UNITS.map(u => u.value)),
+      worldUnitsPerMeter: s.number({ min: 1 }),
+      precision: s.number({ integer: true, min: 0, max: 6 }),
+      gridSize: s.number({ min: 1 }),
+      majorGridEvery: s.number({ integer: true, min: 1 }),
+    }),
+    levels: s.array(levelSchema, 1),
+    rooms: s.array(roomSchema),
+    dimensions: s.array(dimensionSchema),
+    materials: s.array(materialSchema),
+  }),
+});
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/** migrations[n] upgrades a version n document to version n + 1. Anything not shaped as expected is passed on for validation to report. */
+const migrations: ((doc: unknown) => unknown)[] = [
+  // v0 → v1: bare room arrays had no settings, and their rooms could omit features and lock state
+  (doc) => ({
+    settings: DEFAULT_PLAN_SETTINGS,
+    rooms: Array.isArray(doc) ? doc.map(room => isObject(room) ? { features: [], locked: false, ...room } : room) : doc,
+  }),
+  // v1 → v2: single-floor plans put every room on the ground floor
+  (doc) => isObject(doc) ? {
+    settings: { ...DEFAULT_PLAN_SETTINGS, ...(isObject(doc.settings) ? doc.settings : {}) },
+    levels: [DEFAULT_LEVEL],
+    rooms: Array.isArray(doc.rooms)
+      ? doc.rooms.map(room => isObject(room) ? { ...room, levelId: DEFAULT_LEVEL.id } : room)
+      : doc.rooms,
+  } : doc,
+  // v2 → v3: wrap the plan in the versioned envelope
+  (doc) => isObject(doc) ? {
+    version: 3,
+    plan: { settings: doc.settings, levels: doc.levels, rooms: doc.rooms },
+  } : doc,
+  // v3 → v4: no dimension lines yet
+  (doc) => isObject(doc) ? {
+    ...doc,
+    version: 4,
+    plan: isObject(doc.plan) ? { ...doc.plan, dimensions: [] } : doc.plan,
+  } : doc,
+  // v4 → v5: furniture is optional, so older rooms are already valid
+  (doc) => isObject(doc) ? { ...doc, version: 5 } : doc,
+  // v5 → v6: the new opening properties are optional and default to the old look
+  (doc) => isObject(doc) ? { ...doc, version: 6 } : doc,
+  // v6 → v7: the grid used to be fixed at 10 units with no major lines
+  (doc) => isObject(doc) ? {
+    ...doc,
+    version: 7,
+    plan: isObject(doc.plan) && isObject(doc.plan.settings)
+      ? { ...doc.plan, settings: { gridSize: 10, majorGridEvery: 10, ...doc.plan.settings } }
+      : doc.plan,
+  } : doc,
+  // v7 → v8: rooms are visible and ungrouped unless they say otherwise
+  (doc) => isObject(doc) ? { ...doc, version: 8 } : doc,
+  // v8 → v9: rooms without a rotation are axis-aligned
+  (doc) => isObject(doc) ? { ...doc, version: 9 } : doc,
+  // v9 → v10: rooms without a type are not checked against room rules
+  (doc) => isObject(doc) ? { ...doc, version: 10 } : doc,
+  // v10 → v11: plans start with the default material library, and no room has finishes yet
+  (doc) => isObject(doc) ? {
+    ...doc,
+    version: 11,
+    plan: isObject(doc.plan) ? { ...doc.plan, materials: DEFAULT_MATERIALS } : doc.plan,
+  } : doc,
+];
+
+/** Works out the version of a parsed document, or null when it is not a plan at all. */
+const detectVersion = (doc: unknown): number | null => {
+  if (Array.isArray(doc)) return 0;
+  if (!isObject(doc)) return null;
+  if (typeof doc.version === 'number') return doc.version;
+  if ('levels' in doc) return 2;
+  if ('rooms' in doc) return 1;
+  return null;
+};
+
+/** Cross-references the schema cannot express. */
+const checkReferences = (plan: Plan): string[] => {
+  const errors: string[] = [];
+  const levelIds = new Set(plan.levels.map(l => l.id));
+  const materialIds = new Set<string>();
+  plan.materials.forEach((material, i) => {
+    if (materialIds.has(material.id)) errors.push(`plan.materials[${i}].id: duplicate material id "${material.id}"`);
+    materialIds.add(material.id);
+  });
+  const roomIds = new Set<string>();
+  plan.rooms.forEach((room, i) => {
+    const path = `plan.rooms[${i}]`;
+    if (roomIds.has(room.id)) errors.push(`${path}.id: duplicate room id "${room.id}"`);
+    roomIds.add(room.id);
+    if (!levelIds.has(room.levelId)) errors.push(`${path}.levelId: no level with id "${room.levelId}"`);
+    if (room.shape === 'polygon' && !room.vertices) errors.push(`${path}.vertices: is required for polygon rooms`);
+    room.features.forEach((feature, j) => {
+      const edgeCount = room.shape === 'polygon' ? room.vertices?.length ?? 0 : 4;
+      if (typeof feature.wall === 'number' && feature.wall >= edgeCount) {
+        errors.push(`${path}.features[${j}].wall: room has no edge ${feature.wall}`);
+      }
+    });
+    Object.entries(room.finishes ?? {}).forEach(([slot, id]) => {
+      if (!plan.materials.some(m => m.id === id && m.slot === slot)) errors.push(`${path}.finishes.${slot}: no ${slot} material with id "${id}"`);
+    });
+  });
+  plan.dimensions.forEach((dimension, i) => {
+    const path = `plan.dimensions[${i}]`;
+    if (!levelIds.has(dimension.levelId)) errors.push(`${path}.levelId: no level with id "${dimension.levelId}"`);
+    (['start', 'end'] as const).forEach(key => {
+      const end = dimension[key];
+      if ('roomId' in end && !roomIds.has(end.roomId)) errors.push(`${path}.${key}.roomId: no room with id "${end.roomId}"`);
+    });
+  });
+  return errors;
+};
+
+export const serializePlan = (plan: Plan): string =>
+  JSON.stringify({ version: CURRENT_PLAN_VERSION, plan } satisfies PlanFile, null, 2);
+
+/**
+ * Parses, upgrades and validates a saved plan. Every problem found is reported with the
+ * path of the offending value, e.g. `plan.rooms[2].features[0].wall: expected ...`.
+ */
+export const parsePlanFile = (text: string): PlanFileResult => {
+  let doc: unknown;
+  try {
+    doc = JSON.parse(text);
+  } catch (error) {
+    return failure(`The file is not valid JSON: ${(error as Error).message}`);
+  }
+
+  const version = detectVersion(doc);
+  if (version === null) {
+    return failure('The file does not contain a plan: expected a "version" and a "plan" object.');
+  }
+  if (!Number.isInteger(version) || version < 0) {
+    return failure(`version: unknown file version ${version}`);
+  }
+  if (version > CURRENT_PLAN_VERSION) {
+    return failure(`version: the file is version ${version}, but this app only reads up to version ${CURRENT_PLAN_VERSION}. It was saved by a newer release.`);
+  }
+
+  for (let v = version; v < CURRENT_PLAN_VERSION; v++) {
+    doc = migrations[v](doc);
+  }
+
+  const issues = validate(doc, planSchema);
+  if (issues.length > 0) {
+    return failure(...issues.map(issue => `${issue.path}: ${issue.message}`));
+  }
+
+  const plan = (doc as PlanFile).plan;
+  const referenceErrors = checkReferences(plan);
+  if (referenceErrors.length > 0) return failure(...referenceErrors);
+
+  return {
+    plan: {
+      ...plan,
+      // Dimensions are whole world units everywhere else in the app
+      rooms: plan.rooms.map(room => ({
+        ...room,
+        x: Math.round(room.x),
+        y: Math.round(room.y),
+        width: Math.round(room.width),
+        height: Math.round(room.height),
+        locked: room.locked ?? false,
+        features: room.features.map(f => ({ ...f, width: Math.round(f.width) })),
+      })),
+    },
+    errors: [],
+    migratedFrom: version < CURRENT_PLAN_VERSION ? version : null,
+  };
+};
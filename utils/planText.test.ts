@@ -0,0 +1,179 @@
+import { describe, expect, it } from 'vitest';
+import type { Plan, Room } from '../types';
+import { DEFAULT_PLAN_SETTINGS } from './units';
+import { parsePlanFile, serializePlan } from './planFile';
+import { keepPlanIds, parsePlanText, printPlanText } from './planText';
+
+const room = (overrides: Partial<Room>): Room => ({
+  id: 'room',
+  name: 'Room',
+  x: 0,
+  y: 0,
+  width: 400,
+  height: 300,
+  color: '#E5E7EB',
+  zIndex: 0,
+  features: [],
+  levelId: 'ground',
+  ...overrides,
+});
+
+const plan: Plan = {
+  settings: DEFAULT_PLAN_SETTINGS,
+  levels: [
+    { id: 'ground', name: 'Ground Floor', elevation: 0, height: 250 },
+    { id: 'upper', name: 'Upper Floor', elevation: 250, height: 240 },
+  ],
+  rooms: [
+    room({
+      id: 'kitchen',
+      name: 'Kitchen',
+      x: 350,
+      y: 50,
+      width: 150,
+      height: 150,
+      color: '#FDE68A',
+      finishes: { floor: 'tile' },
+      features: [
+        { id: 'door', type: 'door', wall: 'top', position: 0.5, width: 40, swing: 'out' },
+        { id: 'window', type: 'window', wall: 'left', position: 0.3, width: 80, style: 'sliding', sillHeight: 90, headHeight: 210 },
+      ],
+      furniture: [{ id: 'stove', kind: 'stove', x: 30, y: 30, width: 60, depth: 60, rotation: 90 }],
+    }),
+    room({
+      id: 'hall',
+      name: 'Hall',
+      zIndex: 1,
+      width: 200,
+      height: 100,
+      shape: 'polygon',
+      vertices: [{ x: 0, y: 0 }, { x: 200, y: 0 }, { x: 200, y: 100 }, { x: 0, y: 100 }],
+      rotation: 15,
+      group: 'West "wing"',
+      locked: true,
+    }),
+    room({ id: 'bed', name: 'Bedroom', levelId: 'upper', zIndex: 2, hidden: true }),
+  ],
+  dimensions: [],
+  materials: [{ id: 'tile', name: 'Porcelain tile', slot: 'floor', unitPrice: 40, waste: 0.12 }],
+};
+
+const printed = `settings unit m scale 100 precision 2 grid 10 major 10
+material "Porcelain tile" floor price 40 waste 0.12
+
+level "Ground Floor" elevation 0 height 250 {
+  room "Kitchen" at 350,50 size 150x150 color #FDE68A floor "Porcelain tile" {
+    door top 0.5 w40 swing out
+    window left 0.3 w80 sliding sill 90 head 210
+    furniture stove at 30,30 size 60x60 rotate 90
+  }
+  room "Hall" at 0,0 size 200x100 points 0,0 200,0 200,100 0,100 color #E5E7EB rotate 15 group "West \\"wing\\"" locked
+}
+
+level "Upper Floor" elevation 250 height 240 {
+  room "Bedroom" at 0,0 size 400x300 color #E5E7EB hidden
+}
+`;
+
+const errorsOf = (text: string) => parsePlanText(text).errors.map(e => `${e.line}:${e.column} ${e.message}`);
+
+describe('printPlanText', () => {
+  it('writes levels from the bottom up with their rooms in stacking order', () => {
+    expect(printPlanText(plan)).toBe(printed);
+  });
+});
+
+describe('parsePlanText', () => {
+  it('reads back what printPlanText writes', () => {
+    const { plan: parsed, errors } = parsePlanText(printed);
+    expect(errors).toEqual([]);
+    expect(printPlanText(parsed)).toBe(printed);
+    expect(keepPlanIds(parsed, plan)).toEqual(plan);
+  });
+
+  it('reads back very large and very small numbers', () => {
+    const tiny = { ...plan, rooms: [{ ...plan.rooms[2], x: 1e21, y: 1e-7 }] };
+    const text = printPlanText(tiny);
+    expect(text).toContain('at 1000000000000000000000,0.0000001 ');
+    expect(parsePlanText(text).plan.rooms[0]).toMatchObject({ x: 1e21, y: 1e-7 });
+  });
+
+  it('ignores comments and line breaks', () => {
+    const { plan: parsed } = parsePlanText('// one room\nlevel "G" { room "A"\n  at 0,0 // here\n  size 10x10 }');
+    expect(parsed.rooms).toMatchObject([{ name: 'A', width: 10, height: 10 }]);
+  });
+
+  it('stops at the first syntax error and says where it is', () => {
+    expect(errorsOf('level "G" {\n  room "A" at 0,0 size 10x10 colour #fff\n}')).toEqual(['2:30 expected a room or "}" but found "colour"']);
+    expect(errorsOf('level "G {')).toEqual(['1:7 unterminated string: add a closing "']);
+  });
+
+  it('reports every out of range value at once', () => {
+    expect(errorsOf('settings unit yd precision 1.5\nlevel "G" height 0 {\n  room "A" at 0,0 size 0x10 {\n    door top 2 w40\n  }\n}')).toEqual([
+      '1:15 unknown unit "yd"; use one of mm, cm, m, ft-in',
+      '1:28 "precision" must be a whole number from 0 to 6',
+      '2:11 the level height must be greater than 0',
+      '3:19 the room width must be greater than 0',
+      '4:14 the position along the wall must be between 0 and 1',
+    ]);
+  });
+
+  it('holds settings to the limits of a saved plan', () => {
+    expect(errorsOf('settings unit m scale 0.5 precision 2 grid 0.5 major 2.5\nlevel "G" { }')).toEqual([
+      '1:23 "scale" must be a number of at least 1',
+      '1:44 "grid" must be a number of at least 1',
+      '1:54 "major" must be a whole number of at least 1',
+    ]);
+    const { plan: parsed } = parsePlanText('settings scale 1 precision 6 grid 1 major 1\nlevel "G" { room "A" at 0,0 size 10x10 }');
+    expect(parsePlanFile(serializePlan(parsed)).errors).toEqual([]);
+  });
+
+  it('rejects numbers too large to save', () => {
+    expect(errorsOf('level "G" { room "A" at 0,0 size 10x10 rotate 1e400 }')).toEqual(['1:47 1e400 is too large']);
+  });
+
+  it('rejects openings on walls the room does not have', () => {
+    expect(errorsOf('level "G" { room "A" at 0,0 size 10x10 { door edge 0 0.5 w4 } }')).toEqual([
+      '1:52 only polygon rooms have numbered edges; use top, bottom, left or right',
+    ]);
+  });
+
+  it('rejects finishes from materials that are not listed', () => {
+    expect(errorsOf('level "G" { room "A" at 0,0 size 10x10 floor "Oak" }')).toEqual([
+      '1:46 no floor material called "Oak"; list it first, e.g. material "Oak" floor price 10',
+    ]);
+  });
+
+  it('takes the box of a polygon room without a size from its points', () => {
+    const { plan: parsed } = parsePlanText('level "G" { room "A" at 5,5 points 10,10 110,10 110,110 }');
+    expect(parsed.rooms[0]).toMatchObject({ x: 15, y: 15, width: 100, height: 100, vertices: [{ x: 0, y: 0 }, { x: 100, y: 0 }, { x: 100, y: 100 }] });
+  });
+
+  it('needs a position and a size for each room, and at least one level', () => {
+    expect(errorsOf('level "G" { room "A" }')).toEqual([
+      '1:13 room "A" needs a position, e.g. "at 0,0"',
+      '1:13 room "A" needs a size, e.g. "size 300x200"',
+    ]);
+    expect(errorsOf('')).toEqual(['1:1 a plan needs at least one level, e.g. level "Ground Floor" { }']);
+  });
+});
+
+describe('keepPlanIds', () => {
+  it('keeps unchanged rooms as the same objects and matches the others by name', () => {
+    const edited = printed.replace('size 400x300 color #E5E7EB hidden', 'size 500x300 color #E5E7EB hidden');
+    const next = keepPlanIds(parsePlanText(edited).plan, plan);
+    expect(next.rooms[0]).toBe(plan.rooms[0]);
+    expect(next.rooms[2]).toMatchObject({ id: 'bed', width: 500 });
+    expect(next.levels).toEqual(plan.levels);
+  });
+
+  it('keeps stacking numbers the text order allows and numbers rooms moved above on from there', () => {
+    const stacked = { ...plan, rooms: plan.rooms.map(r => ({ ...r, zIndex: { kitchen: 5, hall: 9, bed: 2 }[r.id] })) };
+    const turned = keepPlanIds(parsePlanText(printPlanText(stacked).replace('rotate 15', 'rotate 30')).plan, stacked);
+    expect(turned.rooms.map(r => r.zIndex)).toEqual([5, 9, 2]);
+    const lines = printPlanText(stacked).split('\n');
+    lines.splice(4, 0, ...lines.splice(9, 1)); // Hall before Kitchen
+    const reordered = keepPlanIds(parsePlanText(lines.join('\n')).plan, stacked);
+    expect(reordered.rooms.map(r => `${r.name} ${r.zIndex}`)).toEqual(['Hall 9', 'Kitchen 10', 'Bedroom 2']);
+  });
+});
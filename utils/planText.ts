@@ -0,0 +1,540 @@
+import type { DoorStyle, FinishSlot, FurnitureItem, FurnitureKind, Level, LengthUnit, Material, Plan, PlanSettings, Point, Room, RoomType, WallFeature, WindowStyle } from '../types';
+import { DEFAULT_PLAN_SETTINGS, LENGTH_UNITS } from './units';
+import { DEFAULT_LEVEL, sortLevels } from './levels';
+import { DOOR_STYLES, WINDOW_STYLES } from './openings';
+import { FURNITURE_CATALOG } from './furniture';
+import { ROOM_TYPES } from './roomTypes';
+import { FINISH_SLOTS, getRoomFinish } from './materials';
+import { isPolygonRoom, normalizePolygon } from './geometry';
+
+/**
+ * A plain-text form of the plan that reads well in a diff. Lengths are world units, ids are
+ * left out, and rooms are listed per level from the bottom of the stack up:
+ *
+ *   settings unit m scale 100 precision 2 grid 10 major 10
+ *   material "Porcelain tile" floor price 40 waste 0.12
+ *
+ *   level "Ground Floor" elevation 0 height 250 {
+ *     room "Kitchen" type kitchen at 350,50 size 150x150 color #FDE68A floor "Porcelain tile" {
+ *       door top 0.5 w40 swing out
+ *       window left 0.3 w80 sliding sill 90 head 210
+ *       furniture stove at 30,30 size 60x60 rotate 90
+ *     }
+ *     room "Hall" at 0,0 size 200x100 points 0,0 200,0 200,100 100,100 100,50 0,50 rotate 15 group "West"
+ *   }
+ *
+ * Line breaks only matter for `//` comments; braces group what belongs to a level or room.
+ * Rooms name their floor, walls, baseboard and ceiling finishes after the materials listed first.
+ * Dimension lines are not written, as they refer to rooms by id.
+ */
+export interface PlanTextError {
+  line: number; // 1-based
+  column: number; // 1-based
+  message: string;
+}
+
+export interface PlanTextResult {
+  plan: Plan | null; // null when the text has errors
+  errors: PlanTextError[];
+}
+
+type TokenKind = 'word' | 'number' | 'string' | 'size' | 'color' | 'symbol' | 'end';
+
+interface Token {
+  kind: TokenKind;
+  text: string; // as written, or the decoded value for strings
+  line: number;
+  column: number;
+}
+
+const WALL_SIDES = ['top', 'bottom', 'left', 'right'] as const;
+const FURNITURE_ROTATIONS = [0, 90, 180, 270];
+
+// The limits planSchema puts on the settings, so a plan read from text can be saved and loaded
+const SETTING_LIMITS: Record<string, { field: keyof PlanSettings; min: number; max?: number; integer?: boolean }> = {
+  scale: { field: 'worldUnitsPerMeter', min: 1 },
+  precision: { field: 'precision', min: 0, max: 6, integer: true },
+  grid: { field: 'gridSize', min: 1 },
+  major: { field: 'majorGridEvery', min: 1, integer: true },
+};
+
+// Tried in order at each position; the first that matches wins
+const TOKEN_PATTERNS: [TokenKind | 'space' | 'comment', RegExp][] = [
+  ['space', /\s+/y],
+  ['comment', /\/\/[^\n]*/y],
+  ['size', /-?\d+(?:\.\d+)?x-?\d+(?:\.\d+)?(?![\w.])/y],
+  ['number', /-?\d+(?:\.\d+)?(?:e-?\d+)?(?![\w.])/y],
+  ['color', /#[0-9A-Fa-f]{3,8}\b/y],
+  ['word', /[A-Za-z][\w.-]*/y],
+  ['string', /"(?:[^"\\\n]|\\.)*"/y],
+  ['symbol', /[{},]/y],
+];
+
+export const formatPlanTextError = (error: PlanTextError) => `Line ${error.line}, column ${error.column}: ${error.message}`;
+
+const isTextError = (error: unknown): error is PlanTextError =>
+  typeof error === 'object' && error !== null && 'line' in error && 'column' in error && 'message' in error;
+
+const fail = (at: { line: number; column: number }, message: string): never => {
+  throw { line: at.line, column: at.column, message } satisfies PlanTextError;
+};
+
+const tokenize = (text: string): Token[] => {
+  const tokens: Token[] = [];
+  let offset = 0;
+  let line = 1;
+  let lineStart = 0;
+  while (offset < text.length) {
+    const column = offset - lineStart + 1;
+    const match = TOKEN_PATTERNS.map(([kind, pattern]) => {
+      pattern.lastIndex = offset;
+      const found = pattern.exec(text);
+      return found && { kind, raw: found[0] };
+    }).find(Boolean);
+    if (!match) {
+      const unclosed = text[offset] === '"';
+      fail({ line, column }, unclosed ? 'unterminated string: add a closing "' : `unexpected character "${text[offset]}"`);
+    }
+    if (match.kind !== 'space' && match.kind !== 'comment') {
+      let value = match.raw;
+      if (match.kind === 'string') {
+        try {
+          value = JSON.parse(match.raw);
+        } catch {
+          fail({ line, column }, `invalid escape in string ${match.raw}`);
+        }
+      }
+      tokens.push({ kind: match.kind, text: value, line, column });
+    }
+    [...match.raw].forEach((char, i) => {
+      if (char === '\n') {
+        line++;
+        lineStart = offset + i + 1;
+      }
+    });
+    offset += match.raw.length;
+  }
+  tokens.push({ kind: 'end', text: 'end of text', line, column: offset - lineStart + 1 });
+  return tokens;
+};
+
+const describe = (token: Token) =>
+  token.kind === 'end' ? 'the end of the text' : token.kind === 'string' ? JSON.stringify(token.text) : `"${token.text}"`;
+
+/** Reads plan text. Syntax errors stop at the first one; other problems are all reported. */
+export const parsePlanText = (text: string): PlanTextResult => {
+  const errors: PlanTextError[] = [];
+  const report = (at: Token, message: string) => errors.push({ line: at.line, column: at.column, message });
+  let tokens: Token[];
+  try {
+    tokens = tokenize(text);
+  } catch (error) {
+    if (isTextError(error)) return { plan: null, errors: [error] };
+    throw error;
+  }
+
+  let index = 0;
+  const peek = () => tokens[index];
+  const next = () => tokens[index++];
+  const isWord = (...words: string[]) => peek().kind === 'word' && words.includes(peek().text);
+  const expectWord = (word: string) => {
+    if (!isWord(word)) fail(peek(), `expected "${word}" but found ${describe(peek())}`);
+    return next();
+  };
+  const expectSymbol = (symbol: string) => {
+    if (peek().kind !== 'symbol' || peek().text !== symbol) fail(peek(), `expected "${symbol}" but found ${describe(peek())}`);
+    return next();
+  };
+  const expectKind = (kind: TokenKind, what: string) => {
+    if (peek().kind !== kind) fail(peek(), `expected ${what} but found ${describe(peek())}`);
+    return next();
+  };
+  const finite = (at: Token, value: number) => {
+    if (!Number.isFinite(value)) report(at, `${at.text} is too large`);
+    return value;
+  };
+  const number = (what: string) => {
+    const token = expectKind('number', what);
+    return finite(token, Number(token.text));
+  };
+  const point = (): Point => {
+    const x = number('an x coordinate');
+    expectSymbol(',');
+    return { x, y: number('a y coordinate') };
+  };
+  const size = () => {
+    const token = expectKind('size', 'a size such as 150x120');
+    const [width, height] = token.text.split('x').map(Number);
+    return { width: finite(token, width), height: finite(token, height) };
+  };
+  const positive = (at: Token, value: number, what: string) => {
+    if (!(value > 0)) report(at, `${what} must be greater than 0`);
+  };
+
+  const settings: PlanSettings = { ...DEFAULT_PLAN_SETTINGS };
+  const parseSettings = () => {
+    expectWord('settings');
+    while (isWord('unit', 'scale', 'precision', 'grid', 'major')) {
+      const key = next();
+      const at = peek();
+      if (key.text === 'unit') {
+        const unit = expectKind('word', 'a unit').text;
+        if (LENGTH_UNITS.some(u => u.value === unit)) settings.unit = unit as LengthUnit;
+        else report(at, `unknown unit "${unit}"; use one of ${LENGTH_UNITS.map(u => u.value).join(', ')}`);
+      } else {
+        const value = number(`a number after "${key.text}"`);
+        const { field, min, max, integer } = SETTING_LIMITS[key.text];
+        if (value < min || (max !== undefined && value > max) || (integer && !Number.isInteger(value))) {
+          report(at, `"${key.text}" must be ${integer ? 'a whole number' : 'a number'} ${max === undefined ? `of at least ${min}` : `from ${min} to ${max}`}`);
+        } else {
+          Object.assign(settings, { [field]: value });
+        }
+      }
+    }
+  };
+
+  const parseOpening = (room: Room): WallFeature => {
+    const type = next().text as WallFeature['type'];
+    const at = peek();
+    let wall: WallFeature['wall'];
+    if (isWord('edge')) {
+      next();
+      const edgeAt = peek();
+      wall = number('an edge number');
+      if (!isPolygonRoom(room)) report(edgeAt, 'only polygon rooms have numbered edges; use top, bottom, left or right');
+      else if (!Number.isInteger(wall) || wall < 0 || wall >= room.vertices.length) report(edgeAt, `edge ${wall} does not exist; this room has edges 0 to ${room.vertices.length - 1}`);
+    } else if (isWord(...WALL_SIDES)) {
+      wall = next().text as WallFeature['wall'];
+      if (isPolygonRoom(room)) report(at, 'polygon rooms number their walls, e.g. "edge 0"');
+    } else {
+      fail(at, `expected a wall (top, bottom, left, right or edge N) but found ${describe(at)}`);
+    }
+    const positionAt = peek();
+    const position = number('a position along the wall between 0 and 1');
+    if (position < 0 || position > 1) report(positionAt, 'the position along the wall must be between 0 and 1');
+    const widthToken = expectKind('word', 'a width such as w40');
+    const width = Number(widthToken.text.slice(1));
+    if (!/^w-?\d+(\.\d+)?$/.test(widthToken.text)) fail(widthToken, `expected a width such as w40 but found ${describe(widthToken)}`);
+    positive(widthToken, width, 'the opening width');
+
+    const feature: WallFeature = { id: crypto.randomUUID(), type, wall, position, width };
+    const styles: { value: string }[] = type === 'door' ? DOOR_STYLES : WINDOW_STYLES;
+    const otherStyles: { value: string }[] = type === 'door' ? WINDOW_STYLES : DOOR_STYLES;
+    for (;;) {
+      const option = peek();
+      if (option.kind === 'word' && styles.some(s => s.value === option.text)) {
+        feature.style = next().text as DoorStyle | WindowStyle;
+      } else if (option.kind === 'word' && otherStyles.some(s => s.value === option.text)) {
+        next();
+        report(option, `"${option.text}" is not a ${type} style; use one of ${styles.map(s => s.value).join(', ')}`);
+      } else if (isWord('hinge')) {
+        next();
+        if (!isWord('start', 'end')) fail(peek(), `expected "start" or "end" after "hinge" but found ${describe(peek())}`);
+        feature.hinge = next().text as WallFeature['hinge'];
+      } else if (isWord('swing')) {
+        next();
+        if (!isWord('in', 'out')) fail(peek(), `expected "in" or "out" after "swing" but found ${describe(peek())}`);
+        feature.swing = next().text as WallFeature['swing'];
+      } else if (isWord('sill', 'head')) {
+        next();
+        const valueAt = peek();
+        const value = number(`a height after "${option.text}"`);
+        if (type !== 'window') report(option, `only windows have a ${option.text} height`);
+        if (value < 0) report(valueAt, `the ${option.text} height cannot be negative`);
+        feature[option.text === 'sill' ? 'sillHeight' : 'headHeight'] = value;
+      } else {
+        break;
+      }
+    }
+    return feature;
+  };
+
+  const parseFurniture = (): FurnitureItem => {
+    next();
+    const kindToken = expectKind('word', 'a furniture kind');
+    if (!FURNITURE_CATALOG.some(spec => spec.kind === kindToken.text)) {
+      report(kindToken, `unknown furniture "${kindToken.text}"; use one of ${FURNITURE_CATALOG.map(spec => spec.kind).join(', ')}`);
+    }
+    expectWord('at');
+    const center = point();
+    const sizeAt = expectWord('size');
+    const { width, height: depth } = size();
+    positive(sizeAt, width, 'the furniture width');
+    positive(sizeAt, depth, 'the furniture depth');
+    let rotation = 0;
+    if (isWord('rotate')) {
+      next();
+      const rotationAt = peek();
+      rotation = number('a rotation of 0, 90, 180 or 270');
+      if (!FURNITURE_ROTATIONS.includes(rotation)) report(rotationAt, 'furniture turns in quarter turns: 0, 90, 180 or 270');
+    }
+    return { id: crypto.randomUUID(), kind: kindToken.text as FurnitureKind, ...center, width, depth, rotation: rotation as FurnitureItem['rotation'] };
+  };
+
+  const materials: Material[] = [];
+  const parseMaterial = () => {
+    next();
+    const nameToken = expectKind('string', 'a material name in double quotes');
+    if (!isWord(...FINISH_SLOTS.map(({ slot }) => slot))) fail(peek(), `expected a finish (${FINISH_SLOTS.map(({ slot }) => slot).join(', ')}) but found ${describe(peek())}`);
+    const slot = next().text as FinishSlot;
+    if (materials.some(m => m.slot === slot && m.name === nameToken.text)) report(nameToken, `there is already a ${slot} material called "${nameToken.text}"`);
+    const material: Material = { id: crypto.randomUUID(), name: nameToken.text, slot, unitPrice: 0, waste: 0 };
+    while (isWord('price', 'waste')) {
+      const key = next();
+      const at = peek();
+      const value = number(`a number after "${key.text}"`);
+      if (value < 0) report(at, `the ${key.text} cannot be negative`);
+      if (key.text === 'price') material.unitPrice = value;
+      else material.waste = value;
+    }
+    materials.push(material);
+  };
+
+  const rooms: Room[] = [];
+  const parseRoom = (levelId: string) => {
+    const keyword = expectWord('room');
+    const name = expectKind('string', 'a room name in double quotes').text;
+    const room: Room = { id: crypto.randomUUID(), name, x: 0, y: 0, width: 0, height: 0, color: '#E5E7EB', zIndex: rooms.length, features: [], levelId };
+    let placed = false;
+    let sized = false;
+    while (isWord('type', 'at', 'size', 'points', 'color', 'rotate', 'group', 'locked', 'hidden', ...FINISH_SLOTS.map(({ slot }) => slot))) {
+      const attribute = next();
+      switch (attribute.text) {
+        case 'floor':
+        case 'walls':
+        case 'baseboard':
+        case 'ceiling': {
+          const slot = attribute.text as FinishSlot;
+          const nameToken = expectKind('string', `a ${slot} material name in double quotes`);
+          const material = materials.find(m => m.slot === slot && m.name === nameToken.text);
+          if (material) room.finishes = { ...room.finishes, [slot]: material.id };
+          else report(nameToken, `no ${slot} material called "${nameToken.text}"; list it first, e.g. material ${JSON.stringify(nameToken.text)} ${slot} price 10`);
+          break;
+        }
+        case 'type': {
+          const typeToken = expectKind('word', 'a room type');
+          if (ROOM_TYPES.some(spec => spec.type === typeToken.text)) room.type = typeToken.text as RoomType;
+          else report(typeToken, `unknown room type "${typeToken.text}"; use one of ${ROOM_TYPES.map(spec => spec.type).join(', ')}`);
+          break;
+        }
+        case 'at':
+          Object.assign(room, point());
+          placed = true;
+          break;
+        case 'size':
+          Object.assign(room, size());
+          positive(attribute, room.width, 'the room width');
+          positive(attribute, room.height, 'the room height');
+          sized = true;
+          break;
+        case 'points': {
+          const vertices = [point()];
+          while (peek().kind === 'number') vertices.push(point());
+          if (vertices.length < 3) report(attribute, 'a polygon room needs at least 3 points');
+          room.shape = 'polygon';
+          room.vertices = vertices;
+          break;
+        }
+        case 'color':
+          room.color = expectKind('color', 'a colour such as #DBEAFE').text;
+          break;
+        case 'rotate':
+          room.rotation = number('an angle in degrees');
+          break;
+        case 'group':
+          room.group = expectKind('string', 'a group name in double quotes').text;
+          break;
+        case 'locked':
+          room.locked = true;
+          break;
+        case 'hidden':
+          room.hidden = true;
+          break;
+      }
+    }
+    if (!placed) report(keyword, `room "${name}" needs a position, e.g. "at 0,0"`);
+    if (!sized && room.vertices) {
+      // Points without a size are taken as drawn, so the room's box is their bounds
+      const { vertices, ...box } = normalizePolygon(room.vertices);
+      Object.assign(room, { x: room.x + box.x, y: room.y + box.y, width: box.width, height: box.height, vertices });
+    } else if (!sized) {
+      report(keyword, `room "${name}" needs a size, e.g. "size 300x200"`);
+    }
+
+    if (peek().kind === 'symbol' && peek().text === '{') {
+      next();
+      while (!(peek().kind === 'symbol' && peek().text === '}')) {
+        if (isWord('door', 'window')) room.features.push(parseOpening(room));
+        else if (isWord('furniture')) room.furniture = [...(room.furniture ?? []), parseFurniture()];
+        else fail(peek(), `expected a door, window, furniture or "}" but found ${describe(peek())}`);
+      }
+      next();
+    }
+    rooms.push(room);
+  };
+
+  const levels: Level[] = [];
+  const parseLevel = () => {
+    const keyword = expectWord('level');
+    const name = expectKind('string', 'a level name in double quotes').text;
+    if (levels.some(l => l.name === name)) report(keyword, `there is already a level called "${name}"`);
+    const level: Level = { id: crypto.randomUUID(), name, elevation: DEFAULT_LEVEL.elevation, height: DEFAULT_LEVEL.height };
+    while (isWord('elevation', 'height')) {
+      const key = next();
+      const value = number(`a number after "${key.text}"`);
+      if (key.text === 'elevation') level.elevation = value;
+      else {
+        level.height = value;
+        positive(key, value, 'the level height');
+      }
+    }
+    expectSymbol('{');
+    while (!(peek().kind === 'symbol' && peek().text === '}')) {
+      if (!isWord('room')) fail(peek(), `expected a room or "}" but found ${describe(peek())}`);
+      parseRoom(level.id);
+    }
+    next();
+    levels.push(level);
+  };
+
+  try {
+    if (isWord('settings')) parseSettings();
+    while (isWord('material')) parseMaterial();
+    while (peek().kind !== 'end') {
+      if (!isWord('level')) fail(peek(), `expected a level but found ${describe(peek())}`);
+      parseLevel();
+    }
+  } catch (error) {
+    if (isTextError(error)) return { plan: null, errors: [...errors, error] };
+    throw error;
+  }
+  if (levels.length === 0) errors.push({ line: 1, column: 1, message: 'a plan needs at least one level, e.g. level "Ground Floor" { }' });
+
+  return errors.length > 0
+    ? { plan: null, errors }
+    : { plan: { settings, levels, rooms, dimensions: [], materials }, errors: [] };
+};
+
+const num = (value: number) => {
+  if (Object.is(value, -0)) return '0';
+  const text = String(value);
+  // Very large and very small numbers come out as e.g. "1e+21", which the number token does not read
+  return text.includes('e') ? value.toLocaleString('en-US', { useGrouping: false, maximumFractionDigits: 20 }) : text;
+};
+const pointText = (p: Point) => `${num(p.x)},${num(p.y)}`;
+const sizeText = (width: number, height: number) => `${num(width)}x${num(height)}`;
+
+const openingText = (feature: WallFeature) => [
+  feature.type,
+  typeof feature.wall === 'number' ? `edge ${feature.wall}` : feature.wall,
+  num(feature.position),
+  `w${num(feature.width)}`,
+  feature.style,
+  feature.hinge && `hinge ${feature.hinge}`,
+  feature.swing && `swing ${feature.swing}`,
+  feature.sillHeight !== undefined && `sill ${num(feature.sillHeight)}`,
+  feature.headHeight !== undefined && `head ${num(feature.headHeight)}`,
+].filter(Boolean).join(' ');
+
+const furnitureText = (item: FurnitureItem) =>
+  `furniture ${item.kind} at ${pointText(item)} size ${sizeText(item.width, item.depth)}${item.rotation ? ` rotate ${item.rotation}` : ''}`;
+
+const materialText = (material: Material) =>
+  `material ${JSON.stringify(material.name)} ${material.slot} price ${num(material.unitPrice)} waste ${num(material.waste)}`;
+
+const roomText = (room: Room, materials: Material[]) => {
+  const header = [
+    `room ${JSON.stringify(room.name)}${room.type ? ` type ${room.type}` : ''} at ${pointText(room)} size ${sizeText(room.width, room.height)}`,
+    isPolygonRoom(room) && `points ${room.vertices.map(pointText).join(' ')}`,
+    `color ${room.color}`,
+    ...FINISH_SLOTS.map(({ slot }) => getRoomFinish(room, slot, materials)).filter(Boolean).map(m => `${m.slot} ${JSON.stringify(m.name)}`),
+    room.rotation && `rotate ${num(room.rotation)}`,
+    room.group && `group ${JSON.stringify(room.group)}`,
+    room.locked && 'locked',
+    room.hidden && 'hidden',
+  ].filter(Boolean).join(' ');
+  const items = [...room.features.map(openingText), ...(room.furniture ?? []).map(furnitureText)];
+  return items.length === 0 ? [`  ${header}`] : [`  ${header} {`, ...items.map(item => `    ${item}`), '  }'];
+};
+
+/** The plan as text; reading it back gives the same plan apart from ids and dimension lines. */
+export const printPlanText = (plan: Plan): string => {
+  const { unit, worldUnitsPerMeter, precision, gridSize, majorGridEvery } = plan.settings;
+  const lines = [
+    `settings unit ${unit} scale ${num(worldUnitsPerMeter)} precision ${precision} grid ${num(gridSize)} major ${num(majorGridEvery)}`,
+    ...plan.materials.map(materialText),
+  ];
+  sortLevels(plan.levels).forEach(level => {
+    lines.push('', `level ${JSON.stringify(level.name)} elevation ${num(level.elevation)} height ${num(level.height)} {`);
+    plan.rooms
+      .filter(r => r.levelId === level.id)
+      .sort((a, b) => a.zIndex - b.zIndex)
+      .forEach(room => lines.push(...roomText(room, plan.materials)));
+    lines.push('}');
+  });
+  return `${lines.join('\n')}\n`;
+};
+
+/** Takes ids over from `current` for each `parsed` item with the same place in the text. */
+const reuseIds = <T extends { id: string },>(parsed: T[], current: T[], key: (item: T) => string): T[] => {
+  const available = new Map<string, string[]>();
+  current.forEach(item => available.set(key(item), [...(available.get(key(item)) ?? []), item.id]));
+  return parsed.map(item => {
+    const id = available.get(key(item))?.shift();
+    return id ? { ...item, id } : item;
+  });
+};
+
+/**
+ * Gives a plan read from text the ids of the plan it was printed from, matching levels by name,
+ * rooms by level and name, materials by finish and name, and openings and furniture by their
+ * order in the room, so selection and dimension lines carry over. Dimension lines whose rooms
+ * are gone are dropped.
+ */
+export const keepPlanIds = (parsed: Plan, current: Plan): Plan => {
+  const levels = reuseIds(parsed.levels, current.levels, l => l.name);
+  const levelIds = new Map(parsed.levels.map((l, i) => [l.id, levels[i].id]));
+  const materials = reuseIds(parsed.materials, current.materials, m => `${m.slot}/${m.name}`)
+    .map(material => current.materials.find(m => m.id === material.id && materialText(m) === materialText(material)) ?? material);
+  const materialIds = new Map(parsed.materials.map((m, i) => [m.id, materials[i].id]));
+  const currentRooms = [...current.rooms].sort((a, b) => a.zIndex - b.zIndex);
+  const parsedRooms = parsed.rooms.map((r): Room => ({
+    ...r,
+    levelId: levelIds.get(r.levelId),
+    ...(r.finishes && { finishes: Object.fromEntries(Object.entries(r.finishes).map(([slot, id]) => [slot, materialIds.get(id)])) }),
+  }));
+  // The text gives only the stacking order on each level, so rooms keep their old zIndex while
+  // that order allows and anything placed out of it is numbered on from the room below
+  const topZIndex = new Map<string, number>();
+  const rooms = reuseIds(parsedRooms, currentRooms, r => `${r.levelId}/${r.name}`)
+    .map(room => {
+      const previous = current.rooms.find(r => r.id === room.id);
+      const below = topZIndex.get(room.levelId) ?? -1;
+      const zIndex = previous && previous.zIndex > below ? previous.zIndex : below + 1;
+      topZIndex.set(room.levelId, zIndex);
+      return { ...room, zIndex };
+    })
+    .map(room => {
+      const previous = current.rooms.find(r => r.id === room.id);
+      if (!previous) return room;
+      // Rooms the text leaves as they were stay the same objects, so undo records only real edits
+      const unchanged = previous.levelId === room.levelId && previous.zIndex === room.zIndex && roomText(previous, current.materials).join('\n') === roomText(room, materials).join('\n');
+      return unchanged ? previous : {
+        ...room,
+        features: room.features.map((f, i) => previous.features[i]?.type === f.type ? { ...f, id: previous.features[i].id } : f),
+        furniture: room.furniture?.map((item, i) => previous.furniture?.[i]?.kind === item.kind ? { ...item, id: previous.furniture[i].id } : item),
+      };
+    });
+  const roomIds = new Set(rooms.map(r => r.id));
+  const keptLevelIds = new Set(levels.map(l => l.id));
+  const dimensions = current.dimensions.filter(d =>
+    keptLevelIds.has(d.levelId) && [d.start, d.end].every(end => !('roomId' in end) || roomIds.has(end.roomId)));
+  const sameSettings = (Object.keys(parsed.settings) as (keyof PlanSettings)[]).every(key => parsed.settings[key] === current.settings[key]);
+  return {
+    settings: sameSettings ? current.settings : parsed.settings,
+    levels: levels.map(level => current.levels.find(l => l.id === level.id && l.elevation === level.elevation && l.height === level.height) ?? level),
+    rooms,
+    dimensions: dimensions.length === current.dimensions.length ? current.dimensions : dimensions,
+    materials: materials.length === current.materials.length && materials.every((m, i) => m === current.materials[i]) ? current.materials : materials,
+  };
+};
@@ -0,0 +1,100 @@
+import type { Plan } from '../types';
+import { sortLevels } from './levels';
+import { exportPlanSvg } from './svgExport';
+
+/**
+ * Local persistence in IndexedDB. Plans are stored as serialized plan files, so anything
+ * read back goes through the same migrations and validation as a file picked from disk.
+ */
+export interface ProjectRecord {
+  id: string;
+  name: string;
+  updatedAt: number; // ms since epoch
+  thumbnail: string; // SVG markup
+  data: string; // serialized plan file
+}
+
+/** The latest unsaved state of whatever plan is open, written shortly after each edit. */
+export interface AutosaveRecord {
+  projectId: string | null; // null for a plan that was never saved to the library
+  name: string;
+  savedAt: number;
+  data: string;
+  history?: string; // undo history, when the user chose to keep it across reloads
+}
+
+const DB_NAME = 'home-plan-modeler';
+const KEEP_HISTORY_KEY = 'home-plan-modeler:keep-history';
+const DB_VERSION = 1;
+const PROJECTS = 'projects';
+const AUTOSAVE = 'autosave';
+const AUTOSAVE_KEY = 'current';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(PROJECTS)) db.createObjectStore(PROJECTS, { keyPath: 'id' });
+      if (!db.objectStoreNames.contains(AUTOSAVE)) db.createObjectStore(AUTOSAVE);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+};
+
+// A write is only on disk once its transaction completes; it can still abort after the request succeeds
+const run = async <T,>(storeName: string, mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>) => {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = action(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error ?? request.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('The storage transaction was aborted'));
+  });
+};
+
+/** All saved projects, most recently modified first. */
+export const listProjects = async () => {
+  const projects = await run<ProjectRecord[]>(PROJECTS, 'readonly', store => store.getAll());
+  return projects.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const getProject = (id: string) =>
+  run<ProjectRecord | undefined>(PROJECTS, 'readonly', store => store.get(id));
+
+export const putProject = (project: ProjectRecord) =>
+  run(PROJECTS, 'readwrite', store => store.put(project));
+
+export const deleteProject = (id: string) =>
+  run(PROJECTS, 'readwrite', store => store.delete(id));
+
+export const getAutosave = () =>
+  run<AutosaveRecord | undefined>(AUTOSAVE, 'readonly', store => store.get(AUTOSAVE_KEY));
+
+export const putAutosave = (record: AutosaveRecord) =>
+  run(AUTOSAVE, 'readwrite', store => store.put(record, AUTOSAVE_KEY));
+
+export const clearAutosave = () =>
+  run(AUTOSAVE, 'readwrite', store => store.delete(AUTOSAVE_KEY));
+
+/** Whether undo history is written with the autosave. A device preference rather than part of the plan. */
+export const getKeepHistory = () => localStorage.getItem(KEEP_HISTORY_KEY) === 'true';
+
+export const setKeepHistory = (keep: boolean) => localStorage.setItem(KEEP_HISTORY_KEY, String(keep));
+
+/** A small drawing of the lowest level for the project browser. */
+export const createThumbnail = (plan: Plan) => exportPlanSvg(plan, {
+  levelId: sortLevels(plan.levels)[0].id,
+  showTitleBlock: false,
+  showScaleBar: false,
+  showDimensions: false,
+  margin: 20,
+});
@@ -0,0 +1,94 @@
+import type { RoomType } from '../types';
+import { ROOM_TYPES } from './roomTypes';
+import { s, validate } from './schema';
+
+/**
+ * What a room of a given type must provide. Sizes are in meters so a rule set reads the same
+ * whatever unit a plan is drawn in. Rule sets are plain JSON, one per jurisdiction:
+ *
+ *   {
+ *     "name": "Springfield residential code",
+ *     "rules": {
+ *       "bedroom": { "minArea": 7, "minDimension": 2.1, "egressWindow": { "minWidth": 0.5, "maxSillHeight": 1.1 } },
+ *       "bathroom": { "requiresDoor": true }
+ *     }
+ *   }
+ */
+export interface RoomRule {
+  minArea?: number; // square meters
+  minDimension?: number; // meters, across the narrower side (of the bounding box for polygon rooms)
+  requiresDoor?: boolean; // a door of its own or a neighbour's door on a shared wall
+  requiresWindow?: boolean;
+  egressWindow?: { minWidth: number; maxSillHeight: number }; // meters; a window on an outside wall large and low enough to escape through
+}
+
+export interface RuleSet {
+  name: string;
+  rules: Partial<Record<RoomType, RoomRule>>;
+}
+
+export interface RuleSetResult {
+  ruleSet: RuleSet | null; // null when the file could not be used
+  errors: string[];
+}
+
+const RULE_SET_KEY = 'home-plan-modeler:rule-set';
+
+// Minimums in the spirit of common residential codes; check the code that applies to you
+export const DEFAULT_RULE_SET: RuleSet = {
+  name: 'Generic residential',
+  rules: {
+    bedroom: { minArea: 6.5, minDimension: 2.13, requiresDoor: true, egressWindow: { minWidth: 0.51, maxSillHeight: 1.12 } },
+    bathroom: { minArea: 2.5, requiresDoor: true },
+    kitchen: { minArea: 4.6, minDimension: 1.5 },
+    living: { minArea: 11.1, minDimension: 2.13, requiresWindow: true },
+    dining: { minArea: 6.5, minDimension: 2.13 },
+    office: { minArea: 6.5, minDimension: 2.13, requiresWindow: true },
+    hallway: { minDimension: 0.91 },
+    garage: { minDimension: 3, requiresDoor: true },
+  },
+};
+
+const ruleSchema = s.object({
+  minArea: s.number({ min: 0 }),
+  minDimension: s.number({ min: 0 }),
+  requiresDoor: s.boolean(),
+  requiresWindow: s.boolean(),
+  egressWindow: s.object({ minWidth: s.number({ min: 0 }), maxSillHeight: s.number({ min: 0 }) }),
+}, ['minArea', 'minDimension', 'requiresDoor', 'requiresWindow', 'egressWindow']);
+
+const ruleSetSchema = s.object({
+  name: s.string(),
+  rules: s.object(Object.fromEntries(ROOM_TYPES.map(spec => [spec.type, ruleSchema])), ROOM_TYPES.map(spec => spec.type)),
+});
+
+/** Reads a rule set file, reporting every problem with its path. */
+export const parseRuleSet = (text: string): RuleSetResult => {
+  let doc: unknown;
+  try {
+    doc = JSON.parse(text);
+  } catch (error) {
+    return { ruleSet: null, errors: [`The file is not valid JSON: ${(error as Error).message}`] };
+  }
+  const issues = validate(doc, ruleSetSchema);
+  if (issues.length > 0) return { ruleSet: null, errors: issues.map(issue => `${issue.path}: ${issue.message}`) };
+
+  const ruleSet = doc as RuleSet;
+  const known = new Set<string>(ROOM_TYPES.map(spec => spec.type));
+  const unknown = Object.keys(ruleSet.rules).filter(type => !known.has(type));
+  if (unknown.length > 0) {
+    return { ruleSet: null, errors: unknown.map(type => `rules.${type}: unknown room type; use one of ${[...known].join(', ')}`) };
+  }
+  return { ruleSet, errors: [] };
+};
+
+export const serializeRuleSet = (ruleSet: RuleSet) => JSON.stringify(ruleSet, null, 2);
+
+/** The rule set last imported in this browser, or the default one. */
+export const getStoredRuleSet = (): RuleSet => {
+  const stored = localStorage.getItem(RULE_SET_KEY);
+  return (stored && parseRuleSet(stored).ruleSet) || DEFAULT_RULE_SET;
+};
+
+export const setStoredRuleSet = (ruleSet: RuleSet | null) =>
+  ruleSet ? localStorage.setItem(RULE_SET_KEY, serializeRuleSet(ruleSet)) : localStorage.removeItem(RULE_SET_KEY);
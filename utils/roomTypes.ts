@@ -0,0 +1,49 @@
+import type { PlanSettings, Room, RoomType } from '../types';
+import { metersToWorld } from './units';
+
+export interface RoomTypeSpec {
+  type: RoomType;
+  label: string;
+  color: string;
+  width: number; // meters, the size a room of this type is drawn at with a single click
+  depth: number; // meters
+}
+
+export const ROOM_TYPES: RoomTypeSpec[] = [
+  { type: 'bedroom', label: 'Bedroom', color: '#C7D2FE', width: 3.6, depth: 3.3 },
+  { type: 'bathroom', label: 'Bathroom', color: '#BFDBFE', width: 2.4, depth: 2.0 },
+  { type: 'kitchen', label: 'Kitchen', color: '#FDE68A', width: 3.6, depth: 3.0 },
+  { type: 'living', label: 'Living room', color: '#FED7AA', width: 5.0, depth: 4.0 },
+  { type: 'dining', label: 'Dining room', color: '#FBCFE8', width: 3.6, depth: 3.3 },
+  { type: 'office', label: 'Office', color: '#A5B4FC', width: 3.0, depth: 3.0 },
+  { type: 'hallway', label: 'Hallway', color: '#E5E7EB', width: 1.2, depth: 3.6 },
+  { type: 'closet', label: 'Closet', color: '#DDD6FE', width: 1.2, depth: 1.0 },
+  { type: 'laundry', label: 'Laundry', color: '#A7F3D0', width: 2.0, depth: 1.8 },
+  { type: 'garage', label: 'Garage', color: '#D1D5DB', width: 6.0, depth: 6.0 },
+];
+
+export const getRoomTypeSpec = (type: RoomType) => ROOM_TYPES.find(spec => spec.type === type)!;
+
+/** The template size of a room type, in world units. */
+export const getRoomTemplateSize = (type: RoomType, settings: PlanSettings) => {
+  const spec = getRoomTypeSpec(type);
+  return { width: Math.round(metersToWorld(spec.width, settings)), height: Math.round(metersToWorld(spec.depth, settings)) };
+};
+
+/** Name, type and colour for a new room of the type, numbered after the others, e.g. "Bedroom 3". */
+export const getRoomTypeDefaults = (type: RoomType, rooms: Room[]): Pick<Room, 'name' | 'type' | 'color'> => {
+  const spec = getRoomTypeSpec(type);
+  const taken = new Set(rooms.map(r => r.name));
+  let n = rooms.filter(r => r.type === type).length + 1;
+  while (taken.has(`${spec.label} ${n}`)) n++;
+  return { name: `${spec.label} ${n}`, type, color: spec.color };
+};
+
+/**
+ * The changes for giving a room a new type. It takes the type's colour too, unless its colour
+ * was picked by hand rather than coming from its old type.
+ */
+export const changeRoomType = (room: Room, type: RoomType | undefined): Partial<Room> => {
+  const keepsColor = !type || (room.type && room.color !== getRoomTypeSpec(room.type).color);
+  return keepsColor ? { type } : { type, color: getRoomTypeSpec(type).color };
+};
@@ -0,0 +1,80 @@
+import type { Room, Level, PlanSettings } from '../types';
+import { getRoomOutline, getPolygonArea, getPolygonPerimeter, getUnionArea } from './geometry';
+import { convertLength, convertArea, getLengthUnitLabel, getAreaUnitLabel, roundTo } from './units';
+import { toCsv } from './csv';
+import type { CsvCell } from './csv';
+
+export interface ScheduleRow {
+  id: string;
+  name: string;
+  levelName: string;
+  width: number; // world units
+  height: number;
+  area: number; // square world units
+  perimeter: number;
+  doors: number;
+  windows: number;
+}
+
+export interface RoomSchedule {
+  rows: ScheduleRow[];
+  grossArea: number; // plain sum of room areas
+  floorArea: number; // union per level, so overlapping rooms are counted once
+}
+
+export type ScheduleSortKey = Exclude<keyof ScheduleRow, 'id'>;
+
+export const getRoomArea = (room: Room) => getPolygonArea(getRoomOutline(room));
+export const getRoomPerimeter = (room: Room) => getPolygonPerimeter(getRoomOutline(room));
+
+export const buildRoomSchedule = (rooms: Room[], levels: Level[]): RoomSchedule => {
+  const levelNames = new Map(levels.map(l => [l.id, l.name]));
+  const rows = rooms.map(room => ({
+    id: room.id,
+    name: room.name,
+    levelName: levelNames.get(room.levelId) ?? '',
+    // Measured in the room's own frame, so turning a room does not change its size
+    width: room.width,
+    height: room.height,
+    area: getRoomArea(room),
+    perimeter: getRoomPerimeter(room),
+    doors: room.features.filter(f => f.type === 'door').length,
+    windows: room.features.filter(f => f.type === 'window').length,
+  }));
+
+  // Floors stack, so only rooms on the same level can overlap one another
+  const floorArea = levels.reduce((sum, level) =>
+    sum + getUnionArea(rooms.filter(r => r.levelId === level.id).map(getRoomOutline)), 0);
+
+  return {
+    rows,
+    grossArea: rows.reduce((sum, row) => sum + row.area, 0),
+    floorArea,
+  };
+};
+
+export const sortScheduleRows = (rows: ScheduleRow[], key: ScheduleSortKey, ascending: boolean) =>
+  [...rows].sort((a, b) => {
+    const av = a[key];
+    const bv = b[key];
+    const order = typeof av === 'string' ? av.localeCompare(bv as string, undefined, { numeric: true }) : av - (bv as number);
+    return ascending ? order : -order;
+  });
+
+/** The schedule as CSV, with plain numbers in the plan's units and a total floor area line. */
+export const scheduleToCsv = (schedule: RoomSchedule, settings: PlanSettings) => {
+  const lengthUnit = getLengthUnitLabel(settings);
+  const areaUnit = getAreaUnitLabel(settings);
+  const length = (value: number) => roundTo(convertLength(value, settings), settings.precision);
+  const area = (value: number) => roundTo(convertArea(value, settings), settings.precision);
+
+  const rows: CsvCell[][] = [
+    ['Room', 'Level', `Width (${lengthUnit})`, `Height (${lengthUnit})`, `Area (${areaUnit})`, `Perimeter (${lengthUnit})`, 'Doors', 'Windows'],
+    ...schedule.rows.map(row => [
+      row.name, row.levelName, length(row.width), length(row.height), area(row.area), length(row.perimeter), row.doors, row.windows,
+    ]),
+    [],
+    ['Total floor area', '', '', '', area(schedule.floorArea)],
+  ];
+  return toCsv(rows);
+};
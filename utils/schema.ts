@@ -0,0 +1,84 @@
+/**
+ * A small declarative schema for validating untrusted JSON. Validation collects every
+ * problem with its path (e.g. `plan.rooms[2].features[0].wall`) instead of stopping at
+ * the first one.
+ */
+export type Schema =
+  | { kind: 'string' }
+  | { kind: 'number'; integer?: boolean; min?: number; max?: number }
+  | { kind: 'boolean' }
+  | { kind: 'literal'; values: readonly (string | number)[] }
+  | { kind: 'array'; items: Schema; minItems?: number }
+  | { kind: 'object'; properties: Record<string, Schema>; optional?: readonly string[] }
+  | { kind: 'union'; options: Schema[]; description: string };
+
+export interface SchemaIssue {
+  path: string;
+  message: string;
+}
+
+export const s = {
+  string: (): Schema => ({ kind: 'string' }),
+  number: (options: { integer?: boolean; min?: number; max?: number } = {}): Schema => ({ kind: 'number', ...options }),
+  boolean: (): Schema => ({ kind: 'boolean' }),
+  literal: (...values: (string | number)[]): Schema => ({ kind: 'literal', values }),
+  array: (items: Schema, minItems?: number): Schema => ({ kind: 'array', items, minItems }),
+  object: (properties: Record<string, Schema>, optional: string[] = []): Schema => ({ kind: 'object', properties, optional }),
+  union: (description: string, ...options: Schema[]): Schema => ({ kind: 'union', options, description }),
+};
+
+const describe = (value: unknown) => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  if (typeof value === 'string') return `the string "${value.length > 20 ? `${value.slice(0, 20)}…` : value}"`;
+  if (typeof value === 'number' && !Number.isFinite(value)) return String(value);
+  return typeof value === 'object' ? 'an object' : `${typeof value} ${String(value)}`;
+};
+
+const childPath = (path: string, key: string | number) =>
+  typeof key === 'number' ? `${path}[${key}]` : path ? `${path}.${key}` : key;
+
+export const validate = (value: unknown, schema: Schema, path = ''): SchemaIssue[] => {
+  const issue = (message: string): SchemaIssue[] => [{ path: path || '(root)', message }];
+
+  switch (schema.kind) {
+    case 'string':
+      return typeof value === 'string' ? [] : issue(`expected a string, got ${describe(value)}`);
+    case 'boolean':
+      return typeof value === 'boolean' ? [] : issue(`expected true or false, got ${describe(value)}`);
+    case 'number': {
+      if (typeof value !== 'number' || !Number.isFinite(value)) return issue(`expected a number, got ${describe(value)}`);
+      if (schema.integer && !Number.isInteger(value)) return issue(`expected a whole number, got ${value}`);
+      if (schema.min !== undefined && value < schema.min) return issue(`must be at least ${schema.min}, got ${value}`);
+      if (schema.max !== undefined && value > schema.max) return issue(`must be at most ${schema.max}, got ${value}`);
+      return [];
+    }
+    case 'literal':
+      return schema.values.includes(value as string | number)
+        ? []
+        : issue(`expected one of ${schema.values.map(v => JSON.stringify(v)).join(', ')}, got ${describe(value)}`);
+    case 'array': {
+      if (!Array.isArray(value)) return issue(`expected an array, got ${describe(value)}`);
+      if (schema.minItems !== undefined && value.length < schema.minItems) {
+        return issue(`expected at least ${schema.minItems} item${schema.minItems === 1 ? '' : 's'}, got ${value.length}`);
+      }
+      return value.flatMap((item, i) => validate(item, schema.items, childPath(path, i)));
+    }
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return issue(`expected an object, got ${describe(value)}`);
+      }
+      const record = value as Record<string, unknown>;
+      return Object.entries(schema.properties).flatMap(([key, propertySchema]) => {
+        if (record[key] === undefined) {
+          return schema.optional?.includes(key) ? [] : [{ path: childPath(path, key), message: 'is required' }];
+        }
+        return validate(record[key], propertySchema, childPath(path, key));
+      });
+    }
+    case 'union':
+      return schema.options.some(option => validate(value, option, path).length === 0)
+        ? []
+        : issue(`expected ${schema.description}, got ${describe(value)}`);
+  }
+};
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import type { Room } from '../types';
+import { getSnapTargets, snapBounds, snapPoint, snapToGrid } from './snapping';
+
+const room = (overrides: Partial<Room>): Room => ({
+  id: 'room',
+  name: 'Room',
+  x: 0,
+  y: 0,
+  width: 100,
+  height: 100,
+  color: '#E5E7EB',
+  zIndex: 0,
+  features: [],
+  levelId: 'level-1',
+  ...overrides,
+});
+
+const options = { gridSize: 10, tolerance: 8, enabled: true };
+
+describe('snapToGrid', () => {
+  it('rounds to the nearest grid line', () => {
+    expect(snapToGrid(14, 10)).toBe(10);
+    expect(snapToGrid(15, 10)).toBe(20);
+    expect(snapToGrid(-6, 10)).toBe(-10);
+  });
+});
+
+describe('getSnapTargets', () => {
+  it('offers the edges and center of each bounding box, spanning the other axis', () => {
+    const targets = getSnapTargets([room({ x: 100, y: 50, width: 200, height: 80 })]);
+    expect(targets.x).toEqual([
+      { value: 100, start: 50, end: 130 },
+      { value: 200, start: 50, end: 130 },
+      { value: 300, start: 50, end: 130 },
+    ]);
+    expect(targets.y.map(line => line.value)).toEqual([50, 90, 130]);
+  });
+
+  it('adds the corners of polygon rooms', () => {
+    const triangle = room({ shape: 'polygon', width: 100, height: 100, vertices: [{ x: 0, y: 0 }, { x: 100, y: 0 }, { x: 30, y: 100 }] });
+    expect(getSnapTargets([triangle]).x).toContainEqual({ value: 30, start: 100, end: 100 });
+  });
+});
+
+describe('snapBounds', () => {
+  const targets = getSnapTargets([room({ x: 0, y: 0, width: 100, height: 100 })]);
+
+  it('pulls an edge onto a nearby line and shows a guide covering both boxes', () => {
+    const { bounds, guides } = snapBounds({ x: 105, y: 203, width: 50, height: 50 }, targets, options);
+    expect(bounds).toEqual({ x: 100, y: 200, width: 50, height: 50 });
+    expect(guides).toEqual([{ axis: 'x', value: 100, start: 0, end: 250 }]);
+  });
+
+  it('lines up centers as well as edges', () => {
+    const { bounds, guides } = snapBounds({ x: 28, y: 300, width: 40, height: 40 }, targets, options);
+    expect(bounds.x).toBe(30);
+    expect(guides).toContainEqual({ axis: 'x', value: 50, start: 0, end: 340 });
+  });
+
+  it('puts the top-left corner on the grid when no line is in reach', () => {
+    const { bounds, guides } = snapBounds({ x: 234, y: 347, width: 50, height: 50 }, targets, options);
+    expect(bounds).toEqual({ x: 230, y: 350, width: 50, height: 50 });
+    expect(guides).toEqual([]);
+  });
+
+  it('only rounds to whole units, without guides, when snapping is off', () => {
+    const { bounds, guides } = snapBounds({ x: 104.6, y: 3.2, width: 50, height: 50 }, targets, { ...options, enabled: false });
+    expect(bounds).toEqual({ x: 105, y: 3, width: 50, height: 50 });
+    expect(guides).toEqual([]);
+  });
+});
+
+describe('snapPoint', () => {
+  it('snaps each axis on its own and guides from the line to the point', () => {
+    const targets = getSnapTargets([room({ x: 0, y: 0, width: 100, height: 100 })]);
+    const { point, guides } = snapPoint({ x: 96, y: 243 }, targets, options);
+    expect(point).toEqual({ x: 100, y: 240 });
+    expect(guides).toEqual([{ axis: 'x', value: 100, start: 0, end: 240 }]);
+  });
+});
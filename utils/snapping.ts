@@ -0,0 +1,109 @@
+import type { Point, Room } from '../types';
+import type { Bounds } from './geometry';
+import { getRoomBounds, getRoomOutline, isPolygonRoom } from './geometry';
+
+/** A line other geometry can snap to: x = value (or y = value), spanning start..end on the other axis. */
+export interface SnapLine {
+  value: number;
+  start: number;
+  end: number;
+}
+
+export interface SnapTargets {
+  x: SnapLine[];
+  y: SnapLine[];
+}
+
+/** An alignment guide; axis 'x' is a vertical line at x = value. */
+export interface SnapGuide {
+  axis: 'x' | 'y';
+  value: number;
+  start: number;
+  end: number;
+}
+
+export interface SnapOptions {
+  gridSize: number;
+  tolerance: number; // world units
+  enabled: boolean; // false while the modifier key is held
+}
+
+// Snapped positions within this distance of a line still count as lined up with it
+const ALIGNMENT_EPSILON = 0.5;
+
+export const snapToGrid = (value: number, gridSize: number) => Math.round(value / gridSize) * gridSize;
+
+/** Edges and centers of each room's bounding box, plus the corners of polygon rooms. */
+export const getSnapTargets = (rooms: Room[]): SnapTargets => {
+  const targets: SnapTargets = { x: [], y: [] };
+  rooms.forEach(room => {
+    const b = getRoomBounds(room);
+    [b.x, b.x + b.width / 2, b.x + b.width].forEach(value => targets.x.push({ value, start: b.y, end: b.y + b.height }));
+    [b.y, b.y + b.height / 2, b.y + b.height].forEach(value => targets.y.push({ value, start: b.x, end: b.x + b.width }));
+    if (isPolygonRoom(room)) {
+      getRoomOutline(room).forEach(p => {
+        targets.x.push({ value: p.x, start: p.y, end: p.y });
+        targets.y.push({ value: p.y, start: p.x, end: p.x });
+      });
+    }
+  });
+  return targets;
+};
+
+/**
+ * How far to shift along one axis so the closest of `values` lands on a line within tolerance.
+ * Without a line in reach the first value goes to the grid instead.
+ */
+const snapAxis = (values: number[], lines: SnapLine[], options: SnapOptions) => {
+  if (!options.enabled) return Math.round(values[0]) - values[0];
+  let best: number | null = null;
+  values.forEach(v => lines.forEach(line => {
+    const delta = line.value - v;
+    if (Math.abs(delta) <= options.tolerance && (best === null || Math.abs(delta) < Math.abs(best))) best = delta;
+  }));
+  return best ?? snapToGrid(values[0], options.gridSize) - values[0];
+};
+
+/** Guides for every line one of `values` sits on, stretched to cover both the line and `start..end`. */
+const getGuides = (axis: 'x' | 'y', values: number[], start: number, end: number, lines: SnapLine[]): SnapGuide[] => {
+  const guides = new Map<number, SnapGuide>();
+  values.forEach(v => lines.forEach(line => {
+    if (Math.abs(line.value - v) > ALIGNMENT_EPSILON) return;
+    const guide = guides.get(line.value) ?? { axis, value: line.value, start, end };
+    guides.set(line.value, { ...guide, start: Math.min(guide.start, line.start), end: Math.max(guide.end, line.end) });
+  }));
+  return [...guides.values()];
+};
+
+/** Snaps a moving box's edges or center to the targets, falling back to the grid for its top-left corner. */
+export const snapBounds = (bounds: Bounds, targets: SnapTargets, options: SnapOptions): { bounds: Bounds; guides: SnapGuide[] } => {
+  const xs = (x: number) => [x, x + bounds.width / 2, x + bounds.width];
+  const ys = (y: number) => [y, y + bounds.height / 2, y + bounds.height];
+  const x = bounds.x + snapAxis(xs(bounds.x), targets.x, options);
+  const y = bounds.y + snapAxis(ys(bounds.y), targets.y, options);
+  const snapped = { ...bounds, x, y };
+  if (!options.enabled) return { bounds: snapped, guides: [] };
+  return {
+    bounds: snapped,
+    guides: [
+      ...getGuides('x', xs(x), y, y + bounds.height, targets.x),
+      ...getGuides('y', ys(y), x, x + bounds.width, targets.y),
+    ],
+  };
+};
+
+/** Snaps a single point, such as a dragged corner or the end of a new room. */
+export const snapPoint = (point: Point, targets: SnapTargets, options: SnapOptions): { point: Point; guides: SnapGuide[] } => {
+  const snapped = {
+    x: point.x + snapAxis([point.x], targets.x, options),
+    y: point.y + snapAxis([point.y], targets.y, options),
+  };
+  if (!options.enabled) return { point: snapped, guides: [] };
+  return {
+    point: snapped,
+    guides: [
+      ...getGuides('x', [snapped.x], snapped.y, snapped.y, targets.x),
+      ...getGuides('y', [snapped.y], snapped.x, snapped.x, targets.y),
+    ],
+  };
+};
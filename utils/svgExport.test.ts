@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import type { Plan, Room } from '../types';
+import { DEFAULT_PLAN_SETTINGS } from './units';
+import { exportPlanSvg } from './svgExport';
+
+const room = (overrides: Partial<Room>): Room => ({
+  id: 'room',
+  name: 'Room',
+  x: 0,
+  y: 0,
+  width: 400,
+  height: 300,
+  color: '#E5E7EB',
+  zIndex: 0,
+  features: [],
+  levelId: 'ground',
+  ...overrides,
+});
+
+const plan = (overrides: Partial<Plan> = {}): Plan => ({
+  settings: DEFAULT_PLAN_SETTINGS,
+  levels: [
+    { id: 'ground', name: 'Ground Floor', elevation: 0, height: 270 },
+    { id: 'upper', name: 'Upper Floor', elevation: 270, height: 270 },
+  ],
+  rooms: [
+    room({ id: 'living', name: 'Living', color: '#FDE68A' }),
+    room({ id: 'bed', name: 'Bedroom', levelId: 'upper', x: 1000 }),
+  ],
+  dimensions: [],
+  materials: [],
+  ...overrides,
+});
+
+const group = (svg: string, id: string) => svg.match(new RegExp(`<g id="${id}"[^>]*>(.*?)</g>\\n`))?.[1] ?? null;
+
+describe('exportPlanSvg', () => {
+  it('gives the same output for the same plan', () => {
+    expect(exportPlanSvg(plan(), { levelId: 'ground', date: '2024-05-01' })).toBe(exportPlanSvg(plan(), { levelId: 'ground', date: '2024-05-01' }));
+  });
+
+  it('frames the level with the margin around it and room for the footer', () => {
+    const svg = exportPlanSvg(plan(), { levelId: 'ground', margin: 50 });
+    expect(svg).toContain('viewBox="-50 -50 500 480"');
+    expect(svg.startsWith('<?xml version="1.0" encoding="UTF-8"?>\n<svg xmlns="http://www.w3.org/2000/svg"')).toBe(true);
+  });
+
+  it('draws only the rooms on the chosen level, labelled with their size', () => {
+    const svg = exportPlanSvg(plan(), { levelId: 'ground' });
+    expect(group(svg, 'rooms')).toBe('<polygon points="0,0 400,0 400,300 0,300" fill="#FDE68A" fill-opacity="0.6"/>');
+    expect(svg).toContain('>Living</text>');
+    expect(svg).toContain('>4 m x 3 m</text>');
+    expect(svg).not.toContain('Bedroom');
+  });
+
+  it('escapes names and titles for XML', () => {
+    const svg = exportPlanSvg(plan({ rooms: [room({ name: 'Bed & <Bath>' })] }), { levelId: 'ground', title: '"Our" plan' });
+    expect(svg).toContain('>Bed &amp; &lt;Bath&gt;</text>');
+    expect(svg).toContain('<title>&quot;Our&quot; plan</title>');
+  });
+
+  it('dimensions the overall size when the plan has no dimension lines of its own', () => {
+    const dimensions = group(exportPlanSvg(plan(), { levelId: 'ground' }), 'dimensions');
+    expect(dimensions).toContain('>4 m</text>');
+    expect(dimensions).toContain('>3 m</text>');
+  });
+
+  it('draws the plan\'s own dimension lines instead when it has some', () => {
+    const pinned = plan({
+      dimensions: [{ id: 'd', levelId: 'ground', start: { x: 0, y: 0 }, end: { x: 250, y: 0 }, offset: 20 }],
+    });
+    const dimensions = group(exportPlanSvg(pinned, { levelId: 'ground' }), 'dimensions');
+    expect(dimensions).toContain('>2.5 m</text>');
+    expect(dimensions).not.toContain('>4 m</text>');
+  });
+
+  it('leaves out what the options turn off', () => {
+    const svg = exportPlanSvg(plan(), { levelId: 'ground', showTitleBlock: false, showScaleBar: false, showDimensions: false });
+    expect(group(svg, 'title-block')).toBeNull();
+    expect(group(svg, 'scale-bar')).toBeNull();
+    expect(group(svg, 'dimensions')).toBeNull();
+    expect(group(svg, 'grid')).toBeNull();
+    expect(svg).toContain('viewBox="-60 -60 520 420"');
+  });
+
+  it('fills the title block with the level, units and date', () => {
+    const block = group(exportPlanSvg(plan(), { levelId: 'ground', title: 'Cottage', date: '2024-05-01' }), 'title-block');
+    expect(block).toContain('>Cottage</text>');
+    expect(block).toContain('>Level: Ground Floor</text>');
+    expect(block).toContain('>Units: m</text>');
+    expect(block).toContain('>Date: 2024-05-01</text>');
+  });
+
+  it('draws a metre grid when asked', () => {
+    const grid = group(exportPlanSvg(plan(), { levelId: 'ground', showGrid: true, margin: 50 }), 'grid');
+    expect(grid).toContain('<line x1="0" y1="-50" x2="0" y2="350" />');
+    expect(grid).toContain('<line x1="-50" y1="300" x2="450" y2="300" />');
+  });
+});
@@ -0,0 +1,216 @@
+import type { Plan, Point, Room } from '../types';
+import { getRoomOutline, getPolygonLabelPoint, getPointsBounds, getRoomRotation } from './geometry';
+import type { Bounds } from './geometry';
+import { buildWallGraph, getWallPieces } from './walls';
+import { formatLength, metersToWorld } from './units';
+import { getDimensionGeometry } from './dimensions';
+import type { DimensionGeometry } from './dimensions';
+import { getFurnitureCenter, getFurnitureSymbol } from './furniture';
+import { getOpeningPlacement, getOpeningSymbol } from './openings';
+import { symbolShapeToSvg } from './symbols';
+
+export interface SvgExportOptions {
+  levelId: string;
+  title?: string;
+  date?: string; // passed in rather than read from the clock so output stays reproducible
+  showGrid?: boolean;
+  showTitleBlock?: boolean;
+  showScaleBar?: boolean;
+  showDimensions?: boolean;
+  margin?: number; // world units around the drawing
+}
+
+const TITLE_BLOCK_HEIGHT = 60;
+
+// Fixed precision and no negative zero, so the same plan always yields byte-identical output
+const num = (value: number) => {
+  const rounded = Math.round(value * 100) / 100;
+  return Object.is(rounded, -0) ? '0' : String(rounded);
+};
+
+const escapeXml = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+const pointsAttr = (points: Point[]) => points.map(p => `${num(p.x)},${num(p.y)}`).join(' ');
+
+const line = (a: Point, b: Point, attrs: string) =>
+  `<line x1="${num(a.x)}" y1="${num(a.y)}" x2="${num(b.x)}" y2="${num(b.y)}" ${attrs}/>`;
+
+const text = (p: Point, content: string, attrs: string) =>
+  `<text x="${num(p.x)}" y="${num(p.y)}" ${attrs}>${escapeXml(content)}</text>`;
+
+/** Picks a 1/2/5 x 10^n length (in meters) close to the target. */
+const niceMeters = (targetMeters: number) => {
+  const power = Math.pow(10, Math.floor(Math.log10(targetMeters)));
+  const fraction = targetMeters / power;
+  return (fraction >= 5 ? 5 : fraction >= 2 ? 2 : 1) * power;
+};
+
+const renderGrid = (bounds: Bounds, spacing: number) => {
+  const lines: string[] = [];
+  const startX = Math.ceil(bounds.x / spacing) * spacing;
+  const startY = Math.ceil(bounds.y / spacing) * spacing;
+  for (let x = startX; x <= bounds.x + bounds.width; x += spacing) {
+    lines.push(line({ x, y: bounds.y }, { x, y: bounds.y + bounds.height }, ''));
+  }
+  for (let y = startY; y <= bounds.y + bounds.height; y += spacing) {
+    lines.push(line({ x: bounds.x, y }, { x: bounds.x + bounds.width, y }, ''));
+  }
+  return `<g id="grid" stroke="#E5E7EB" stroke-width="0.5">${lines.join('')}</g>`;
+};
+
+const renderFeatures = (room: Room) => room.features.map(feature => {
+  const { center, angle, flip } = getOpeningPlacement(feature, room);
+  const stroke = feature.type === 'window' ? '#0369A1' : '#111827';
+  return `<g transform="translate(${num(center.x)} ${num(center.y)}) rotate(${num(angle)}) scale(1 ${flip})" fill="#FFFFFF" stroke="${stroke}" stroke-width="1">` +
+    getOpeningSymbol(feature).map(shape => symbolShapeToSvg(shape, num)).join('') +
+    `</g>`;
+}).join('');
+
+const renderFurniture = (room: Room) => (room.furniture ?? []).map(item => {
+  const c = getFurnitureCenter(item, room);
+  const shapes = getFurnitureSymbol(item.kind, item.width, item.depth).map(shape => symbolShapeToSvg(shape, num)).join('');
+  return `<g transform="translate(${num(c.x)} ${num(c.y)}) rotate(${num(item.rotation + getRoomRotation(room))}) translate(${num(-item.width / 2)} ${num(-item.depth / 2)})">${shapes}</g>`;
+}).join('');
+
+const renderDimension = (a: Point, b: Point, offset: Point, label: string) =>
+  renderDimensionLine(a, b, { x: a.x + offset.x, y: a.y + offset.y }, { x: b.x + offset.x, y: b.y + offset.y }, label);
+
+const renderDimensionLine = (a: Point, b: Point, a2: Point, b2: Point, label: string) => {
+  const mid = { x: (a2.x + b2.x) / 2, y: (a2.y + b2.y) / 2 };
+  const vertical = Math.abs(b2.x - a2.x) < Math.abs(b2.y - a2.y);
+  const tick = 4;
+  return line(a, a2, 'stroke="#9CA3AF" stroke-width="0.5"') +
+    line(b, b2, 'stroke="#9CA3AF" stroke-width="0.5"') +
+    line(a2, b2, 'stroke="#374151" stroke-width="0.75"') +
+    line({ x: a2.x - tick, y: a2.y + tick }, { x: a2.x + tick, y: a2.y - tick }, 'stroke="#374151" stroke-width="0.75"') +
+    line({ x: b2.x - tick, y: b2.y + tick }, { x: b2.x + tick, y: b2.y - tick }, 'stroke="#374151" stroke-width="0.75"') +
+    text(
+      vertical ? { x: mid.x - 4, y: mid.y } : { x: mid.x, y: mid.y - 4 },
+      label,
+      `font-size="10" text-anchor="middle"${vertical ? ` transform="rotate(-90 ${num(mid.x - 4)} ${num(mid.y)})"` : ''}`,
+    );
+};
+
+/**
+ * Renders one level of the plan as a standalone SVG drawing: room fills, single-line walls
+ * with openings, door and window symbols, labels, overall dimensions and optional grid,
+ * scale bar and title block. The output depends only on its inputs.
+ */
+export const exportPlanSvg = (plan: Plan, options: SvgExportOptions): string => {
+  const {
+    levelId,
+    title = 'Home Plan',
+    date,
+    showGrid = false,
+    showTitleBlock = true,
+    showScaleBar = true,
+    showDimensions = true,
+    margin = 60,
+  } = options;
+  const { settings } = plan;
+  const level = plan.levels.find(l => l.id === levelId);
+  const rooms = plan.rooms
+    .filter(r => r.levelId === levelId)
+    .map((room, index) => ({ room, index }))
+    .sort((a, b) => (a.room.zIndex - b.room.zIndex) || (a.index - b.index))
+    .map(({ room }) => room);
+
+  const outlines = rooms.map(getRoomOutline);
+  const planBounds = outlines.length > 0
+    ? getPointsBounds(outlines.flat())
+    : { x: 0, y: 0, width: metersToWorld(5, settings), height: metersToWorld(5, settings) };
+  const footer = showTitleBlock || showScaleBar ? TITLE_BLOCK_HEIGHT + 20 : 0;
+  const view: Bounds = {
+    x: planBounds.x - margin,
+    y: planBounds.y - margin,
+    width: Math.max(planBounds.width + margin * 2, 320),
+    height: planBounds.height + margin * 2 + footer,
+  };
+
+  const parts: string[] = [];
+  parts.push(`<rect x="${num(view.x)}" y="${num(view.y)}" width="${num(view.width)}" height="${num(view.height)}" fill="#FFFFFF"/>`);
+
+  if (showGrid) {
+    const spacing = metersToWorld(settings.unit === 'ft-in' ? 0.3048 : 1, settings);
+    parts.push(renderGrid({ ...view, height: view.height - footer }, spacing));
+  }
+
+  parts.push(`<g id="rooms">${rooms.map((room, i) =>
+    `<polygon points="${pointsAttr(outlines[i])}" fill="${escapeXml(room.color)}" fill-opacity="0.6"/>`).join('')}</g>`);
+
+  parts.push(`<g id="furniture" fill="#FFFFFF" stroke="#4B5563" stroke-width="0.75">${rooms.map(renderFurniture).join('')}</g>`);
+
+  const walls = buildWallGraph(rooms);
+  parts.push(`<g id="walls" stroke-linecap="square">${walls.map(wall => getWallPieces(wall).map(piece =>
+    line(piece.start, piece.end, `stroke="#111827" stroke-width="${wall.kind === 'exterior' ? 4 : 2}"`)).join('')).join('')}</g>`);
+
+  parts.push(`<g id="openings">${rooms.map(renderFeatures).join('')}</g>`);
+
+  parts.push(`<g id="labels" font-family="Helvetica, Arial, sans-serif" fill="#111827">${rooms.map((room, i) => {
+    const p = getPolygonLabelPoint(outlines[i]);
+    const size = `${formatLength(room.width, settings)} x ${formatLength(room.height, settings)}`;
+    return text({ x: p.x, y: p.y - 2 }, room.name, 'font-size="12" font-weight="bold" text-anchor="middle"') +
+      text({ x: p.x, y: p.y + 12 }, size, 'font-size="10" text-anchor="middle" fill="#4B5563"');
+  }).join('')}</g>`);
+
+  // The plan's own dimension lines when it has any, otherwise overall width and depth
+  const roomsById = new Map(rooms.map(r => [r.id, r]));
+  const pinned = plan.dimensions
+    .filter(d => d.levelId === levelId)
+    .map(d => getDimensionGeometry(d, roomsById))
+    .filter((g): g is DimensionGeometry => g !== null);
+  if (showDimensions && pinned.length > 0) {
+    parts.push(`<g id="dimensions" font-family="Helvetica, Arial, sans-serif" fill="#374151">` +
+      pinned.map(g => renderDimensionLine(g.from, g.to, g.lineStart, g.lineEnd, formatLength(g.length, settings))).join('') +
+      `</g>`);
+  } else if (showDimensions && rooms.length > 0) {
+    const { x, y, width, height } = planBounds;
+    parts.push(`<g id="dimensions" font-family="Helvetica, Arial, sans-serif" fill="#374151">` +
+      renderDimension({ x, y }, { x: x + width, y }, { x: 0, y: -margin / 2 }, formatLength(width, settings)) +
+      renderDimension({ x, y }, { x, y: y + height }, { x: -margin / 2, y: 0 }, formatLength(height, settings)) +
+      `</g>`);
+  }
+
+  const footerTop = view.y + view.height - footer + 10;
+  if (showScaleBar) {
+    const meters = niceMeters(Math.max(planBounds.width, 1) / settings.worldUnitsPerMeter / 4);
+    const length = metersToWorld(meters, settings);
+    const x0 = view.x + 20;
+    const y0 = footerTop + 30;
+    const segments = [0, 1, 2, 3].map(i =>
+      `<rect x="${num(x0 + (length / 4) * i)}" y="${num(y0)}" width="${num(length / 4)}" height="6" fill="${i % 2 === 0 ? '#111827' : '#FFFFFF'}" stroke="#111827" stroke-width="0.75"/>`).join('');
+    parts.push(`<g id="scale-bar" font-family="Helvetica, Arial, sans-serif" fill="#111827">${segments}` +
+      text({ x: x0, y: y0 - 4 }, '0', 'font-size="9" text-anchor="middle"') +
+      text({ x: x0 + length, y: y0 - 4 }, formatLength(length, settings), 'font-size="9" text-anchor="middle"') +
+      `</g>`);
+  }
+
+  if (showTitleBlock) {
+    const blockWidth = 220;
+    const bx = view.x + view.width - blockWidth - 10;
+    const by = footerTop;
+    const rows = [
+      level ? `Level: ${level.name}` : '',
+      `Units: ${settings.unit}`,
+      date ? `Date: ${date}` : '',
+    ].filter(Boolean);
+    parts.push(`<g id="title-block" font-family="Helvetica, Arial, sans-serif" fill="#111827">` +
+      `<rect x="${num(bx)}" y="${num(by)}" width="${blockWidth}" height="${TITLE_BLOCK_HEIGHT}" fill="#FFFFFF" stroke="#111827" stroke-width="1"/>` +
+      text({ x: bx + 8, y: by + 18 }, title, 'font-size="14" font-weight="bold"') +
+      rows.map((row, i) => text({ x: bx + 8, y: by + 32 + i * 12 }, row, 'font-size="9"')).join('') +
+      `</g>`);
+  }
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="${num(view.x)} ${num(view.y)} ${num(view.width)} ${num(view.height)}" width="${num(view.width)}" height="${num(view.height)}">`,
+    `<title>${escapeXml(title)}</title>`,
+    ...parts,
+    `</svg>`,
+    '',
+  ].join('\n');
+};
@@ -0,0 +1,36 @@
+/**
+ * Plan symbols (furniture, door swings, window frames) are described as plain shapes in the
+ * symbol's own frame, so the canvas and the SVG export draw them from the same data.
+ */
+export type SymbolShape =
+  | { type: 'rect'; x: number; y: number; width: number; height: number; radius?: number; filled?: boolean }
+  | { type: 'ellipse'; cx: number; cy: number; rx: number; ry: number }
+  | { type: 'line'; x1: number; y1: number; x2: number; y2: number; dashed?: boolean }
+  | { type: 'arc'; x1: number; y1: number; x2: number; y2: number; radius: number; sweep: 0 | 1; dashed?: boolean };
+
+export const rect = (x: number, y: number, width: number, height: number, radius?: number): SymbolShape => ({ type: 'rect', x, y, width, height, radius });
+export const ellipse = (cx: number, cy: number, rx: number, ry: number): SymbolShape => ({ type: 'ellipse', cx, cy, rx, ry });
+export const line = (x1: number, y1: number, x2: number, y2: number, dashed?: boolean): SymbolShape => ({ type: 'line', x1, y1, x2, y2, dashed });
+
+/** A circular arc from (x1, y1) to (x2, y2); sweep 1 runs clockwise on screen. */
+export const arc = (x1: number, y1: number, x2: number, y2: number, radius: number, sweep: 0 | 1, dashed?: boolean): SymbolShape =>
+  ({ type: 'arc', x1, y1, x2, y2, radius, sweep, dashed });
+
+export const DASH_PATTERN = '3 2';
+
+/** SVG markup for a shape, with numbers written by `num` so exports stay reproducible. */
+export const symbolShapeToSvg = (shape: SymbolShape, num: (value: number) => string) => {
+  switch (shape.type) {
+    case 'rect':
+      return `<rect x="${num(shape.x)}" y="${num(shape.y)}" width="${num(shape.width)}" height="${num(shape.height)}"${shape.radius ? ` rx="${num(shape.radius)}"` : ''}${shape.filled === false ? ' fill="none"' : ''}/>`;
+    case 'ellipse':
+      return `<ellipse cx="${num(shape.cx)}" cy="${num(shape.cy)}" rx="${num(shape.rx)}" ry="${num(shape.ry)}"/>`;
+    case 'line':
+      return `<line x1="${num(shape.x1)}" y1="${num(shape.y1)}" x2="${num(shape.x2)}" y2="${num(shape.y2)}"${shape.dashed ? ` stroke-dasharray="${DASH_PATTERN}"` : ''}/>`;
+    case 'arc':
+      return `<path d="${getArcPath(shape, num)}" fill="none"${shape.dashed ? ` stroke-dasharray="${DASH_PATTERN}"` : ''}/>`;
+  }
+};
+
+export const getArcPath = (shape: Extract<SymbolShape, { type: 'arc' }>, num: (value: number) => string = String) =>
+  `M ${num(shape.x1)} ${num(shape.y1)} A ${num(shape.radius)} ${num(shape.radius)} 0 0 ${shape.sweep} ${num(shape.x2)} ${num(shape.y2)}`;
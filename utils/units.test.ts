@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import type { PlanSettings } from '../types';
+import { DEFAULT_PLAN_SETTINGS, formatArea, formatLength, parseLength, roundLength } from './units';
+
+const metric = DEFAULT_PLAN_SETTINGS;
+const imperial: PlanSettings = { ...DEFAULT_PLAN_SETTINGS, unit: 'ft-in' };
+
+describe('parseLength', () => {
+  it('reads a bare number in the plan unit', () => {
+    expect(parseLength('2.5', metric)).toBeCloseTo(250);
+    expect(parseLength('40', { ...metric, unit: 'cm' })).toBeCloseTo(40);
+    expect(parseLength('10', imperial)).toBeCloseTo(304.8);
+  });
+
+  it('lets an explicit unit override the plan unit', () => {
+    expect(parseLength('250cm', metric)).toBeCloseTo(250);
+    expect(parseLength('2.5 m', metric)).toBeCloseTo(250);
+    expect(parseLength('1200 MM', metric)).toBeCloseTo(120);
+    expect(parseLength('.5m', metric)).toBeCloseTo(50);
+    expect(parseLength('3 ft', metric)).toBeCloseTo(91.44);
+  });
+
+  it('adds up feet and inches in their usual spellings', () => {
+    expect(parseLength(`12'6"`, imperial)).toBeCloseTo(381);
+    expect(parseLength(`12' 6"`, imperial)).toBeCloseTo(381);
+    expect(parseLength('12ft 6in', imperial)).toBeCloseTo(381);
+    expect(parseLength('12 feet 6 inches', imperial)).toBeCloseTo(381);
+    expect(parseLength('12′6″', imperial)).toBeCloseTo(381);
+    expect(parseLength('6"', imperial)).toBeCloseTo(15.24);
+  });
+
+  it('reads a bare number after feet as inches', () => {
+    expect(parseLength(`12'6`, imperial)).toBeCloseTo(381);
+  });
+
+  it('reads a hyphen between feet and inches as a separator', () => {
+    expect(parseLength(`12'-6"`, imperial)).toBeCloseTo(381);
+    expect(parseLength('12 ft - 6 in', imperial)).toBeCloseTo(381);
+  });
+
+  it('keeps the sign of negative lengths, applying it to every part', () => {
+    expect(parseLength('-2 m', metric)).toBeCloseTo(-200);
+    expect(parseLength(`-12'6"`, imperial)).toBeCloseTo(-381);
+  });
+
+  it('rejects parts that repeat a unit, grow in size or have no unit', () => {
+    expect(parseLength('2m 3m', metric)).toBeNull();
+    expect(parseLength('6in 2ft', imperial)).toBeNull();
+    expect(parseLength('2 3', metric)).toBeNull();
+    expect(parseLength('2m 30', metric)).toBeNull();
+    expect(parseLength(`12'6 1`, imperial)).toBeNull();
+    expect(parseLength(`12'-`, imperial)).toBeNull();
+  });
+
+  it('rejects text that is not a length', () => {
+    expect(parseLength('', metric)).toBeNull();
+    expect(parseLength('   ', metric)).toBeNull();
+    expect(parseLength('abc', metric)).toBeNull();
+    expect(parseLength('2 m wide', metric)).toBeNull();
+    expect(parseLength('2 yd', metric)).toBeNull();
+  });
+});
+
+describe('roundLength', () => {
+  it('rounds to the plan precision in the unit lengths are shown in', () => {
+    expect(roundLength(123.456, metric)).toBeCloseTo(123);
+    expect(roundLength(123.456, { ...metric, unit: 'mm', precision: 0 })).toBeCloseTo(123.5);
+    expect(roundLength(100, { ...imperial, precision: 0 })).toBeCloseTo(99.06);
+  });
+});
+
+describe('formatLength', () => {
+  it('writes metric lengths without trailing zeros', () => {
+    expect(formatLength(300, metric)).toBe('3 m');
+    expect(formatLength(251, metric)).toBe('2.51 m');
+    expect(formatLength(251, { ...metric, unit: 'mm' })).toBe('2510 mm');
+  });
+
+  it('writes imperial lengths in feet and inches, carrying 12" into a foot', () => {
+    expect(formatLength(381, imperial)).toBe(`12' 6"`);
+    expect(formatLength(15.24, imperial)).toBe('6"');
+    expect(formatLength(60.9599, { ...imperial, precision: 0 })).toBe(`2' 0"`);
+  });
+});
+
+describe('formatArea', () => {
+  it('uses square metres or square feet', () => {
+    expect(formatArea(400 * 300, metric)).toBe('12 m²');
+    expect(formatArea(304.8 * 304.8, imperial)).toBe('100 ft²');
+  });
+});
@@ -0,0 +1,148 @@
+import type { LengthUnit, PlanSettings } from '../types';
+
+export const DEFAULT_PLAN_SETTINGS: PlanSettings = {
+  unit: 'm',
+  worldUnitsPerMeter: 100,
+  precision: 2,
+  gridSize: 10,
+  majorGridEvery: 10,
+};
+
+export const LENGTH_UNITS: { value: LengthUnit; label: string }[] = [
+  { value: 'mm', label: 'Millimeters (mm)' },
+  { value: 'cm', label: 'Centimeters (cm)' },
+  { value: 'm', label: 'Meters (m)' },
+  { value: 'ft-in', label: 'Feet & inches (ft-in)' },
+];
+
+const METERS_PER_UNIT: Record<string, number> = {
+  mm: 0.001,
+  cm: 0.01,
+  m: 1,
+  ft: 0.3048,
+  in: 0.0254,
+};
+
+const INCHES_PER_FOOT = 12;
+
+export const worldToMeters = (value: number, settings: PlanSettings) => value / settings.worldUnitsPerMeter;
+export const metersToWorld = (meters: number, settings: PlanSettings) => meters * settings.worldUnitsPerMeter;
+
+const trimNumber = (value: number, precision: number) => {
+  // toFixed keeps trailing zeros, which makes "3.00 m" noisier than it needs to be
+  const fixed = value.toFixed(Math.max(0, precision));
+  return fixed.includes('.') ? fixed.replace(/\.?0+$/, '') : fixed;
+};
+
+const formatFeetInches = (meters: number, precision: number) => {
+  const sign = meters < 0 ? '-' : '';
+  const totalInches = Math.abs(meters) / METERS_PER_UNIT.in;
+  const step = Math.pow(10, -Math.max(0, precision));
+  let feet = Math.floor(totalInches / INCHES_PER_FOOT);
+  let inches = Math.round((totalInches - feet * INCHES_PER_FOOT) / step) * step;
+  if (inches >= INCHES_PER_FOOT) {
+    feet += 1;
+    inches -= INCHES_PER_FOOT;
+  }
+  const inchText = trimNumber(inches, precision);
+  if (feet === 0) return `${sign}${inchText}"`;
+  return `${sign}${feet}' ${inchText}"`;
+};
+
+/** Formats a length given in world units for display, e.g. `3 m` or `12' 6"`. */
+export const formatLength = (value: number, settings: PlanSettings): string => {
+  const meters = worldToMeters(value, settings);
+  if (settings.unit === 'ft-in') return formatFeetInches(meters, settings.precision);
+  return `${trimNumber(meters / METERS_PER_UNIT[settings.unit], settings.precision)} ${settings.unit}`;
+};
+
+/** Formats an area given in square world units as m² (metric) or ft² (imperial). */
+export const formatArea = (value: number, settings: PlanSettings): string => {
+  const squareMeters = value / (settings.worldUnitsPerMeter * settings.worldUnitsPerMeter);
+  if (settings.unit === 'ft-in') {
+    return `${trimNumber(squareMeters / (METERS_PER_UNIT.ft * METERS_PER_UNIT.ft), settings.precision)} ft²`;
+  }
+  return `${trimNumber(squareMeters, settings.precision)} m²`;
+};
+
+const LENGTH_PART = /(\d*\.?\d+)\s*(mm|cm|m|feet|foot|ft|inches|inch|in|'|"|′|″)?/y;
+const LENGTH_SEPARATOR = /\s*(-\s*)?/y;
+
+const UNIT_ALIASES: Record<string, string> = {
+  feet: 'ft', foot: 'ft', "'": 'ft', '′': 'ft',
+  inch: 'in', inches: 'in', '"': 'in', '″': 'in',
+};
+
+/**
+ * Parses user-entered length text into world units.
+ * A bare number is read in the plan's unit (feet for imperial plans); explicit suffixes
+ * such as `250cm`, `2.5 m`, `12'6"`, `12'-6"` or `12ft 6in` override it. A length may have
+ * several parts, each in a smaller unit than the one before (`1m 20cm`); a bare number is
+ * only allowed alone or as the inches after feet (`12'6`). A minus sign goes at the very
+ * front; elsewhere a hyphen just separates parts. Returns null if the text is not a length.
+ */
+export const parseLength = (text: string, settings: PlanSettings): number | null => {
+  const input = text.trim().toLowerCase();
+  const negative = input.startsWith('-');
+  const body = negative ? input.slice(1).trimStart() : input;
+  if (!body) return null;
+
+  const defaultUnit = settings.unit === 'ft-in' ? 'ft' : settings.unit;
+  let meters = 0;
+  let previousUnit: string | null = null;
+  let bare = false;
+  LENGTH_PART.lastIndex = 0;
+
+  while (LENGTH_PART.lastIndex < body.length) {
+    if (bare) return null; // nothing may follow a bare number
+    const match = LENGTH_PART.exec(body);
+    if (!match) return null;
+    const value = parseFloat(match[1]);
+    if (isNaN(value)) return null;
+    let unit: string;
+    if (match[2]) {
+      unit = UNIT_ALIASES[match[2]] ?? match[2];
+    } else {
+      // A bare trailing number after feet means inches, as in 12'6
+      if (previousUnit !== null && previousUnit !== 'ft') return null;
+      unit = previousUnit === 'ft' ? 'in' : defaultUnit;
+      bare = true;
+    }
+    if (previousUnit !== null && METERS_PER_UNIT[unit] >= METERS_PER_UNIT[previousUnit]) return null;
+    meters += value * METERS_PER_UNIT[unit];
+    previousUnit = unit;
+    // allow whitespace or a hyphen between parts, e.g. 12' 6" or 12'-6"
+    LENGTH_SEPARATOR.lastIndex = LENGTH_PART.lastIndex;
+    const gap = LENGTH_SEPARATOR.exec(body)[0];
+    if (gap.includes('-') && LENGTH_PART.lastIndex + gap.length === body.length) return null;
+    LENGTH_PART.lastIndex += gap.length;
+  }
+
+  return metersToWorld(negative ? -meters : meters, settings);
+};
+
+/** A length in world units rounded to the plan's precision in the unit it is shown in (inches for imperial plans). */
+export const roundLength = (value: number, settings: PlanSettings) => {
+  const unitMeters = METERS_PER_UNIT[settings.unit === 'ft-in' ? 'in' : settings.unit];
+  return metersToWorld(roundTo(worldToMeters(value, settings) / unitMeters, settings.precision) * unitMeters, settings);
+};
+
+/** Unit label for plain numeric length columns (imperial plans use decimal feet). */
+export const getLengthUnitLabel = (settings: PlanSettings) => settings.unit === 'ft-in' ? 'ft' : settings.unit;
+
+export const getAreaUnitLabel = (settings: PlanSettings) => settings.unit === 'ft-in' ? 'ft²' : 'm²';
+
+/** A world length as a plain number in the plan's unit, for tables and spreadsheets. */
+export const convertLength = (value: number, settings: PlanSettings) =>
+  worldToMeters(value, settings) / METERS_PER_UNIT[getLengthUnitLabel(settings)];
+
+/** A world area as a plain number in m² or ft². */
+export const convertArea = (value: number, settings: PlanSettings) => {
+  const squareMeters = value / (settings.worldUnitsPerMeter * settings.worldUnitsPerMeter);
+  return settings.unit === 'ft-in' ? squareMeters / (METERS_PER_UNIT.ft * METERS_PER_UNIT.ft) : squareMeters;
+};
+
+export const roundTo = (value: number, precision: number) => {
+  const factor = Math.pow(10, Math.max(0, precision));
+  return Math.round(value * factor) / factor;
+};
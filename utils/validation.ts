@@ -0,0 +1,234 @@
+import type { Plan, Room, WallFeature } from '../types';
+import { getFeatureWall, getRoomBounds, getRoomOutline, getUnionArea, boundsIntersect, segmentLength } from './geometry';
+import { buildWallGraph, getFeatureConnections } from './walls';
+import { getRoomArea } from './schedule';
+import { sortLevels } from './levels';
+import { formatLength, formatArea, metersToWorld } from './units';
+import { getWindowHeights } from './openings';
+import { getRoomTypeSpec } from './roomTypes';
+import type { RuleSet } from './roomRules';
+
+export type IssueSeverity = 'error' | 'warning' | 'info';
+
+export type IssueCheck =
+  | 'zero-size-room'
+  | 'room-overlap'
+  | 'opening-exceeds-wall'
+  | 'opening-past-wall-end'
+  | 'overlapping-openings'
+  | 'door-to-nowhere'
+  | 'room-rule';
+
+export interface PlanIssue {
+  id: string; // stable across runs, so the panel can keep track of the clicked issue
+  check: IssueCheck;
+  severity: IssueSeverity;
+  message: string;
+  levelId: string;
+  roomIds: string[];
+  featureIds: string[];
+}
+
+export const SEVERITY_ORDER: IssueSeverity[] = ['error', 'warning', 'info'];
+
+// Overlaps smaller than this many square world units are rounding noise, not a drawing mistake
+const MIN_OVERLAP_AREA = 1;
+const EPSILON = 1e-6;
+// Openings closer than this to a corner leave no room for a frame
+const MIN_CORNER_CLEARANCE = 0.05; // meters
+
+const describeFeature = (feature: WallFeature, room: Room) =>
+  `${feature.type === 'door' ? 'Door' : 'Window'} in "${room.name}"`;
+
+const checkRooms = (rooms: Room[], plan: Plan): PlanIssue[] => {
+  const issues: PlanIssue[] = [];
+  rooms.forEach(room => {
+    if (getRoomArea(room) < MIN_OVERLAP_AREA) {
+      issues.push({
+        id: `zero-size-room:${room.id}`,
+        check: 'zero-size-room',
+        severity: 'error',
+        message: `"${room.name}" has no floor area`,
+        levelId: room.levelId,
+        roomIds: [room.id],
+        featureIds: [],
+      });
+    }
+  });
+
+  const bounds = rooms.map(getRoomBounds);
+  rooms.forEach((a, i) => {
+    rooms.slice(i + 1).forEach((b, k) => {
+      const j = i + 1 + k;
+      if (a.levelId !== b.levelId || !boundsIntersect(bounds[i], bounds[j])) return;
+      const outlineA = getRoomOutline(a);
+      const outlineB = getRoomOutline(b);
+      const overlap = getUnionArea([outlineA]) + getUnionArea([outlineB]) - getUnionArea([outlineA, outlineB]);
+      if (overlap < MIN_OVERLAP_AREA) return;
+      issues.push({
+        id: `room-overlap:${a.id}:${b.id}`,
+        check: 'room-overlap',
+        severity: 'warning',
+        message: `"${a.name}" and "${b.name}" overlap by ${formatArea(overlap, plan.settings)}`,
+        levelId: a.levelId,
+        roomIds: [a.id, b.id],
+        featureIds: [],
+      });
+    });
+  });
+  return issues;
+};
+
+const checkFeatures = (rooms: Room[], plan: Plan): PlanIssue[] => {
+  const issues: PlanIssue[] = [];
+  const clearance = metersToWorld(MIN_CORNER_CLEARANCE, plan.settings);
+  rooms.forEach(room => room.features.forEach(feature => {
+    const length = segmentLength(getFeatureWall(feature, room));
+    const subject = { levelId: room.levelId, roomIds: [room.id], featureIds: [feature.id] };
+    if (feature.width > length + EPSILON) {
+      issues.push({
+        ...subject,
+        id: `opening-exceeds-wall:${feature.id}`,
+        check: 'opening-exceeds-wall',
+        severity: 'error',
+        message: `${describeFeature(feature, room)} is ${formatLength(feature.width, plan.settings)} wide on a ${formatLength(length, plan.settings)} wall`,
+      });
+      return;
+    }
+    const half = length > 0 ? feature.width / 2 / length : 0;
+    if (feature.position - half < -EPSILON || feature.position + half > 1 + EPSILON) {
+      issues.push({
+        ...subject,
+        id: `opening-past-wall-end:${feature.id}`,
+        check: 'opening-past-wall-end',
+        severity: 'error',
+        message: `${describeFeature(feature, room)} runs past the end of its wall`,
+      });
+    } else if (Math.min(feature.position - half, 1 - feature.position - half) * length < clearance - EPSILON) {
+      issues.push({
+        ...subject,
+        id: `opening-past-wall-end:${feature.id}`,
+        check: 'opening-past-wall-end',
+        severity: 'info',
+        message: `${describeFeature(feature, room)} sits tight against a corner`,
+      });
+    }
+  }));
+  return issues;
+};
+
+/** Openings sharing a stretch of wall, whether they belong to one room or to neighbours. */
+const checkWalls = (rooms: Room[], plan: Plan): PlanIssue[] => {
+  const issues = new Map<string, PlanIssue>();
+  const features = new Map(rooms.flatMap(room => room.features.map(f => [f.id, { feature: f, room }] as const)));
+  const lowestLevelId = sortLevels(plan.levels)[0]?.id;
+
+  plan.levels.forEach(level => {
+    const walls = buildWallGraph(rooms.filter(r => r.levelId === level.id));
+
+    walls.forEach(wall => wall.openings.forEach((a, i) => wall.openings.slice(i + 1).forEach(b => {
+      if (a.featureId === b.featureId || b.start >= a.end - EPSILON) return;
+      const [first, second] = [a.featureId, b.featureId].sort();
+      const id = `overlapping-openings:${first}:${second}`;
+      if (issues.has(id)) return;
+      const fa = features.get(a.featureId);
+      const fb = features.get(b.featureId);
+      issues.set(id, {
+        id,
+        check: 'overlapping-openings',
+        severity: 'error',
+        message: `${describeFeature(fa.feature, fa.room)} overlaps the ${fb.feature.type} in "${fb.room.name}"`,
+        levelId: level.id,
+        roomIds: [...new Set([fa.room.id, fb.room.id])],
+        featureIds: [a.featureId, b.featureId],
+      });
+    })));
+
+    Object.entries(getFeatureConnections(walls)).forEach(([featureId, connection]) => {
+      const { feature, room } = features.get(featureId);
+      if (feature.type !== 'door' || !connection.exterior) return;
+      const subject = { levelId: level.id, roomIds: [room.id], featureIds: [featureId] };
+      if (connection.roomIds.length > 1) {
+        // Part of the door is on a shared wall and part opens onto the outside
+        issues.set(`door-to-nowhere:${featureId}`, {
+          ...subject,
+          id: `door-to-nowhere:${featureId}`,
+          check: 'door-to-nowhere',
+          severity: 'warning',
+          message: `${describeFeature(feature, room)} only partly opens into the next room`,
+        });
+      } else if (level.id !== lowestLevelId) {
+        issues.set(`door-to-nowhere:${featureId}`, {
+          ...subject,
+          id: `door-to-nowhere:${featureId}`,
+          check: 'door-to-nowhere',
+          severity: 'warning',
+          message: `${describeFeature(feature, room)} opens onto the outside on "${level.name}"`,
+        });
+      }
+    });
+  });
+  return [...issues.values()];
+};
+
+/** Rooms that fall short of what the rule set asks of their type. Untyped rooms are not checked. */
+export const checkRoomRules = (plan: Plan, ruleSet: RuleSet): PlanIssue[] => {
+  const issues: PlanIssue[] = [];
+  const { settings } = plan;
+  const squareMeters = (value: number) => value * settings.worldUnitsPerMeter * settings.worldUnitsPerMeter;
+
+  plan.levels.forEach(level => {
+    const levelRooms = plan.rooms.filter(r => r.levelId === level.id);
+    const connections = getFeatureConnections(buildWallGraph(levelRooms));
+    const doorRoomIds = new Set(levelRooms.flatMap(room => room.features
+      .filter(f => f.type === 'door')
+      .flatMap(f => connections[f.id]?.roomIds ?? [room.id])));
+
+    levelRooms.forEach(room => {
+      const rule = room.type && ruleSet.rules[room.type];
+      if (!rule) return;
+      const kind = getRoomTypeSpec(room.type).label.toLowerCase();
+      const fail = (key: string, message: string, featureIds: string[] = []) => issues.push({
+        id: `room-rule:${key}:${room.id}`,
+        check: 'room-rule',
+        severity: 'warning',
+        message,
+        levelId: level.id,
+        roomIds: [room.id],
+        featureIds,
+      });
+
+      const area = getRoomArea(room);
+      if (rule.minArea !== undefined && area < squareMeters(rule.minArea) - EPSILON) {
+        fail('min-area', `"${room.name}" is ${formatArea(area, settings)}; a ${kind} needs at least ${formatArea(squareMeters(rule.minArea), settings)}`);
+      }
+      const narrowest = Math.min(room.width, room.height);
+      if (rule.minDimension !== undefined && narrowest < metersToWorld(rule.minDimension, settings) - EPSILON) {
+        fail('min-dimension', `"${room.name}" is ${formatLength(narrowest, settings)} across; a ${kind} needs at least ${formatLength(metersToWorld(rule.minDimension, settings), settings)}`);
+      }
+      if (rule.requiresDoor && !doorRoomIds.has(room.id)) {
+        fail('door', `"${room.name}" has no door; a ${kind} needs one`);
+      }
+      const windows = room.features.filter(f => f.type === 'window');
+      if (rule.requiresWindow && windows.length === 0) {
+        fail('window', `"${room.name}" has no window; a ${kind} needs one`);
+      }
+      if (rule.egressWindow) {
+        const minWidth = metersToWorld(rule.egressWindow.minWidth, settings);
+        const maxSill = metersToWorld(rule.egressWindow.maxSillHeight, settings);
+        const egress = windows.some(w => connections[w.id]?.exterior && w.width >= minWidth - EPSILON && getWindowHeights(w, settings).sill <= maxSill + EPSILON);
+        if (!egress) {
+          fail('egress', `"${room.name}" has no egress window; a ${kind} needs an outside window at least ${formatLength(minWidth, settings)} wide with its sill no higher than ${formatLength(maxSill, settings)}`, windows.map(w => w.id));
+        }
+      }
+    });
+  });
+  return issues;
+};
+
+/** Every problem found in the plan, most severe first, including rule checks when a rule set is given. */
+export const validatePlan = (plan: Plan, ruleSet?: RuleSet): PlanIssue[] => {
+  const rooms = plan.rooms;
+  return [...checkRooms(rooms, plan), ...checkFeatures(rooms, plan), ...checkWalls(rooms, plan), ...(ruleSet ? checkRoomRules(plan, ruleSet) : [])]
+    .sort((a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity));
+};
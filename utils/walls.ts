@@ -0,0 +1,191 @@
+import type { Room, Point, WallFeature } from '../types';
+import { getRoomOutline, getFeatureWall, toWorldPoint } from './geometry';
+
+export interface WallOpening {
+  featureId: string;
+  roomId: string; // the room that owns the feature
+  type: WallFeature['type'];
+  start: number; // distance from the wall segment's start
+  end: number;
+}
+
+export interface WallSegment {
+  id: string;
+  start: Point;
+  end: Point;
+  kind: 'interior' | 'exterior';
+  roomIds: string[]; // every room bounded by this stretch of wall
+  openings: WallOpening[];
+}
+
+export interface FeatureConnection {
+  roomIds: string[]; // rooms on either side, including the owner
+  exterior: boolean; // true when one side is outdoors
+}
+
+interface WallLine {
+  dir: Point;
+  normal: Point;
+  offset: number;
+  spans: { roomId: string; from: number; to: number }[];
+}
+
+const EPSILON = 1e-6;
+
+const round = (value: number, step: number) => Math.round(value / step) * step;
+
+// Collinear edges share a supporting line. The direction is canonicalised (pointing right,
+// or down when vertical) so opposite-facing edges of neighbouring rooms land on the same key.
+const getLine = (a: Point, b: Point) => {
+  const length = Math.hypot(b.x - a.x, b.y - a.y);
+  let dir = { x: (b.x - a.x) / length, y: (b.y - a.y) / length };
+  if (dir.x < -EPSILON || (Math.abs(dir.x) <= EPSILON && dir.y < 0)) dir = { x: -dir.x, y: -dir.y };
+  const normal = { x: -dir.y, y: dir.x };
+  const offset = normal.x * a.x + normal.y * a.y;
+  const key = `${round(dir.x, 1e-6).toFixed(6)},${round(dir.y, 1e-6).toFixed(6)},${round(offset, 1e-3).toFixed(3)}`;
+  return { key, dir, normal, offset };
+};
+
+const project = (line: { dir: Point }, p: Point) => line.dir.x * p.x + line.dir.y * p.y;
+
+const pointOnLine = (line: WallLine, t: number): Point => ({
+  x: line.dir.x * t + line.normal.x * line.offset,
+  y: line.dir.y * t + line.normal.y * line.offset,
+});
+
+const collectLines = (rooms: Room[]) => {
+  const lines = new Map<string, WallLine>();
+  rooms.forEach(room => {
+    const outline = getRoomOutline(room);
+    outline.forEach((a, i) => {
+      const b = outline[(i + 1) % outline.length];
+      if (Math.hypot(b.x - a.x, b.y - a.y) < EPSILON) return;
+      const { key, dir, normal, offset } = getLine(a, b);
+      if (!lines.has(key)) lines.set(key, { dir, normal, offset, spans: [] });
+      const line = lines.get(key)!;
+      const ta = project(line, a);
+      const tb = project(line, b);
+      line.spans.push({ roomId: room.id, from: Math.min(ta, tb), to: Math.max(ta, tb) });
+    });
+  });
+  return lines;
+};
+
+/**
+ * Derives a wall model from room outlines. Collinear edges are overlaid and split wherever
+ * the set of rooms they bound changes, so a wall shared by two rooms becomes one interior
+ * segment instead of two overlapping borders. Doors and windows are attached as openings on
+ * the segments they cut through.
+ */
+export const buildWallGraph = (rooms: Room[]): WallSegment[] => {
+  const lines = collectLines(rooms);
+  const segments: (WallSegment & { line: WallLine; from: number; to: number })[] = [];
+
+  [...lines.keys()].sort().forEach(key => {
+    const line = lines.get(key)!;
+    const breaks = [...new Set(line.spans.flatMap(s => [s.from, s.to]))].sort((a, b) => a - b);
+
+    let current: { from: number; to: number; roomIds: string[] } | null = null;
+    const flush = () => {
+      if (!current) return;
+      segments.push({
+        id: `wall-${segments.length + 1}`,
+        start: pointOnLine(line, current.from),
+        end: pointOnLine(line, current.to),
+        kind: current.roomIds.length > 1 ? 'interior' : 'exterior',
+        roomIds: current.roomIds,
+        openings: [],
+        line,
+        from: current.from,
+        to: current.to,
+      });
+      current = null;
+    };
+
+    for (let i = 0; i < breaks.length - 1; i++) {
+      const from = breaks[i];
+      const to = breaks[i + 1];
+      if (to - from < EPSILON) continue;
+      const mid = (from + to) / 2;
+      const roomIds = [...new Set(line.spans.filter(s => s.from <= mid && mid <= s.to).map(s => s.roomId))].sort();
+      if (roomIds.length === 0) {
+        flush();
+        continue;
+      }
+      if (current && Math.abs(current.to - from) < EPSILON && current.roomIds.join() === roomIds.join()) {
+        current.to = to;
+      } else {
+        flush();
+        current = { from, to, roomIds };
+      }
+    }
+    flush();
+  });
+
+  rooms.forEach(room => {
+    room.features?.forEach(feature => {
+      const wall = getFeatureWall(feature, room);
+      const a = toWorldPoint(room, wall.start);
+      const b = toWorldPoint(room, wall.end);
+      if (Math.hypot(b.x - a.x, b.y - a.y) < EPSILON) return;
+      const { key } = getLine(a, b);
+      const line = lines.get(key);
+      if (!line) return;
+      const ta = project(line, a);
+      const tb = project(line, b);
+      const center = ta + (tb - ta) * feature.position;
+      const from = center - feature.width / 2;
+      const to = center + feature.width / 2;
+
+      segments.forEach(segment => {
+        if (segment.line !== line || to <= segment.from || from >= segment.to) return;
+        segment.openings.push({
+          featureId: feature.id,
+          roomId: room.id,
+          type: feature.type,
+          start: Math.max(from, segment.from) - segment.from,
+          end: Math.min(to, segment.to) - segment.from,
+        });
+      });
+    });
+  });
+
+  return segments.map(({ line, from, to, ...segment }) => ({
+    ...segment,
+    openings: segment.openings.sort((a, b) => a.start - b.start),
+  }));
+};
+
+/** Which rooms each door or window links, read off the wall segments it cuts through. */
+export const getFeatureConnections = (walls: WallSegment[]): Record<string, FeatureConnection> => {
+  const connections: Record<string, FeatureConnection> = {};
+  walls.forEach(wall => {
+    wall.openings.forEach(opening => {
+      const existing = connections[opening.featureId] ?? { roomIds: [], exterior: false };
+      connections[opening.featureId] = {
+        roomIds: [...new Set([...existing.roomIds, ...wall.roomIds])],
+        exterior: existing.exterior || wall.kind === 'exterior',
+      };
+    });
+  });
+  return connections;
+};
+
+/** The solid stretches of a wall segment once its openings are cut out. */
+export const getWallPieces = (wall: WallSegment): { start: Point; end: Point }[] => {
+  const length = Math.hypot(wall.end.x - wall.start.x, wall.end.y - wall.start.y);
+  if (length < EPSILON) return [];
+  const at = (d: number): Point => ({
+    x: wall.start.x + ((wall.end.x - wall.start.x) * d) / length,
+    y: wall.start.y + ((wall.end.y - wall.start.y) * d) / length,
+  });
+
+  const pieces: { start: Point; end: Point }[] = [];
+  let cursor = 0;
+  wall.openings.forEach(opening => {
+    if (opening.start > cursor + EPSILON) pieces.push({ start: at(cursor), end: at(opening.start) });
+    cursor = Math.max(cursor, opening.end);
+  });
+  if (cursor < length - EPSILON) pieces.push({ start: at(cursor), end: at(length) });
+  return pieces;
+};